@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import { Menu, Home, BarChart3, Hammer, TrendingUp, Users, Activity, FileText, Share2, History, BookOpen } from 'lucide-react';
-import { ContractProvider } from './components/narrative/ContractContext';
+import React, { useState, useEffect, useRef } from 'react';
+import { Menu, Home, BarChart3, Hammer, TrendingUp, Users, Activity, FileText, Share2, History, BookOpen, Layers, Database } from 'lucide-react';
+import { ContractProvider, useContract } from './components/narrative/ContractContext';
+import { AuditProvider, useAudit } from './components/narrative/AuditContext';
 import { NarrativeIntro } from './components/screens/NarrativeIntro';
 import type { Player } from './data/playerDatabase';
 import { getPlayerById, loadPlayersFromCsv } from './data/playerDatabase';
@@ -11,16 +12,23 @@ import { ContractArchitecture } from './components/screens/ContractArchitecture'
 import { ContractSummary } from './components/screens/ContractSummary';
 import { Overview } from './components/screens/Overview';
 import { DealBuilder } from './components/screens/DealBuilder';
+import { ScenarioComparison } from './components/screens/ScenarioComparison';
 import { ValuationComps } from './components/screens/ValuationComps';
 import { TeamFit } from './components/screens/TeamFit';
 import { Projections } from './components/screens/Projections';
 import { OfferSheet } from './components/screens/OfferSheet';
 import { ShareExport } from './components/screens/ShareExport';
 import { Audit } from './components/screens/Audit';
+import { DataHealth } from './components/screens/DataHealth';
 import { Mocap } from './components/screens/Mocap';
 import { MocapReport } from './components/screens/MocapReport';
 import { NarrativeSidePanel } from './components/narrative/NarrativeSidePanel';
 import { cn } from './components/ui/utils';
+import { restoreEstimatedValueSettings } from './components/screens/EstimatedValue';
+import { saveSelectedTeamId } from './hooks/usePayrollData';
+import { readSharedStateFromUrl, clearSharedStateFromUrl } from './services/shareLinkService';
+import { migrateLegacyPlayerStorage, resolveStoredPlayerId, resolveValuationSettingsIds } from './services/playerIdMigrationService';
+import type { SharedPresentationState } from './types';
 
 type Mode = 'narrative' | 'exploration';
 type Screen = 
@@ -35,16 +43,40 @@ type Screen =
   | 'mocap-report'
   | 'overview' 
   | 'builder' 
+  | 'scenarios'
   | 'valuation' 
   | 'teamfit' 
   | 'projections' 
   | 'offer' 
   | 'share' 
-  | 'audit';
+  | 'audit'
+  | 'data-health';
 
 const APP_STATE_KEY = 'borasApp_state';
 
+/**
+ * Reads a share link from the URL and saves the club, which screens load from
+ * localStorage when they mount; valuation settings are saved once players load
+ * and the link's player id is resolved
+ */
+function hydrateFromShareLink(): SharedPresentationState | null {
+  const shared = readSharedStateFromUrl();
+  if (!shared) return null;
+  if (shared.teamId) {
+    try {
+      saveSelectedTeamId(shared.teamId);
+    } catch (error) {
+      console.warn('Failed to save shared team selection to localStorage:', error);
+    }
+  }
+  return shared;
+}
+
 function AppContent() {
+  // A share link takes precedence over the saved session
+  const [sharedState] = useState(hydrateFromShareLink);
+  const pendingShareRef = useRef(sharedState);
+
   // Load initial state from localStorage
   const getInitialState = () => {
     if (typeof window !== 'undefined') {
@@ -80,7 +112,15 @@ function AppContent() {
     };
   };
 
-  const initialState = getInitialState();
+  const initialState = sharedState
+    ? {
+        ...getInitialState(),
+        mode: 'narrative' as Mode,
+        currentScreen: 'player-stats' as Screen,
+        selectedPlayerId: sharedState.playerId as string | null,
+        selectedCompIds: sharedState.compIds,
+      }
+    : getInitialState();
   const [mode, setMode] = useState<Mode>(initialState.mode);
   const [currentScreen, setCurrentScreen] = useState<Screen>(initialState.currentScreen);
   const [previousScreen, setPreviousScreen] = useState<Screen | null>(null);
@@ -91,11 +131,79 @@ function AppContent() {
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
   const [selectedComps, setSelectedComps] = useState<Player[]>([]);
   const [playersLoaded, setPlayersLoaded] = useState(false);
+  const { setScenarioOwner, openSharedScenario } = useContract();
+  const { setAuditOwner, recordEvent } = useAudit();
+  const lastCompsRef = useRef({ playerId: selectedPlayerId, compIds: selectedCompIds });
+
+  // Contract scenarios and their audit trail are saved per player; wait for
+  // players so a saved name key is resolved to the player's id first
+  useEffect(() => {
+    if (!playersLoaded) return;
+    setAuditOwner(selectedPlayerId);
+    if (pendingShareRef.current) {
+      openSharedScenario(selectedPlayerId, pendingShareRef.current);
+      pendingShareRef.current = null;
+      clearSharedStateFromUrl();
+    } else {
+      setScenarioOwner(selectedPlayerId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playersLoaded, selectedPlayerId]);
+
+  // Pasting a share link into an open tab only changes the hash; reload so it hydrates
+  useEffect(() => {
+    const handleHashChange = () => {
+      if (readSharedStateFromUrl()) window.location.reload();
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Log comp selection changes; switching players is not a comp edit
+  useEffect(() => {
+    const last = lastCompsRef.current;
+    lastCompsRef.current = { playerId: selectedPlayerId, compIds: selectedCompIds };
+    if (last.playerId !== selectedPlayerId || last.compIds === selectedCompIds) return;
+
+    const names = (ids: string[]) => ids.map(id => getPlayerById(id)?.name ?? id).join(', ') || 'None';
+    const added = selectedCompIds.filter(id => !last.compIds.includes(id));
+    const removed = last.compIds.filter(id => !selectedCompIds.includes(id));
+    if (added.length === 0 && removed.length === 0) return;
+
+    recordEvent({
+      category: 'comps',
+      action: [added.length > 0 && `Added ${names(added)}`, removed.length > 0 && `Removed ${names(removed)}`]
+        .filter(Boolean)
+        .join('; '),
+      changes: [{ field: 'compIds', label: 'Comps', from: names(last.compIds), to: names(selectedCompIds) }],
+      compIds: selectedCompIds,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedPlayerId, selectedCompIds]);
 
   // Load CSV data on mount
   useEffect(() => {
     loadPlayersFromCsv()
-      .then(() => {
+      .then((players) => {
+        // Selections, share links and per-player saves from before MLBAM ids
+        // hold the player's normalized name
+        migrateLegacyPlayerStorage(players);
+        const resolveId = (id: string) => resolveStoredPlayerId(id, players) ?? id;
+        const current = lastCompsRef.current;
+        const playerId = current.playerId && resolveId(current.playerId);
+        const resolvedCompIds = current.compIds.map(resolveId);
+        const compIds = resolvedCompIds.some((id, i) => id !== current.compIds[i]) ? resolvedCompIds : current.compIds;
+        // Rewriting ids is not a comp edit; keep it out of the audit trail
+        lastCompsRef.current = { playerId, compIds };
+        setSelectedPlayerId(playerId);
+        setSelectedCompIds(compIds);
+
+        if (sharedState?.valuationSettings) {
+          restoreEstimatedValueSettings(
+            resolveId(sharedState.playerId),
+            resolveValuationSettingsIds(sharedState.valuationSettings, players)
+          );
+        }
         setPlayersLoaded(true);
       })
       .catch((err) => {
@@ -141,12 +249,14 @@ function AppContent() {
   const navigation = [
     { id: 'overview', label: 'Overview', icon: BarChart3 },
     { id: 'builder', label: 'Deal Builder', icon: Hammer },
+    { id: 'scenarios', label: 'Scenarios', icon: Layers },
     { id: 'valuation', label: 'Valuation & Comps', icon: TrendingUp },
     { id: 'teamfit', label: 'Team Fit', icon: Users },
     { id: 'projections', label: 'Projections', icon: Activity },
     { id: 'offer', label: 'Offer Sheet', icon: FileText },
     { id: 'share', label: 'Share & Export', icon: Share2 },
     { id: 'audit', label: 'Audit', icon: History },
+    { id: 'data-health', label: 'Data Health', icon: Database },
   ];
 
   // Show loading screen while players are being loaded (only if we need them)
@@ -241,6 +351,8 @@ function AppContent() {
         
         if (currentScreen === 'contract-architecture') {
           return <ContractArchitecture 
+            player={selectedPlayer}
+            comps={selectedComps}
             onContinue={() => setCurrentScreen('contract-summary')}
             onBack={() => setCurrentScreen('team-fit')}
           />;
@@ -422,12 +534,16 @@ function AppContent() {
       <div className="flex-1 overflow-hidden">
         {currentScreen === 'overview' && <Overview onEditBuilder={() => setCurrentScreen('builder')} />}
         {currentScreen === 'builder' && <DealBuilder />}
+        {currentScreen === 'scenarios' && <ScenarioComparison />}
         {currentScreen === 'valuation' && <ValuationComps />}
         {currentScreen === 'teamfit' && <TeamFit />}
-        {currentScreen === 'projections' && <Projections />}
-        {currentScreen === 'offer' && <OfferSheet />}
-        {currentScreen === 'share' && <ShareExport />}
-        {currentScreen === 'audit' && <Audit />}
+        {currentScreen === 'projections' && <Projections player={selectedPlayer} />}
+        {currentScreen === 'offer' && <OfferSheet player={selectedPlayer} />}
+        {currentScreen === 'share' && <ShareExport player={selectedPlayer} comps={selectedComps} />}
+        {currentScreen === 'audit' && (
+          <Audit playerId={selectedPlayerId} onRestoreComps={(ids) => setSelectedCompIds(ids)} />
+        )}
+        {currentScreen === 'data-health' && <DataHealth />}
         {currentScreen === 'mocap' && <Mocap onBack={() => setCurrentScreen('intro')} player={selectedPlayer} backLabel="Back to Intro" />}
       </div>
     </div>
@@ -436,8 +552,10 @@ function AppContent() {
 
 export default function App() {
   return (
-    <ContractProvider>
-      <AppContent />
-    </ContractProvider>
+    <AuditProvider>
+      <ContractProvider>
+        <AppContent />
+      </ContractProvider>
+    </AuditProvider>
   );
 }
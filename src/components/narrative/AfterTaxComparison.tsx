@@ -0,0 +1,157 @@
+import React, { useState, useMemo } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useContract } from './ContractContext';
+import {
+  compareAfterTaxByTeam,
+  grossToMatchNet,
+  getResidenceJurisdictions,
+  TAX_TABLES_VERSION,
+} from '../../services/afterTaxService';
+
+interface AfterTaxComparisonProps {
+  teams: { id: string; name: string }[];
+  selectedTeamId: string;
+}
+
+const TEAM_HOME = 'team-home';
+
+export function AfterTaxComparison({ teams, selectedTeamId }: AfterTaxComparisonProps) {
+  const { terms, yearlyBreakdown, deferralSchedule } = useContract();
+  const [residence, setResidence] = useState<string>(TEAM_HOME);
+  const [retirementResidence, setRetirementResidence] = useState<string>(TEAM_HOME);
+
+  const jurisdictions = getResidenceJurisdictions();
+  const hasDeferrals = deferralSchedule.payoutSeasons.length > 0;
+
+  // Team lists are rebuilt on every render upstream; key the comparison on the ids
+  const teamIds = teams.map(t => t.id).join(',');
+
+  const results = useMemo(
+    () => compareAfterTaxByTeam(
+      terms,
+      { yearlyBreakdown, deferralSchedule },
+      teamIds ? teamIds.split(',') : [],
+      {
+        residence: residence === TEAM_HOME ? null : residence,
+        retirementResidence: retirementResidence === TEAM_HOME ? null : retirementResidence,
+      }
+    ),
+    [terms, yearlyBreakdown, deferralSchedule, teamIds, residence, retirementResidence]
+  );
+
+  const selected = results.find(r => r.teamId === selectedTeamId);
+  const best = results[0];
+  const seasonCount = Math.max(1, terms.years);
+
+  const renderResidenceSelect = (value: string, onChange: (val: string) => void, homeLabel: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[170px] h-7 bg-[#0B0B0C] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-[#17181B] border-[rgba(255,255,255,0.14)]">
+        <SelectItem value={TEAM_HOME} className="text-[#ECEDEF] focus:bg-[#004B73]/20 focus:text-[#ECEDEF] text-xs">
+          {homeLabel}
+        </SelectItem>
+        {jurisdictions.map(j => (
+          <SelectItem
+            key={j.code}
+            value={j.code}
+            className="text-[#ECEDEF] focus:bg-[#004B73]/20 focus:text-[#ECEDEF] text-xs"
+          >
+            {j.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (results.length === 0) {
+    return (
+      <div className="h-[120px] flex items-center justify-center text-[#A3A8B0] text-sm">
+        No teams to compare.
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <span className="text-[#A3A8B0] text-xs">Residence:</span>
+          {renderResidenceSelect(residence, setResidence, "Team's home state")}
+        </div>
+        {hasDeferrals && (
+          <div className="flex items-center gap-2">
+            <span className="text-[#A3A8B0] text-xs">During payouts:</span>
+            {renderResidenceSelect(retirementResidence, setRetirementResidence, 'Same as residence')}
+          </div>
+        )}
+      </div>
+
+      {selected && best && (
+        <div className="grid grid-cols-3 gap-3 text-xs mb-4">
+          <div className="bg-[#121315] rounded p-3">
+            <div className="text-[#A3A8B0] mb-1">Net Value ({selected.teamId})</div>
+            <div className="text-[#ECEDEF]">${selected.net.toFixed(1)}M</div>
+          </div>
+          <div className="bg-[#121315] rounded p-3">
+            <div className="text-[#A3A8B0] mb-1">Effective Tax Rate</div>
+            <div className="text-[#ECEDEF]">{(selected.effectiveRate * 100).toFixed(1)}%</div>
+          </div>
+          <div className="bg-[#121315] rounded p-3">
+            <div className="text-[#A3A8B0] mb-1">Gap to Best ({best.teamId})</div>
+            <div className={best.teamId === selected.teamId ? 'text-emerald-400' : 'text-[#F472B6]'}>
+              {best.teamId === selected.teamId ? 'Best net' : `-$${(best.net - selected.net).toFixed(1)}M`}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="max-h-[320px] overflow-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-[rgba(255,255,255,0.14)]">
+              <th className="text-left text-[#A3A8B0] pb-2">Team</th>
+              <th className="text-left text-[#A3A8B0] pb-2">Tax Home</th>
+              <th className="text-right text-[#A3A8B0] pb-2">Eff. Rate</th>
+              <th className="text-right text-[#A3A8B0] pb-2">Net / Yr</th>
+              <th className="text-right text-[#A3A8B0] pb-2">Net PV</th>
+              <th className="text-right text-[#A3A8B0] pb-2">Gross to Match</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(result => {
+              const isSelected = result.teamId === selectedTeamId;
+              // Gross this club would need to pay to match the selected club's net
+              const matchGross = selected ? grossToMatchNet(result, selected) : result.gross;
+              const matchDelta = matchGross - result.gross;
+              return (
+                <tr
+                  key={result.teamId}
+                  className={`border-b border-[rgba(255,255,255,0.08)] ${isSelected ? 'bg-[#004B73]/20' : ''}`}
+                >
+                  <td className="py-2 text-[#ECEDEF]">
+                    {teams.find(t => t.id === result.teamId)?.name || result.teamId}
+                  </td>
+                  <td className="text-[#A3A8B0]">{result.jurisdictionName}</td>
+                  <td className="text-right text-[#ECEDEF]">{(result.effectiveRate * 100).toFixed(1)}%</td>
+                  <td className="text-right text-[#ECEDEF]">${(result.net / seasonCount).toFixed(1)}M</td>
+                  <td className="text-right text-[#A8B4BD]">${result.netPresentValue.toFixed(1)}M</td>
+                  <td className={`text-right ${isSelected ? 'text-[#A3A8B0]' : matchDelta > 0 ? 'text-[#F472B6]' : 'text-emerald-400'}`}>
+                    {isSelected ? '—' : `$${matchGross.toFixed(1)}M (${matchDelta >= 0 ? '+' : '-'}$${Math.abs(matchDelta).toFixed(1)}M)`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[#A3A8B0] text-xs mt-3 italic">
+        * Federal, FICA, state, local and Canadian tax from {TAX_TABLES_VERSION} tables; single filer, US tax resident.<br />
+        * Jock tax assumes half of duty days at home and the rest spread evenly across road parks.<br />
+        * Deferrals paid over 10+ years are taxed only by the residence during payouts. Canada taxes Toronto-earned deferrals when earned.<br />
+        * Gross to Match is the total that club would need to pay for the same net as the selected team.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { createContext, useContext, useState, ReactNode, useEffect, useMemo } from 'react';
+import { appendAuditEvent, groupAuditVersions } from '../../services/auditTrailService';
+import type { NewAuditEvent } from '../../services/auditTrailService';
+import type { AuditEvent, AuditVersion } from '../../types';
+
+interface AuditContextType {
+  events: AuditEvent[];
+  versions: AuditVersion[];
+  ownerId: string | null;
+  recordEvent: (event: NewAuditEvent) => void;
+  markVersion: (label: string) => void;
+  setAuditOwner: (playerId: string | null) => void;
+}
+
+const AuditContext = createContext<AuditContextType | undefined>(undefined);
+
+const AUDIT_STORAGE_PREFIX = 'borasApp_auditTrail_';
+// Matches ContractContext: history recorded before a player is chosen
+const UNASSIGNED_OWNER = 'unassigned';
+
+interface AuditStore {
+  ownerId: string;
+  events: AuditEvent[];
+}
+
+function loadAuditStore(ownerId: string): AuditStore {
+  if (typeof window !== 'undefined') {
+    try {
+      const stored = localStorage.getItem(`${AUDIT_STORAGE_PREFIX}${ownerId}`);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed?.events)) return { ownerId, events: parsed.events };
+      }
+    } catch (error) {
+      console.warn('Failed to load audit trail from localStorage:', error);
+    }
+  }
+  return { ownerId, events: [] };
+}
+
+export function AuditProvider({ children }: { children: ReactNode }) {
+  const [store, setStore] = useState<AuditStore>(() => loadAuditStore(UNASSIGNED_OWNER));
+
+  // Save the player's history whenever it changes
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        localStorage.setItem(`${AUDIT_STORAGE_PREFIX}${store.ownerId}`, JSON.stringify({ events: store.events }));
+      } catch (error) {
+        console.warn('Failed to save audit trail to localStorage:', error);
+      }
+    }
+  }, [store]);
+
+  const setAuditOwner = (playerId: string | null) => {
+    const ownerId = playerId || UNASSIGNED_OWNER;
+    setStore(prev => (prev.ownerId === ownerId ? prev : loadAuditStore(ownerId)));
+  };
+
+  const recordEvent = (event: NewAuditEvent) => {
+    setStore(prev => ({ ...prev, events: appendAuditEvent(prev.events, event) }));
+  };
+
+  // Closes the current version under a label (e.g. "Sent to club")
+  const markVersion = (label: string) => {
+    recordEvent({ category: 'checkpoint', action: `Checkpoint: ${label}`, label, changes: [] });
+  };
+
+  const versions = useMemo(() => groupAuditVersions(store.events), [store.events]);
+
+  return (
+    <AuditContext.Provider value={{
+      events: store.events,
+      versions,
+      ownerId: store.ownerId === UNASSIGNED_OWNER ? null : store.ownerId,
+      recordEvent,
+      markVersion,
+      setAuditOwner,
+    }}>
+      {children}
+    </AuditContext.Provider>
+  );
+}
+
+export function useAudit() {
+  const context = useContext(AuditContext);
+  if (!context) {
+    throw new Error('useAudit must be used within AuditProvider');
+  }
+  return context;
+}
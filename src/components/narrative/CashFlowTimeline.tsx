@@ -0,0 +1,128 @@
+import React from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Download } from 'lucide-react';
+import { SBButton } from '../boras/SBButton';
+import { cashFlowTimelineToCsv } from '../../services/deferralScheduleService';
+import type { DeferralSchedule } from '../../types';
+
+interface CashFlowTimelineProps {
+  schedule: DeferralSchedule;
+  height?: number;
+}
+
+export function CashFlowTimeline({ schedule, height = 280 }: CashFlowTimelineProps) {
+  const chartData = schedule.timeline.map(row => ({
+    season: row.season.toString(),
+    currentCash: row.currentCash,
+    deferredPaid: row.deferredPaid,
+    presentValue: row.presentValue,
+  }));
+
+  const handleExport = () => {
+    const blob = new Blob([cashFlowTimelineToCsv(schedule)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cash-flow-timeline.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-lg p-3">
+          <p className="text-[#ECEDEF] text-sm font-semibold mb-2">{label}</p>
+          {payload.map((entry: any, index: number) => (
+            <p key={index} className="text-xs" style={{ color: entry.color }}>
+              {entry.name}: ${Number(entry.value).toFixed(1)}M
+            </p>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 50, bottom: chartData.length > 5 ? 40 : 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+          <XAxis
+            dataKey="season"
+            stroke="#A3A8B0"
+            style={{ fontSize: '12px' }}
+            tick={{ fill: '#A3A8B0' }}
+          />
+          <YAxis
+            stroke="#A3A8B0"
+            style={{ fontSize: '12px' }}
+            width={45}
+            tickFormatter={(value) => `$${value}M`}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <Legend wrapperStyle={{ fontSize: '12px', color: '#A3A8B0' }} iconType="square" />
+          <Bar dataKey="currentCash" stackId="nominal" fill="#A8B4BD" name="Paid In-Season" />
+          <Bar dataKey="deferredPaid" stackId="nominal" fill="#60A5FA" name="Deferred Payout" radius={[4, 4, 0, 0]} />
+          <Line type="monotone" dataKey="presentValue" stroke="#F472B6" strokeWidth={2} dot={false} name="Present Value" />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="grid grid-cols-4 gap-3 text-xs mt-4">
+        <div className="bg-[#121315] rounded p-3">
+          <div className="text-[#A3A8B0] mb-1">Total Nominal</div>
+          <div className="text-[#ECEDEF]">${schedule.totalNominal.toFixed(1)}M</div>
+        </div>
+        <div className="bg-[#121315] rounded p-3">
+          <div className="text-[#A3A8B0] mb-1">Present Value</div>
+          <div className="text-[#ECEDEF]">${schedule.totalPresentValue.toFixed(1)}M</div>
+        </div>
+        <div className="bg-[#121315] rounded p-3">
+          <div className="text-[#A3A8B0] mb-1">Deferred</div>
+          <div className="text-[#ECEDEF]">${schedule.totalDeferred.toFixed(1)}M</div>
+        </div>
+        <div className="bg-[#121315] rounded p-3">
+          <div className="text-[#A3A8B0] mb-1">Deferral Interest</div>
+          <div className="text-[#ECEDEF]">${schedule.totalInterest.toFixed(1)}M</div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mt-6 mb-3">
+        <h4 className="text-[#A8B4BD] text-sm">Timeline Table</h4>
+        <SBButton variant="secondary" size="sm" icon={<Download size={14} />} onClick={handleExport}>
+          Export CSV
+        </SBButton>
+      </div>
+      <div className="max-h-[260px] overflow-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-[rgba(255,255,255,0.14)]">
+              <th className="text-left text-[#A3A8B0] pb-2">Season</th>
+              <th className="text-right text-[#A3A8B0] pb-2">In-Season</th>
+              <th className="text-right text-[#A3A8B0] pb-2">Deferred Paid</th>
+              <th className="text-right text-[#A3A8B0] pb-2">Nominal</th>
+              <th className="text-right text-[#A3A8B0] pb-2">PV</th>
+              <th className="text-right text-[#A3A8B0] pb-2">Cum. PV</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.timeline.map(row => (
+              <tr key={row.season} className="border-b border-[rgba(255,255,255,0.08)]">
+                <td className="py-2 text-[#ECEDEF]">{row.season}</td>
+                <td className="text-right text-[#ECEDEF]">${row.currentCash.toFixed(1)}M</td>
+                <td className="text-right text-[#60A5FA]">${row.deferredPaid.toFixed(1)}M</td>
+                <td className="text-right text-[#ECEDEF]">${row.nominal.toFixed(1)}M</td>
+                <td className="text-right text-[#F472B6]">${row.presentValue.toFixed(1)}M</td>
+                <td className="text-right text-[#A8B4BD]">${row.cumulativePresentValue.toFixed(1)}M</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[#A3A8B0] text-xs mt-3 italic">
+        * Present values discounted to {schedule.timeline[0]?.season} at {schedule.discountRate.toFixed(2)}% (federal mid-term rate).
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React from 'react';
+import { calculateCbtTax, getCbtRules } from '../../services/cbtService';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import type { CbtTier } from '../../types';
+
+interface CbtTaxSummaryProps {
+  season: number;
+  basePayroll: number;
+  playerCharge: number; // Player's CBT charge for the season in $M
+  consecutiveYearsOver: number; // Consecutive seasons over going into `season`
+  firstSeason: number; // First season of the projection
+  priorYearsOver: number; // Club's consecutive seasons over before `firstSeason`
+  onPriorYearsOverChange: (years: number) => void;
+}
+
+const TIER_LABELS: Record<CbtTier, string> = {
+  under: 'Under',
+  tier1: 'Tier 1',
+  tier2: 'Tier 2',
+  tier3: 'Tier 3',
+  tier4: 'Tier 4',
+};
+
+// Base rates stop rising at the third straight season
+const PRIOR_YEARS_OPTIONS = [
+  { value: 0, label: 'None (first-time payor)' },
+  { value: 1, label: '1 season' },
+  { value: 2, label: '2+ seasons' },
+];
+
+const PAYOR_LABELS = ['first-time payor', '2nd straight season', '3rd+ straight season'];
+
+export function CbtTaxSummary({
+  season,
+  basePayroll,
+  playerCharge,
+  consecutiveYearsOver,
+  firstSeason,
+  priorYearsOver,
+  onPriorYearsOverChange,
+}: CbtTaxSummaryProps) {
+  const rules = getCbtRules(season);
+  const withPlayer = calculateCbtTax(basePayroll + playerCharge, season, consecutiveYearsOver);
+  const withoutPlayer = calculateCbtTax(basePayroll, season, consecutiveYearsOver);
+  const playerTax = withPlayer.tax - withoutPlayer.tax;
+  const payorIndex = Math.min(consecutiveYearsOver, 2);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-[#A3A8B0] text-xs">Consecutive CBT seasons before {firstSeason}:</span>
+        <Select value={Math.min(priorYearsOver, 2).toString()} onValueChange={(value: string) => onPriorYearsOverChange(parseInt(value))}>
+          <SelectTrigger className="w-[190px] h-7 bg-[#0B0B0C] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-[#17181B] border-[rgba(255,255,255,0.14)]">
+            {PRIOR_YEARS_OPTIONS.map((option) => (
+              <SelectItem
+                key={option.value}
+                value={option.value.toString()}
+                className="text-[#ECEDEF] focus:bg-[#004B73]/20 focus:text-[#ECEDEF] text-xs"
+              >
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-3 gap-3 text-xs">
+        <div className="bg-[#121315] rounded p-3">
+          <div className="text-[#A3A8B0] mb-1">CBT Threshold{rules.projected ? ' (proj.)' : ''}</div>
+          <div className="text-[#ECEDEF]">${rules.threshold.toFixed(1)}M</div>
+        </div>
+        <div className="bg-[#121315] rounded p-3">
+          <div className="text-[#A3A8B0] mb-1">CBT Status</div>
+          <div className={withPlayer.tier === 'under' ? 'text-emerald-400' : 'text-[#F472B6]'}>
+            {TIER_LABELS[withPlayer.tier]}
+            {withPlayer.overage > 0 && ` (+$${withPlayer.overage.toFixed(1)}M)`}
+          </div>
+        </div>
+        <div className="bg-[#121315] rounded p-3">
+          <div className="text-[#A3A8B0] mb-1">Club CBT Tax with Player</div>
+          <div className="text-[#ECEDEF]">
+            ${withPlayer.tax.toFixed(1)}M <span className="text-[#A3A8B0]">(+${playerTax.toFixed(1)}M from player)</span>
+          </div>
+          <div className="text-[#A3A8B0] mt-1">
+            {Math.round(rules.baseRates[payorIndex] * 100)}% base rate, {PAYOR_LABELS[payorIndex]}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,207 +1,443 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-
-export interface ContractTerms {
-  // Base Terms
-  years: number;
-  baseAAV: number;
-  
-  // Structure
-  signingBonus: number;
-  salaryStructure: 'even' | 'front-loaded' | 'back-loaded';
-  frontLoadPercent: number;
-  
-  // Deferrals
-  deferralPercent: number;
-  deferralYears: number;
-  deferralInterest: number;
-  
-  // Bonuses
-  performanceBonus: number;
-  awardBonus: number;
-  playingTimeBonus: number;
-  
-  // Options & Clauses
-  optOutYear: number | null;
-  teamOptionYear: number | null;
-  teamOptionValue: number;
-  buyoutValue: number;
-  noTradeClause: 'full' | 'limited' | 'none';
-  limitedNoTradeTeams: number;
-  
-  // Escalators
-  hasEscalator: boolean;
-  escalatorPercent: number;
-  escalatorTrigger: string;
-  
-  // Other
-  signing2024: boolean;
-  taxConsiderations: boolean;
-}
+import React, { createContext, useContext, useState, ReactNode, useEffect, useMemo } from 'react';
+import {
+  calculateContractBreakdown,
+  normalizeContractTerms,
+  DEFAULT_CONTRACT_TERMS,
+} from '../../services/contractCalculationService';
+import { distributeBaseSalaries, normalizeCustomSalaries } from '../../services/salaryScheduleService';
+import {
+  createScenario as buildScenario,
+  cloneScenario as copyScenario,
+  uniqueScenarioName,
+  diffContractTerms,
+  hasUnsavedChanges,
+  formatTermValue,
+  getTermLabel,
+  DEFAULT_SCENARIO_NAME,
+} from '../../services/scenarioService';
+import { SCENARIO_DELETED_FIELD } from '../../services/auditTrailService';
+import { useAudit } from './AuditContext';
+import type {
+  ContractTerms,
+  ContractCalculations,
+  ContractScenario,
+  AuditRestorePoint,
+  SharedPresentationState,
+} from '../../types';
 
-interface ContractContextType {
+interface ContractContextType extends ContractCalculations {
   terms: ContractTerms;
-  updateTerm: (key: keyof ContractTerms, value: any) => void;
+  updateTerm: <K extends keyof ContractTerms>(key: K, value: ContractTerms[K]) => void;
   resetTerms: () => void;
-  
-  // Calculated values
-  totalValue: number;
-  guaranteedValue: number;
-  potentialValue: number;
-  cbtImpact: number;
-  yearlyBreakdown: YearlyBreakdown[];
-}
 
-export interface YearlyBreakdown {
-  year: number;
-  baseSalary: number;
-  bonus: number;
-  deferred: number;
-  totalCash: number;
-  cbtHit: number;
+  // Named scenarios for the current player; `terms` is the active one
+  scenarios: ContractScenario[];
+  activeScenarioId: string;
+  selectScenario: (id: string) => void;
+  createScenario: (name: string, terms?: ContractTerms) => string;
+  cloneScenario: (id: string) => string;
+  renameScenario: (id: string, name: string) => void;
+  deleteScenario: (id: string) => void;
+  // Saves the active scenario in place, or under a new name as a new scenario
+  // (the original goes back to its last saved version); returns the saved id
+  saveScenario: (name: string) => string;
+  // Returns the active scenario to its last saved version
+  revertScenario: () => void;
+  setScenarioOwner: (playerId: string | null) => void;
+  // Puts scenarios back as they were at an audit version
+  restoreScenarios: (scenarios: AuditRestorePoint['scenarios'], versionNumber: number) => void;
+  // Switches to `playerId` and opens a share link's terms as the active scenario
+  openSharedScenario: (playerId: string | null, shared: SharedPresentationState) => void;
 }
 
 const ContractContext = createContext<ContractContextType | undefined>(undefined);
 
-const defaultTerms: ContractTerms = {
-  years: 7,
-  baseAAV: 30,
-  signingBonus: 15,
-  salaryStructure: 'front-loaded',
-  frontLoadPercent: 15,
-  deferralPercent: 0,
-  deferralYears: 10,
-  deferralInterest: 2.5,
-  performanceBonus: 2,
-  awardBonus: 1,
-  playingTimeBonus: 1,
-  optOutYear: 4,
-  teamOptionYear: null,
-  teamOptionValue: 25,
-  buyoutValue: 5,
-  noTradeClause: 'full',
-  limitedNoTradeTeams: 10,
-  hasEscalator: false,
-  escalatorPercent: 5,
-  escalatorTrigger: 'MVP finish',
-  signing2024: true,
-  taxConsiderations: false,
+// Single-contract key from before scenarios. It seeds the first player whose
+// scenarios are opened (the player restored from the saved selection, the one
+// it was written for) and is removed once that player's scenarios are saved
+const LEGACY_STORAGE_KEY = 'borasApp_contractTerms';
+const SCENARIOS_STORAGE_PREFIX = 'borasApp_scenarios_';
+// Scenarios saved before a player is chosen
+const UNASSIGNED_OWNER = 'unassigned';
+
+// Bump when the persisted shape changes and add a migration from the previous version
+export const CONTRACT_TERMS_SCHEMA_VERSION = 5;
+
+interface StoredScenarios {
+  schemaVersion: number; // Schema of each scenario's terms
+  activeScenarioId: string;
+  scenarios: ContractScenario[];
+}
+
+interface ScenarioStore {
+  ownerId: string;
+  activeScenarioId: string;
+  scenarios: ContractScenario[];
+}
+
+type TermsMigration = (terms: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version being migrated from
+const MIGRATIONS: Record<number, TermsMigration> = {
+  // v1 stored the bare terms object with context-only flags
+  1: ({ signing2024, taxConsiderations, ...terms }) => terms,
+  // v2 contracts always started in 2026
+  2: terms => ({ startSeason: 2026, ...terms }),
+  // v3 had no custom salary schedule
+  3: terms => ({ customSalaries: [], ...terms }),
+  // v4 paid deferrals from the season after the contract ended
+  4: terms => ({ deferralPayoutDelay: 0, ...terms }),
 };
 
-const STORAGE_KEY = 'borasApp_contractTerms';
+/**
+ * Upgrades terms saved under `fromVersion` to the current schema
+ */
+function migrateTerms(raw: unknown, fromVersion: number): ContractTerms {
+  let terms = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  for (let version = fromVersion; version < CONTRACT_TERMS_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) terms = migrate(terms);
+  }
+  return normalizeContractTerms(terms);
+}
 
-export function ContractProvider({ children }: { children: ReactNode }) {
-  // Load initial terms from localStorage if available
-  const getInitialTerms = (): ContractTerms => {
-    if (typeof window !== 'undefined') {
-      try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        if (stored) {
-          const parsed = JSON.parse(stored);
-          // Validate that stored data has all required fields
-          if (parsed && typeof parsed === 'object') {
-            return { ...defaultTerms, ...parsed };
-          }
-        }
-      } catch (error) {
-        console.warn('Failed to load contract terms from localStorage:', error);
+/**
+ * Reads the legacy single-contract blob of any schema version
+ * Unversioned blobs are treated as v1
+ */
+function migrateStoredTerms(stored: unknown): ContractTerms {
+  const blob = stored && typeof stored === 'object' ? (stored as Record<string, unknown>) : {};
+  const versioned = typeof blob.schemaVersion === 'number' && blob.terms && typeof blob.terms === 'object';
+  return migrateTerms(versioned ? blob.terms : blob, versioned ? (blob.schemaVersion as number) : 1);
+}
+
+function scenariosStorageKey(ownerId: string): string {
+  return `${SCENARIOS_STORAGE_PREFIX}${ownerId}`;
+}
+
+function defaultStore(ownerId: string, terms: ContractTerms = DEFAULT_CONTRACT_TERMS): ScenarioStore {
+  const scenario = buildScenario(DEFAULT_SCENARIO_NAME, terms);
+  return { ownerId, activeScenarioId: scenario.id, scenarios: [scenario] };
+}
+
+/**
+ * Loads a player's scenarios, seeding from the legacy single-contract key
+ * (or defaults) the first time a player is opened
+ */
+function loadScenarioStore(ownerId: string): ScenarioStore {
+  if (typeof window === 'undefined') return defaultStore(ownerId);
+
+  try {
+    const stored = localStorage.getItem(scenariosStorageKey(ownerId));
+    if (stored) {
+      const blob = JSON.parse(stored) as Partial<StoredScenarios>;
+      const fromVersion = typeof blob.schemaVersion === 'number' ? blob.schemaVersion : 1;
+      const scenarios = (Array.isArray(blob.scenarios) ? blob.scenarios : [])
+        .filter(s => s && typeof s.id === 'string')
+        .map(s => {
+          const terms = migrateTerms(s.terms, fromVersion);
+          return {
+            id: s.id,
+            name: typeof s.name === 'string' ? s.name : DEFAULT_SCENARIO_NAME,
+            terms,
+            // Scenarios stored before saving existed count as saved
+            savedTerms: s.savedTerms ? migrateTerms(s.savedTerms, fromVersion) : terms,
+            createdAt: s.createdAt ?? new Date().toISOString(),
+            updatedAt: s.updatedAt ?? new Date().toISOString(),
+          };
+        });
+      if (scenarios.length > 0) {
+        const activeScenarioId = scenarios.some(s => s.id === blob.activeScenarioId)
+          ? (blob.activeScenarioId as string)
+          : scenarios[0].id;
+        return { ownerId, activeScenarioId, scenarios };
       }
     }
-    return defaultTerms;
-  };
 
-  const [terms, setTerms] = useState<ContractTerms>(getInitialTerms);
+    const legacy = ownerId === UNASSIGNED_OWNER ? null : localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) return defaultStore(ownerId, migrateStoredTerms(JSON.parse(legacy)));
+  } catch (error) {
+    console.warn('Failed to load contract scenarios from localStorage:', error);
+  }
+  return defaultStore(ownerId);
+}
+
+/**
+ * Applies one term edit, keeping a custom schedule in step with the length
+ * and guarantee; switching to custom starts from the current shape
+ */
+function applyTermUpdate<K extends keyof ContractTerms>(prev: ContractTerms, key: K, value: ContractTerms[K]): ContractTerms {
+  const next = { ...prev, [key]: value };
+  if (next.salaryStructure !== 'custom' || key === 'customSalaries') return next;
+
+  if (key === 'salaryStructure' || key === 'years' || key === 'baseAAV') {
+    const seed = prev.salaryStructure === 'custom' ? prev.customSalaries : distributeBaseSalaries(prev);
+    next.customSalaries = normalizeCustomSalaries(seed, next.years, next.baseAAV * next.years);
+  }
+  return next;
+}
+
+export function ContractProvider({ children }: { children: ReactNode }) {
+  const [store, setStore] = useState<ScenarioStore>(() => loadScenarioStore(UNASSIGNED_OWNER));
+  const { recordEvent } = useAudit();
+
+  const activeScenario = store.scenarios.find(s => s.id === store.activeScenarioId) ?? store.scenarios[0];
+  const terms = activeScenario.terms;
 
-  // Save terms to localStorage whenever they change
+  // Save the player's scenarios whenever they change
   useEffect(() => {
     if (typeof window !== 'undefined') {
       try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(terms));
+        const stored: StoredScenarios = {
+          schemaVersion: CONTRACT_TERMS_SCHEMA_VERSION,
+          activeScenarioId: store.activeScenarioId,
+          scenarios: store.scenarios,
+        };
+        localStorage.setItem(scenariosStorageKey(store.ownerId), JSON.stringify(stored));
+        if (store.ownerId !== UNASSIGNED_OWNER) localStorage.removeItem(LEGACY_STORAGE_KEY);
       } catch (error) {
-        console.warn('Failed to save contract terms to localStorage:', error);
+        console.warn('Failed to save contract scenarios to localStorage:', error);
       }
     }
-  }, [terms]);
+  }, [store]);
+
+  const setScenarioOwner = (playerId: string | null) => {
+    const ownerId = playerId || UNASSIGNED_OWNER;
+    setStore(prev => (prev.ownerId === ownerId ? prev : loadScenarioStore(ownerId)));
+  };
+
+  const setActiveTerms = (update: (prev: ContractTerms) => ContractTerms) => {
+    setStore(prev => ({
+      ...prev,
+      scenarios: prev.scenarios.map(s =>
+        s.id === prev.activeScenarioId
+          ? { ...s, terms: update(s.terms), updatedAt: new Date().toISOString() }
+          : s
+      ),
+    }));
+  };
 
-  const updateTerm = (key: keyof ContractTerms, value: any) => {
-    setTerms(prev => ({ ...prev, [key]: value }));
+  const updateTerm = <K extends keyof ContractTerms>(key: K, value: ContractTerms[K]) => {
+    const next = applyTermUpdate(terms, key, value);
+    recordEvent({
+      category: 'terms',
+      action: `Edited ${getTermLabel(key)}`,
+      scenarioId: activeScenario.id,
+      scenarioName: activeScenario.name,
+      changes: [{ field: key, label: getTermLabel(key), from: formatTermValue(key, terms), to: formatTermValue(key, next) }],
+      terms: next,
+    });
+    setActiveTerms(prev => applyTermUpdate(prev, key, value));
   };
 
   const resetTerms = () => {
-    setTerms(defaultTerms);
-    // Clear localStorage when resetting
-    if (typeof window !== 'undefined') {
-      try {
-        localStorage.removeItem(STORAGE_KEY);
-      } catch (error) {
-        console.warn('Failed to clear contract terms from localStorage:', error);
-      }
+    recordEvent({
+      category: 'scenario',
+      action: 'Reset terms to defaults',
+      scenarioId: activeScenario.id,
+      scenarioName: activeScenario.name,
+      changes: [{ field: 'reset', label: 'Terms', from: 'Edited', to: 'Defaults' }],
+      terms: DEFAULT_CONTRACT_TERMS,
+    });
+    setActiveTerms(() => DEFAULT_CONTRACT_TERMS);
+  };
+
+  const selectScenario = (id: string) => {
+    setStore(prev => (prev.scenarios.some(s => s.id === id) ? { ...prev, activeScenarioId: id } : prev));
+  };
+
+  const addScenario = (scenario: ContractScenario, action: string) => {
+    recordEvent({
+      category: 'scenario',
+      action,
+      scenarioId: scenario.id,
+      scenarioName: scenario.name,
+      changes: [{ field: 'created', label: 'Scenario', from: '—', to: scenario.name }],
+      terms: scenario.terms,
+    });
+    setStore(prev => ({ ...prev, activeScenarioId: scenario.id, scenarios: [...prev.scenarios, scenario] }));
+    return scenario.id;
+  };
+
+  const createScenario = (name: string, scenarioTerms: ContractTerms = DEFAULT_CONTRACT_TERMS) => {
+    const scenario = buildScenario(uniqueScenarioName(name, store.scenarios.map(s => s.name)), scenarioTerms);
+    return addScenario(scenario, `Created scenario "${scenario.name}"`);
+  };
+
+  const cloneScenario = (id: string) => {
+    const source = store.scenarios.find(s => s.id === id);
+    if (!source) return store.activeScenarioId;
+    return addScenario(copyScenario(source, store.scenarios.map(s => s.name)), `Cloned "${source.name}"`);
+  };
+
+  const renameScenario = (id: string, name: string) => {
+    const trimmed = name.trim();
+    const scenario = store.scenarios.find(s => s.id === id);
+    if (!trimmed || !scenario) return;
+    recordEvent({
+      category: 'scenario',
+      action: `Renamed "${scenario.name}"`,
+      scenarioId: id,
+      scenarioName: trimmed,
+      changes: [{ field: 'name', label: 'Name', from: scenario.name, to: trimmed }],
+      terms: scenario.terms,
+    });
+    setStore(prev => ({
+      ...prev,
+      scenarios: prev.scenarios.map(s => (s.id === id ? { ...s, name: trimmed, updatedAt: new Date().toISOString() } : s)),
+    }));
+  };
+
+  // The last scenario cannot be deleted
+  const deleteScenario = (id: string) => {
+    const scenario = store.scenarios.find(s => s.id === id);
+    if (!scenario || store.scenarios.length <= 1) return;
+    recordEvent({
+      category: 'scenario',
+      action: `Deleted scenario "${scenario.name}"`,
+      scenarioId: id,
+      scenarioName: scenario.name,
+      changes: [{ field: SCENARIO_DELETED_FIELD, label: 'Scenario', from: scenario.name, to: '—' }],
+    });
+    setStore(prev => {
+      if (prev.scenarios.length <= 1) return prev;
+      const scenarios = prev.scenarios.filter(s => s.id !== id);
+      const activeScenarioId = prev.activeScenarioId === id ? scenarios[0].id : prev.activeScenarioId;
+      return { ...prev, activeScenarioId, scenarios };
+    });
+  };
+
+  const recordRevert = (scenario: ContractScenario) => {
+    recordEvent({
+      category: 'scenario',
+      action: `Reverted "${scenario.name}" to last saved`,
+      scenarioId: scenario.id,
+      scenarioName: scenario.name,
+      changes: [{ field: 'reverted', label: 'Terms', from: 'Edited', to: 'Last saved' }],
+      terms: scenario.savedTerms,
+    });
+  };
+
+  const saveScenario = (name: string) => {
+    const trimmed = name.trim() || activeScenario.name;
+    if (trimmed === activeScenario.name) {
+      recordEvent({
+        category: 'scenario',
+        action: `Saved "${activeScenario.name}"`,
+        scenarioId: activeScenario.id,
+        scenarioName: activeScenario.name,
+        changes: [{ field: 'saved', label: 'Saved', from: '—', to: activeScenario.name }],
+        terms,
+      });
+      setStore(prev => ({
+        ...prev,
+        scenarios: prev.scenarios.map(s => (s.id === prev.activeScenarioId ? { ...s, savedTerms: s.terms } : s)),
+      }));
+      return activeScenario.id;
+    }
+
+    const sourceId = activeScenario.id;
+    const scenario = buildScenario(uniqueScenarioName(trimmed, store.scenarios.map(s => s.name)), terms);
+    if (hasUnsavedChanges(activeScenario)) {
+      recordRevert(activeScenario);
     }
+    setStore(prev => ({
+      ...prev,
+      scenarios: prev.scenarios.map(s => (s.id === sourceId ? { ...s, terms: s.savedTerms } : s)),
+    }));
+    return addScenario(scenario, `Saved as "${scenario.name}"`);
   };
 
-  // Calculate yearly breakdown
-  const calculateYearlyBreakdown = (): YearlyBreakdown[] => {
-    const breakdown: YearlyBreakdown[] = [];
-    const totalYears = terms.years;
-    
-    for (let i = 0; i < totalYears; i++) {
-      let baseSalary = terms.baseAAV;
-      
-      // Apply salary structure
-      if (terms.salaryStructure === 'front-loaded') {
-        if (i < 3) {
-          baseSalary = terms.baseAAV * (1 + terms.frontLoadPercent / 100);
-        } else {
-          baseSalary = terms.baseAAV * (1 - terms.frontLoadPercent / 200);
-        }
-      } else if (terms.salaryStructure === 'back-loaded') {
-        if (i < totalYears - 3) {
-          baseSalary = terms.baseAAV * (1 - terms.frontLoadPercent / 200);
-        } else {
-          baseSalary = terms.baseAAV * (1 + terms.frontLoadPercent / 100);
-        }
-      }
-      
-      // Add signing bonus to first year
-      const bonus = i === 0 ? terms.signingBonus : 0;
-      
-      // Calculate deferrals
-      const deferred = (baseSalary + bonus) * (terms.deferralPercent / 100);
-      const totalCash = baseSalary + bonus - deferred;
-      
-      // CBT calculation (simplified)
-      const cbtHit = terms.baseAAV - (deferred / totalYears);
-      
-      breakdown.push({
-        year: 2026 + i,
-        baseSalary: Math.round(baseSalary * 10) / 10,
-        bonus: Math.round(bonus * 10) / 10,
-        deferred: Math.round(deferred * 10) / 10,
-        totalCash: Math.round(totalCash * 10) / 10,
-        cbtHit: Math.round(cbtHit * 10) / 10,
+  const revertScenario = () => {
+    if (!hasUnsavedChanges(activeScenario)) return;
+    recordRevert(activeScenario);
+    setActiveTerms(() => activeScenario.savedTerms);
+  };
+
+  // Existing scenarios take the restored terms; deleted ones come back under
+  // their old id. Scenarios created after the version are left alone.
+  const restoreScenarios = (restored: AuditRestorePoint['scenarios'], versionNumber: number) => {
+    if (restored.length === 0) return;
+    // Logged with snapshots so the restored state can itself be restored later
+    restored.forEach(r => recordEvent({
+      category: 'scenario',
+      action: `Restored "${r.name}" from version ${versionNumber}`,
+      scenarioId: r.id,
+      scenarioName: r.name,
+      changes: [{ field: 'restored', label: 'Restored From', from: '—', to: `Version ${versionNumber}` }],
+      terms: r.terms,
+    }));
+    setStore(prev => {
+      const now = new Date().toISOString();
+      const byId = new Map(restored.map(r => [r.id, r]));
+      const scenarios = prev.scenarios.map(s => {
+        const r = byId.get(s.id);
+        return r ? { ...s, name: r.name, terms: normalizeContractTerms(r.terms), updatedAt: now } : s;
       });
+      const missing = restored
+        .filter(r => !prev.scenarios.some(s => s.id === r.id))
+        .map(r => {
+          const terms = normalizeContractTerms(r.terms);
+          return { id: r.id, name: r.name, terms, savedTerms: terms, createdAt: now, updatedAt: now };
+        });
+      const activeScenarioId = byId.has(prev.activeScenarioId) ? prev.activeScenarioId : restored[0].id;
+      return { ...prev, activeScenarioId, scenarios: [...scenarios, ...missing] };
+    });
+  };
+
+  // The shared terms are added next to the player's own scenarios rather than
+  // overwriting them; opening the same link twice reuses the first copy
+  const openSharedScenario = (playerId: string | null, shared: SharedPresentationState) => {
+    const ownerId = playerId || UNASSIGNED_OWNER;
+    const base = store.ownerId === ownerId ? store : loadScenarioStore(ownerId);
+    const sharedTerms = migrateTerms(shared.terms, shared.termsSchemaVersion);
+    const name = shared.scenarioName.trim() || DEFAULT_SCENARIO_NAME;
+
+    const existing = base.scenarios.find(
+      s => (s.name === name || s.name.startsWith(`${name} (shared)`)) && diffContractTerms(s.terms, sharedTerms).length === 0
+    );
+    if (existing) {
+      setStore({ ...base, activeScenarioId: existing.id });
+      return;
     }
-    
-    return breakdown;
+
+    const existingNames = base.scenarios.map(s => s.name);
+    const scenario = buildScenario(
+      existingNames.includes(name) ? uniqueScenarioName(`${name} (shared)`, existingNames) : name,
+      sharedTerms
+    );
+    recordEvent({
+      category: 'scenario',
+      action: `Opened shared scenario "${scenario.name}"`,
+      scenarioId: scenario.id,
+      scenarioName: scenario.name,
+      changes: [{ field: 'created', label: 'Scenario', from: '—', to: scenario.name }],
+      terms: scenario.terms,
+    });
+    setStore({ ...base, activeScenarioId: scenario.id, scenarios: [...base.scenarios, scenario] });
   };
 
-  const yearlyBreakdown = calculateYearlyBreakdown();
-  
-  // Calculations
-  const totalValue = yearlyBreakdown.reduce((sum, year) => sum + year.baseSalary + year.bonus, 0);
-  const guaranteedValue = totalValue * (terms.teamOptionYear ? 0.85 : 1);
-  const potentialValue = totalValue + (terms.performanceBonus + terms.awardBonus + terms.playingTimeBonus) * terms.years;
-  const cbtImpact = yearlyBreakdown[0]?.cbtHit || terms.baseAAV;
+  // Single calculation pipeline shared with the rest of the app
+  const calculations = useMemo(() => calculateContractBreakdown(terms), [terms]);
 
   return (
     <ContractContext.Provider value={{
       terms,
       updateTerm,
       resetTerms,
-      totalValue,
-      guaranteedValue,
-      potentialValue,
-      cbtImpact,
-      yearlyBreakdown,
+      scenarios: store.scenarios,
+      activeScenarioId: activeScenario.id,
+      selectScenario,
+      createScenario,
+      cloneScenario,
+      renameScenario,
+      deleteScenario,
+      saveScenario,
+      revertScenario,
+      setScenarioOwner,
+      restoreScenarios,
+      openSharedScenario,
+      ...calculations,
     }}>
       {children}
     </ContractContext.Provider>
@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import { motion } from 'motion/react';
+import { InteractiveChart } from './InteractiveChart';
+import { SBKpi } from '../boras/SBKpi';
+import { buildPlayerProjection, simulateContractOutcomes } from '../../services/contractSimulationService';
+import type { ContractTerms } from '../../types';
+import type { Player } from '../../data/playerDatabase';
+
+interface ContractSimulationPanelProps {
+  terms: ContractTerms;
+  player: Player | null;
+}
+
+export function ContractSimulationPanel({ terms, player }: ContractSimulationPanelProps) {
+  const simulation = useMemo(() => {
+    if (!player) return null;
+    return simulateContractOutcomes(terms, buildPlayerProjection(player));
+  }, [terms, player]);
+
+  const histogramData = useMemo(() => {
+    if (!simulation) return [];
+    return simulation.histogram.map(bin => ({
+      range: `$${Math.round((bin.binStart + bin.binEnd) / 2)}M`,
+      share: bin.share,
+    }));
+  }, [simulation]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+      className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 mb-8 grain-overlay"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-[#ECEDEF]">Outcome Simulation</h3>
+        {simulation && (
+          <span className="text-[#A3A8B0] text-xs">
+            {simulation.trials.toLocaleString()} simulated careers{player ? ` • ${player.name}` : ''}
+          </span>
+        )}
+      </div>
+
+      {!simulation ? (
+        <div className="h-[120px] flex items-center justify-center text-[#A3A8B0] text-sm">
+          Select a player to simulate clause outcomes.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-4 gap-4 mb-6">
+            <SBKpi label="P10 Total" value={`$${Math.round(simulation.p10)}M`} />
+            <SBKpi label="P50 Total" value={`$${Math.round(simulation.p50)}M`} />
+            <SBKpi label="P90 Total" value={`$${Math.round(simulation.p90)}M`} />
+            <SBKpi label="Mean Total" value={`$${Math.round(simulation.mean)}M`} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-[#A8B4BD] text-sm mb-3">Distribution of Total Value</h4>
+              <InteractiveChart
+                data={histogramData}
+                type="bar"
+                dataKey="share"
+                xKey="range"
+                color="#60A5FA"
+                height={240}
+                valueIsPercent
+              />
+            </div>
+
+            <div>
+              <h4 className="text-[#A8B4BD] text-sm mb-3">Clause Probabilities</h4>
+              {simulation.clauses.length === 0 ? (
+                <p className="text-[#A3A8B0] text-xs">No contingent clauses in the current structure.</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-[rgba(255,255,255,0.14)]">
+                      <th className="text-left text-[#A3A8B0] pb-2">Clause</th>
+                      <th className="text-right text-[#A3A8B0] pb-2">Per Season</th>
+                      <th className="text-right text-[#A3A8B0] pb-2">Ever Pays</th>
+                      <th className="text-right text-[#A3A8B0] pb-2">Expected Payout</th>
+                      <th className="text-right text-[#A3A8B0] pb-2">Value Effect</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {simulation.clauses.map(outcome => (
+                      <tr key={outcome.clause} className="border-b border-[rgba(255,255,255,0.08)]">
+                        <td className="py-2 text-[#ECEDEF]">{outcome.label}</td>
+                        <td className="text-right text-[#ECEDEF]">{Math.round(outcome.probability * 100)}%</td>
+                        <td className="text-right text-[#A8B4BD]">{Math.round(outcome.probabilityAny * 100)}%</td>
+                        <td className="text-right text-[#ECEDEF]">
+                          {outcome.expectedForgone > 0
+                            ? `$${outcome.expectedForgone.toFixed(1)}M forgone`
+                            : `$${outcome.expectedPayout.toFixed(1)}M`}
+                        </td>
+                        <td className={outcome.expectedValueEffect < 0 ? 'text-right text-[#F472B6]' : 'text-right text-emerald-400'}>
+                          {outcome.expectedValueEffect < 0 ? '-' : '+'}${Math.abs(outcome.expectedValueEffect).toFixed(1)}M
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <p className="text-[#A3A8B0] text-xs mt-3 italic">
+                * Careers are drawn from the player's projected WAR and playing time with aging and injury risk.<br />
+                * Opt-out shows how often it is exercised and the guaranteed money walked away from when the market beats it; that loss appears only in its value effect.
+              </p>
+            </div>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import html2canvas from 'html2canvas-pro';
+import type { Player } from '../../data/playerDatabase';
+import { PlayerStats } from '../screens/PlayerStats';
+import { PlayerComparisons } from '../screens/PlayerComparisons';
+import { EstimatedValue } from '../screens/EstimatedValue';
+import { TeamFit } from '../screens/TeamFit';
+import { ContractArchitecture } from '../screens/ContractArchitecture';
+import { ContractSummary } from '../screens/ContractSummary';
+import { createDeckPdf, pdfFileName } from '../../services/pdfExportService';
+import type { DeckPage } from '../../services/pdfExportService';
+
+interface PresentationDeckExportProps {
+  player: Player;
+  comps: Player[];
+  onProgress: (step: number, total: number, title: string) => void;
+  onComplete: (error?: unknown) => void;
+}
+
+// Width the screens are laid out at while captured
+const CAPTURE_WIDTH = 1280;
+// Time for data loads, chart animations and motion entrances to finish
+const SETTLE_MS = 2000;
+
+const noop = () => {};
+
+const DECK_SCREENS: { title: string; render: (player: Player, comps: Player[]) => React.ReactNode }[] = [
+  { title: 'Player Stats', render: (player) => <PlayerStats player={player} onContinue={noop} onBack={noop} /> },
+  { title: 'Player Comparisons', render: (player, comps) => <PlayerComparisons player={player} comps={comps} onContinue={noop} onBack={noop} /> },
+  { title: 'Estimated Value', render: (player, comps) => <EstimatedValue player={player} comps={comps} onContinue={noop} onBack={noop} /> },
+  { title: 'Team Fit', render: (player, comps) => <TeamFit player={player} comps={comps} onContinue={noop} onBack={noop} /> },
+  { title: 'Contract Architecture', render: (player, comps) => <ContractArchitecture player={player} comps={comps} onContinue={noop} onBack={noop} /> },
+  {
+    title: 'Contract Summary',
+    render: (player, comps) => (
+      <ContractSummary player={player} comps={comps} onExploreData={noop} onStartOver={noop} onBack={noop} />
+    ),
+  },
+];
+
+/**
+ * Screens are built as full-height scrolling views; let every section grow
+ * so the capture holds the whole screen rather than the first viewport
+ */
+function expandForCapture(root: HTMLElement): void {
+  root.querySelectorAll<HTMLElement>('.h-screen, .min-h-screen, .overflow-auto, .overflow-hidden, .overflow-y-auto').forEach(el => {
+    el.style.height = 'auto';
+    el.style.maxHeight = 'none';
+    el.style.overflow = 'visible';
+  });
+}
+
+// Renders the narrative screens one at a time off-screen and saves them as a PDF deck
+export function PresentationDeckExport({ player, comps, onProgress, onComplete }: PresentationDeckExportProps) {
+  const [index, setIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pagesRef = useRef<DeckPage[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (index >= DECK_SCREENS.length) {
+      try {
+        const doc = createDeckPdf(pagesRef.current, {
+          title: `${player.name} Contract Presentation`,
+          subtitle: `Prepared ${new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`,
+        });
+        doc.save(pdfFileName(player.name, 'Presentation Deck'));
+        onComplete();
+      } catch (error) {
+        onComplete(error);
+      }
+      return;
+    }
+
+    const screen = DECK_SCREENS[index];
+    onProgress(index + 1, DECK_SCREENS.length, screen.title);
+
+    const timer = setTimeout(async () => {
+      const container = containerRef.current;
+      if (cancelled || !container) return;
+      try {
+        expandForCapture(container);
+        const canvas = await html2canvas(container, { backgroundColor: '#0B0B0C', scale: 1.5, logging: false });
+        if (cancelled) return;
+        pagesRef.current.push({ title: screen.title, canvas });
+        setIndex(i => i + 1);
+      } catch (error) {
+        if (!cancelled) onComplete(error);
+      }
+    }, SETTLE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [index]);
+
+  if (index >= DECK_SCREENS.length) return null;
+
+  return (
+    <div
+      aria-hidden
+      style={{ position: 'fixed', left: -10000 - CAPTURE_WIDTH, top: 0, width: CAPTURE_WIDTH, pointerEvents: 'none' }}
+    >
+      <div ref={containerRef} key={index} className="bg-[#0B0B0C]">
+        {DECK_SCREENS[index].render(player, comps)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, Info, CheckCircle2 } from 'lucide-react';
+import type { ContractRuleViolation, ContractTerms, RuleSeverity } from '../../types';
+import { getFieldSeverity, CBA_RULES_VERSION } from '../../services/cbaRulesService';
+
+const SEVERITY_STYLES: Record<RuleSeverity, { icon: typeof Info; text: string; ring: string }> = {
+  error: { icon: AlertCircle, text: 'text-red-400', ring: 'ring-1 ring-red-500/50' },
+  warning: { icon: AlertTriangle, text: 'text-yellow-400', ring: 'ring-1 ring-yellow-500/50' },
+  info: { icon: Info, text: 'text-blue-400', ring: '' },
+};
+
+/**
+ * Highlight classes for an input wrapper based on its worst violation
+ */
+export function ruleHighlightClass(violations: ContractRuleViolation[], field: keyof ContractTerms): string {
+  const severity = getFieldSeverity(violations, field);
+  if (!severity || !SEVERITY_STYLES[severity].ring) return '';
+  return `${SEVERITY_STYLES[severity].ring} rounded-lg p-2 -m-2`;
+}
+
+interface FieldRuleMessagesProps {
+  violations: ContractRuleViolation[];
+  fields: (keyof ContractTerms)[];
+}
+
+// Inline errors and warnings under an input
+export function FieldRuleMessages({ violations, fields }: FieldRuleMessagesProps) {
+  const relevant = violations.filter(v => fields.includes(v.field) && v.severity !== 'info');
+  if (relevant.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      {relevant.map((v, i) => (
+        <p key={`${v.ruleId}-${v.season ?? i}`} className={`text-xs ${SEVERITY_STYLES[v.severity].text}`}>
+          {v.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+interface RuleViolationListProps {
+  violations: ContractRuleViolation[];
+  onSelect?: (violation: ContractRuleViolation) => void;
+}
+
+export function RuleViolationList({ violations, onSelect }: RuleViolationListProps) {
+  const errorCount = violations.filter(v => v.severity === 'error').length;
+  const warningCount = violations.filter(v => v.severity === 'warning').length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[#ECEDEF]">CBA Rule Check</h3>
+        <span className="text-[#A3A8B0] text-xs">
+          {errorCount} error{errorCount === 1 ? '' : 's'} · {warningCount} warning{warningCount === 1 ? '' : 's'} · rules {CBA_RULES_VERSION}
+        </span>
+      </div>
+      {violations.length === 0 ? (
+        <div className="flex items-center gap-2 text-emerald-400 text-sm">
+          <CheckCircle2 size={16} />
+          Terms pass every rule in the current set
+        </div>
+      ) : (
+        <ul className="space-y-2 max-h-[220px] overflow-auto">
+          {violations.map((v, i) => {
+            const { icon: Icon, text } = SEVERITY_STYLES[v.severity];
+            return (
+              <li key={`${v.ruleId}-${v.season ?? i}`}>
+                <button
+                  type="button"
+                  onClick={() => onSelect?.(v)}
+                  className="w-full flex items-start gap-2 text-left bg-[#121315] rounded p-2 hover:bg-[#004B73]/20"
+                >
+                  <Icon size={14} className={`${text} mt-0.5 shrink-0`} />
+                  <span className="text-xs">
+                    <span className="text-[#ECEDEF]">{v.message}</span>
+                    <span className="block text-[#A3A8B0] mt-0.5">{v.citation}</span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { Input } from '../ui/input';
+import { SBButton } from '../boras/SBButton';
+import { redistributeSalaries } from '../../services/salaryScheduleService';
+
+interface SalaryScheduleEditorProps {
+  startSeason: number;
+  salaries: number[];
+  onChange: (salaries: number[]) => void;
+}
+
+export function SalaryScheduleEditor({ startSeason, salaries, onChange }: SalaryScheduleEditorProps) {
+  const [lockedYears, setLockedYears] = useState<number[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  const total = salaries.reduce((sum, s) => sum + s, 0);
+
+  // Drop locks for years that no longer exist
+  useEffect(() => {
+    setLockedYears(prev => prev.filter(i => i < salaries.length));
+  }, [salaries.length]);
+
+  const toggleLock = (index: number) => {
+    setLockedYears(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]));
+  };
+
+  const commit = (index: number) => {
+    const draft = drafts[index];
+    setDrafts(prev => {
+      const { [index]: _, ...rest } = prev;
+      return rest;
+    });
+    if (draft === undefined) return;
+
+    const value = parseFloat(draft);
+    if (isNaN(value)) return;
+    onChange(redistributeSalaries(salaries, index, value, lockedYears));
+  };
+
+  // Spread the unlocked money evenly across the unlocked years
+  const evenOut = () => {
+    const unlocked = salaries.map((_, i) => i).filter(i => !lockedYears.includes(i));
+    if (unlocked.length === 0) return;
+    const unlockedTotal = unlocked.reduce((sum, i) => sum + salaries[i], 0);
+    onChange(salaries.map((s, i) => (lockedYears.includes(i) ? s : unlockedTotal / unlocked.length)));
+  };
+
+  return (
+    <div>
+      <div className="space-y-2">
+        {salaries.map((salary, i) => {
+          const locked = lockedYears.includes(i);
+          return (
+            <div key={i} className="grid grid-cols-[56px_1fr_48px_32px] items-center gap-2">
+              <span className="text-[#A3A8B0] text-xs">{startSeason + i}</span>
+              <Input
+                type="number"
+                value={drafts[i] ?? salary.toFixed(1)}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [i]: e.target.value }))}
+                onBlur={() => commit(i)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commit(i);
+                }}
+                disabled={locked}
+                min={0}
+                step="0.1"
+                className="bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] h-8"
+              />
+              <span className="text-[#A3A8B0] text-xs text-right">
+                {total > 0 ? Math.round((salary / total) * 100) : 0}%
+              </span>
+              <button
+                type="button"
+                onClick={() => toggleLock(i)}
+                className={locked ? 'text-[#A8B4BD]' : 'text-[#A3A8B0] hover:text-[#ECEDEF]'}
+                aria-label={locked ? `Unlock ${startSeason + i}` : `Lock ${startSeason + i}`}
+              >
+                {locked ? <Lock size={14} /> : <Unlock size={14} />}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <span className="text-[#A3A8B0] text-xs">
+          Total base: <span className="text-[#ECEDEF]">${total.toFixed(1)}M</span> (fixed)
+        </span>
+        <SBButton variant="secondary" size="sm" onClick={evenOut}>
+          Even Out Unlocked
+        </SBButton>
+      </div>
+      <p className="text-[#A3A8B0] text-xs mt-2">
+        Editing a year moves the difference across unlocked years so the guarantee stays the same.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Plus, Copy } from 'lucide-react';
+import { SBButton } from '../boras/SBButton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useContract } from './ContractContext';
+
+interface ScenarioSwitcherProps {
+  className?: string;
+}
+
+// Picks the scenario the editors work on, with quick new/clone actions
+export function ScenarioSwitcher({ className }: ScenarioSwitcherProps) {
+  const { scenarios, activeScenarioId, selectScenario, createScenario, cloneScenario } = useContract();
+
+  return (
+    <div className={`flex items-center gap-2 ${className ?? ''}`}>
+      <span className="text-[#A3A8B0] text-xs">Scenario:</span>
+      <Select value={activeScenarioId} onValueChange={(val: string) => selectScenario(val)}>
+        <SelectTrigger className="w-[180px] h-8 bg-[#0B0B0C] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-[#17181B] border-[rgba(255,255,255,0.14)]">
+          {scenarios.map(scenario => (
+            <SelectItem
+              key={scenario.id}
+              value={scenario.id}
+              className="text-[#ECEDEF] focus:bg-[#004B73]/20 focus:text-[#ECEDEF] text-xs"
+            >
+              {scenario.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <SBButton variant="ghost" size="sm" icon={<Copy size={14} />} onClick={() => cloneScenario(activeScenarioId)}>
+        Clone
+      </SBButton>
+      <SBButton variant="ghost" size="sm" icon={<Plus size={14} />} onClick={() => createScenario('New Scenario')}>
+        New
+      </SBButton>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import type { SurplusValueResult, SurplusValueSettings } from '../../types';
+import type { Player } from '../../data/playerDatabase';
+
+interface SurplusValuePanelProps {
+  surplus: SurplusValueResult | null;
+  settings: SurplusValueSettings;
+  onSettingChange: <K extends keyof SurplusValueSettings>(key: K, value: SurplusValueSettings[K]) => void;
+  player: Player | null;
+  loading?: boolean;
+}
+
+const SETTING_FIELDS: { key: keyof SurplusValueSettings; label: string; max: number }[] = [
+  { key: 'dollarsPerWar', label: 'Market $/WAR ($M)', max: 20 },
+  { key: 'inflationPercent', label: 'Market Inflation (%)', max: 15 },
+  { key: 'discountRate', label: 'Discount Rate (%)', max: 15 },
+];
+
+const formatSurplus = (value: number) => `${value < 0 ? '-' : '+'}$${Math.abs(value).toFixed(1)}M`;
+
+export function SurplusValuePanel({ surplus, settings, onSettingChange, player, loading }: SurplusValuePanelProps) {
+  const chartData = (surplus?.seasons ?? []).map(season => ({
+    season: season.season.toString(),
+    value: season.value,
+    cost: season.cost,
+    cumulativeSurplus: season.cumulativeSurplus,
+    cumulativePresentSurplus: season.cumulativePresentSurplus,
+  }));
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-lg p-3">
+          <p className="text-[#ECEDEF] text-sm font-semibold mb-2">{label}</p>
+          {payload.map((entry: any, index: number) => (
+            <p key={index} className="text-xs" style={{ color: entry.color }}>
+              {entry.name}: ${Number(entry.value).toFixed(1)}M
+            </p>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.42 }}
+      className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 mb-8 grain-overlay"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-[#ECEDEF]">Surplus Value</h3>
+        {surplus && player && (
+          <span className="text-[#A3A8B0] text-xs">
+            {surplus.totalWar.toFixed(1)} projected WAR • {player.name}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        {SETTING_FIELDS.map(field => (
+          <div key={field.key}>
+            <Label className="text-[#A3A8B0] text-xs">{field.label}</Label>
+            <Input
+              type="number"
+              value={Number(settings[field.key].toFixed(2))}
+              onChange={(e) => {
+                const val = parseFloat(e.target.value);
+                if (!isNaN(val) && val >= 0 && val <= field.max) onSettingChange(field.key, val);
+              }}
+              min={0}
+              max={field.max}
+              step="0.1"
+              className="mt-2 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] h-8"
+            />
+          </div>
+        ))}
+      </div>
+
+      {!surplus ? (
+        <div className="h-[120px] flex items-center justify-center text-[#A3A8B0] text-sm">
+          Select a player to price projected production against the contract.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-4 gap-3 text-xs mb-6">
+            <div className="bg-[#121315] rounded p-3">
+              <div className="text-[#A3A8B0] mb-1">Club Surplus</div>
+              <div className={surplus.surplus >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                {formatSurplus(surplus.surplus)}
+              </div>
+            </div>
+            <div className="bg-[#121315] rounded p-3">
+              <div className="text-[#A3A8B0] mb-1">Club Surplus (PV)</div>
+              <div className={surplus.presentSurplus >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                {formatSurplus(surplus.presentSurplus)}
+              </div>
+            </div>
+            <div className="bg-[#121315] rounded p-3">
+              <div className="text-[#A3A8B0] mb-1">Market Value / Cost</div>
+              <div className="text-[#ECEDEF]">
+                ${surplus.totalValue.toFixed(1)}M / ${surplus.totalCost.toFixed(1)}M
+              </div>
+            </div>
+            <div className="bg-[#121315] rounded p-3">
+              <div className="text-[#A3A8B0] mb-1">Contract $/WAR</div>
+              <div className="text-[#A8B4BD]">
+                {surplus.dollarsPerWar === null ? '—' : `$${surplus.dollarsPerWar.toFixed(1)}M`}
+              </div>
+            </div>
+          </div>
+
+          <ResponsiveContainer width="100%" height={280}>
+            <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 50, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+              <XAxis dataKey="season" stroke="#A3A8B0" style={{ fontSize: '12px' }} tick={{ fill: '#A3A8B0' }} />
+              <YAxis
+                stroke="#A3A8B0"
+                style={{ fontSize: '12px' }}
+                width={45}
+                tickFormatter={(value) => `$${value}M`}
+              />
+              <Tooltip content={<CustomTooltip />} />
+              <Legend wrapperStyle={{ fontSize: '12px', color: '#A3A8B0' }} iconType="square" />
+              <ReferenceLine y={0} stroke="rgba(255,255,255,0.3)" />
+              <Bar dataKey="value" fill="#60A5FA" name="Market Value" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="cost" fill="#A8B4BD" name="Cost" radius={[4, 4, 0, 0]} />
+              <Line type="monotone" dataKey="cumulativeSurplus" stroke="#34D399" strokeWidth={2} name="Cumulative Surplus" />
+              <Line
+                type="monotone"
+                dataKey="cumulativePresentSurplus"
+                stroke="#F472B6"
+                strokeWidth={2}
+                strokeDasharray="5 4"
+                name="Cumulative Surplus (PV)"
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+
+          <div className="overflow-x-auto mt-6">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-[rgba(255,255,255,0.14)]">
+                  <th className="text-left text-[#A3A8B0] pb-2">Season</th>
+                  <th className="text-right text-[#A3A8B0] pb-2">WAR</th>
+                  <th className="text-right text-[#A3A8B0] pb-2">Market $/WAR</th>
+                  <th className="text-right text-[#A3A8B0] pb-2">Value</th>
+                  <th className="text-right text-[#A3A8B0] pb-2">Cost</th>
+                  <th className="text-right text-[#A3A8B0] pb-2">Surplus</th>
+                  <th className="text-right text-[#A3A8B0] pb-2">Cum. Surplus</th>
+                  <th className="text-right text-[#A3A8B0] pb-2">Cum. PV Surplus</th>
+                </tr>
+              </thead>
+              <tbody>
+                {surplus.seasons.map(season => (
+                  <tr key={season.season} className="border-b border-[rgba(255,255,255,0.08)]">
+                    <td className="py-2 text-[#ECEDEF]">{season.season}</td>
+                    <td className="text-right text-[#ECEDEF]">{season.war.toFixed(1)}</td>
+                    <td className="text-right text-[#A3A8B0]">${season.marketDollarsPerWar.toFixed(1)}M</td>
+                    <td className="text-right text-[#60A5FA]">${season.value.toFixed(1)}M</td>
+                    <td className="text-right text-[#A8B4BD]">${season.cost.toFixed(1)}M</td>
+                    <td className={`text-right ${season.surplus >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {formatSurplus(season.surplus)}
+                    </td>
+                    <td className="text-right text-[#ECEDEF]">{formatSurplus(season.cumulativeSurplus)}</td>
+                    <td className="text-right text-[#F472B6]">{formatSurplus(season.cumulativePresentSurplus)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-[#A3A8B0] text-xs mt-3 italic">
+            {loading ? 'Loading multi-season data; WAR uses the league prior curve for now. ' : ''}
+            Cost is salary plus expected bonuses earned each season; PV discounts deferred money from its payout dates.
+          </p>
+        </>
+      )}
+    </motion.div>
+  );
+}
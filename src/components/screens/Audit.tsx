@@ -1,172 +1,218 @@
-import React from 'react';
-import { RotateCcw, Clock } from 'lucide-react';
+import React, { useState } from 'react';
+import { RotateCcw, Clock, Flag } from 'lucide-react';
 import { SBButton } from '../boras/SBButton';
 import { SBChip } from '../boras/SBChip';
+import { Input } from '../ui/input';
+import { useAudit } from '../narrative/AuditContext';
+import { useContract } from '../narrative/ContractContext';
+import { restoreEstimatedValueSettings } from './EstimatedValue';
+import { getRestorePoint } from '../../services/auditTrailService';
+import type { AuditCategory, AuditVersion } from '../../types';
 
-export function Audit() {
-  const scenarios = [
-    {
-      id: 1,
-      name: 'Scenario 1: 7yr/$210M',
-      created: 'Oct 29, 2025 10:30 AM',
-      modified: 'Oct 29, 2025 2:15 PM',
-      author: 'Scott Boras',
-      changes: [],
-      isCurrent: true,
-    },
-    {
-      id: 2,
-      name: 'Scenario 2: 6yr/$180M',
-      created: 'Oct 28, 2025 3:45 PM',
-      modified: 'Oct 28, 2025 4:20 PM',
-      author: 'Scott Boras',
-      changes: [
-        { type: 'years', label: '-1 year' },
-        { type: 'aav', label: 'AAV same' },
-      ],
-    },
-    {
-      id: 3,
-      name: 'Scenario 3: 8yr/$240M',
-      created: 'Oct 27, 2025 11:00 AM',
-      modified: 'Oct 27, 2025 11:30 AM',
-      author: 'Scott Boras',
-      changes: [
-        { type: 'years', label: '+1 year' },
-        { type: 'aav', label: 'AAV same' },
-      ],
-    },
-  ];
+interface AuditProps {
+  playerId: string | null;
+  onRestoreComps: (compIds: string[]) => void;
+}
+
+const CATEGORY_LABELS: Record<AuditCategory, string> = {
+  terms: 'Terms',
+  scenario: 'Scenario',
+  comps: 'Comps',
+  valuation: 'Valuation',
+  checkpoint: 'Checkpoint',
+};
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function Audit({ playerId, onRestoreComps }: AuditProps) {
+  const { events, versions, markVersion } = useAudit();
+  const { restoreScenarios } = useContract();
+  const [checkpointLabel, setCheckpointLabel] = useState('');
+  const [restoreMessage, setRestoreMessage] = useState<{ text: string; failed: boolean } | null>(null);
+
+  const newestFirst = [...versions].reverse();
+  const timeline = [...events].reverse();
 
-  const timeline = [
-    {
-      time: 'Oct 29, 2025 2:15 PM',
-      user: 'Scott Boras',
-      action: 'Modified Scenario 1',
-      details: 'Updated incentive structure',
-    },
-    {
-      time: 'Oct 29, 2025 10:30 AM',
-      user: 'Scott Boras',
-      action: 'Created Scenario 1',
-      details: '7yr/$210M front-loaded structure',
-    },
-    {
-      time: 'Oct 28, 2025 4:20 PM',
-      user: 'Scott Boras',
-      action: 'Modified Scenario 2',
-      details: 'Adjusted opt-out timing',
-    },
-    {
-      time: 'Oct 28, 2025 3:45 PM',
-      user: 'Scott Boras',
-      action: 'Created Scenario 2',
-      details: '6yr/$180M conservative option',
-    },
-    {
-      time: 'Oct 27, 2025 11:30 AM',
-      user: 'Scott Boras',
-      action: 'Modified Scenario 3',
-      details: 'Added club option',
-    },
-    {
-      time: 'Oct 27, 2025 11:00 AM',
-      user: 'Scott Boras',
-      action: 'Created Scenario 3',
-      details: '8yr/$240M extended commitment',
-    },
-  ];
+  const handleMarkVersion = () => {
+    const label = checkpointLabel.trim();
+    if (!label) return;
+    markVersion(label);
+    setCheckpointLabel('');
+  };
+
+  const handleRestore = (version: AuditVersion) => {
+    const point = getRestorePoint(events, version);
+    if (!point) {
+      setRestoreMessage({ text: `Version ${version.number} is no longer in the trail`, failed: true });
+      return;
+    }
+    restoreScenarios(point.scenarios, version.number);
+    if (point.compIds) onRestoreComps(point.compIds);
+    if (point.valuationSettings && playerId) restoreEstimatedValueSettings(playerId, point.valuationSettings);
+    setRestoreMessage({ text: `Restored version ${version.number}`, failed: false });
+  };
 
   return (
     <div className="h-screen bg-[#0B0B0C] flex flex-col overflow-hidden">
       {/* Header */}
       <div className="border-b border-[rgba(255,255,255,0.14)] bg-[#121315] px-6 py-4">
-        <div className="max-w-[1200px] mx-auto">
+        <div className="max-w-[1200px] mx-auto flex items-center justify-between">
           <h2 className="text-[#ECEDEF]">Audit Trail</h2>
+          <div className="flex items-center gap-2">
+            <Input
+              value={checkpointLabel}
+              onChange={(e) => setCheckpointLabel(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleMarkVersion();
+              }}
+              placeholder='Version label, e.g. "Sent to club"'
+              className="w-[240px] h-8 bg-[#0B0B0C] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] text-xs"
+            />
+            <SBButton
+              variant="primary"
+              size="sm"
+              icon={<Flag size={14} />}
+              onClick={handleMarkVersion}
+              disabled={!checkpointLabel.trim()}
+            >
+              Mark Version
+            </SBButton>
+          </div>
         </div>
       </div>
-      
+
       {/* Content */}
       <div className="flex-1 overflow-auto">
         <div className="p-6 max-w-[1200px] mx-auto space-y-6">
-          {/* Scenario List */}
+          {/* Version List */}
           <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
-            <h3 className="text-[#ECEDEF] mb-4">Scenario Versions</h3>
-            <div className="space-y-3">
-              {scenarios.map((scenario) => (
-                <div 
-                  key={scenario.id}
-                  className="bg-[#121315] border border-[rgba(255,255,255,0.14)] rounded-lg p-4 hover:border-[#004B73]/30 transition-all"
-                >
-                  <div className="flex items-start justify-between mb-2">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <h4 className="text-[#ECEDEF]">{scenario.name}</h4>
-                        {scenario.isCurrent && (
-                          <SBChip variant="positive">Current</SBChip>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-[#ECEDEF]">Offer Versions</h3>
+              {restoreMessage && (
+                <span className={`${restoreMessage.failed ? 'text-[#F472B6]' : 'text-emerald-400'} text-xs`}>
+                  {restoreMessage.text}
+                </span>
+              )}
+            </div>
+            {newestFirst.length === 0 ? (
+              <p className="text-[#A3A8B0] text-sm">
+                No changes recorded yet. Edits to contract terms, scenarios, comps and valuation weights will appear here.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {newestFirst.map((version, i) => {
+                  const isCurrent = i === 0;
+                  return (
+                    <div
+                      key={version.id}
+                      className="bg-[#121315] border border-[rgba(255,255,255,0.14)] rounded-lg p-4 hover:border-[#004B73]/30 transition-all"
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h4 className="text-[#ECEDEF]">
+                              Version {version.number}
+                              {version.label && <span className="text-[#A8B4BD]"> · {version.label}</span>}
+                            </h4>
+                            {isCurrent && (
+                              <SBChip type="status" variant="positive">Current</SBChip>
+                            )}
+                          </div>
+                          <p className="text-[#A3A8B0] text-sm">
+                            {formatTimestamp(version.startedAt)}
+                            {version.endedAt !== version.startedAt && ` – ${formatTimestamp(version.endedAt)}`}
+                            {' · '}
+                            {version.events.length} {version.events.length === 1 ? 'change' : 'changes'}
+                          </p>
+                        </div>
+                        {!isCurrent && (
+                          <SBButton
+                            variant="secondary"
+                            size="sm"
+                            icon={<RotateCcw size={14} />}
+                            onClick={() => handleRestore(version)}
+                          >
+                            Restore
+                          </SBButton>
                         )}
                       </div>
-                      <p className="text-[#A3A8B0] text-sm">
-                        Created by {scenario.author} on {scenario.created}
-                      </p>
-                    </div>
-                    {!scenario.isCurrent && (
-                      <SBButton 
-                        variant="secondary" 
-                        size="sm"
-                        icon={<RotateCcw size={14} />}
-                      >
-                        Restore
-                      </SBButton>
-                    )}
-                  </div>
-                  
-                  {scenario.changes.length > 0 && (
-                    <div className="flex gap-2 mt-3">
-                      {scenario.changes.map((change, i) => (
-                        <SBChip 
-                          key={i} 
-                          variant={change.type === 'years' ? 'neutral' : 'default'}
-                        >
-                          {change.label}
-                        </SBChip>
-                      ))}
+
+                      {version.changes.length > 0 && (
+                        <table className="w-full text-xs mt-3">
+                          <tbody>
+                            {version.changes.map((change, j) => (
+                              <tr key={j} className="border-b border-[rgba(255,255,255,0.08)]">
+                                <td className="py-1.5 pr-2 w-[90px]">
+                                  <SBChip type="tag" variant="neutral">{CATEGORY_LABELS[change.category]}</SBChip>
+                                </td>
+                                <td className="py-1.5 text-[#A3A8B0]">
+                                  {change.scenarioName && <span className="text-[#A8B4BD]">{change.scenarioName} · </span>}
+                                  {change.label}
+                                </td>
+                                <td className="text-right text-[#A3A8B0] line-through max-w-[260px] truncate">{change.from}</td>
+                                <td className="text-right text-[#ECEDEF] max-w-[260px] truncate pl-3">{change.to}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
                     </div>
-                  )}
-                </div>
-              ))}
-            </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
-          
+
           {/* Timeline */}
           <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
             <div className="flex items-center gap-2 mb-4">
               <Clock size={18} className="text-[#004B73]" />
               <h3 className="text-[#ECEDEF]">Activity Timeline</h3>
             </div>
-            <div className="space-y-4">
-              {timeline.map((item, i) => (
-                <div key={i} className="flex gap-4">
-                  <div className="flex flex-col items-center">
-                    <div className="w-2 h-2 rounded-full bg-[#004B73]"></div>
-                    {i < timeline.length - 1 && (
-                      <div className="w-[2px] h-full bg-[rgba(255,255,255,0.14)] mt-1"></div>
-                    )}
-                  </div>
-                  <div className="flex-1 pb-4">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="text-[#ECEDEF]">{item.action}</span>
+            {timeline.length === 0 ? (
+              <p className="text-[#A3A8B0] text-sm">No activity yet.</p>
+            ) : (
+              <div className="space-y-4">
+                {timeline.map((item, i) => (
+                  <div key={item.id} className="flex gap-4">
+                    <div className="flex flex-col items-center">
+                      <div className="w-2 h-2 rounded-full bg-[#004B73]"></div>
+                      {i < timeline.length - 1 && (
+                        <div className="w-[2px] h-full bg-[rgba(255,255,255,0.14)] mt-1"></div>
+                      )}
                     </div>
-                    <p className="text-[#A3A8B0] text-sm mb-1">{item.details}</p>
-                    <div className="flex items-center gap-3 text-xs text-[#A3A8B0]">
-                      <span>{item.user}</span>
-                      <span>•</span>
-                      <span>{item.time}</span>
+                    <div className="flex-1 pb-4">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-[#ECEDEF]">{item.action}</span>
+                        <SBChip type="tag" variant="neutral">{CATEGORY_LABELS[item.category]}</SBChip>
+                      </div>
+                      {item.changes.map((change, j) => (
+                        <p key={j} className="text-[#A3A8B0] text-sm mb-1">
+                          {change.label}: {change.from} → {change.to}
+                        </p>
+                      ))}
+                      <div className="flex items-center gap-3 text-xs text-[#A3A8B0]">
+                        {item.scenarioName && (
+                          <>
+                            <span>{item.scenarioName}</span>
+                            <span>•</span>
+                          </>
+                        )}
+                        <span>{formatTimestamp(item.timestamp)}</span>
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
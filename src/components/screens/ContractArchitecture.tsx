@@ -1,9 +1,14 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { motion } from 'motion/react';
 import { ArrowRight, ArrowLeft, Settings } from 'lucide-react';
 import { useContract } from '../narrative/ContractContext';
 import { InteractiveChart } from '../narrative/InteractiveChart';
 import { StackedBarChart } from '../narrative/StackedBarChart';
+import { CbtTaxSummary } from '../narrative/CbtTaxSummary';
+import { SalaryScheduleEditor } from '../narrative/SalaryScheduleEditor';
+import { CashFlowTimeline } from '../narrative/CashFlowTimeline';
+import { RuleViolationList, FieldRuleMessages, ruleHighlightClass } from '../narrative/RuleViolations';
+import { ScenarioSwitcher } from '../narrative/ScenarioSwitcher';
 import { SBButton } from '../boras/SBButton';
 import { SBKpi } from '../boras/SBKpi';
 import { Slider } from '../ui/slider';
@@ -13,16 +18,65 @@ import { Input } from '../ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { usePayrollData } from '../../hooks/usePayrollData';
+import { useOptOutValuation } from '../../hooks/useOptOutValuation';
+import { CONTRACT_START_SEASON } from '../../services/contractCalculationService';
+import { validateContract } from '../../services/cbaRulesService';
+import { getConsecutiveYearsOver } from '../../services/cbtService';
+import type { Player } from '../../data/playerDatabase';
+import type { ContractTerms, ContractRuleViolation } from '../../types';
+
+// Seasons a deal can start in, from this offseason to a few years out
+const START_SEASON_OPTIONS = Array.from({ length: 5 }, (_, i) => CONTRACT_START_SEASON - 1 + i);
+
+type ControlTab = 'basic' | 'structure' | 'clauses';
+
+// Tab holding each input, so a rule violation can jump to it
+const FIELD_TABS: Partial<Record<keyof ContractTerms, ControlTab>> = {
+  startSeason: 'basic',
+  years: 'basic',
+  baseAAV: 'basic',
+  signingBonus: 'basic',
+  salaryStructure: 'structure',
+  frontLoadPercent: 'structure',
+  customSalaries: 'structure',
+  deferralPercent: 'structure',
+  deferralYears: 'structure',
+  deferralInterest: 'structure',
+  deferralPayoutDelay: 'structure',
+  performanceBonus: 'structure',
+  awardBonus: 'structure',
+  playingTimeBonus: 'structure',
+};
 
 interface ContractArchitectureProps {
+  player?: Player | null;
+  comps?: Player[];
   onContinue: () => void;
   onBack: () => void;
 }
 
-export function ContractArchitecture({ onContinue, onBack }: ContractArchitectureProps) {
-  const { terms, updateTerm, totalValue, guaranteedValue, potentialValue, cbtImpact, yearlyBreakdown } = useContract();
-  const { selectedTeamId, setSelectedTeamId, selectedTeamData, availableTeams, loading: payrollLoading } = usePayrollData();
+export function ContractArchitecture({ player = null, comps = [], onContinue, onBack }: ContractArchitectureProps) {
+  const { terms, updateTerm, totalValue, guaranteedValue, potentialValue, cbtImpact, yearlyBreakdown, deferralSchedule } = useContract();
+  const optOutValuation = useOptOutValuation(terms, player, comps);
+  const { selectedTeamId, setSelectedTeamId, availableTeams, basePayrollBySeason, priorYearsOver, setPriorYearsOver, loading: payrollLoading } = usePayrollData(terms.startSeason, terms.years);
   const [selectedYear, setSelectedYear] = useState<number>(yearlyBreakdown[0]?.year || 2026);
+  const [activeTab, setActiveTab] = useState<ControlTab>('basic');
+  const violations = useMemo(() => validateContract(terms), [terms]);
+
+  const highlight = (field: keyof ContractTerms) => ruleHighlightClass(violations, field);
+  const tabHasErrors = (tab: ControlTab) =>
+    violations.some(v => v.severity === 'error' && (FIELD_TABS[v.field] ?? 'clauses') === tab);
+
+  const handleSelectViolation = (violation: ContractRuleViolation) => {
+    setActiveTab(FIELD_TABS[violation.field] ?? 'clauses');
+  };
+
+  // Keep the selected year inside the contract when the start season or length changes
+  useEffect(() => {
+    if (!yearlyBreakdown.some(y => y.year === selectedYear)) {
+      setSelectedYear(terms.startSeason);
+    }
+  }, [yearlyBreakdown, selectedYear, terms.startSeason]);
 
   // Chart data
   const cashFlowData = yearlyBreakdown.map(y => ({
@@ -32,43 +86,14 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
     total: y.totalCash,
   }));
 
-  // Team payroll visualization - shows base payroll from CSV + player contract
-  // Data only goes through 2031, so we'll show 2026-2031 (and handle contract years beyond that)
+  // Team payroll visualization - base payroll from CSV under each contract season + player contract
   const teamPayrollData = useMemo(() => {
-    if (!selectedTeamData || payrollLoading) {
-      // Fallback to hardcoded data if loading or no data
-      return yearlyBreakdown.map(y => ({
-        year: y.year.toString(),
-        basePayroll: 180,
-        playerContract: y.totalCash,
-      }));
-    }
-
-    // Create a map of payroll by year from CSV data
-    const payrollByYearMap = new Map<number, number>();
-    selectedTeamData.payrollByYear.forEach(({ year, payroll }) => {
-      payrollByYearMap.set(year, payroll);
-    });
-
-    // Generate data for contract years (2026-2031 and beyond)
-    // For years with missing data, use the last available year's value
-    const yearsWithData = Array.from(payrollByYearMap.keys()).sort((a, b) => b - a);
-    const lastAvailableYear = yearsWithData[0];
-    const lastAvailablePayroll = lastAvailableYear ? payrollByYearMap.get(lastAvailableYear) || 0 : 0;
-    
-    return yearlyBreakdown.map(y => {
-      // Get payroll for this year, or use last available value for missing years
-      let basePayroll = payrollByYearMap.get(y.year);
-      if (basePayroll === undefined) {
-        basePayroll = lastAvailablePayroll;
-      }
-      return {
-        year: y.year.toString(),
-        basePayroll,
-        playerContract: y.totalCash,
-      };
-    });
-  }, [selectedTeamData, yearlyBreakdown, payrollLoading]);
+    return yearlyBreakdown.map((y, i) => ({
+      year: y.year.toString(),
+      basePayroll: basePayrollBySeason[i]?.payroll ?? 0,
+      playerContract: y.totalCash,
+    }));
+  }, [basePayrollBySeason, yearlyBreakdown]);
 
   // Get values for selected year
   const { basePayroll, playerContract, totalPayroll } = useMemo(() => {
@@ -84,12 +109,25 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
     };
   }, [teamPayrollData, selectedYear]);
 
+  // Player's CBT charge for the selected year (AAV plus earned incentives)
+  const selectedYearCbtHit = yearlyBreakdown.find(y => y.year === selectedYear)?.cbtHit ?? cbtImpact;
+
+  // Repeat-payor count going into each season, following the payroll with the player
+  const consecutiveYearsOver = useMemo(
+    () => getConsecutiveYearsOver(
+      yearlyBreakdown.map((y, i) => ({ season: y.year, payroll: (basePayrollBySeason[i]?.payroll ?? 0) + y.cbtHit })),
+      priorYearsOver
+    ),
+    [yearlyBreakdown, basePayrollBySeason, priorYearsOver]
+  );
+
   return (
     <div className="min-h-screen bg-[#0B0B0C] overflow-auto">
       <div className="border-b border-[rgba(255,255,255,0.14)] bg-[#121315] px-6 py-4">
         <div className="max-w-7xl mx-auto flex items-center justify-between">
-          <div>
+          <div className="flex items-center gap-6">
             <h2 className="text-[#ECEDEF]">Contract Structure</h2>
+            <ScenarioSwitcher />
           </div>
           <div className="flex gap-3">
             <SBButton variant="ghost" onClick={onBack} icon={<ArrowLeft size={18} />}>
@@ -106,11 +144,14 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
         <div className="grid grid-cols-3 gap-6">
           {/* Left: Extensive Controls */}
           <div className="col-span-1 space-y-4 pr-2">
-            <Tabs defaultValue="basic" className="w-full">
+            <Tabs value={activeTab} onValueChange={(val: string) => setActiveTab(val as ControlTab)} className="w-full">
               <TabsList className="grid w-full grid-cols-3 bg-[#17181B]">
-                <TabsTrigger value="basic">Basic</TabsTrigger>
-                <TabsTrigger value="structure">Structure</TabsTrigger>
-                <TabsTrigger value="clauses">Clauses</TabsTrigger>
+                {(['basic', 'structure', 'clauses'] as ControlTab[]).map(tab => (
+                  <TabsTrigger key={tab} value={tab} className="capitalize">
+                    {tab}
+                    {tabHasErrors(tab) && <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-red-500" />}
+                  </TabsTrigger>
+                ))}
               </TabsList>
 
               {/* BASIC TAB */}
@@ -123,6 +164,24 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
 
                   <div className="space-y-6">
                     <div>
+                      <Label className="text-[#A3A8B0] mb-3 block">Start Season</Label>
+                      <Select 
+                        value={terms.startSeason.toString()} 
+                        onValueChange={(val: string) => updateTerm('startSeason', parseInt(val))}
+                      >
+                        <SelectTrigger className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                          {START_SEASON_OPTIONS.map(season => (
+                            <SelectItem key={season} value={season.toString()}>{season}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-[#A3A8B0] text-xs mt-2">First season of the deal - drives payroll and CBT years</p>
+                    </div>
+
+                    <div className={highlight('years')}>
                       <Label className="text-[#A3A8B0] mb-3 block">
                         Contract Length: <span className="text-[#A8B4BD]">{terms.years} years</span>
                       </Label>
@@ -148,9 +207,10 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                         />
                       </div>
                       <p className="text-[#A3A8B0] text-xs mt-2">Total commitment duration (1-15 years)</p>
+                      <FieldRuleMessages violations={violations} fields={['years']} />
                     </div>
 
-                    <div>
+                    <div className={highlight('baseAAV')}>
                       <Label className="text-[#A3A8B0] mb-3 block">
                         Base AAV: <span className="text-[#A8B4BD]">${terms.baseAAV}M</span>
                       </Label>
@@ -177,9 +237,10 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                         />
                       </div>
                       <p className="text-[#A3A8B0] text-xs mt-2">Average annual value baseline ($0-70M)</p>
+                      <FieldRuleMessages violations={violations} fields={['baseAAV']} />
                     </div>
 
-                    <div>
+                    <div className={highlight('signingBonus')}>
                       <Label className="text-[#A3A8B0] mb-3 block">
                         Signing Bonus: <span className="text-[#A8B4BD]">${terms.signingBonus}M</span>
                       </Label>
@@ -206,6 +267,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                         />
                       </div>
                       <p className="text-[#A3A8B0] text-xs mt-2">Upfront payment in Year 1 (up to $75M)</p>
+                      <FieldRuleMessages violations={violations} fields={['signingBonus']} />
                     </div>
                   </div>
                 </div>
@@ -230,12 +292,25 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                           <SelectItem value="even">Even Distribution</SelectItem>
                           <SelectItem value="front-loaded">Front-Loaded</SelectItem>
                           <SelectItem value="back-loaded">Back-Loaded</SelectItem>
+                          <SelectItem value="custom">Custom Schedule</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
 
-                    {terms.salaryStructure !== 'even' && (
-                      <div>
+                    {terms.salaryStructure === 'custom' && (
+                      <div className={highlight('customSalaries')}>
+                        <Label className="text-[#A3A8B0] mb-3 block">Year-by-Year Base Salary ($M)</Label>
+                        <SalaryScheduleEditor
+                          startSeason={terms.startSeason}
+                          salaries={terms.customSalaries}
+                          onChange={(salaries) => updateTerm('customSalaries', salaries)}
+                        />
+                        <FieldRuleMessages violations={violations} fields={['customSalaries']} />
+                      </div>
+                    )}
+
+                    {(terms.salaryStructure === 'front-loaded' || terms.salaryStructure === 'back-loaded') && (
+                      <div className={highlight('frontLoadPercent')}>
                         <Label className="text-[#A3A8B0] mb-3 block">
                           Load Percentage: <span className="text-[#A8B4BD]">{terms.frontLoadPercent}%</span>
                         </Label>
@@ -248,6 +323,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                           className="mb-2"
                         />
                         <p className="text-[#A3A8B0] text-xs">How much to front/back load</p>
+                        <FieldRuleMessages violations={violations} fields={['frontLoadPercent']} />
                       </div>
                     )}
 
@@ -255,7 +331,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                       <h4 className="text-[#ECEDEF] text-sm mb-4">Deferrals</h4>
                       
                       <div className="space-y-4">
-                        <div>
+                        <div className={highlight('deferralPercent')}>
                           <Label className="text-[#A3A8B0] mb-3 block">
                             Deferred Amount: <span className="text-[#A8B4BD]">{terms.deferralPercent}%</span>
                           </Label>
@@ -267,13 +343,14 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                             step={5}
                             className="mb-2"
                           />
+                          <FieldRuleMessages violations={violations} fields={['deferralPercent']} />
                         </div>
 
                         {terms.deferralPercent > 0 && (
                           <>
-                            <div>
+                            <div className={highlight('deferralYears')}>
                               <Label className="text-[#A3A8B0] mb-3 block">
-                                Deferral Period: <span className="text-[#A8B4BD]">{terms.deferralYears} years</span>
+                                Payout Length: <span className="text-[#A8B4BD]">{terms.deferralYears} years</span>
                               </Label>
                               <Slider 
                                 value={[terms.deferralYears]} 
@@ -283,8 +360,29 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                                 step={1}
                                 className="mb-2"
                               />
+                              <FieldRuleMessages violations={violations} fields={['deferralYears']} />
                             </div>
                             <div>
+                              <Label className="text-[#A3A8B0] mb-3 block">
+                                Payouts Begin: <span className="text-[#A8B4BD]">
+                                  {terms.deferralPayoutDelay === 0 ? 'After final season' : `${terms.deferralPayoutDelay} yr after contract`}
+                                </span>
+                              </Label>
+                              <Slider 
+                                value={[terms.deferralPayoutDelay]} 
+                                onValueChange={([val]: number[]) => updateTerm('deferralPayoutDelay', val)}
+                                min={0} 
+                                max={10} 
+                                step={1}
+                                className="mb-2"
+                              />
+                              {deferralSchedule.payoutSeasons.length > 0 && (
+                                <p className="text-[#A3A8B0] text-xs">
+                                  Paid {deferralSchedule.payoutSeasons[0]}-{deferralSchedule.payoutSeasons[deferralSchedule.payoutSeasons.length - 1]}
+                                </p>
+                              )}
+                            </div>
+                            <div className={highlight('deferralInterest')}>
                               <Label className="text-[#A3A8B0] mb-3 block">
                                 Interest Rate: <span className="text-[#A8B4BD]">{terms.deferralInterest}%</span>
                               </Label>
@@ -296,6 +394,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                                 step={0.5}
                                 className="mb-2"
                               />
+                              <FieldRuleMessages violations={violations} fields={['deferralInterest']} />
                             </div>
                           </>
                         )}
@@ -306,7 +405,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                       <h4 className="text-[#ECEDEF] text-sm mb-4">Performance Bonuses</h4>
                       
                       <div className="space-y-4">
-                        <div>
+                        <div className={highlight('performanceBonus')}>
                           <Label className="text-[#A3A8B0] mb-3 block">
                             Performance Bonus: <span className="text-[#A8B4BD]">${terms.performanceBonus}M/yr</span>
                           </Label>
@@ -318,10 +417,11 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                             step={0.5}
                             className="mb-2"
                           />
-                          <p className="text-[#A3A8B0] text-xs">HR, RBI, BA thresholds</p>
+                          <p className="text-[#A3A8B0] text-xs">Games, innings or plate appearance tiers</p>
+                          <FieldRuleMessages violations={violations} fields={['performanceBonus']} />
                         </div>
 
-                        <div>
+                        <div className={highlight('awardBonus')}>
                           <Label className="text-[#A3A8B0] mb-3 block">
                             Award Bonus: <span className="text-[#A8B4BD]">${terms.awardBonus}M/yr</span>
                           </Label>
@@ -334,9 +434,10 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                             className="mb-2"
                           />
                           <p className="text-[#A3A8B0] text-xs">MVP, All-Star, Silver Slugger</p>
+                          <FieldRuleMessages violations={violations} fields={['awardBonus']} />
                         </div>
 
-                        <div>
+                        <div className={highlight('playingTimeBonus')}>
                           <Label className="text-[#A3A8B0] mb-3 block">
                             Playing Time Bonus: <span className="text-[#A8B4BD]">${terms.playingTimeBonus}M/yr</span>
                           </Label>
@@ -349,6 +450,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                             className="mb-2"
                           />
                           <p className="text-[#A3A8B0] text-xs">Plate appearances threshold</p>
+                          <FieldRuleMessages violations={violations} fields={['playingTimeBonus']} />
                         </div>
                       </div>
                     </div>
@@ -372,7 +474,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                         />
                       </div>
                       {terms.optOutYear !== null && (
-                        <div>
+                        <div className={highlight('optOutYear')}>
                           <Label className="text-[#A3A8B0] mb-2 block text-xs">
                             Opt-Out After Year: <span className="text-[#A8B4BD]">{terms.optOutYear}</span>
                           </Label>
@@ -383,6 +485,25 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                             max={terms.years - 1} 
                             step={1}
                           />
+                          <FieldRuleMessages violations={violations} fields={['optOutYear']} />
+                          {optOutValuation && (
+                            <div className="grid grid-cols-2 gap-3 text-xs mt-4">
+                              <div className="bg-[#121315] rounded p-3">
+                                <div className="text-[#A3A8B0] mb-1">Option Value</div>
+                                <div className="text-[#ECEDEF]">${optOutValuation.optionValue.toFixed(1)}M</div>
+                                <div className="text-[#A3A8B0] mt-1">
+                                  {Math.round(optOutValuation.exerciseProbability * 100)}% likely exercised
+                                </div>
+                              </div>
+                              <div className="bg-[#121315] rounded p-3">
+                                <div className="text-[#A3A8B0] mb-1">Effective AAV</div>
+                                <div className="text-[#ECEDEF]">${optOutValuation.effectiveAAV.toFixed(1)}M</div>
+                                <div className="text-emerald-400 mt-1">
+                                  +${optOutValuation.effectiveAAVUplift.toFixed(1)}M/yr uplift
+                                </div>
+                              </div>
+                            </div>
+                          )}
                         </div>
                       )}
                     </div>
@@ -398,7 +519,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                       </div>
                       {terms.teamOptionYear !== null && (
                         <div className="space-y-3">
-                          <div>
+                          <div className={highlight('teamOptionValue')}>
                             <Label className="text-[#A3A8B0] mb-2 block text-xs">
                               Option Value: <span className="text-[#A8B4BD]">${terms.teamOptionValue}M</span>
                             </Label>
@@ -409,8 +530,9 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                               max={35} 
                               step={5}
                             />
+                            <FieldRuleMessages violations={violations} fields={['teamOptionValue', 'teamOptionYear']} />
                           </div>
-                          <div>
+                          <div className={highlight('buyoutValue')}>
                             <Label className="text-[#A3A8B0] mb-2 block text-xs">
                               Buyout: <span className="text-[#A8B4BD]">${terms.buyoutValue}M</span>
                             </Label>
@@ -421,6 +543,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                               max={10} 
                               step={1}
                             />
+                            <FieldRuleMessages violations={violations} fields={['buyoutValue']} />
                           </div>
                         </div>
                       )}
@@ -443,7 +566,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                       </Select>
                       
                       {terms.noTradeClause === 'limited' && (
-                        <div className="mt-3">
+                        <div className={`mt-3 ${highlight('limitedNoTradeTeams')}`}>
                           <Label className="text-[#A3A8B0] mb-2 block text-xs">
                             Can Block: <span className="text-[#A8B4BD]">{terms.limitedNoTradeTeams} teams</span>
                           </Label>
@@ -454,6 +577,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                             max={15} 
                             step={1}
                           />
+                          <FieldRuleMessages violations={violations} fields={['limitedNoTradeTeams']} />
                         </div>
                       )}
                     </div>
@@ -471,7 +595,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                       
                       {terms.hasEscalator && (
                         <div className="space-y-3">
-                          <div>
+                          <div className={highlight('escalatorPercent')}>
                             <Label className="text-[#A3A8B0] mb-2 block text-xs">
                               Escalator Amount: <span className="text-[#A8B4BD]">{terms.escalatorPercent}%</span>
                             </Label>
@@ -482,8 +606,9 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                               max={15} 
                               step={1}
                             />
+                            <FieldRuleMessages violations={violations} fields={['escalatorPercent']} />
                           </div>
-                          <div>
+                          <div className={highlight('escalatorTrigger')}>
                             <Label className="text-[#A3A8B0] mb-2 block text-xs">Trigger</Label>
                             <Select 
                               value={terms.escalatorTrigger} 
@@ -499,6 +624,7 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                                 <SelectItem value="Playoffs">Playoff Appearance</SelectItem>
                               </SelectContent>
                             </Select>
+                            <FieldRuleMessages violations={violations} fields={['escalatorTrigger']} />
                           </div>
                         </div>
                       )}
@@ -511,6 +637,11 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
 
           {/* Right: Visualizations */}
           <div className="col-span-2 space-y-6">
+            {/* CBA Rule Check */}
+            <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+              <RuleViolationList violations={violations} onSelect={handleSelectViolation} />
+            </div>
+
             {/* KPIs */}
             <div className="grid grid-cols-4 gap-4">
               <SBKpi 
@@ -564,6 +695,17 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
               </div>
             </motion.div>
 
+            {/* Cash Flow Timeline (through final deferral payout) */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.05 }}
+              className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay"
+            >
+              <h3 className="text-[#ECEDEF] mb-4">Cash Flow Timeline: Nominal vs Present Value</h3>
+              <CashFlowTimeline schedule={deferralSchedule} />
+            </motion.div>
+
             {/* Team Payroll Impact */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -639,10 +781,20 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                     <div className="text-emerald-400">${totalPayroll.toFixed(1)}M</div>
                   </div>
                 </div>
+                <CbtTaxSummary
+                  season={selectedYear}
+                  basePayroll={basePayroll}
+                  playerCharge={selectedYearCbtHit}
+                  consecutiveYearsOver={consecutiveYearsOver[selectedYear] ?? priorYearsOver}
+                  firstSeason={terms.startSeason}
+                  priorYearsOver={priorYearsOver}
+                  onPriorYearsOverChange={setPriorYearsOver}
+                />
               </div>
               <p className="text-[#A3A8B0] text-xs mt-3 italic">
                 * Payroll data may be incomplete for some teams. Missing years use the last available year's value.<br />
-                * Player contract values are based on built structure.
+                * Player contract values are based on built structure.<br />
+                * CBT tax uses the player's tax AAV; base rates rise for each consecutive season the club is over.
               </p>
             </motion.div>
 
@@ -673,6 +825,10 @@ export function ContractArchitecture({ onContinue, onBack }: ContractArchitectur
                     <span className="text-[#A3A8B0]">Opt-Out</span>
                     <span className="text-[#ECEDEF]">{terms.optOutYear ? `Year ${terms.optOutYear}` : 'None'}</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-[#A3A8B0]">Opt-Out Value</span>
+                    <span className="text-[#ECEDEF]">{optOutValuation ? `$${optOutValuation.optionValue.toFixed(1)}M` : 'None'}</span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-[#A3A8B0]">Team Option</span>
                     <span className="text-[#ECEDEF]">{terms.teamOptionYear ? `$${terms.teamOptionValue}M` : 'None'}</span>
@@ -1,12 +1,18 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { motion } from 'motion/react';
 import { BarChart3, Home, ArrowLeft, Activity } from 'lucide-react';
 import { useContract } from '../narrative/ContractContext';
 import { InteractiveChart } from '../narrative/InteractiveChart';
 import { StackedBarChart } from '../narrative/StackedBarChart';
+import { CbtTaxSummary } from '../narrative/CbtTaxSummary';
+import { ContractSimulationPanel } from '../narrative/ContractSimulationPanel';
+import { SurplusValuePanel } from '../narrative/SurplusValuePanel';
 import { SBButton } from '../boras/SBButton';
 import { SBKpi } from '../boras/SBKpi';
 import { usePayrollData } from '../../hooks/usePayrollData';
+import { useOptOutValuation } from '../../hooks/useOptOutValuation';
+import { useSurplusValue } from '../../hooks/useSurplusValue';
+import { getConsecutiveYearsOver } from '../../services/cbtService';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import type { Player } from '../../data/playerDatabase';
 import { cn } from '../ui/utils';
@@ -23,52 +29,32 @@ interface ContractSummaryProps {
 export function ContractSummary({ onExploreData, onStartOver, onBack, onNavigateTo, player, comps }: ContractSummaryProps) {
   const { terms, totalValue,            
           guaranteedValue, potentialValue, cbtImpact, yearlyBreakdown, resetTerms } = useContract();
-  const { selectedTeamId, setSelectedTeamId, selectedTeamData, availableTeams, loading: payrollLoading } = usePayrollData();
+  const { selectedTeamId, setSelectedTeamId, availableTeams, basePayrollBySeason, priorYearsOver, setPriorYearsOver, loading: payrollLoading } = usePayrollData(terms.startSeason, terms.years);
+  const optOutValuation = useOptOutValuation(terms, player, comps);
+  const { surplus, settings: surplusSettings, updateSetting: updateSurplusSetting, loading: surplusLoading } = useSurplusValue(player);
   const [selectedYear, setSelectedYear] = useState<number>(yearlyBreakdown[0]?.year || 2026);
 
+  // Keep the selected year inside the contract when the start season or length changes
+  useEffect(() => {
+    if (!yearlyBreakdown.some(y => y.year === selectedYear)) {
+      setSelectedYear(terms.startSeason);
+    }
+  }, [yearlyBreakdown, selectedYear, terms.startSeason]);
+
   const cashFlowData = yearlyBreakdown.map(y => ({
     year: y.year.toString(),
     totalCash: y.totalCash,
     deferred: y.deferred,
   }));
 
-  // Team payroll visualization - shows base payroll from CSV + player contract
-  // Data only goes through 2031, so we'll show 2026-2031 (and handle contract years beyond that)
+  // Team payroll visualization - base payroll from CSV under each contract season + player contract
   const teamPayrollData = useMemo(() => {
-    if (!selectedTeamData || payrollLoading) {
-      // Fallback to hardcoded data if loading or no data
-      return yearlyBreakdown.map(y => ({
-        year: y.year.toString(),
-        basePayroll: 180,
-        playerContract: y.totalCash,
-      }));
-    }
-
-    // Create a map of payroll by year from CSV data
-    const payrollByYearMap = new Map<number, number>();
-    selectedTeamData.payrollByYear.forEach(({ year, payroll }) => {
-      payrollByYearMap.set(year, payroll);
-    });
-
-    // Generate data for contract years (2026-2031 and beyond)
-    // For years with missing data, use the last available year's value
-    const yearsWithData = Array.from(payrollByYearMap.keys()).sort((a, b) => b - a);
-    const lastAvailableYear = yearsWithData[0];
-    const lastAvailablePayroll = lastAvailableYear ? payrollByYearMap.get(lastAvailableYear) || 0 : 0;
-    
-    return yearlyBreakdown.map(y => {
-      // Get payroll for this year, or use last available value for missing years
-      let basePayroll = payrollByYearMap.get(y.year);
-      if (basePayroll === undefined) {
-        basePayroll = lastAvailablePayroll;
-      }
-      return {
-        year: y.year.toString(),
-        basePayroll,
-        playerContract: y.totalCash,
-      };
-    });
-  }, [selectedTeamData, yearlyBreakdown, payrollLoading]);
+    return yearlyBreakdown.map((y, i) => ({
+      year: y.year.toString(),
+      basePayroll: basePayrollBySeason[i]?.payroll ?? 0,
+      playerContract: y.totalCash,
+    }));
+  }, [basePayrollBySeason, yearlyBreakdown]);
 
   // Get values for selected year
   const { basePayroll, playerContract, totalPayroll } = useMemo(() => {
@@ -84,6 +70,18 @@ export function ContractSummary({ onExploreData, onStartOver, onBack, onNavigate
     };
   }, [teamPayrollData, selectedYear]);
 
+  // Player's CBT charge for the selected year (AAV plus earned incentives)
+  const selectedYearCbtHit = yearlyBreakdown.find(y => y.year === selectedYear)?.cbtHit ?? cbtImpact;
+
+  // Repeat-payor count going into each season, following the payroll with the player
+  const consecutiveYearsOver = useMemo(
+    () => getConsecutiveYearsOver(
+      yearlyBreakdown.map((y, i) => ({ season: y.year, payroll: (basePayrollBySeason[i]?.payroll ?? 0) + y.cbtHit })),
+      priorYearsOver
+    ),
+    [yearlyBreakdown, basePayrollBySeason, priorYearsOver]
+  );
+
   return (
     <div className="min-h-screen bg-[#0B0B0C] overflow-auto">
       <div className="border-b border-[rgba(255,255,255,0.14)] bg-[#121315] px-6 py-4">
@@ -114,11 +112,17 @@ export function ContractSummary({ onExploreData, onStartOver, onBack, onNavigate
             </div>
           </div>
 
-          <div className="grid grid-cols-4 gap-4 mb-8">
+          <div className="grid grid-cols-5 gap-4 mb-8">
             <SBKpi label="Total Value" value={`$${Math.round(totalValue)}M`} />
             <SBKpi label="Guaranteed" value={`$${Math.round(guaranteedValue)}M`} />
             <SBKpi label="Max" value={`$${Math.round(potentialValue)}M`} />
             <SBKpi label="CBT Hit" value={`$${Math.round(cbtImpact)}M/yr`} />
+            <SBKpi
+              label="Club Surplus"
+              value={surplus ? `${surplus.surplus < 0 ? '-' : '+'}$${Math.abs(Math.round(surplus.surplus))}M` : '—'}
+              delta={surplus ? `${surplus.presentSurplus < 0 ? '-' : '+'}$${Math.abs(Math.round(surplus.presentSurplus))}M PV` : undefined}
+              deltaType={surplus ? (surplus.presentSurplus >= 0 ? 'positive' : 'negative') : undefined}
+            />
           </div>
 
           <div className="grid grid-cols-3 gap-6">
@@ -149,6 +153,18 @@ export function ContractSummary({ onExploreData, onStartOver, onBack, onNavigate
                   <span className="text-[#A3A8B0]">Opt-Out</span>
                   <span className="text-[#ECEDEF]">{terms.optOutYear ? `Year ${terms.optOutYear}` : 'None'}</span>
                 </div>
+                {optOutValuation && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-[#A3A8B0]">Opt-Out Value</span>
+                      <span className="text-[#ECEDEF]">${optOutValuation.optionValue.toFixed(1)}M</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-[#A3A8B0]">Effective AAV</span>
+                      <span className="text-emerald-400">${optOutValuation.effectiveAAV.toFixed(1)}M</span>
+                    </div>
+                  </>
+                )}
                 <div className="flex justify-between">
                   <span className="text-[#A3A8B0]">No-Trade Clause</span>
                   <span className="text-[#ECEDEF] capitalize">{terms.noTradeClause}</span>
@@ -291,10 +307,20 @@ export function ContractSummary({ onExploreData, onStartOver, onBack, onNavigate
                   <div className="text-emerald-400">${totalPayroll.toFixed(1)}M</div>
                 </div>
               </div>
+              <CbtTaxSummary
+                season={selectedYear}
+                basePayroll={basePayroll}
+                playerCharge={selectedYearCbtHit}
+                consecutiveYearsOver={consecutiveYearsOver[selectedYear] ?? priorYearsOver}
+                firstSeason={terms.startSeason}
+                priorYearsOver={priorYearsOver}
+                onPriorYearsOverChange={setPriorYearsOver}
+              />
             </div>
             <p className="text-[#A3A8B0] text-xs mt-3 italic">
               * Payroll data may be incomplete for some teams. Missing years use the last available year's value.<br />
-              * Player contract values are based on built structure.
+              * Player contract values are based on built structure.<br />
+              * CBT tax uses the player's tax AAV; base rates rise for each consecutive season the club is over.
             </p>
           </motion.div>
         </div>
@@ -345,7 +371,7 @@ export function ContractSummary({ onExploreData, onStartOver, onBack, onNavigate
                     ${yearlyBreakdown.reduce((sum, y) => sum + y.totalCash, 0).toFixed(1)}M
                   </td>
                   <td className="text-right text-[#60A5FA] font-bold">
-                    ${(cbtImpact * terms.years).toFixed(1)}M
+                    ${yearlyBreakdown.reduce((sum, y) => sum + y.cbtHit, 0).toFixed(1)}M
                   </td>
                 </tr>
               </tbody>
@@ -353,6 +379,18 @@ export function ContractSummary({ onExploreData, onStartOver, onBack, onNavigate
           </div>
         </motion.div>
 
+        {/* Projected Production vs Cost */}
+        <SurplusValuePanel
+          surplus={surplus}
+          settings={surplusSettings}
+          onSettingChange={updateSurplusSetting}
+          player={player}
+          loading={surplusLoading}
+        />
+
+        {/* Monte Carlo Outcome Simulation */}
+        <ContractSimulationPanel terms={terms} player={player} />
+
         {/* Actions */}
         <div className="grid grid-cols-1 gap-4">
           {onNavigateTo && player && (
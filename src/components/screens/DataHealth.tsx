@@ -0,0 +1,332 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Download, RefreshCw, XCircle } from 'lucide-react';
+import { SBButton } from '../boras/SBButton';
+import { SBChip } from '../boras/SBChip';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { buildDataHealthReport, dataIssuesToCsv, DATA_ISSUE_LABELS } from '../../services/dataHealthService';
+import { refreshCsvStore } from '../../data/csvStore';
+import type { DataHealthReport, DataIssueKind } from '../../types';
+
+const ALL = 'all';
+// Rows rendered in the issues table; the CSV export carries the full list
+const VISIBLE_ISSUES = 250;
+
+const ISSUE_KINDS = Object.keys(DATA_ISSUE_LABELS) as DataIssueKind[];
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+const totalIssues = (counts: Record<DataIssueKind, number>) =>
+  ISSUE_KINDS.reduce((sum, kind) => sum + counts[kind], 0);
+
+export function DataHealth() {
+  const [report, setReport] = useState<DataHealthReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [runCount, setRunCount] = useState(0);
+  const [sourceFilter, setSourceFilter] = useState(ALL);
+  const [kindFilter, setKindFilter] = useState(ALL);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    setError(null);
+    buildDataHealthReport()
+      .then(result => {
+        if (active) setReport(result);
+      })
+      .catch(err => {
+        console.error('Failed to build data health report:', err);
+        if (active) setError(err instanceof Error ? err.message : 'Failed to build data health report');
+      })
+      .finally(() => active && setLoading(false));
+    return () => {
+      active = false;
+    };
+  }, [runCount]);
+
+  const filteredIssues = useMemo(
+    () =>
+      (report?.issues ?? []).filter(
+        issue =>
+          (sourceFilter === ALL || issue.source === sourceFilter) &&
+          (kindFilter === ALL || issue.kind === kindFilter)
+      ),
+    [report, sourceFilter, kindFilter]
+  );
+
+  // Exact counts; the listed issues are capped per source and kind
+  const countedIssues = useMemo(
+    () =>
+      (report?.sources ?? [])
+        .filter(source => sourceFilter === ALL || source.source === sourceFilter)
+        .reduce(
+          (sum, source) =>
+            sum + (kindFilter === ALL ? totalIssues(source.issueCounts) : source.issueCounts[kindFilter as DataIssueKind]),
+          0
+        ),
+    [report, sourceFilter, kindFilter]
+  );
+
+  const sources = report?.sources ?? [];
+  const loadedCount = sources.filter(s => s.loaded).length;
+  const rowTotal = sources.reduce((sum, s) => sum + s.rowCount, 0);
+  const issueTotal = sources.reduce((sum, s) => sum + totalIssues(s.issueCounts), 0);
+
+  const handleExport = () => {
+    const blob = new Blob([dataIssuesToCsv(filteredIssues)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'data-health-issues.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Re-read the files so edits made since the last run are picked up
+  const handleRerun = () => {
+    refreshCsvStore();
+    setRunCount(count => count + 1);
+  };
+
+  const showSource = (source: string, kind: string = ALL) => {
+    setSourceFilter(source);
+    setKindFilter(kind);
+  };
+
+  return (
+    <div className="h-screen bg-[#0B0B0C] flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="border-b border-[rgba(255,255,255,0.14)] bg-[#121315] px-6 py-4">
+        <div className="max-w-[1200px] mx-auto flex items-center justify-between">
+          <div>
+            <h1 className="text-[#ECEDEF] mb-1">Data Health</h1>
+            <p className="text-[#A3A8B0] text-sm">
+              CSV ingestion checks
+              {report && ` · Run ${formatTimestamp(report.generatedAt)}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <SBButton
+              variant="secondary"
+              size="sm"
+              icon={<Download size={14} />}
+              onClick={handleExport}
+              disabled={!filteredIssues.length}
+            >
+              Export Issues CSV
+            </SBButton>
+            <SBButton
+              size="sm"
+              icon={<RefreshCw size={14} />}
+              onClick={handleRerun}
+              isLoading={loading}
+            >
+              Re-run
+            </SBButton>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto">
+        <div className="p-6 max-w-[1200px] mx-auto space-y-6">
+          {error && (
+            <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          {loading && !report && (
+            <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+              <p className="text-[#A3A8B0] text-sm">Checking data sources...</p>
+            </div>
+          )}
+
+          {report && (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-4 gap-4">
+                <div className="bg-[#121315] rounded p-3">
+                  <div className="text-[#A3A8B0] text-xs mb-1">Sources Loaded</div>
+                  <div className="text-[#ECEDEF] text-lg">{loadedCount} / {sources.length}</div>
+                </div>
+                <div className="bg-[#121315] rounded p-3">
+                  <div className="text-[#A3A8B0] text-xs mb-1">Rows Read</div>
+                  <div className="text-[#ECEDEF] text-lg">{rowTotal.toLocaleString()}</div>
+                </div>
+                <div className="bg-[#121315] rounded p-3">
+                  <div className="text-[#A3A8B0] text-xs mb-1">Issues</div>
+                  <div className="text-[#ECEDEF] text-lg">{issueTotal.toLocaleString()}</div>
+                </div>
+                <div className="bg-[#121315] rounded p-3">
+                  <div className="text-[#A3A8B0] text-xs mb-1">Clean Sources</div>
+                  <div className="text-[#ECEDEF] text-lg">
+                    {sources.filter(s => s.loaded && totalIssues(s.issueCounts) === 0).length}
+                  </div>
+                </div>
+              </div>
+
+              {/* Sources */}
+              <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+                <h3 className="text-[#ECEDEF] mb-4">Sources</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-[rgba(255,255,255,0.14)] text-[#A3A8B0] text-xs">
+                        <th className="text-left py-2 pr-3 font-normal">Source</th>
+                        <th className="text-left py-2 pr-3 font-normal">Status</th>
+                        <th className="text-right py-2 pr-3 font-normal">Rows</th>
+                        {ISSUE_KINDS.map(kind => (
+                          <th key={kind} className="text-right py-2 pr-3 font-normal">{DATA_ISSUE_LABELS[kind]}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sources.map(source => (
+                        <tr key={source.source} className="border-b border-[rgba(255,255,255,0.08)]">
+                          <td className="py-2 pr-3">
+                            <button
+                              className="text-left text-[#ECEDEF] hover:text-[#A8B4BD]"
+                              onClick={() => showSource(source.source)}
+                            >
+                              {source.label}
+                            </button>
+                            <div className="text-[#A3A8B0] text-xs">{source.source}</div>
+                          </td>
+                          <td className="py-2 pr-3">
+                            {!source.loaded ? (
+                              <span className="flex items-center gap-1.5 text-red-400 text-xs" title={source.loadError ?? ''}>
+                                <XCircle size={14} /> Not loaded
+                              </span>
+                            ) : totalIssues(source.issueCounts) > 0 ? (
+                              <span className="flex items-center gap-1.5 text-amber-400 text-xs">
+                                <AlertTriangle size={14} /> Issues
+                              </span>
+                            ) : (
+                              <span className="flex items-center gap-1.5 text-emerald-400 text-xs">
+                                <CheckCircle2 size={14} /> Clean
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-3 text-right text-[#ECEDEF]">{source.rowCount.toLocaleString()}</td>
+                          {ISSUE_KINDS.map(kind => {
+                            const count = source.issueCounts[kind];
+                            return (
+                              <td key={kind} className="py-2 pr-3 text-right">
+                                {count > 0 ? (
+                                  <button
+                                    className="text-[#A8B4BD] hover:text-[#ECEDEF] underline-offset-2 hover:underline"
+                                    onClick={() => showSource(source.source, kind)}
+                                  >
+                                    {count.toLocaleString()}
+                                  </button>
+                                ) : (
+                                  <span className="text-[#A3A8B0]">–</span>
+                                )}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Issues */}
+              <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+                <div className="flex items-end justify-between mb-4 gap-4">
+                  <div>
+                    <h3 className="text-[#ECEDEF]">Issues</h3>
+                    <p className="text-[#A3A8B0] text-xs mt-1">
+                      {countedIssues.toLocaleString()} found
+                      {filteredIssues.length < countedIssues && ` · ${filteredIssues.length.toLocaleString()} listed`}
+                      {filteredIssues.length > VISIBLE_ISSUES && ` · first ${VISIBLE_ISSUES} shown`}
+                    </p>
+                  </div>
+                  <div className="flex items-end gap-3">
+                    <div className="w-[220px]">
+                      <Label className="text-[#A3A8B0] text-xs">Source</Label>
+                      <Select value={sourceFilter} onValueChange={setSourceFilter}>
+                        <SelectTrigger className="mt-2 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                          <SelectItem value={ALL} className="text-[#ECEDEF]">All Sources</SelectItem>
+                          {sources.map(source => (
+                            <SelectItem key={source.source} value={source.source} className="text-[#ECEDEF]">
+                              {source.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="w-[180px]">
+                      <Label className="text-[#A3A8B0] text-xs">Issue</Label>
+                      <Select value={kindFilter} onValueChange={setKindFilter}>
+                        <SelectTrigger className="mt-2 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                          <SelectItem value={ALL} className="text-[#ECEDEF]">All Issues</SelectItem>
+                          {ISSUE_KINDS.map(kind => (
+                            <SelectItem key={kind} value={kind} className="text-[#ECEDEF]">
+                              {DATA_ISSUE_LABELS[kind]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+
+                {filteredIssues.length === 0 ? (
+                  <p className="text-[#A3A8B0] text-sm">No issues for this selection.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="border-b border-[rgba(255,255,255,0.14)] text-[#A3A8B0]">
+                          <th className="text-left py-2 pr-3 font-normal">Issue</th>
+                          <th className="text-left py-2 pr-3 font-normal">Source</th>
+                          <th className="text-right py-2 pr-3 font-normal">Row</th>
+                          <th className="text-left py-2 pr-3 font-normal">Player</th>
+                          <th className="text-left py-2 pr-3 font-normal">Field</th>
+                          <th className="text-left py-2 pr-3 font-normal">Value</th>
+                          <th className="text-left py-2 font-normal">Detail</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {filteredIssues.slice(0, VISIBLE_ISSUES).map((issue, i) => (
+                          <tr key={i} className="border-b border-[rgba(255,255,255,0.08)]">
+                            <td className="py-1.5 pr-3">
+                              <SBChip type="tag" variant="neutral">{DATA_ISSUE_LABELS[issue.kind]}</SBChip>
+                            </td>
+                            <td className="py-1.5 pr-3 text-[#A3A8B0]">{issue.source}</td>
+                            <td className="py-1.5 pr-3 text-right text-[#A3A8B0]">{issue.row ?? '–'}</td>
+                            <td className="py-1.5 pr-3 text-[#ECEDEF]">{issue.player ?? '–'}</td>
+                            <td className="py-1.5 pr-3 text-[#A8B4BD]">{issue.field ?? '–'}</td>
+                            <td className="py-1.5 pr-3 text-[#A3A8B0] max-w-[160px] truncate">{issue.value ?? '–'}</td>
+                            <td className="py-1.5 text-[#A3A8B0]">{issue.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
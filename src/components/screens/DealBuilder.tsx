@@ -1,32 +1,528 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Save, Copy, RotateCcw, AlertCircle } from 'lucide-react';
 import { SBButton } from '../boras/SBButton';
+import { SBChip } from '../boras/SBChip';
 import { SBStepper } from '../boras/SBStepper';
 import { OfferPreview } from '../boras/OfferPreview';
 import { Alert, AlertDescription } from '../ui/alert';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { Slider } from '../ui/slider';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useContract } from '../narrative/ContractContext';
+import { SalaryScheduleEditor } from '../narrative/SalaryScheduleEditor';
+import { RuleViolationList, FieldRuleMessages, ruleHighlightClass } from '../narrative/RuleViolations';
+import { CONTRACT_START_SEASON } from '../../services/contractCalculationService';
+import { validateContract, isContractValid } from '../../services/cbaRulesService';
+import { diffContractTerms, hasUnsavedChanges } from '../../services/scenarioService';
+import { getOfferSheetClauses } from '../../services/offerSheetService';
+import type { ContractTerms, ContractRuleViolation } from '../../types';
 
-const steps = [
-  { label: 'Years & AAV' },
-  { label: 'Structure' },
-  { label: 'Options/Clauses' },
-  { label: 'Incentives' },
-  { label: 'Review' },
+// Seasons a deal can start in, matching ContractArchitecture
+const START_SEASON_OPTIONS = Array.from({ length: 5 }, (_, i) => CONTRACT_START_SEASON - 1 + i);
+
+// Terms edited on each step; a step's errors block moving past it
+const STEPS: { label: string; fields: (keyof ContractTerms)[] }[] = [
+  { label: 'Years & AAV', fields: ['startSeason', 'years', 'baseAAV', 'signingBonus'] },
+  {
+    label: 'Structure',
+    fields: [
+      'salaryStructure',
+      'frontLoadPercent',
+      'customSalaries',
+      'deferralPercent',
+      'deferralYears',
+      'deferralInterest',
+      'deferralPayoutDelay',
+    ],
+  },
+  {
+    label: 'Options/Clauses',
+    fields: ['optOutYear', 'teamOptionYear', 'teamOptionValue', 'buyoutValue', 'noTradeClause', 'limitedNoTradeTeams'],
+  },
+  {
+    label: 'Incentives',
+    fields: ['performanceBonus', 'awardBonus', 'playingTimeBonus', 'hasEscalator', 'escalatorPercent', 'escalatorTrigger'],
+  },
+  { label: 'Review', fields: [] },
 ];
 
+const REVIEW_STEP = STEPS.length - 1;
+
+const STRUCTURE_LABELS: Record<string, string> = {
+  even: 'Even distribution',
+  'front-loaded': 'Front-loaded structure',
+  'back-loaded': 'Back-loaded structure',
+  custom: 'Custom schedule',
+};
+
+// Step holding a violation's input; rules on fields no step edits show on Review
+function getViolationStep(violation: ContractRuleViolation): number {
+  const index = STEPS.findIndex(step => step.fields.includes(violation.field));
+  return index === -1 ? REVIEW_STEP : index;
+}
+
+interface TermSliderProps {
+  label: string;
+  display: string;
+  field: keyof ContractTerms;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  hint?: string;
+  violations: ContractRuleViolation[];
+  onChange: (value: number) => void;
+}
+
+function TermSlider({ label, display, field, value, min, max, step, hint, violations, onChange }: TermSliderProps) {
+  return (
+    <div className={ruleHighlightClass(violations, field)}>
+      <Label className="text-[#A3A8B0] mb-3 block">
+        {label}: <span className="text-[#A8B4BD]">{display}</span>
+      </Label>
+      <Slider value={[value]} onValueChange={([val]: number[]) => onChange(val)} min={min} max={max} step={step} className="mb-2" />
+      {hint && <p className="text-[#A3A8B0] text-xs">{hint}</p>}
+      <FieldRuleMessages violations={violations} fields={[field]} />
+    </div>
+  );
+}
+
 export function DealBuilder() {
+  const contract = useContract();
+  const { terms, updateTerm, scenarios, activeScenarioId, saveScenario, cloneScenario, revertScenario } = contract;
   const [activeStep, setActiveStep] = useState(0);
-  const [years, setYears] = useState(7);
-  const [aav, setAav] = useState(30);
-  
-  const mockOffer = {
-    years: years,
-    aav: `$${aav}.0M`,
-    totalValue: `$${years * aav}M`,
-    guarantee: `$${years * aav}M`,
-    structure: 'Front-loaded structure',
+  const activeScenario = scenarios.find(s => s.id === activeScenarioId) ?? scenarios[0];
+  const [saveName, setSaveName] = useState(activeScenario.name);
+
+  const violations = useMemo(() => validateContract(terms), [terms]);
+  const unsaved = hasUnsavedChanges(activeScenario);
+  const changesSinceSave = useMemo(
+    () => diffContractTerms(activeScenario.savedTerms, activeScenario.terms),
+    [activeScenario]
+  );
+
+  // The name box follows the scenario being edited
+  useEffect(() => {
+    setSaveName(activeScenario.name);
+  }, [activeScenario.id, activeScenario.name]);
+
+  const stepErrorCount = (index: number) =>
+    violations.filter(v => v.severity === 'error' && getViolationStep(v) === index).length;
+  const currentStepErrors = stepErrorCount(activeStep);
+
+  const steps = STEPS.map((step, i) => {
+    const errors = stepErrorCount(i);
+    return { label: step.label, description: errors > 0 ? `${errors} error${errors === 1 ? '' : 's'}` : undefined };
+  });
+
+  const offer = {
+    years: terms.years,
+    aav: `$${(terms.years > 0 ? contract.guaranteedValue / terms.years : 0).toFixed(1)}M`,
+    totalValue: `$${Math.round(contract.totalValue)}M`,
+    guarantee: `$${Math.round(contract.guaranteedValue)}M`,
+    structure: `${STRUCTURE_LABELS[terms.salaryStructure] ?? terms.salaryStructure}${
+      terms.deferralPercent > 0 ? `, ${terms.deferralPercent}% deferred` : ''
+    }`,
+  };
+
+  const highlight = (field: keyof ContractTerms) => ruleHighlightClass(violations, field);
+
+  const renderStep = () => {
+    if (activeStep === 0) {
+      return (
+        <>
+          <div>
+            <Label className="text-[#A3A8B0] mb-3 block">Start Season</Label>
+            <Select value={terms.startSeason.toString()} onValueChange={(val: string) => updateTerm('startSeason', parseInt(val))}>
+              <SelectTrigger className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                {START_SEASON_OPTIONS.map(season => (
+                  <SelectItem key={season} value={season.toString()}>{season}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className={`border-t border-[rgba(255,255,255,0.08)] pt-6 ${highlight('years')}`}>
+            <Label className="text-[#A3A8B0]">Years</Label>
+            <Input
+              type="number"
+              value={terms.years}
+              onChange={(e) => {
+                const val = parseInt(e.target.value);
+                if (val >= 1 && val <= 15) updateTerm('years', val);
+              }}
+              min={1}
+              max={15}
+              className="mt-2 mb-4 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF]"
+            />
+            <Slider value={[terms.years]} onValueChange={([val]: number[]) => updateTerm('years', val)} min={1} max={15} step={1} />
+            <FieldRuleMessages violations={violations} fields={['years']} />
+          </div>
+
+          <div className={`border-t border-[rgba(255,255,255,0.08)] pt-6 ${highlight('baseAAV')}`}>
+            <Label className="text-[#A3A8B0]">AAV (Millions)</Label>
+            <Input
+              type="number"
+              value={terms.baseAAV}
+              onChange={(e) => {
+                const val = parseFloat(e.target.value);
+                if (!isNaN(val) && val >= 0 && val <= 70) updateTerm('baseAAV', val);
+              }}
+              min={0}
+              max={70}
+              step="any"
+              className="mt-2 mb-4 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF]"
+            />
+            <Slider value={[terms.baseAAV]} onValueChange={([val]: number[]) => updateTerm('baseAAV', val)} min={0} max={70} step={1} />
+            <FieldRuleMessages violations={violations} fields={['baseAAV']} />
+          </div>
+
+          <div className="border-t border-[rgba(255,255,255,0.08)] pt-6">
+            <TermSlider
+              label="Signing Bonus"
+              display={`$${terms.signingBonus}M`}
+              field="signingBonus"
+              value={terms.signingBonus}
+              min={0}
+              max={75}
+              step={1}
+              hint="Paid in Year 1"
+              violations={violations}
+              onChange={(val) => updateTerm('signingBonus', val)}
+            />
+          </div>
+        </>
+      );
+    }
+
+    if (activeStep === 1) {
+      return (
+        <>
+          <div>
+            <Label className="text-[#A3A8B0] mb-3 block">Salary Structure</Label>
+            <Select value={terms.salaryStructure} onValueChange={(val: string) => updateTerm('salaryStructure', val as ContractTerms['salaryStructure'])}>
+              <SelectTrigger className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                <SelectItem value="even">Even Distribution</SelectItem>
+                <SelectItem value="front-loaded">Front-Loaded</SelectItem>
+                <SelectItem value="back-loaded">Back-Loaded</SelectItem>
+                <SelectItem value="custom">Custom Schedule</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {terms.salaryStructure === 'custom' && (
+            <div className={highlight('customSalaries')}>
+              <Label className="text-[#A3A8B0] mb-3 block">Year-by-Year Base Salary ($M)</Label>
+              <SalaryScheduleEditor
+                startSeason={terms.startSeason}
+                salaries={terms.customSalaries}
+                onChange={(salaries) => updateTerm('customSalaries', salaries)}
+              />
+              <FieldRuleMessages violations={violations} fields={['customSalaries']} />
+            </div>
+          )}
+
+          {(terms.salaryStructure === 'front-loaded' || terms.salaryStructure === 'back-loaded') && (
+            <TermSlider
+              label="Load Percentage"
+              display={`${terms.frontLoadPercent}%`}
+              field="frontLoadPercent"
+              value={terms.frontLoadPercent}
+              min={5}
+              max={30}
+              step={5}
+              violations={violations}
+              onChange={(val) => updateTerm('frontLoadPercent', val)}
+            />
+          )}
+
+          <div className="border-t border-[rgba(255,255,255,0.08)] pt-6 space-y-6">
+            <TermSlider
+              label="Deferred Amount"
+              display={`${terms.deferralPercent}%`}
+              field="deferralPercent"
+              value={terms.deferralPercent}
+              min={0}
+              max={60}
+              step={5}
+              violations={violations}
+              onChange={(val) => updateTerm('deferralPercent', val)}
+            />
+            {terms.deferralPercent > 0 && (
+              <>
+                <TermSlider
+                  label="Payout Length"
+                  display={`${terms.deferralYears} years`}
+                  field="deferralYears"
+                  value={terms.deferralYears}
+                  min={5}
+                  max={20}
+                  step={1}
+                  violations={violations}
+                  onChange={(val) => updateTerm('deferralYears', val)}
+                />
+                <TermSlider
+                  label="Payouts Begin"
+                  display={terms.deferralPayoutDelay === 0 ? 'After final season' : `${terms.deferralPayoutDelay} yr after contract`}
+                  field="deferralPayoutDelay"
+                  value={terms.deferralPayoutDelay}
+                  min={0}
+                  max={10}
+                  step={1}
+                  violations={violations}
+                  onChange={(val) => updateTerm('deferralPayoutDelay', val)}
+                />
+                <TermSlider
+                  label="Interest Rate"
+                  display={`${terms.deferralInterest}%`}
+                  field="deferralInterest"
+                  value={terms.deferralInterest}
+                  min={0}
+                  max={8}
+                  step={0.5}
+                  violations={violations}
+                  onChange={(val) => updateTerm('deferralInterest', Number(val.toFixed(1)))}
+                />
+              </>
+            )}
+          </div>
+        </>
+      );
+    }
+
+    if (activeStep === 2) {
+      return (
+        <>
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <Label className="text-[#A3A8B0]">Player Opt-Out</Label>
+              <Switch
+                checked={terms.optOutYear !== null}
+                onCheckedChange={(checked: boolean) => updateTerm('optOutYear', checked ? Math.min(4, Math.max(1, terms.years - 1)) : null)}
+                className="data-[state=checked]:bg-[#004B73]"
+              />
+            </div>
+            {terms.optOutYear !== null && (
+              <TermSlider
+                label="Opt-Out After Year"
+                display={`${terms.optOutYear}`}
+                field="optOutYear"
+                value={terms.optOutYear}
+                min={1}
+                max={Math.max(1, terms.years - 1)}
+                step={1}
+                violations={violations}
+                onChange={(val) => updateTerm('optOutYear', val)}
+              />
+            )}
+          </div>
+
+          <div className="border-t border-[rgba(255,255,255,0.08)] pt-6">
+            <div className="flex items-center justify-between mb-3">
+              <Label className="text-[#A3A8B0]">Team Option</Label>
+              <Switch
+                checked={terms.teamOptionYear !== null}
+                onCheckedChange={(checked: boolean) => updateTerm('teamOptionYear', checked ? terms.years : null)}
+                className="data-[state=checked]:bg-[#004B73]"
+              />
+            </div>
+            {terms.teamOptionYear !== null && (
+              <div className="space-y-4">
+                <TermSlider
+                  label="Option Value"
+                  display={`$${terms.teamOptionValue}M`}
+                  field="teamOptionValue"
+                  value={terms.teamOptionValue}
+                  min={15}
+                  max={35}
+                  step={5}
+                  violations={violations}
+                  onChange={(val) => updateTerm('teamOptionValue', val)}
+                />
+                <TermSlider
+                  label="Buyout"
+                  display={`$${terms.buyoutValue}M`}
+                  field="buyoutValue"
+                  value={terms.buyoutValue}
+                  min={0}
+                  max={10}
+                  step={1}
+                  violations={violations}
+                  onChange={(val) => updateTerm('buyoutValue', val)}
+                />
+                <FieldRuleMessages violations={violations} fields={['teamOptionYear']} />
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-[rgba(255,255,255,0.08)] pt-6">
+            <Label className="text-[#A3A8B0] mb-3 block">No-Trade Protection</Label>
+            <Select
+              value={terms.noTradeClause}
+              onValueChange={(val: string) => updateTerm('noTradeClause', val as ContractTerms['noTradeClause'])}
+            >
+              <SelectTrigger className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                <SelectItem value="full">Full No-Trade</SelectItem>
+                <SelectItem value="limited">Limited No-Trade</SelectItem>
+                <SelectItem value="none">No Protection</SelectItem>
+              </SelectContent>
+            </Select>
+            {terms.noTradeClause === 'limited' && (
+              <div className="mt-4">
+                <TermSlider
+                  label="Can Block"
+                  display={`${terms.limitedNoTradeTeams} teams`}
+                  field="limitedNoTradeTeams"
+                  value={terms.limitedNoTradeTeams}
+                  min={5}
+                  max={15}
+                  step={1}
+                  violations={violations}
+                  onChange={(val) => updateTerm('limitedNoTradeTeams', val)}
+                />
+              </div>
+            )}
+          </div>
+        </>
+      );
+    }
+
+    if (activeStep === 3) {
+      return (
+        <>
+          <TermSlider
+            label="Performance Bonus"
+            display={`$${terms.performanceBonus}M/yr`}
+            field="performanceBonus"
+            value={terms.performanceBonus}
+            min={0}
+            max={5}
+            step={0.5}
+            hint="Games, innings or plate appearance tiers"
+            violations={violations}
+            onChange={(val) => updateTerm('performanceBonus', val)}
+          />
+          <TermSlider
+            label="Award Bonus"
+            display={`$${terms.awardBonus}M/yr`}
+            field="awardBonus"
+            value={terms.awardBonus}
+            min={0}
+            max={3}
+            step={0.5}
+            hint="MVP, All-Star, Silver Slugger"
+            violations={violations}
+            onChange={(val) => updateTerm('awardBonus', val)}
+          />
+          <TermSlider
+            label="Playing Time Bonus"
+            display={`$${terms.playingTimeBonus}M/yr`}
+            field="playingTimeBonus"
+            value={terms.playingTimeBonus}
+            min={0}
+            max={2}
+            step={0.25}
+            hint="Plate appearances threshold"
+            violations={violations}
+            onChange={(val) => updateTerm('playingTimeBonus', val)}
+          />
+
+          <div className="border-t border-[rgba(255,255,255,0.08)] pt-6">
+            <div className="flex items-center justify-between mb-3">
+              <Label className="text-[#A3A8B0]">Salary Escalator</Label>
+              <Switch
+                checked={terms.hasEscalator}
+                onCheckedChange={(checked: boolean) => updateTerm('hasEscalator', checked)}
+                className="data-[state=checked]:bg-[#004B73]"
+              />
+            </div>
+            {terms.hasEscalator && (
+              <div className="space-y-4">
+                <TermSlider
+                  label="Escalator Amount"
+                  display={`${terms.escalatorPercent}%`}
+                  field="escalatorPercent"
+                  value={terms.escalatorPercent}
+                  min={2}
+                  max={15}
+                  step={1}
+                  violations={violations}
+                  onChange={(val) => updateTerm('escalatorPercent', val)}
+                />
+                <div className={highlight('escalatorTrigger')}>
+                  <Label className="text-[#A3A8B0] mb-2 block">Trigger</Label>
+                  <Select value={terms.escalatorTrigger} onValueChange={(val: string) => updateTerm('escalatorTrigger', val as ContractTerms['escalatorTrigger'])}>
+                    <SelectTrigger className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                      <SelectItem value="MVP finish">Top-3 MVP Finish</SelectItem>
+                      <SelectItem value="All-Star">All-Star Selection</SelectItem>
+                      <SelectItem value="40 HR">40+ Home Runs</SelectItem>
+                      <SelectItem value="Playoffs">Playoff Appearance</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FieldRuleMessages violations={violations} fields={['escalatorTrigger']} />
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      );
+    }
+
+    const clauses = getOfferSheetClauses(terms, contract);
+    return (
+      <>
+        <RuleViolationList violations={violations} onSelect={(v) => setActiveStep(getViolationStep(v))} />
+
+        <div className="border-t border-[rgba(255,255,255,0.08)] pt-6">
+          <h3 className="text-[#ECEDEF] mb-3">Clauses & Incentives</h3>
+          {clauses.length === 0 ? (
+            <p className="text-[#A3A8B0] text-sm">No additional clauses</p>
+          ) : (
+            <ul className="space-y-2 text-sm text-[#A3A8B0]">
+              {clauses.map(clause => (
+                <li key={clause} className="flex">
+                  <span className="w-6">•</span>
+                  <span>{clause}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="border-t border-[rgba(255,255,255,0.08)] pt-6">
+          <h3 className="text-[#ECEDEF] mb-3">Changes Since Last Save</h3>
+          {changesSinceSave.length === 0 ? (
+            <p className="text-[#A3A8B0] text-sm">No unsaved changes</p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody>
+                {changesSinceSave.map(change => (
+                  <tr key={change.field} className="border-b border-[rgba(255,255,255,0.08)]">
+                    <td className="py-2 text-[#A3A8B0]">{change.label}</td>
+                    <td className="py-2 text-right text-[#A3A8B0] line-through">{change.base}</td>
+                    <td className="py-2 text-right text-[#ECEDEF] pl-3">{change.other}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </>
+    );
   };
 
   return (
@@ -34,28 +530,51 @@ export function DealBuilder() {
       {/* Header */}
       <div className="border-b border-[rgba(255,255,255,0.14)] bg-[#121315] px-6 py-4">
         <div className="max-w-[1200px] mx-auto flex items-center justify-between">
-          <h2 className="text-[#ECEDEF]">Deal Builder</h2>
+          <div className="flex items-center gap-3">
+            <h2 className="text-[#ECEDEF]">Deal Builder</h2>
+            <SBChip type="status" variant={unsaved ? 'neutral' : 'positive'}>
+              {unsaved ? 'Unsaved changes' : 'Saved'}
+            </SBChip>
+          </div>
           <div className="flex gap-2">
-            <SBButton variant="ghost" size="md" icon={<RotateCcw size={16} />}>
+            <SBButton
+              variant="ghost"
+              size="md"
+              icon={<RotateCcw size={16} />}
+              onClick={revertScenario}
+              disabled={!unsaved}
+            >
               Revert
             </SBButton>
-            <SBButton variant="secondary" size="md" icon={<Copy size={16} />}>
+            <SBButton variant="secondary" size="md" icon={<Copy size={16} />} onClick={() => cloneScenario(activeScenarioId)}>
               Duplicate
             </SBButton>
-            <SBButton variant="primary" size="md" icon={<Save size={16} />}>
-              Save
+            <Input
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="Scenario name"
+              className="w-[200px] h-9 bg-[#0B0B0C] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] text-sm"
+            />
+            <SBButton
+              variant="primary"
+              size="md"
+              icon={<Save size={16} />}
+              onClick={() => saveScenario(saveName)}
+              disabled={!isContractValid(violations) || (!unsaved && saveName.trim() === activeScenario.name)}
+            >
+              {saveName.trim() && saveName.trim() !== activeScenario.name ? 'Save As' : 'Save'}
             </SBButton>
           </div>
         </div>
       </div>
-      
+
       {/* Stepper */}
       <div className="border-b border-[rgba(255,255,255,0.14)] bg-[#121315] px-6 py-4">
         <div className="max-w-[1200px] mx-auto overflow-x-auto">
           <SBStepper steps={steps} activeIndex={activeStep} />
         </div>
       </div>
-      
+
       {/* Content */}
       <div className="flex-1 overflow-auto">
         <div className="p-6 max-w-[1200px] mx-auto">
@@ -65,103 +584,44 @@ export function DealBuilder() {
               <Alert className="bg-blue-500/10 border-blue-500/20">
                 <AlertCircle className="h-4 w-4 text-blue-400" />
                 <AlertDescription className="text-blue-400">
-                  Adjusting contract terms will recalculate all projections
+                  Editing "{activeScenario.name}" - changes apply across every screen
                 </AlertDescription>
               </Alert>
-              
+
               <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay space-y-6">
-                <div>
-                  <h3 className="text-[#ECEDEF] mb-4">Contract Length</h3>
-                  <div className="space-y-4">
-                    <div>
-                      <Label className="text-[#A3A8B0]">Years</Label>
-                      <Input 
-                        type="number" 
-                        value={years}
-                        onChange={(e) => setYears(Number(e.target.value))}
-                        className="mt-2 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF]"
-                      />
-                    </div>
-                    <div>
-                      <Label className="text-[#A3A8B0]">Years: {years}</Label>
-                      <Slider 
-                        value={[years]} 
-                        onValueChange={([val]) => setYears(val)}
-                        min={1} 
-                        max={15} 
-                        step={1}
-                        className="mt-2"
-                      />
-                    </div>
-                  </div>
-                </div>
-                
-                <div className="border-t border-[rgba(255,255,255,0.08)] pt-6">
-                  <h3 className="text-[#ECEDEF] mb-4">Average Annual Value</h3>
-                  <div className="space-y-4">
-                    <div>
-                      <Label className="text-[#A3A8B0]">AAV (Millions)</Label>
-                      <Input 
-                        type="number" 
-                        value={aav}
-                        onChange={(e) => setAav(Number(e.target.value))}
-                        className="mt-2 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF]"
-                      />
-                    </div>
-                    <div>
-                      <Label className="text-[#A3A8B0]">AAV: ${aav}M</Label>
-                      <Slider 
-                        value={[aav]} 
-                        onValueChange={([val]) => setAav(val)}
-                        min={20} 
-                        max={80} 
-                        step={1}
-                        className="mt-2"
-                      />
-                    </div>
-                  </div>
-                </div>
-                
-                <div className="border-t border-[rgba(255,255,255,0.08)] pt-6">
-                  <h3 className="text-[#ECEDEF] mb-4">Guarantee Percentage</h3>
-                  <div className="space-y-4">
-                    <div>
-                      <Label className="text-[#A3A8B0]">Guaranteed: 100%</Label>
-                      <Slider 
-                        defaultValue={[100]} 
-                        min={0} 
-                        max={100} 
-                        step={5}
-                        className="mt-2"
-                      />
-                    </div>
-                  </div>
-                </div>
+                <h3 className="text-[#ECEDEF]">{STEPS[activeStep].label}</h3>
+                {renderStep()}
               </div>
-              
+
+              {currentStepErrors > 0 && activeStep < REVIEW_STEP && (
+                <p className="text-red-400 text-xs">
+                  Fix {currentStepErrors} error{currentStepErrors === 1 ? '' : 's'} on this step to continue
+                </p>
+              )}
+
               <div className="flex gap-2">
-                <SBButton 
-                  variant="secondary" 
+                <SBButton
+                  variant="secondary"
                   className="flex-1"
                   onClick={() => setActiveStep(Math.max(0, activeStep - 1))}
                   disabled={activeStep === 0}
                 >
                   Previous
                 </SBButton>
-                <SBButton 
-                  variant="primary" 
+                <SBButton
+                  variant="primary"
                   className="flex-1"
-                  onClick={() => setActiveStep(Math.min(steps.length - 1, activeStep + 1))}
-                  disabled={activeStep === steps.length - 1}
+                  onClick={() => setActiveStep(Math.min(REVIEW_STEP, activeStep + 1))}
+                  disabled={activeStep === REVIEW_STEP || currentStepErrors > 0}
                 >
                   Next
                 </SBButton>
               </div>
             </div>
-            
+
             {/* Right: Live Preview */}
             <div className="sticky top-0">
-              <OfferPreview offer={mockOffer} />
+              <OfferPreview offer={offer} />
             </div>
           </div>
         </div>
@@ -12,9 +12,19 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Alert, AlertDescription } from '../ui/alert';
 import type { Player, PlayerStats } from '../../data/playerDatabase';
-import { isPitcher } from '../../data/playerDatabase';
-import { fetchMultipleCsvs } from '../../data/csvLoader';
-import { getString, getField, normalizePlayerName } from '../../data/csvLoader';
+import { isPitcher, getPerSeasonStatsForPeriod } from '../../data/playerDatabase';
+import { useContract } from '../narrative/ContractContext';
+import { useAudit } from '../narrative/AuditContext';
+import { diffRecords } from '../../services/auditTrailService';
+import {
+  STAT_KEY_MAP,
+  STAT_CONFIG,
+  PITCHER_STAT_CONFIG,
+  getWeightsForPosition,
+  normalizeValuationPosition,
+  calculateEstimatedValue,
+} from '../../services/estimatedValueService';
+import { loadPlayerRepository } from '../../data/playerRepository';
 
 interface EstimatedValueProps {
   player: Player | null;
@@ -25,216 +35,9 @@ interface EstimatedValueProps {
 
 
 
-// Mapping from config key to PlayerStats field name (or special marker)
-const STAT_KEY_MAP: Record<string, keyof import('../../data/playerDatabase').PlayerStats | 'HR'> = {
-  'fg_RBI': 'RBI',
-  'fg_HR': 'HR', // Special: extracted from HRperPA
-  'fg_OPS': 'OPS',
-  'fg_wRC+': 'wRCplus',
-  'fg_BB%': 'BBpct',
-  'fg_K%': 'Kpct',
-  'fg_PA': 'PA',
-  'fg_WAR': 'WAR',
-  'fg_xwOBA': 'xwOBA',
-  'fg_xSLG': 'xSLG',
-  'sc_EV_brl_pa': 'BarrelPerPA',
-  'sc_EV_ev50': 'EV50',
-  'fg_Def': 'fg_Def',
-  'fg_BsR': 'fg_BsR',
-  // Pitcher stats
-  'fg_ERA': 'ERA',
-  'fg_FIP': 'FIP',
-  'fg_xFIP': 'xFIP',
-  'fg_K/9': 'Kper9',
-  'fg_BB/9': 'BBper9',
-  'fg_WHIP': 'WHIP',
-  'fg_IP': 'IP',
-};
-
-const STAT_CONFIG = {
-  // Outcome stats
-  'fg_RBI': { label: 'RBI', higherBetter: true, weight: 0.1, decimals: 0, scale: 'raw' as const },
-  'fg_HR': { label: 'HR', higherBetter: true, weight: 0.1, decimals: 0, scale: 'raw' as const },
-  'fg_OPS': { label: 'OPS', higherBetter: true, weight: 0.1, decimals: 3, scale: 'decimal' as const },
-  'fg_wRC+': { label: 'wRC+', higherBetter: true, weight: 0.1, decimals: 0, scale: 'raw' as const },
-  'fg_BB%': { label: 'BB%', higherBetter: true, weight: 0.1, decimals: 1, scale: 'pct' as const },
-  'fg_K%': { label: 'K%', higherBetter: false, weight: 0.1, decimals: 1, scale: 'pct' as const },
-  'fg_PA': { label: 'PA', higherBetter: true, weight: 0.1, decimals: 0, scale: 'raw' as const },
-  'fg_WAR': { label: 'WAR', higherBetter: true, weight: 0.1, decimals: 1, scale: 'raw' as const },
-  // Expected stats
-  'fg_xwOBA': { label: 'xwOBA', higherBetter: true, weight: 0.1, decimals: 3, scale: 'decimal' as const },
-  'fg_xSLG': { label: 'xSLG', higherBetter: true, weight: 0.1, decimals: 3, scale: 'decimal' as const },
-  // Batted stats
-  'sc_EV_brl_pa': { label: 'Barrels/PA', higherBetter: true, weight: 0.1, decimals: 1, scale: 'pct' as const },
-  'sc_EV_ev50': { label: 'avgEV', higherBetter: true, weight: 0.1, decimals: 1, scale: 'mph' as const },
-  // Defensive/Base running
-  'fg_Def': { label: 'Def', higherBetter: true, weight: 0.1, decimals: 1, scale: 'runs' as const },
-  'fg_BsR': { label: 'BsR', higherBetter: true, weight: 0.1, decimals: 1, scale: 'runs' as const },
-};
-
-// Pitcher stat config
-const PITCHER_STAT_CONFIG = {
-  'fg_ERA': { label: 'ERA', higherBetter: false, weight: 0.15, decimals: 2, scale: 'decimal' as const },
-  'fg_FIP': { label: 'FIP', higherBetter: false, weight: 0.15, decimals: 2, scale: 'decimal' as const },
-  'fg_xFIP': { label: 'xFIP', higherBetter: false, weight: 0.15, decimals: 2, scale: 'decimal' as const },
-  'fg_K/9': { label: 'K/9', higherBetter: true, weight: 0.15, decimals: 1, scale: 'raw' as const },
-  'fg_BB/9': { label: 'BB/9', higherBetter: false, weight: 0.15, decimals: 2, scale: 'raw' as const },
-  'fg_WHIP': { label: 'WHIP', higherBetter: false, weight: 0.15, decimals: 2, scale: 'decimal' as const },
-  'fg_IP': { label: 'IP', higherBetter: true, weight: 0.10, decimals: 1, scale: 'raw' as const },
-  'fg_WAR': { label: 'WAR', higherBetter: true, weight: 0.20, decimals: 1, scale: 'raw' as const },
-};
-
-// Position-specific weight presets (total: 5.0 per position)
-const POSITION_WEIGHTS: Record<string, Record<string, number>> = {
-  '1B': {
-    'fg_RBI': 0.50, 'fg_HR': 0.65, 'fg_OPS': 0.30, 'fg_wRC+': 0.70, 'fg_BB%': 0.20, 'fg_K%': 0.20, 'fg_PA': 0.30, 'fg_WAR': 0.60,
-    'fg_xwOBA': 0.50, 'fg_xSLG': 0.30,
-    'sc_EV_brl_pa': 0.30, 'sc_EV_ev50': 0.20,
-    'fg_Def': 0.10, 'fg_BsR': 0.15,
-  },
-  'DH': {
-    'fg_RBI': 0.50, 'fg_HR': 0.60, 'fg_OPS': 0.35, 'fg_wRC+': 0.60, 'fg_BB%': 0.25, 'fg_K%': 0.25, 'fg_PA': 0.35, 'fg_WAR': 0.60,
-    'fg_xwOBA': 0.50, 'fg_xSLG': 0.35,
-    'sc_EV_brl_pa': 0.35, 'sc_EV_ev50': 0.25,
-    'fg_Def': 0.00, 'fg_BsR': 0.05,
-  },
-  'SS': {
-    'fg_RBI': 0.20, 'fg_HR': 0.20, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.50, 'fg_WAR': 0.60,
-    'fg_xwOBA': 0.45, 'fg_xSLG': 0.20,
-    'sc_EV_brl_pa': 0.20, 'sc_EV_ev50': 0.15,
-    'fg_Def': 1.00, 'fg_BsR': 0.10,
-  },
-  '2B': {
-    'fg_RBI': 0.20, 'fg_HR': 0.20, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.50, 'fg_WAR': 0.60,
-    'fg_xwOBA': 0.35, 'fg_xSLG': 0.20,
-    'sc_EV_brl_pa': 0.20, 'sc_EV_ev50': 0.15,
-    'fg_Def': 0.70, 'fg_BsR': 0.50,
-  },
-  '3B': {
-    'fg_RBI': 0.40, 'fg_HR': 0.55, 'fg_OPS': 0.30, 'fg_wRC+': 0.45, 'fg_BB%': 0.20, 'fg_K%': 0.20, 'fg_PA': 0.30, 'fg_WAR': 0.60,
-    'fg_xwOBA': 0.40, 'fg_xSLG': 0.45,
-    'sc_EV_brl_pa': 0.30, 'sc_EV_ev50': 0.20,
-    'fg_Def': 0.55, 'fg_BsR': 0.10,
-  },
-  'CF': {
-    'fg_RBI': 0.20, 'fg_HR': 0.20, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.40, 'fg_WAR': 0.60,
-    'fg_xwOBA': 0.40, 'fg_xSLG': 0.20,
-    'sc_EV_brl_pa': 0.20, 'sc_EV_ev50': 0.15,
-    'fg_Def': 0.70, 'fg_BsR': 0.55,
-  },
-  'OF': {
-    'fg_RBI': 0.20, 'fg_HR': 0.20, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.40, 'fg_WAR': 0.60,
-    'fg_xwOBA': 0.40, 'fg_xSLG': 0.20,
-    'sc_EV_brl_pa': 0.20, 'sc_EV_ev50': 0.15,
-    'fg_Def': 0.70, 'fg_BsR': 0.55,
-  },
-  'LF': {
-    'fg_RBI': 0.40, 'fg_HR': 0.45, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.40, 'fg_WAR': 0.45,
-    'fg_xwOBA': 0.40, 'fg_xSLG': 0.30,
-    'sc_EV_brl_pa': 0.25, 'sc_EV_ev50': 0.20,
-    'fg_Def': 0.50, 'fg_BsR': 0.25,
-  },
-  'RF': {
-    'fg_RBI': 0.40, 'fg_HR': 0.45, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.40, 'fg_WAR': 0.45,
-    'fg_xwOBA': 0.40, 'fg_xSLG': 0.30,
-    'sc_EV_brl_pa': 0.25, 'sc_EV_ev50': 0.20,
-    'fg_Def': 0.50, 'fg_BsR': 0.25,
-  },
-  'C': {
-    'fg_RBI': 0.25, 'fg_HR': 0.25, 'fg_OPS': 0.35, 'fg_wRC+': 0.50, 'fg_BB%': 0.35, 'fg_K%': 0.35, 'fg_PA': 0.60, 'fg_WAR': 0.60,
-    'fg_xwOBA': 0.35, 'fg_xSLG': 0.30,
-    'sc_EV_brl_pa': 0.25, 'sc_EV_ev50': 0.20,
-    'fg_Def': 0.60, 'fg_BsR': 0.05,
-  },
-  // Pitcher positions
-  'P': {
-    'fg_ERA': 1.0, 'fg_FIP': 0.8, 'fg_xFIP': 0.7, 'fg_K/9': 1.2, 'fg_BB/9': 0.8, 'fg_WHIP': 0.9, 'fg_IP': 0.6, 'fg_WAR': 1.5,
-  },
-  // Starting Pitcher weights - emphasize IP and WAR (volume stats)
-  'SP': {
-    'fg_ERA': 1.2, 'fg_FIP': 1.0, 'fg_xFIP': 0.9, 'fg_K/9': 1.1, 'fg_BB/9': 0.9, 'fg_WHIP': 1.0, 'fg_IP': 1.2, 'fg_WAR': 1.8,
-  },
-  // Relief Pitcher weights - match P weights
-  'RP': {
-    'fg_ERA': 1.0, 'fg_FIP': 0.8, 'fg_xFIP': 0.7, 'fg_K/9': 1.2, 'fg_BB/9': 0.8, 'fg_WHIP': 0.9, 'fg_IP': 0.6, 'fg_WAR': 1.5,
-  },
-};
-
-// Position code to abbreviation mapping
-const POSITION_CODE_MAP: Record<number, string> = {
-  1: 'P',
-  2: 'C',
-  3: '1B',
-  4: '2B',
-  5: '3B',
-  6: 'SS',
-  7: 'OF',
-  8: 'OF',
-  9: 'OF',
-  10: 'DH',
-};
-
-/**
- * Load primary position from Positions.csv and positions_pitchers.csv for 2025 season
- */
-async function loadPrimaryPosition(playerId: string): Promise<string | null> {
-  const [positionsRows, positionsPitchersRows] = await fetchMultipleCsvs([
-    '/Positions.csv',
-    '/positions_pitchers.csv'
-  ]);
-  const allPositionsRows = [...positionsRows, ...positionsPitchersRows];
-  const positionCounts = new Map<string, number>();
-  
-  // Process rows for 2025 season only
-  for (const row of allPositionsRows) {
-    const name = getString(row, ['player_name']);
-    const season = getField(row, ['season'], 0);
-    const positionCode = getField(row, ['position_code'], 0);
-    
-    if (!name || season !== 2025 || !positionCode || positionCode === 0) continue;
-    
-    const normId = normalizePlayerName(name);
-    if (normId !== playerId) continue;
-    
-    const positionAbbr = POSITION_CODE_MAP[positionCode];
-    if (positionAbbr) {
-      positionCounts.set(positionAbbr, (positionCounts.get(positionAbbr) || 0) + 1);
-    }
-  }
-  
-  // Determine primary position (most frequently played)
-  let maxCount = 0;
-  let primaryPos = null;
-  for (const [pos, count] of positionCounts.entries()) {
-    if (count > maxCount) {
-      maxCount = count;
-      primaryPos = pos;
-    }
-  }
-  
-  return primaryPos;
-}
-
-// Helper function to get weights for a specific position
-function getWeightsForPosition(position: string): Record<string, number> {
-  const normalizedPos = position?.trim().toUpperCase() || '';
-  const positionWeights = POSITION_WEIGHTS[normalizedPos];
-  
-  if (positionWeights) {
-    return positionWeights;
-  }
-  
-  // Fallback to default weights from STAT_CONFIG or PITCHER_STAT_CONFIG
-  const isPitcherPos = normalizedPos === 'P' || normalizedPos === 'SP' || normalizedPos === 'RP';
-  const defaultConfig = isPitcherPos ? PITCHER_STAT_CONFIG : STAT_CONFIG;
-  return Object.fromEntries(
-    Object.entries(defaultConfig).map(([key, config]) => [key, config.weight])
-  );
-}
-
 const ESTIMATED_VALUE_STORAGE_KEY_PREFIX = 'borasApp_estimatedValueSettings_';
 
-interface EstimatedValueSettings {
+export interface EstimatedValueSettings {
   selectedCompIds: string[];
   selectedPosition: string;
   customWeights: Record<string, number>;
@@ -248,6 +51,70 @@ function getStorageKey(playerId: string): string {
   return `${ESTIMATED_VALUE_STORAGE_KEY_PREFIX}${playerId}`;
 }
 
+const VALUATION_AUDIT_LABELS: Record<string, string> = {
+  includedComps: 'Included Comps',
+  selectedPosition: 'Position Weights',
+  adjustAAV: 'Adjust AAV',
+  adjustYears: 'Adjust Years',
+  inflationPercent: 'Inflation %',
+};
+
+/**
+ * Flattens the settings that move the valuation into display values for the
+ * audit trail (panel state such as weightsOpen is left out)
+ */
+function getValuationAuditRecord(settings: EstimatedValueSettings, comps: Player[]): Record<string, string> {
+  const allStats: Record<string, { label: string }> = { ...STAT_CONFIG, ...PITCHER_STAT_CONFIG };
+  const weights = Object.fromEntries(
+    Object.entries(settings.customWeights).map(([key, weight]) => [
+      `${allStats[key]?.label ?? key} Weight`,
+      `${Math.round(weight * 100)}%`,
+    ])
+  );
+  return {
+    includedComps: comps.filter(c => settings.selectedCompIds.includes(c.id)).map(c => c.name).join(', ') || 'None',
+    selectedPosition: settings.selectedPosition,
+    adjustAAV: settings.adjustAAV ? 'On' : 'Off',
+    adjustYears: settings.adjustYears ? 'On' : 'Off',
+    inflationPercent: `${settings.inflationPercent}%`,
+    ...weights,
+  };
+}
+
+/**
+ * Reads a player's saved settings, or null when none are stored
+ */
+export function loadEstimatedValueSettings(playerId: string): Partial<EstimatedValueSettings> | null {
+  if (typeof window !== 'undefined') {
+    try {
+      const stored = localStorage.getItem(getStorageKey(playerId));
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (parsed && typeof parsed === 'object') {
+          return parsed;
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to load EstimatedValue settings from localStorage:', error);
+    }
+  }
+  return null;
+}
+
+/**
+ * Writes restored valuation settings for a player; picked up the next time
+ * the screen mounts for that player
+ */
+export function restoreEstimatedValueSettings(playerId: string, settings: Record<string, unknown>): void {
+  try {
+    const stored = localStorage.getItem(getStorageKey(playerId));
+    const current = stored ? JSON.parse(stored) : {};
+    localStorage.setItem(getStorageKey(playerId), JSON.stringify({ ...current, ...settings }));
+  } catch (error) {
+    console.warn('Failed to restore EstimatedValue settings to localStorage:', error);
+  }
+}
+
 export function EstimatedValue({ player, comps, onContinue, onBack }: EstimatedValueProps) {
   // If no player selected, show error state
   if (!player || !comps || comps.length === 0) {
@@ -261,7 +128,9 @@ export function EstimatedValue({ player, comps, onContinue, onBack }: EstimatedV
     );
   }
 
-  const PETE_STATS = player.threeYearStats;
+  const PETE_STATS = getPerSeasonStatsForPeriod(player, '3yr-avg');
+  const { terms } = useContract();
+  const { recordEvent } = useAudit();
   const COMPS = comps;
   const isPitcherPlayer = isPitcher(player);
   
@@ -269,51 +138,18 @@ export function EstimatedValue({ player, comps, onContinue, onBack }: EstimatedV
   const activeStatConfig = isPitcherPlayer ? PITCHER_STAT_CONFIG : STAT_CONFIG;
   
   // Get primary position from player's stored position (normalize to primary)
-  const normalizePosition = (pos: string): string => {
-    if (!pos) return isPitcherPlayer ? 'SP' : '1B';
-    const normalized = pos.trim().toUpperCase();
-    // Extract primary position (first before slash/comma)
-    const primary = normalized.split(/[\/,]/)[0].trim();
-    
-    // For pitchers, convert P to SP and preserve SP or RP
-    // Only default to SP if position is completely empty
-    if (isPitcherPlayer) {
-      if (primary === '' || !primary) {
-        // Only default to SP if we have no position at all
-        return 'SP';
-      }
-      // Convert P to SP, otherwise return SP or RP as-is
-      return primary === 'P' ? 'SP' : primary;
-    }
-    
-    return primary || '1B';
-  };
+  const normalizePosition = (pos: string): string => normalizeValuationPosition(pos, isPitcherPlayer);
   
   // Load saved settings from localStorage for this specific player
-  const savedSettings = useMemo((): Partial<EstimatedValueSettings> | null => {
-    if (typeof window !== 'undefined') {
-      try {
-        const storageKey = getStorageKey(player.id);
-        const stored = localStorage.getItem(storageKey);
-        if (stored) {
-          const parsed = JSON.parse(stored);
-          if (parsed && typeof parsed === 'object') {
-            return parsed;
-          }
-        }
-      } catch (error) {
-        console.warn('Failed to load EstimatedValue settings from localStorage:', error);
-      }
-    }
-    return null;
-  }, [player.id]); // Reload when player changes
+  const savedSettings = useMemo(() => loadEstimatedValueSettings(player.id), [player.id]); // Reload when player changes
 
   // Use primary position from CSV if available, otherwise use player.position
   const [playerPrimaryPosition, setPlayerPrimaryPosition] = useState<string | null>(null);
   
-  // Load primary position and use it for initial position
+  // Load 2025 primary position and use it for initial position
   useEffect(() => {
-    loadPrimaryPosition(player.id)
+    loadPlayerRepository()
+      .then((repository) => repository.getPrimaryPosition(player.id, { from: 2025, to: 2025 }))
       .then((primaryPos) => {
         if (primaryPos) {
           setPlayerPrimaryPosition(primaryPos);
@@ -347,6 +183,10 @@ export function EstimatedValue({ player, comps, onContinue, onBack }: EstimatedV
 
   // Track previous player ID to detect player changes
   const prevPlayerIdRef = useRef<string>(player.id);
+  // Last settings written to the audit trail; null until the first save for a player
+  const lastAuditRef = useRef<{ playerId: string; record: Record<string, string> } | null>(null);
+  // Set when a change comes from loading data rather than the user
+  const skipNextAuditRef = useRef(false);
   
   // Reset state when player changes (but not when navigating back to the same player)
   useEffect(() => {
@@ -371,6 +211,7 @@ export function EstimatedValue({ player, comps, onContinue, onBack }: EstimatedV
   useEffect(() => {
     if (playerPrimaryPosition && !savedSettings?.selectedPosition) {
       const normalizedPos = normalizePosition(playerPrimaryPosition);
+      skipNextAuditRef.current = true;
       setSelectedPosition(normalizedPos);
       setCustomWeights(getWeightsForPosition(normalizedPos));
     }
@@ -420,6 +261,24 @@ export function EstimatedValue({ player, comps, onContinue, onBack }: EstimatedV
           weightsOpen,
         };
         localStorage.setItem(storageKey, JSON.stringify(settingsToSave));
+
+        // Log valuation changes for the same player; the first save and player switches are not edits
+        const record = getValuationAuditRecord(settingsToSave, comps);
+        const last = lastAuditRef.current;
+        lastAuditRef.current = { playerId: player.id, record };
+        if (last && last.playerId === player.id && !skipNextAuditRef.current) {
+          const changes = diffRecords(last.record, record, VALUATION_AUDIT_LABELS);
+          const { weightsOpen: _, ...valuationSettings } = settingsToSave;
+          if (changes.length > 0) {
+            recordEvent({
+              category: 'valuation',
+              action: changes.length === 1 ? `Changed ${changes[0].label}` : `Changed ${changes.length} valuation settings`,
+              changes,
+              valuationSettings,
+            });
+          }
+        }
+        skipNextAuditRef.current = false;
       } catch (error) {
         console.warn('Failed to save EstimatedValue settings to localStorage:', error);
       }
@@ -432,293 +291,15 @@ export function EstimatedValue({ player, comps, onContinue, onBack }: EstimatedV
     setCustomWeights(getWeightsForPosition(position));
   };
 
-  const calculations = useMemo(() => {
-    const activeComps = COMPS.filter((c) => selectedComps.has(c.id));
-    
-    if (activeComps.length === 0) {
-      return {
-        baselineAAV: 0,
-        baselineYears: 0,
-        fairAAV: 0,
-        fairYears: 0,
-        aavMultiplier: 1,
-        yearsAdjustment: 0,
-        cohortStats: {} as PlayerStats,
-        statComparisons: [] as any[],
-        statImpacts: [] as any[],
-      };
-    }
-
-    // Calculate baseline from comps adjusted for inflation (average of inflation-adjusted AAVs)
-    const presentYear = 2025;
-    const inflationRate = Math.max(0, inflationPercent) / 100;
-    const adjustedAAVs = activeComps.map((c) => {
-      const signedYear = (c as any).signedYear as number | undefined;
-      const yearsSinceSigning = signedYear ? Math.max(0, presentYear - signedYear) : 0;
-      const factor = Math.pow(1 + inflationRate, yearsSinceSigning);
-      return c.AAV * factor;
-    });
-    const baselineAAV = adjustedAAVs.reduce((sum, v) => sum + v, 0) / activeComps.length;
-    const inflationAdjustedById = Object.fromEntries(
-      activeComps.map((c, idx) => [c.id, adjustedAAVs[idx]])
-    );
-    const rawBaselineAAV = activeComps.reduce((sum, c) => sum + c.AAV, 0) / activeComps.length;
-    const cohortAvgSignedYear = activeComps.reduce((sum, c) => sum + ((c as any).signedYear || 0), 0) / activeComps.length;
-    const baselineYears = activeComps.reduce((sum, c) => sum + c.years, 0) / activeComps.length;
-
-    // Cohort average age at signing (prefer age at signing if present)
-    const cohortSigningAge = (activeComps.reduce((sum, c) => {
-      const ageAtSigning = (c.threeYearContractStats?.age as number) || (c.threeYearStats.age as number);
-      return sum + ageAtSigning;
-    }, 0) / activeComps.length) || PETE_STATS.age;
-
-    // Calculate cohort average stats (using pre-contract stats for comps)
-    const cohortStats = Object.keys(activeStatConfig).reduce((acc, configKey) => {
-      const statKey = STAT_KEY_MAP[configKey];
-      if (statKey === 'HR') {
-        // HR is extracted from HRperPA (which stores HR count)
-        const avgHr = activeComps.reduce((sum, c) => {
-          const s = c.threeYearContractStats || c.threeYearStats;
-          const hr = Math.round((s.HRperPA as number) || 0);
-          return sum + hr;
-        }, 0) / activeComps.length;
-        (acc as any)[statKey] = isNaN(avgHr) ? 0 : avgHr;
-      } else {
-        (acc as any)[statKey] = activeComps.reduce((sum, c) => {
-          const s = c.threeYearContractStats || c.threeYearStats;
-          return sum + ((s as any)[statKey] as number || 0);
-        }, 0) / activeComps.length;
-      }
-      return acc;
-    }, {} as any) as PlayerStats & { HR?: number; OPS?: number };
-
-    // Calculate Pete's performance relative to cohort for each stat
-    const statComparisons = Object.entries(activeStatConfig).map(([configKey, config]) => {
-      const statKey = STAT_KEY_MAP[configKey];
-      let peteValue: number;
-      let cohortValue: number;
-      
-      if (statKey === 'HR') {
-        peteValue = Math.round(PETE_STATS.HRperPA as number);
-        cohortValue = (cohortStats as any)[statKey] as number;
-      } else {
-        peteValue = ((PETE_STATS as any)[statKey] as number) || 0;
-        cohortValue = ((cohortStats as any)[statKey] as number) || 0;
-      }
-      
-      const delta = peteValue - cohortValue;
-      
-      // Calculate percentage difference with protection against division by zero or very small denominators
-      let pctDiff: number;
-      if (Math.abs(cohortValue) < 0.001) {
-        // If cohort value is essentially zero, use absolute difference scaled appropriately
-        // For very small denominators, cap the percentage to avoid extreme values
-        pctDiff = Math.sign(delta) * Math.min(500, Math.abs(delta * 100));
-      } else {
-        pctDiff = (delta / Math.abs(cohortValue)) * 100;
-        // Clamp percentage to reasonable bounds (-500% to +500%)
-        pctDiff = Math.max(-500, Math.min(500, pctDiff));
-      }
-      
-      // Calculate ratio for AAV impact
-      // For stats that can be negative (like Def, BsR), we need special handling
-      let ratio = 1;
-      if (configKey === 'fg_Def' || configKey === 'fg_BsR') {
-        // For Def/BsR: higher is better, but values can be negative
-        // Use delta-based approach: convert delta to ratio equivalent
-        // A delta of +5 Def should give similar impact to +10% on a positive stat
-        // Scale: each unit of Def/BsR delta = 2% ratio change (scaled by typical range)
-        const typicalRange = 10; // Typical range for Def/BsR is about -10 to +10
-        const deltaRatio = 1 + (delta / typicalRange) * 0.2; // 0.2 = 2% per unit
-        ratio = Math.max(0.5, Math.min(2.0, deltaRatio));
-      } else if (config.higherBetter) {
-        // For regular stats where higher is better
-        if (Math.abs(cohortValue) < 0.001) {
-          ratio = peteValue > 0 ? 1.1 : (peteValue < 0 ? 0.9 : 1);
-        } else {
-          ratio = peteValue / cohortValue;
-        }
-        // Clamp ratio to reasonable bounds to prevent extreme values
-        ratio = Math.max(0.1, Math.min(10, ratio));
-      } else {
-        // For stats where lower is better (like K%, age)
-        if (Math.abs(peteValue) < 0.001) {
-          ratio = cohortValue > 0 ? 1.1 : (cohortValue < 0 ? 0.9 : 1);
-        } else {
-          ratio = cohortValue / peteValue;
-        }
-        // Clamp ratio to reasonable bounds to prevent extreme values
-        ratio = Math.max(0.1, Math.min(10, ratio));
-      }
-      
-      return {
-        stat: config.label,
-        key: configKey,
-        peteValue,
-        cohortValue,
-        ratio,
-        delta,
-        pctDiff,
-        weight: customWeights[configKey],
-      };
-    });
-
-    // Calculate weighted multiplier for AAV and individual stat impacts
-    let weightedSum = 0;
-    let totalWeight = 0;
-    
-    // First pass: accumulate weights and calculate contributions
-    const statContributions = statComparisons.map((comp) => {
-      const contribution = (comp.ratio - 1) * comp.weight;
-      weightedSum += comp.ratio * comp.weight;
-      totalWeight += comp.weight;
-      
-      return {
-        ...comp,
-        contribution,
-      };
-    });
-    
-    // Second pass: calculate AAV impacts using the FINAL totalWeight (all metrics use same denominator)
-    const statImpacts = statContributions.map((comp) => {
-      // Calculate impact on AAV (this stat's contribution to the multiplier)
-      // Using final totalWeight ensures all stats are calculated consistently
-      // 
-      // Sign logic:
-      // - If ratio > 1 (player better than cohort): contribution > 0 → aavImpact > 0 (increases AAV)
-      // - If ratio < 1 (player worse than cohort): contribution < 0 → aavImpact < 0 (decreases AAV)
-      // - If ratio = 1 (player matches cohort): contribution = 0 → aavImpact = 0 (no change)
-      const statMultiplier = 1 + (comp.contribution / totalWeight);
-      const aavImpact = baselineAAV * comp.contribution / totalWeight;
-      
-      return {
-        ...comp,
-        aavImpact,
-      };
-    });
-    
-    const rawMultiplier = weightedSum / totalWeight;
-    
-    // Apply a scaling factor to amplify performance differences
-    // This makes the multiplier more sensitive to performance differences
-    const sensitivityMultiplier = 1.4; // Increase this to make performance matter more
-    const scaledMultiplier = 1 + (rawMultiplier - 1) * sensitivityMultiplier;
-    
-    // Expanded range to allow for larger performance impacts (0.50-2.0 = -50% to +100%)
-    const aavMultiplier = adjustAAV ? Math.max(0.50, Math.min(2.0, scaledMultiplier)) : 1.0;
-    const fairAAV = baselineAAV * aavMultiplier;
-
-    // Scale individual stat impacts to account for multiplier clamping
-    // This ensures the sum of impacts matches the actual clamped difference
-    const rawImpactSum = statImpacts.reduce((sum, impact) => sum + impact.aavImpact, 0);
-    const actualDifference = fairAAV - baselineAAV;
-    const impactScale = rawImpactSum !== 0 ? actualDifference / rawImpactSum : 1;
-    
-    // Scale each impact proportionally to preserve relative contributions
-    const scaledStatImpacts = statImpacts.map(impact => ({
-      ...impact,
-      aavImpact: impact.aavImpact * impactScale,
-    }));
-
-    // Years adjustment - cleaner formula based on age and performance
-    // Formula: Baseline × age_multiplier + performance_adjustment
-    
-    const ageDelta = PETE_STATS.age - cohortSigningAge;
-    
-    // Curved age multiplier using a quadratic response
-    // Older than cohort signing age => increasingly harsh penalty
-    // Younger than cohort signing age => tempered benefit (reduced)
-    const olderDelta = Math.max(0, ageDelta);
-    const youngerDelta = Math.max(0, -ageDelta);
-    
-    // Different age penalties for pitchers vs hitters
-    // Pitchers age more gracefully, so they get reduced penalties
-    let penaltyComponent, benefitComponent;
-    if (isPitcherPlayer) {
-      // Reduced penalties for pitchers: 0.05 → 0.03, quadratic 0.010 → 0.005
-      penaltyComponent = (0.03 * olderDelta) + (0.005 * olderDelta * olderDelta);
-      // Increased benefits for younger pitchers - they should get more credit for being younger
-      // Increase linear coefficient from 0.03 to 0.05, reduce quadratic penalty from 0.005 to 0.002
-      benefitComponent = (0.05 * youngerDelta) - (0.002 * youngerDelta * youngerDelta);
-    } else {
-      // Original penalties for hitters
-      penaltyComponent = (0.05 * olderDelta) + (0.010 * olderDelta * olderDelta);
-      benefitComponent = (0.03 * youngerDelta) - (0.005 * youngerDelta * youngerDelta);
-    }
-    
-    const rawAgeMultiplier = 1 - penaltyComponent + benefitComponent;
-    
-    // Enhanced age multiplier for very young high-performing players (both hitters and pitchers)
-    // Threshold: age <= 25 and AAV multiplier >= 1.15 (top 15% performance)
-    const isVeryYoungHighPerformer = PETE_STATS.age <= 25 && aavMultiplier >= 1.15;
-    
-    let ageMultiplier;
-    if (isVeryYoungHighPerformer) {
-      // Apply additional boost: increase max multiplier from 1.5 to 1.8
-      // This rewards elite young talent with longer contracts
-      const boostedMultiplier = rawAgeMultiplier * 1.15; // 15% additional boost
-      ageMultiplier = Math.max(0.6, Math.min(1.8, boostedMultiplier));
-    } else {
-      // Standard bounds for all other players
-      ageMultiplier = Math.max(0.6, Math.min(1.5, rawAgeMultiplier));
-    }
-    
-    // Absolute age penalty: reduce years for players 31+ (stronger)
-    // Pitchers get reduced penalty: start at 33 instead of 31, lower rate (0.15 vs 0.25)
-    let absoluteAgePenalty;
-    if (isPitcherPlayer) {
-      // Pitchers: start penalty at 33, rate 0.15 per year, cap at 1.5 years
-      absoluteAgePenalty = PETE_STATS.age >= 33 
-        ? Math.min(1.5, (PETE_STATS.age - 32) * 0.15)
-        : 0;
-    } else {
-      // Hitters: original penalty starting at 31, rate 0.25 per year, cap at 2.0 years
-      absoluteAgePenalty = PETE_STATS.age >= 31 
-        ? Math.min(2.0, (PETE_STATS.age - 30) * 0.25)
-        : 0;
-    }
-    
-    // Performance adjustment: elite players get slightly longer deals (damped)
-    // Increase multiplier from 1.2 to 1.8, expand cap from ±1 to ±1.5
-    // For younger pitchers, apply a higher multiplier to reward their youth + performance
-    const performanceMultiplier = (isPitcherPlayer && youngerDelta > 0) ? 2.75 : 1.8;
-    const performanceAdjustmentRaw = (aavMultiplier - 1) * performanceMultiplier;
-    const performanceAdjustment = Math.max(-1.5, Math.min(1.5, performanceAdjustmentRaw));
-    
-    const totalYearsAdjustment = adjustYears 
-      ? ((baselineYears * ageMultiplier) - baselineYears) - absoluteAgePenalty + performanceAdjustment
-      : 0;
-    
-    // Soft cap: do not exceed baseline by more than +2.0 years (was +1.0)
-    // For very young high performers, allow up to +5.0 years to match the enhanced age multiplier
-    const softCapLimit = isVeryYoungHighPerformer ? 5.0 : 2.0;
-    const proposedYears = baselineYears + totalYearsAdjustment;
-    const cappedYears = Math.min(baselineYears + softCapLimit, proposedYears);
-    const fairYears = Math.max(1, Math.round(cappedYears * 2) / 2); // Min 1 year, round to 0.5
-
-    return {
-      baselineAAV,
-      baselineYears,
-      fairAAV,
-      fairYears,
-      aavMultiplier,
-      yearsAdjustment: totalYearsAdjustment,
-      cohortStats,
-      ageDelta,
-      ageMultiplier,
-      absoluteAgePenalty,
-      performanceAdjustment,
-      proposedYears,
-      cappedYears,
-      cohortSigningAge,
-      statComparisons,
-      statImpacts: scaledStatImpacts,
-      rawBaselineAAV,
-      inflationAdjustedById,
-      presentYear,
-      cohortAvgSignedYear,
-    };
-  }, [selectedComps, customWeights, adjustAAV, adjustYears, inflationPercent]);
+  const calculations = useMemo(
+    () => calculateEstimatedValue(
+      player,
+      COMPS,
+      { selectedCompIds: Array.from(selectedComps), customWeights, adjustAAV, adjustYears, inflationPercent },
+      terms.startSeason
+    ),
+    [selectedComps, customWeights, adjustAAV, adjustYears, inflationPercent, terms.startSeason]
+  );
 
   // Save calculated fairAAV and fairYears to localStorage for use in TeamFit
   useEffect(() => {
@@ -942,7 +523,7 @@ export function EstimatedValue({ player, comps, onContinue, onBack }: EstimatedV
                             {config.label}
                           </TableCell>
                           {COMPS.filter(c => selectedComps.has(c.id)).map((comp) => {
-                            const compStats = comp.threeYearContractStats || comp.threeYearStats;
+                            const compStats = getPerSeasonStatsForPeriod(comp, '3yr-contract');
                             const value = getStatValue(configKey, compStats, comp);
                             return (
                               <TableCell key={comp.id} className="text-[#A3A8B0] text-center px-1.5 py-1.5 text-[10px]">
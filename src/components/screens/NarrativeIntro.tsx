@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { SBButton } from '../boras/SBButton';
 import { X, Search, Check, Activity } from 'lucide-react';
@@ -9,8 +9,10 @@ import { cn } from '../ui/utils';
 import borasLogo from '../../assets/Boras2.png';
 import sequenceLogo from '../../assets/Sequence.png';
 import vaynerLogo from '../../assets/Vayner.png';
-import { fetchMultipleCsvs } from '../../data/csvLoader';
-import { getString, getField, normalizePlayerName } from '../../data/csvLoader';
+import { loadPlayerRepository, type PlayerRepository, type SeasonRange } from '../../data/playerRepository';
+import { findSimilarComps } from '../../services/compSimilarityService';
+import { getStatConfig } from '../../services/estimatedValueService';
+import type { SimilarityFactor } from '../../types';
 
 interface NarrativeIntroProps {
   onBegin: (selectedPlayer: Player, selectedComps: Player[]) => void;
@@ -32,69 +34,26 @@ interface NarrativeIntroProps {
   initialSelectedComps?: Player[];
 }
 
-// Position code to abbreviation mapping
-const POSITION_CODE_MAP: Record<number, string> = {
-  1: 'P',
-  2: 'C',
-  3: '1B',
-  4: '2B',
-  5: '3B',
-  6: 'SS',
-  7: 'OF',
-  8: 'OF',
-  9: 'OF',
-  10: 'DH',
-};
-
-/**
- * Load primary positions from Positions.csv and positions_pitchers.csv for 2025 season
- * Returns a map of playerId -> primary position abbreviation
- */
-async function loadPrimaryPositions(): Promise<Map<string, string>> {
-  const [positionsRows, positionsPitchersRows] = await fetchMultipleCsvs([
-    '/Positions.csv',
-    '/positions_pitchers.csv'
-  ]);
-  const allPositionsRows = [...positionsRows, ...positionsPitchersRows];
-  const positionCountsByPlayer = new Map<string, Map<string, number>>();
-  
-  // Process rows for 2025 season only
-  for (const row of allPositionsRows) {
-    const name = getString(row, ['player_name']);
-    const season = getField(row, ['season'], 0);
-    const positionCode = getField(row, ['position_code'], 0);
-    
-    if (!name || season !== 2025 || !positionCode || positionCode === 0) continue;
-    
-    const normId = normalizePlayerName(name);
-    const positionAbbr = POSITION_CODE_MAP[positionCode];
-    
-    if (positionAbbr) {
-      if (!positionCountsByPlayer.has(normId)) {
-        positionCountsByPlayer.set(normId, new Map());
-      }
-      const counts = positionCountsByPlayer.get(normId)!;
-      counts.set(positionAbbr, (counts.get(positionAbbr) || 0) + 1);
-    }
-  }
-  
-  // Determine primary position (most frequently played)
-  const primaryPositions = new Map<string, string>();
-  for (const [playerId, positionCounts] of positionCountsByPlayer.entries()) {
-    let maxCount = 0;
-    let primaryPos = '';
-    for (const [pos, count] of positionCounts.entries()) {
-      if (count > maxCount) {
-        maxCount = count;
-        primaryPos = pos;
-      }
-    }
-    if (primaryPos) {
-      primaryPositions.set(playerId, primaryPos);
-    }
+// Positions shown next to names are 2025 primary positions
+const DISPLAY_POSITION_SEASONS: SeasonRange = { from: 2025, to: 2025 };
+
+// Number of similarity suggestions shown under the comp search
+const SUGGESTION_LIMIT = 5;
+
+function formatFactorValue(player: Player, key: string, value: number): string {
+  if (key === 'age' || key === 'era') return value.toFixed(0);
+  const config = (getStatConfig(player) as Record<string, { decimals: number; scale: string }>)[key];
+  if (!config) return value.toFixed(1);
+  if (config.scale === 'pct') {
+    const pct = value <= 1 ? value * 100 : value;
+    return `${pct.toFixed(config.decimals)}%`;
   }
-  
-  return primaryPositions;
+  return value.toFixed(config.decimals);
+}
+
+// "wRC+ 138 vs 142" - comp first, target second
+function describeFactor(player: Player, factor: SimilarityFactor): string {
+  return `${factor.label} ${formatFactorValue(player, factor.key, factor.compValue)} vs ${formatFactorValue(player, factor.key, factor.targetValue)}`;
 }
 
 export function NarrativeIntro({ onBegin, onNavigateTo, onSelectionChange, initialSelectedPlayer = null, initialSelectedComps = [] }: NarrativeIntroProps) {
@@ -107,7 +66,7 @@ export function NarrativeIntro({ onBegin, onNavigateTo, onSelectionChange, initi
   const [players, setPlayers] = React.useState<Player[]>(ALL_PLAYERS);
   const [loadingPlayers, setLoadingPlayers] = React.useState<boolean>(false);
   const [loadError, setLoadError] = React.useState<string | null>(null);
-  const [playerPrimaryPositionsMap, setPlayerPrimaryPositionsMap] = React.useState<Map<string, string>>(new Map());
+  const [repository, setRepository] = React.useState<PlayerRepository | null>(null);
   const [pdfExists, setPdfExists] = React.useState<boolean>(false);
   const [mocapAvailable, setMocapAvailable] = React.useState<boolean>(false);
   const prevInitialPlayerRef = useRef<string | null>(initialSelectedPlayer?.id || null);
@@ -131,17 +90,20 @@ export function NarrativeIntro({ onBegin, onNavigateTo, onSelectionChange, initi
     };
   }, []);
 
-  // Load primary positions from Positions.csv
+  // Load primary positions from the player repository
   React.useEffect(() => {
-    loadPrimaryPositions()
-      .then((positions) => {
-        setPlayerPrimaryPositionsMap(positions);
+    loadPlayerRepository()
+      .then((repo) => {
+        setRepository(repo);
       })
       .catch((err) => {
         console.error('Failed to load primary positions:', err);
       });
   }, []);
 
+  const displayPosition = (player: Player) =>
+    repository?.getPrimaryPosition(player.id, DISPLAY_POSITION_SEASONS) || player.position;
+
   // Check if PDF exists for selected player
   React.useEffect(() => {
     if (!selectedPlayer?.name) {
@@ -285,6 +247,22 @@ export function NarrativeIntro({ onBegin, onNavigateTo, onSelectionChange, initi
     }
   };
 
+  // Signed players ranked by platform-year similarity to the selected player
+  const compSuggestions = useMemo(() => {
+    if (!selectedPlayer) return [];
+    const pool = players.length ? players : getPlayersWithContracts();
+    const byId = new Map(pool.map(p => [p.id, p]));
+    return findSimilarComps(selectedPlayer, pool)
+      .filter(s => !selectedComps.find(c => c.id === s.compId))
+      .slice(0, SUGGESTION_LIMIT)
+      .map(similarity => {
+        const statFactors = similarity.factors.filter(f => f.key !== 'age' && f.key !== 'era');
+        const closest = [...statFactors].sort((a, b) => b.similarity * b.weight - a.similarity * a.weight).slice(0, 2);
+        const largestGap = [...similarity.factors].sort((a, b) => b.distanceShare - a.distanceShare)[0];
+        return { similarity, player: byId.get(similarity.compId)!, closest, largestGap };
+      });
+  }, [selectedPlayer, selectedComps, players]);
+
   const canBegin = selectedPlayer !== null && selectedComps.length >= 1;
   const canViewMocap = selectedPlayer !== null;
 
@@ -402,7 +380,7 @@ export function NarrativeIntro({ onBegin, onNavigateTo, onSelectionChange, initi
                         {selectedPlayer.name}
                       </h3>
                       <p className="text-sm text-[#A3A8B0]">
-                        {playerPrimaryPositionsMap.get(selectedPlayer.id) || selectedPlayer.position} • {selectedPlayer.team}
+                        {displayPosition(selectedPlayer)} • {selectedPlayer.team}
                       </p>
                     </div>
                     <motion.button
@@ -472,7 +450,7 @@ export function NarrativeIntro({ onBegin, onNavigateTo, onSelectionChange, initi
                                 <div>
                                   <div className="text-[#ECEDEF] font-medium">{player.name}</div>
                                   <div className="text-sm text-[#A3A8B0] mt-0.5">
-                                    {playerPrimaryPositionsMap.get(player.id) || player.position} • {player.team}
+                                    {displayPosition(player)} • {player.team}
                                   </div>
                                 </div>
                                 {player.AAV && (
@@ -648,7 +626,7 @@ export function NarrativeIntro({ onBegin, onNavigateTo, onSelectionChange, initi
                                 {comp.name}
                               </span>
                               <span className="text-xs text-[#A8B4BD] opacity-80">
-                                {playerPrimaryPositionsMap.get(comp.id) || comp.position}
+                                {displayPosition(comp)}
                               </span>
                               {comp.AAV && (
                                 <span className="text-xs text-[#A8B4BD] font-medium">
@@ -756,8 +734,8 @@ export function NarrativeIntro({ onBegin, onNavigateTo, onSelectionChange, initi
                               <div>
                                 <div className="text-[#ECEDEF] font-medium">{player.name}</div>
                                 <div className="text-sm text-[#A3A8B0] mt-0.5">
-                                  {playerPrimaryPositionsMap.get(player.id) || player.position} • {player.team}
-                                  {selectedPlayer && (playerPrimaryPositionsMap.get(player.id) || player.position) === (playerPrimaryPositionsMap.get(selectedPlayer.id) || selectedPlayer.position) && (
+                                  {displayPosition(player)} • {player.team}
+                                  {selectedPlayer && displayPosition(player) === displayPosition(selectedPlayer) && (
                                     <span className="ml-2 text-[#004B73]">★ Same Position</span>
                                   )}
                                 </div>
@@ -777,6 +755,52 @@ export function NarrativeIntro({ onBegin, onNavigateTo, onSelectionChange, initi
                 </div>
               )}
 
+              {/* Similarity Suggestions */}
+              {selectedComps.length < 5 && !compSearchQuery && compSuggestions.length > 0 && (
+                <div className="mt-5">
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="text-xs font-semibold uppercase tracking-wider text-[#A8B4BD]">
+                      Suggested Comps
+                    </span>
+                    <span className="text-xs text-[#A3A8B0]">
+                      Platform years vs {selectedPlayer?.name}'s last 3 seasons
+                    </span>
+                  </div>
+                  <div className="space-y-2">
+                    {compSuggestions.map(({ similarity, player, closest, largestGap }) => (
+                      <motion.button
+                        key={player.id}
+                        whileHover={{ backgroundColor: 'rgba(0, 75, 115, 0.15)' }}
+                        onClick={() => handleCompSelect(player)}
+                        className="w-full px-4 py-3 text-left flex items-center justify-between gap-4 rounded-xl bg-[rgba(0,0,0,0.2)] border border-[rgba(255,255,255,0.05)] hover:border-[rgba(0,75,115,0.4)] transition-colors"
+                      >
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="text-[#ECEDEF] font-medium">{player.name}</span>
+                            <span className="text-xs text-[#A3A8B0]">
+                              {displayPosition(player)} • {similarity.signedYear}
+                              {similarity.signingAge ? ` • age ${similarity.signingAge.toFixed(0)}` : ''}
+                            </span>
+                          </div>
+                          <div className="text-xs text-[#A3A8B0] mt-1 truncate">
+                            Closest: {closest.map(f => describeFactor(selectedPlayer!, f)).join(', ')}
+                            {largestGap && ` • Largest gap: ${describeFactor(selectedPlayer!, largestGap)}`}
+                            {!similarity.usesPlatformStats && ' • No platform years loaded'}
+                          </div>
+                        </div>
+                        <div className="text-right flex-shrink-0">
+                          <div className="text-sm font-semibold text-[#ECEDEF]">{similarity.score.toFixed(0)}% match</div>
+                          <div className="text-xs text-[#A8B4BD]">
+                            ${player.AAV}M × {player.years}yr
+                            <span className="text-[#A3A8B0]"> (${similarity.adjustedAAV.toFixed(1)}M today)</span>
+                          </div>
+                        </div>
+                      </motion.button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {!canBegin && selectedComps.length === 0 && (
                 <p className="text-center text-[#A3A8B0] text-xs mt-4">
                   At least 1 comparison player is required
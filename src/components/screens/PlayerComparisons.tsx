@@ -18,9 +18,9 @@ type StatKey = keyof Omit<PlayerStats, 'age'>;
 
 const PERIOD_LABELS: Record<StatPeriod, string> = {
   '2025': '2025 Season',
-  '3yr-avg': '3-Year Average',
+  '3yr-avg': 'Last 3 Seasons',
   '3yr-contract': '3-Year Pre-Contract',
-  'career': 'Career Average',
+  'career': 'Career',
 };
 
 export function PlayerComparisons({ player, comps, onContinue, onBack }: PlayerComparisonsProps) {
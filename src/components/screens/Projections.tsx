@@ -1,47 +1,251 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { ComposedChart, Area, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { ChartPlaceholder } from '../boras/ChartPlaceholder';
+import { useContract } from '../narrative/ContractContext';
+import { useSurplusValue } from '../../hooks/useSurplusValue';
+import type { Player } from '../../data/playerDatabase';
+
+interface ProjectionsProps {
+  player: Player | null;
+}
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(1)}M`;
+const formatPerWar = (value: number | null) => (value === null ? '—' : `$${value.toFixed(1)}M`);
+
+export function Projections({ player }: ProjectionsProps) {
+  const { terms } = useContract();
+  const { projection, surplus, loading, error } = useSurplusValue(player);
+
+  const valueRows = useMemo(() => {
+    if (!projection || !surplus) return [];
+    return projection.seasons.map((season, i) => ({
+      ...season,
+      cost: surplus.seasons[i]?.cost ?? 0,
+      marketRate: surplus.seasons[i]?.marketDollarsPerWar ?? 0,
+      dollarsPerWar: surplus.seasons[i]?.dollarsPerWar ?? null,
+      surplus: surplus.seasons[i]?.surplus ?? 0,
+    }));
+  }, [projection, surplus]);
+
+  const curveData = useMemo(() => {
+    if (!projection) return [];
+    const history = projection.history
+      .filter(season => season.season < projection.seasons[0]?.season)
+      .map(season => ({
+        season: season.season.toString(),
+        age: season.age,
+        actual: season.war,
+      }));
+    const projected = projection.seasons.map(season => ({
+      season: season.season.toString(),
+      age: season.age,
+      projected: season.war,
+      band: [season.low, season.high],
+    }));
+    return [...history, ...projected];
+  }, [projection]);
+
+  const priceData = valueRows.map(row => ({
+    season: row.season.toString(),
+    dollarsPerWar: row.dollarsPerWar,
+    marketRate: row.marketRate,
+  }));
+
+  const firstRow = valueRows[0];
+  const lastRow = valueRows[valueRows.length - 1];
+
+  const CustomTooltip = ({ active, payload, label, money }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-lg p-3">
+          <p className="text-[#ECEDEF] text-sm font-semibold mb-2">
+            {label}
+            {payload[0].payload.age ? ` · Age ${payload[0].payload.age}` : ''}
+          </p>
+          {payload.map((entry: any, index: number) => (
+            <p key={index} className="text-xs" style={{ color: entry.color }}>
+              {entry.name}:{' '}
+              {Array.isArray(entry.value)
+                ? `${entry.value[0].toFixed(1)} to ${entry.value[1].toFixed(1)}`
+                : entry.value === null
+                  ? '—'
+                  : money
+                    ? `$${Number(entry.value).toFixed(1)}M`
+                    : Number(entry.value).toFixed(1)}
+            </p>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
 
-export function Projections() {
   return (
     <div className="h-screen bg-[#0B0B0C] flex flex-col overflow-hidden">
       {/* Header */}
       <div className="border-b border-[rgba(255,255,255,0.14)] bg-[#121315] px-6 py-4">
         <div className="max-w-[1200px] mx-auto">
           <h2 className="text-[#ECEDEF]">Projections</h2>
+          {player && (
+            <p className="text-[#A3A8B0] text-sm mt-1">
+              {player.name} · {terms.years} years from {terms.startSeason}
+            </p>
+          )}
         </div>
       </div>
       
       {/* Content */}
       <div className="flex-1 overflow-auto">
         <div className="p-6 max-w-[1200px] mx-auto space-y-6">
-          {/* Aging Curve */}
-          <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
-            <h3 className="text-[#ECEDEF] mb-4">Aging Curve - WAR Projection</h3>
-            <ChartPlaceholder title="WAR Projection with Confidence Bands" type="aging" height={280} />
-            <p className="text-[#A3A8B0] text-xs mt-3 italic">
-              Projection based on comparable player aging patterns and historical data
-            </p>
-          </div>
-          
-          {/* $/WAR Analysis */}
-          <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
-            <h3 className="text-[#ECEDEF] mb-4">$/WAR Value Over Time</h3>
-            <ChartPlaceholder title="Annual $/WAR vs Market Rate" type="cashflow" height={280} />
-            <div className="grid grid-cols-3 gap-4 mt-4">
-              <div className="bg-[#121315] rounded-lg p-4">
-                <div className="text-[#A3A8B0] text-xs mb-1">Current $/WAR</div>
-                <div className="text-[#ECEDEF]">$7.9M</div>
-              </div>
-              <div className="bg-[#121315] rounded-lg p-4">
-                <div className="text-[#A3A8B0] text-xs mb-1">Contract Avg $/WAR</div>
-                <div className="text-[#A8B4BD]">$8.6M</div>
+          {!projection ? (
+            <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+              <p className="text-[#A3A8B0] text-sm">Select a player to project WAR over the contract.</p>
+            </div>
+          ) : (
+            <>
+              {/* Aging Curve */}
+              <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+                <h3 className="text-[#ECEDEF] mb-4">Aging Curve - WAR Projection</h3>
+                <ResponsiveContainer width="100%" height={280}>
+                  <ComposedChart data={curveData} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                    <XAxis dataKey="season" stroke="#A3A8B0" style={{ fontSize: '12px' }} tick={{ fill: '#A3A8B0' }} />
+                    <YAxis stroke="#A3A8B0" style={{ fontSize: '12px' }} width={40} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <Legend wrapperStyle={{ fontSize: '12px', color: '#A3A8B0' }} />
+                    <Area
+                      type="monotone"
+                      dataKey="band"
+                      stroke="none"
+                      fill="#A8B4BD"
+                      fillOpacity={0.18}
+                      name="80% Band"
+                    />
+                    <Line type="monotone" dataKey="actual" stroke="#60A5FA" strokeWidth={2} name="Actual WAR" />
+                    <Line
+                      type="monotone"
+                      dataKey="projected"
+                      stroke="#A8B4BD"
+                      strokeWidth={2}
+                      strokeDasharray="5 4"
+                      name="Projected WAR"
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+
+                <div className="grid grid-cols-4 gap-3 text-xs mt-4">
+                  <div className="bg-[#121315] rounded p-3">
+                    <div className="text-[#A3A8B0] mb-1">Baseline ({projection.baseSeason})</div>
+                    <div className="text-[#ECEDEF]">{projection.baselineWar.toFixed(1)} WAR / full season</div>
+                  </div>
+                  <div className="bg-[#121315] rounded p-3">
+                    <div className="text-[#A3A8B0] mb-1">Expected Playing Time</div>
+                    <div className="text-[#ECEDEF]">{Math.round(projection.playingTime * 100)}%</div>
+                  </div>
+                  <div className="bg-[#121315] rounded p-3">
+                    <div className="text-[#A3A8B0] mb-1">Contract WAR</div>
+                    <div className="text-[#A8B4BD]">{(surplus?.totalWar ?? 0).toFixed(1)}</div>
+                  </div>
+                  <div className="bg-[#121315] rounded p-3">
+                    <div className="text-[#A3A8B0] mb-1">Aging Curve</div>
+                    <div className="text-[#ECEDEF]">{projection.curve.label}</div>
+                  </div>
+                </div>
+                <p className="text-[#A3A8B0] text-xs mt-3 italic">
+                  {loading
+                    ? 'Loading multi-season data; showing the league prior curve.'
+                    : error
+                      ? 'Multi-season data unavailable; showing the league prior curve.'
+                      : `Delta-method curve from ${Math.round(projection.curve.pairs)} weighted season pairs, shrunk toward the wider group.`}
+                  {projection.source === 'profile' && ' No season-by-season history for this player; baseline from loaded stat periods.'}
+                  {!projection.curve.hand && ' Handedness unknown for this player; position curve used.'}
+                </p>
               </div>
-              <div className="bg-[#121315] rounded-lg p-4">
-                <div className="text-[#A3A8B0] text-xs mb-1">Final Year $/WAR</div>
-                <div className="text-red-400">$10.5M</div>
+              
+              {/* $/WAR Analysis */}
+              <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+                <h3 className="text-[#ECEDEF] mb-4">$/WAR Value Over Time</h3>
+                <ResponsiveContainer width="100%" height={280}>
+                  <ComposedChart data={priceData} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                    <XAxis dataKey="season" stroke="#A3A8B0" style={{ fontSize: '12px' }} tick={{ fill: '#A3A8B0' }} />
+                    <YAxis
+                      stroke="#A3A8B0"
+                      style={{ fontSize: '12px' }}
+                      width={45}
+                      tickFormatter={(value) => `$${value}M`}
+                    />
+                    <Tooltip content={<CustomTooltip money />} />
+                    <Legend wrapperStyle={{ fontSize: '12px', color: '#A3A8B0' }} iconType="square" />
+                    <Bar dataKey="dollarsPerWar" fill="#A8B4BD" name="Contract $/WAR" radius={[4, 4, 0, 0]} />
+                    <Line type="monotone" dataKey="marketRate" stroke="#F472B6" strokeWidth={2} dot={false} name="Market $/WAR" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+                <div className="grid grid-cols-4 gap-4 mt-4">
+                  <div className="bg-[#121315] rounded-lg p-4">
+                    <div className="text-[#A3A8B0] text-xs mb-1">First Year $/WAR</div>
+                    <div className="text-[#ECEDEF]">{formatPerWar(firstRow?.dollarsPerWar ?? null)}</div>
+                  </div>
+                  <div className="bg-[#121315] rounded-lg p-4">
+                    <div className="text-[#A3A8B0] text-xs mb-1">Contract Avg $/WAR</div>
+                    <div className="text-[#A8B4BD]">{formatPerWar(surplus?.dollarsPerWar ?? null)}</div>
+                  </div>
+                  <div className="bg-[#121315] rounded-lg p-4">
+                    <div className="text-[#A3A8B0] text-xs mb-1">Final Year $/WAR</div>
+                    <div
+                      className={
+                        lastRow && (lastRow.dollarsPerWar === null || lastRow.dollarsPerWar > lastRow.marketRate)
+                          ? 'text-red-400'
+                          : 'text-emerald-400'
+                      }
+                    >
+                      {formatPerWar(lastRow?.dollarsPerWar ?? null)}
+                    </div>
+                  </div>
+                  <div className="bg-[#121315] rounded-lg p-4">
+                    <div className="text-[#A3A8B0] text-xs mb-1">Club Surplus</div>
+                    <div className={(surplus?.surplus ?? 0) >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                      {formatMoney(surplus?.surplus ?? 0)}
+                    </div>
+                  </div>
+                </div>
+
+                <table className="w-full text-xs mt-6">
+                  <thead>
+                    <tr className="border-b border-[rgba(255,255,255,0.14)]">
+                      <th className="text-left text-[#A3A8B0] pb-2">Season</th>
+                      <th className="text-right text-[#A3A8B0] pb-2">Age</th>
+                      <th className="text-right text-[#A3A8B0] pb-2">WAR (80%)</th>
+                      <th className="text-right text-[#A3A8B0] pb-2">Cost</th>
+                      <th className="text-right text-[#A3A8B0] pb-2">$/WAR</th>
+                      <th className="text-right text-[#A3A8B0] pb-2">Market $/WAR</th>
+                      <th className="text-right text-[#A3A8B0] pb-2">Surplus</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {valueRows.map(row => (
+                      <tr key={row.season} className="border-b border-[rgba(255,255,255,0.08)]">
+                        <td className="py-2 text-[#ECEDEF]">{row.season}</td>
+                        <td className="text-right text-[#A3A8B0]">{row.age}</td>
+                        <td className="text-right text-[#ECEDEF]">
+                          {row.war.toFixed(1)}{' '}
+                          <span className="text-[#A3A8B0]">
+                            ({row.low.toFixed(1)} to {row.high.toFixed(1)})
+                          </span>
+                        </td>
+                        <td className="text-right text-[#ECEDEF]">{formatMoney(row.cost)}</td>
+                        <td className="text-right text-[#A8B4BD]">{formatPerWar(row.dollarsPerWar)}</td>
+                        <td className="text-right text-[#F472B6]">{formatPerWar(row.marketRate)}</td>
+                        <td className={`text-right ${row.surplus >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                          {formatMoney(row.surplus)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
-            </div>
-          </div>
+            </>
+          )}
           
           {/* Risk Bands */}
           <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
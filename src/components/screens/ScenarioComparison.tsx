@@ -0,0 +1,284 @@
+import React, { useState, useMemo } from 'react';
+import { Plus, Copy, Trash2, Check } from 'lucide-react';
+import { SBButton } from '../boras/SBButton';
+import { SBChip } from '../boras/SBChip';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useContract } from '../narrative/ContractContext';
+import { calculateScenarios, diffContractTerms } from '../../services/scenarioService';
+import type { ScenarioComparisonMetrics } from '../../types';
+
+const METRIC_ROWS: { key: keyof ScenarioComparisonMetrics; label: string; suffix?: string }[] = [
+  { key: 'totalValue', label: 'Total Value' },
+  { key: 'guaranteedValue', label: 'Guaranteed' },
+  { key: 'potentialValue', label: 'Potential (Max)' },
+  { key: 'aav', label: 'Guaranteed AAV', suffix: '/yr' },
+  { key: 'cbtImpact', label: 'CBT Hit', suffix: '/yr' },
+  { key: 'presentValue', label: 'Present Value' },
+];
+
+function formatDelta(delta: number): { text: string; className: string } {
+  if (Math.abs(delta) < 0.05) return { text: '—', className: 'text-[#A3A8B0]' };
+  return {
+    text: `${delta > 0 ? '+' : '-'}$${Math.abs(delta).toFixed(1)}M`,
+    className: delta > 0 ? 'text-emerald-400' : 'text-[#F472B6]',
+  };
+}
+
+export function ScenarioComparison() {
+  const {
+    scenarios,
+    activeScenarioId,
+    selectScenario,
+    createScenario,
+    cloneScenario,
+    renameScenario,
+    deleteScenario,
+  } = useContract();
+  const [hiddenIds, setHiddenIds] = useState<string[]>([]);
+  const [baselineId, setBaselineId] = useState<string>(activeScenarioId);
+  const [nameDrafts, setNameDrafts] = useState<Record<string, string>>({});
+
+  const compared = useMemo(
+    () => calculateScenarios(scenarios.filter(s => !hiddenIds.includes(s.id))),
+    [scenarios, hiddenIds]
+  );
+  const baseline = compared.find(c => c.scenario.id === baselineId) ?? compared[0];
+
+  const seasons = useMemo(() => {
+    const all = new Set<number>();
+    compared.forEach(c => c.calculations.yearlyBreakdown.forEach(y => all.add(y.year)));
+    return Array.from(all).sort((a, b) => a - b);
+  }, [compared]);
+
+  const toggleCompared = (id: string) => {
+    setHiddenIds(prev => (prev.includes(id) ? prev.filter(h => h !== id) : [...prev, id]));
+  };
+
+  const commitName = (id: string) => {
+    const draft = nameDrafts[id];
+    setNameDrafts(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+    if (draft !== undefined) renameScenario(id, draft);
+  };
+
+  return (
+    <div className="h-screen bg-[#0B0B0C] flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="border-b border-[rgba(255,255,255,0.14)] bg-[#121315] px-6 py-4">
+        <div className="max-w-[1200px] mx-auto flex items-center justify-between">
+          <h2 className="text-[#ECEDEF]">Scenario Comparison</h2>
+          <div className="flex gap-2">
+            <SBButton variant="secondary" size="md" icon={<Copy size={16} />} onClick={() => cloneScenario(activeScenarioId)}>
+              Clone Active
+            </SBButton>
+            <SBButton variant="primary" size="md" icon={<Plus size={16} />} onClick={() => createScenario('New Scenario')}>
+              New Scenario
+            </SBButton>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <div className="max-w-[1200px] mx-auto p-6 space-y-6">
+          {/* Scenario list */}
+          <div className="grid grid-cols-3 gap-4">
+            {scenarios.map(scenario => {
+              const isActive = scenario.id === activeScenarioId;
+              const isCompared = !hiddenIds.includes(scenario.id);
+              return (
+                <div
+                  key={scenario.id}
+                  className={`bg-[#17181B] border rounded-[14px] p-4 ${isActive ? 'border-[#004B73]' : 'border-[rgba(255,255,255,0.14)]'}`}
+                >
+                  <div className="flex items-center gap-2 mb-3">
+                    <Input
+                      value={nameDrafts[scenario.id] ?? scenario.name}
+                      onChange={(e) => setNameDrafts(prev => ({ ...prev, [scenario.id]: e.target.value }))}
+                      onBlur={() => commitName(scenario.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitName(scenario.id);
+                      }}
+                      className="bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] h-8"
+                    />
+                    {isActive && <SBChip type="status" variant="neutral">Active</SBChip>}
+                  </div>
+                  <p className="text-[#A3A8B0] text-xs mb-3">
+                    {scenario.terms.years} yrs / ${scenario.terms.baseAAV}M AAV · updated {new Date(scenario.updatedAt).toLocaleDateString()}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <SBButton
+                      variant={isCompared ? 'secondary' : 'ghost'}
+                      size="sm"
+                      icon={isCompared ? <Check size={14} /> : undefined}
+                      onClick={() => toggleCompared(scenario.id)}
+                    >
+                      {isCompared ? 'Comparing' : 'Compare'}
+                    </SBButton>
+                    {!isActive && (
+                      <SBButton variant="ghost" size="sm" onClick={() => selectScenario(scenario.id)}>
+                        Make Active
+                      </SBButton>
+                    )}
+                    <SBButton variant="ghost" size="sm" icon={<Copy size={14} />} onClick={() => cloneScenario(scenario.id)}>
+                      Clone
+                    </SBButton>
+                    {scenarios.length > 1 && (
+                      <SBButton variant="ghost" size="sm" icon={<Trash2 size={14} />} onClick={() => deleteScenario(scenario.id)}>
+                        Delete
+                      </SBButton>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {compared.length === 0 || !baseline ? (
+            <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 text-[#A3A8B0] text-sm">
+              Select at least one scenario to compare.
+            </div>
+          ) : (
+            <>
+              {/* Headline metrics */}
+              <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-[#ECEDEF]">Side by Side</h3>
+                  <div className="flex items-center gap-2">
+                    <span className="text-[#A3A8B0] text-xs">Deltas vs:</span>
+                    <Select value={baseline.scenario.id} onValueChange={(val: string) => setBaselineId(val)}>
+                      <SelectTrigger className="w-[180px] h-7 bg-[#0B0B0C] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-[#17181B] border-[rgba(255,255,255,0.14)]">
+                        {compared.map(({ scenario }) => (
+                          <SelectItem
+                            key={scenario.id}
+                            value={scenario.id}
+                            className="text-[#ECEDEF] focus:bg-[#004B73]/20 focus:text-[#ECEDEF] text-xs"
+                          >
+                            {scenario.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="overflow-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-[rgba(255,255,255,0.14)]">
+                        <th className="text-left text-[#A3A8B0] pb-2">Metric</th>
+                        {compared.map(({ scenario }) => (
+                          <th key={scenario.id} className="text-right text-[#A3A8B0] pb-2">
+                            {scenario.name}
+                            {scenario.id === baseline.scenario.id && <span className="block text-[#A8B4BD]">baseline</span>}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {METRIC_ROWS.map(row => (
+                        <tr key={row.key} className="border-b border-[rgba(255,255,255,0.08)]">
+                          <td className="py-2 text-[#ECEDEF]">{row.label}</td>
+                          {compared.map(({ scenario, metrics }) => {
+                            const delta = formatDelta(metrics[row.key] - baseline.metrics[row.key]);
+                            return (
+                              <td key={scenario.id} className="text-right text-[#ECEDEF]">
+                                ${metrics[row.key].toFixed(1)}M{row.suffix ?? ''}
+                                {scenario.id !== baseline.scenario.id && (
+                                  <span className={`block ${delta.className}`}>{delta.text}</span>
+                                )}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Yearly cash */}
+              <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+                <h3 className="text-[#ECEDEF] mb-4">Cash by Season</h3>
+                <div className="overflow-auto max-h-[360px]">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-[rgba(255,255,255,0.14)]">
+                        <th className="text-left text-[#A3A8B0] pb-2">Season</th>
+                        {compared.map(({ scenario }) => (
+                          <th key={scenario.id} className="text-right text-[#A3A8B0] pb-2">{scenario.name}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {seasons.map(season => {
+                        const baseCash = baseline.calculations.yearlyBreakdown.find(y => y.year === season)?.totalCash ?? 0;
+                        return (
+                          <tr key={season} className="border-b border-[rgba(255,255,255,0.08)]">
+                            <td className="py-2 text-[#ECEDEF]">{season}</td>
+                            {compared.map(({ scenario, calculations }) => {
+                              const row = calculations.yearlyBreakdown.find(y => y.year === season);
+                              const cash = row?.totalCash ?? 0;
+                              const delta = formatDelta(cash - baseCash);
+                              return (
+                                <td key={scenario.id} className="text-right text-[#ECEDEF]">
+                                  {row ? `$${cash.toFixed(1)}M` : '—'}
+                                  {scenario.id !== baseline.scenario.id && (
+                                    <span className={`ml-2 ${delta.className}`}>{delta.text}</span>
+                                  )}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Term differences */}
+              <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
+                <h3 className="text-[#ECEDEF] mb-4">Term Differences vs {baseline.scenario.name}</h3>
+                <div className="grid grid-cols-2 gap-4">
+                  {compared
+                    .filter(c => c.scenario.id !== baseline.scenario.id)
+                    .map(({ scenario }) => {
+                      const diffs = diffContractTerms(baseline.scenario.terms, scenario.terms);
+                      return (
+                        <div key={scenario.id} className="bg-[#121315] rounded p-4">
+                          <h4 className="text-[#A8B4BD] text-sm mb-3">{scenario.name}</h4>
+                          {diffs.length === 0 ? (
+                            <p className="text-[#A3A8B0] text-xs">Same terms as the baseline</p>
+                          ) : (
+                            <table className="w-full text-xs">
+                              <tbody>
+                                {diffs.map(diff => (
+                                  <tr key={diff.field} className="border-b border-[rgba(255,255,255,0.08)]">
+                                    <td className="py-1.5 text-[#A3A8B0]">{diff.label}</td>
+                                    <td className="text-right text-[#A3A8B0] line-through">{diff.base}</td>
+                                    <td className="text-right text-[#ECEDEF]">{diff.other}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </div>
+                      );
+                    })}
+                </div>
+                {compared.length === 1 && (
+                  <p className="text-[#A3A8B0] text-xs">Compare a second scenario to see its term changes.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
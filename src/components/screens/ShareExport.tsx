@@ -1,20 +1,107 @@
 import React from 'react';
 import { FileText, Image, FileSpreadsheet, Link as LinkIcon, Copy, Check } from 'lucide-react';
 import { SBButton } from '../boras/SBButton';
-import { Switch } from '../ui/switch';
-import { Label } from '../ui/label';
 import { Input } from '../ui/input';
+import type { Player } from '../../data/playerDatabase';
+import { useContract, CONTRACT_TERMS_SCHEMA_VERSION } from '../narrative/ContractContext';
+import { PresentationDeckExport } from '../narrative/PresentationDeckExport';
+import { loadEstimatedValueSettings } from './EstimatedValue';
+import { usePayrollData } from '../../hooks/usePayrollData';
+import { calculateEstimatedValue, getDefaultEstimatedValueInputs } from '../../services/estimatedValueService';
+import { buildValuationWorkbook, workbookToXlsx, workbookToCsvZip } from '../../services/workbookExportService';
+import { buildOfferSheet, UNNAMED_OFFER_PLAYER } from '../../services/offerSheetService';
+import { createOfferSheetPdf, pdfFileName } from '../../services/pdfExportService';
+import { buildShareUrl } from '../../services/shareLinkService';
 
-export function ShareExport() {
+interface ShareExportProps {
+  player: Player | null;
+  comps: Player[];
+}
+
+export function ShareExport({ player, comps }: ShareExportProps) {
   const [copied, setCopied] = React.useState(false);
-  const shareUrl = 'https://boras.corp/scenarios/7yr-210m-alonso';
+  const [deckStatus, setDeckStatus] = React.useState<string | null>(null);
+  const [deckError, setDeckError] = React.useState(false);
+  const contract = useContract();
+  const { selectedTeamId, availableTeams, basePayrollBySeason, priorYearsOver } = usePayrollData(contract.terms.startSeason, contract.terms.years);
+  const activeScenario = contract.scenarios.find(s => s.id === contract.activeScenarioId);
+
+  // Rebuilt on every render so the link always matches the live terms
+  const shareUrl = (() => {
+    if (!player) return '';
+    const saved = loadEstimatedValueSettings(player.id);
+    const { weightsOpen: _, ...valuationSettings } = saved ?? {};
+    return buildShareUrl({
+      playerId: player.id,
+      compIds: comps.map(c => c.id),
+      scenarioName: activeScenario?.name ?? '',
+      termsSchemaVersion: CONTRACT_TERMS_SCHEMA_VERSION,
+      terms: contract.terms,
+      valuationSettings: saved ? valuationSettings : undefined,
+      teamId: selectedTeamId,
+    });
+  })();
 
   const handleCopy = () => {
+    if (!shareUrl) return;
     navigator.clipboard.writeText(shareUrl);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleOfferSheetPdf = () => {
+    const data = buildOfferSheet(contract.terms, contract, player ?? UNNAMED_OFFER_PLAYER);
+    createOfferSheetPdf(data, { watermark: true }).save(pdfFileName(data.playerName, 'Offer Sheet'));
+  };
+
+  const downloadBytes = (bytes: Uint8Array, fileName: string, type: string) => {
+    const blob = new Blob([new Uint8Array(bytes)], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Valuation uses the player's saved EstimatedValue settings, as last shown on that screen
+  const buildWorkbook = () => {
+    if (!player) return null;
+    const saved = loadEstimatedValueSettings(player.id);
+    const valuationInputs = { ...getDefaultEstimatedValueInputs(player, comps), ...saved };
+    valuationInputs.selectedCompIds = valuationInputs.selectedCompIds.filter(id => comps.some(c => c.id === id));
+
+    return buildValuationWorkbook({
+      player,
+      comps,
+      terms: contract.terms,
+      calculations: contract,
+      scenarioName: activeScenario?.name ?? '',
+      valuationInputs,
+      valuation: calculateEstimatedValue(player, comps, valuationInputs, contract.terms.startSeason),
+      team: availableTeams.find(t => t.id === selectedTeamId) ?? { id: selectedTeamId, name: selectedTeamId },
+      basePayrollBySeason,
+      priorYearsOver,
+    });
+  };
+
+  const handleWorkbookExport = (format: 'xlsx' | 'csv') => {
+    const sheets = buildWorkbook();
+    if (!sheets || !player) return;
+    const baseName = `${player.name} Valuation Workbook`;
+    if (format === 'xlsx') {
+      downloadBytes(workbookToXlsx(sheets), `${baseName}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    } else {
+      downloadBytes(workbookToCsvZip(sheets), `${baseName} (CSV).zip`, 'application/zip');
+    }
+  };
+
+  const handleDeckComplete = (error?: unknown) => {
+    if (error) console.error('Failed to build presentation deck:', error);
+    setDeckError(Boolean(error));
+    setDeckStatus(null);
+  };
+
   return (
     <div className="h-screen bg-[#0B0B0C] flex flex-col overflow-hidden">
       {/* Header */}
@@ -39,7 +126,7 @@ export function ShareExport() {
                   <p className="text-[#A3A8B0] text-sm mb-4">
                     Print-ready contract summary with signature area
                   </p>
-                  <SBButton variant="primary" size="sm">
+                  <SBButton variant="primary" size="sm" onClick={handleOfferSheetPdf}>
                     Download PDF
                   </SBButton>
                 </div>
@@ -56,9 +143,21 @@ export function ShareExport() {
                   <p className="text-[#A3A8B0] text-sm mb-4">
                     Complete presentation with all analysis and charts
                   </p>
-                  <SBButton variant="primary" size="sm">
+                  <SBButton
+                    variant="primary"
+                    size="sm"
+                    onClick={() => {
+                      setDeckError(false);
+                      setDeckStatus('Preparing…');
+                    }}
+                    disabled={!player || comps.length === 0 || deckStatus !== null}
+                    isLoading={deckStatus !== null}
+                  >
                     Download PDF
                   </SBButton>
+                  {deckStatus && <p className="text-[#A3A8B0] text-xs mt-2">{deckStatus}</p>}
+                  {deckError && <p className="text-red-400 text-xs mt-2">Could not build the deck. Try again.</p>}
+                  {!player && <p className="text-[#A3A8B0] text-xs mt-2">Select a player and comps to build the deck.</p>}
                 </div>
               </div>
             </div>
@@ -86,13 +185,18 @@ export function ShareExport() {
                   <FileSpreadsheet size={24} className="text-[#004B73]" />
                 </div>
                 <div className="flex-1">
-                  <h3 className="text-[#ECEDEF] mb-2">CSV Data Export</h3>
+                  <h3 className="text-[#ECEDEF] mb-2">Valuation Workbook</h3>
                   <p className="text-[#A3A8B0] text-sm mb-4">
-                    Raw data for custom analysis
+                    Yearly breakdown, comps, valuation weights, club payroll and CBT schedule with live formulas
                   </p>
-                  <SBButton variant="primary" size="sm">
-                    Download CSV
-                  </SBButton>
+                  <div className="flex gap-2">
+                    <SBButton variant="primary" size="sm" onClick={() => handleWorkbookExport('xlsx')} disabled={!player}>
+                      Download XLSX
+                    </SBButton>
+                    <SBButton variant="secondary" size="sm" onClick={() => handleWorkbookExport('csv')} disabled={!player}>
+                      Download CSVs (.zip)
+                    </SBButton>
+                  </div>
                 </div>
               </div>
             </div>
@@ -107,32 +211,27 @@ export function ShareExport() {
               <div className="flex-1">
                 <h3 className="text-[#ECEDEF] mb-2">Share Link</h3>
                 <p className="text-[#A3A8B0] text-sm">
-                  Generate a secure link to share this scenario
+                  Opens this player, comps, contract terms, valuation settings and club on any machine
                 </p>
               </div>
             </div>
             
             <div className="space-y-4">
-              <div className="flex items-center gap-4">
-                <div className="flex items-center gap-2">
-                  <Switch className="data-[state=checked]:bg-[#004B73]" defaultChecked />
-                  <Label className="text-[#A3A8B0] text-sm">Allow viewing</Label>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Switch className="data-[state=checked]:bg-[#004B73]" />
-                  <Label className="text-[#A3A8B0] text-sm">Allow comments</Label>
-                </div>
-              </div>
-              
+              <p className="text-[#A3A8B0] text-xs">
+                Everything is encoded in the link itself; nothing is stored on a server. Anyone with the link can see the offer.
+              </p>
+
               <div className="flex gap-2">
                 <Input 
                   value={shareUrl}
+                  placeholder="Select a player to create a link"
                   readOnly
                   className="bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF]"
                 />
                 <SBButton 
                   variant="secondary" 
                   onClick={handleCopy}
+                  disabled={!shareUrl}
                   icon={copied ? <Check size={16} /> : <Copy size={16} />}
                 >
                   {copied ? 'Copied' : 'Copy'}
@@ -142,6 +241,15 @@ export function ShareExport() {
           </div>
         </div>
       </div>
+
+      {deckStatus !== null && player && (
+        <PresentationDeckExport
+          player={player}
+          comps={comps}
+          onProgress={(step, total, title) => setDeckStatus(`Rendering ${title} (${step} of ${total})…`)}
+          onComplete={handleDeckComplete}
+        />
+      )}
     </div>
   );
 }
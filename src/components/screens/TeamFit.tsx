@@ -4,16 +4,31 @@ import { ArrowRight, ArrowLeft, TrendingUp, TrendingDown, Info, X } from 'lucide
 import { SBButton } from '../boras/SBButton';
 import { SBChip } from '../boras/SBChip';
 import type { Player, StatPeriod, PlayerStats } from '../../data/playerDatabase';
-import { ALL_PLAYERS, getStatsForPeriod, STAT_LABELS, loadPlayersFromCsv, isPitcher, getStatLabelsForPlayer, PITCHER_STAT_LABELS } from '../../data/playerDatabase';
+import { ALL_PLAYERS, getStatsForPeriod, STAT_LABELS, loadPlayersFromCsv, isPitcher, getStatLabelsForPlayer, PITCHER_STAT_LABELS, buildStatPeriods } from '../../data/playerDatabase';
 import { usePayrollData } from '../../hooks/usePayrollData';
+import { getConsecutiveYearsOver } from '../../services/cbtService';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Tabs, TabsList, TabsTrigger } from '../ui/tabs';
 import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
-import { fetchMultipleCsvs } from '../../data/csvLoader';
-import { getString, getField, normalizePlayerName } from '../../data/csvLoader';
+import { getCsvRows } from '../../data/csvStore';
+import { getString, getField } from '../../data/csvLoader';
+import { loadPlayerCrosswalk, withPlayerIds, getRowPlayerId } from '../../data/playerIdentity';
+import {
+  loadPlayerRepository,
+  normalizeTeam,
+  getDivision,
+  firstListedPosition,
+  positionsMatch,
+  type MlbDivision,
+  type PlayerRepository,
+  type SeasonRange,
+} from '../../data/playerRepository';
 import { StackedBarChart } from '../narrative/StackedBarChart';
 import { DepthChartLadder } from '../narrative/DepthChartLadder';
 import { DivisionBarChart } from '../narrative/DivisionBarChart';
+import { CbtTaxSummary } from '../narrative/CbtTaxSummary';
+import { AfterTaxComparison } from '../narrative/AfterTaxComparison';
+import { useContract } from '../narrative/ContractContext';
 
 // Import stat configuration from EstimatedValue calculation method
 const STAT_KEY_MAP: Record<string, keyof PlayerStats | 'HR'> = {
@@ -110,301 +125,19 @@ type StatKey = keyof Omit<typeof STAT_LABELS extends Record<infer K, any> ? K :
 
 const PERIOD_LABELS: Record<StatPeriod, string> = {
   '2025': '2025 Season',
-  '3yr-avg': '3-Year Average',
+  '3yr-avg': 'Last 3 Seasons',
   '3yr-contract': '3-Year Pre-Contract',
-  'career': 'Career Average',
-};
-
-// Division mapping for MLB teams - comprehensive mapping for all possible team abbreviations
-const TEAM_DIVISIONS: Record<string, string> = {
-  // AL East
-  'NYY': 'AL East', 'BOS': 'AL East', 'TOR': 'AL East', 'TBR': 'AL East', 'TB': 'AL East', 'BAL': 'AL East',
-  // AL Central
-  'CLE': 'AL Central', 'MIN': 'AL Central', 'DET': 'AL Central', 'CHW': 'AL Central', 'CWS': 'AL Central', 'KCR': 'AL Central', 'KC': 'AL Central',
-  // AL West
-  'HOU': 'AL West', 'TEX': 'AL West', 'SEA': 'AL West', 'LAA': 'AL West', 'ANA': 'AL West', 'OAK': 'AL West', 'ATH': 'AL West',
-  // NL East
-  'ATL': 'NL East', 'MIA': 'NL East', 'NYM': 'NL East', 'PHI': 'NL East', 'WSH': 'NL East', 'WSN': 'NL East', 'MON': 'NL East',
-  // NL Central
-  'CHC': 'NL Central', 'MIL': 'NL Central', 'STL': 'NL Central', 'PIT': 'NL Central', 'CIN': 'NL Central',
-  // NL West
-  'LAD': 'NL West', 'SD': 'NL West', 'SDP': 'NL West', 'SFG': 'NL West', 'SF': 'NL West', 'ARI': 'NL West', 'ARZ': 'NL West', 'AZ': 'NL West', 'COL': 'NL West',
-};
-
-/**
- * Team abbreviation normalization map
- * Maps various team abbreviation formats to canonical abbreviations
- */
-const TEAM_ABBREVIATION_MAP: Record<string, string> = {
-  // Arizona Diamondbacks variants
-  'ARI': 'ARI',
-  'ARZ': 'ARI',
-  'AZ': 'ARI',
-  // San Diego Padres variants
-  'SD': 'SD',
-  'SDP': 'SD',
-  // San Francisco Giants variants
-  'SF': 'SF',
-  'SFG': 'SF',
-  // Chicago White Sox variants
-  'CHW': 'CHW',
-  'CWS': 'CHW',
-  // Kansas City Royals variants
-  'KC': 'KC',
-  'KCR': 'KC',
-  // Tampa Bay Rays variants
-  'TB': 'TB',
-  'TBR': 'TB',
-  // Washington Nationals variants
-  'WSH': 'WSH',
-  'WSN': 'WSH',
-  // Oakland Athletics variants
-  'OAK': 'OAK',
-  'ATH': 'OAK',
-  // Los Angeles Angels variants
-  'LAA': 'LAA',
-  'ANA': 'LAA',
+  'career': 'Career',
 };
 
 /**
- * Normalize team abbreviation from various formats
- * Handles duplicates ("DET DET" → "DET"), whitespace, case issues
- * Maps team variants to canonical abbreviations (e.g., AZ/ARZ → ARI)
- * Returns clean 2-3 letter MLB abbreviation or null if invalid
+ * Seasons whose positions and clubs a stat period reflects; the pre-contract
+ * period uses 2023-2025 for every player
  */
-function normalizeTeamAbbreviation(teamValue: string): string | null {
-  // Handle empty, null, undefined, or placeholder values
-  if (!teamValue || typeof teamValue !== 'string') return null;
-  
-  const trimmed = teamValue.trim();
-  if (trimmed === '' || trimmed === '—' || trimmed === '-') return null;
-  
-  // Convert to uppercase
-  const upper = trimmed.toUpperCase();
-  
-  // Handle duplicate team abbreviations like "DET DET" - extract first part
-  const parts = upper.split(/\s+/);
-  let teamAbbr = parts[0];
-  
-  // If first part looks like a valid MLB abbreviation (2-3 letters), use it
-  // Otherwise, try to extract abbreviation from common patterns
-  if (/^[A-Z]{2,3}$/.test(teamAbbr)) {
-    // Map to canonical abbreviation if a mapping exists, otherwise return as-is
-    return TEAM_ABBREVIATION_MAP[teamAbbr] || teamAbbr;
-  }
-  
-  // Try second part if first doesn't match (handles edge cases)
-  if (parts.length > 1 && /^[A-Z]{2,3}$/.test(parts[1])) {
-    const mapped = TEAM_ABBREVIATION_MAP[parts[1]] || parts[1];
-    return mapped;
-  }
-  
-  // If no valid abbreviation found, return null
-  return null;
-}
-
-function getDivision(teamId: string): string {
-  const normalizedTeam = normalizeTeamAbbreviation(teamId);
-  
-  if (!normalizedTeam) {
-    return 'AL East'; // Default fallback for invalid teams
-  }
-  
-  return TEAM_DIVISIONS[normalizedTeam] || 'AL East';
-}
-
-/**
- * Position code to abbreviation mapping
- * Based on MLB position codes: 1=P, 2=C, 3=1B, 4=2B, 5=3B, 6=SS, 7/8/9=OF, 10=DH
- */
-const POSITION_CODE_MAP: Record<number, string> = {
-  1: 'P',
-  2: 'C',
-  3: '1B',
-  4: '2B',
-  5: '3B',
-  6: 'SS',
-  7: 'OF',
-  8: 'OF',
-  9: 'OF',
-  10: 'DH',
-};
-
-/**
- * Load positions and teams that players have played across seasons from Positions.csv
- * This is the authoritative source for position data
- * Returns position map, primary position map, and team map
- */
-async function loadPlayerPositionsByTimePeriod(
-  timePeriod: StatPeriod
-): Promise<{ 
-  positions: Map<string, Set<string>>; 
-  primaryPositions: Map<string, string>; // playerId -> primary position abbreviation
-  teams: Map<string, string> 
-}> {
-  // Load Positions.csv, positions_pitchers.csv, and fangraphs_pitchers.csv
-  const [positionsRows, positionsPitchersRows, fangraphsPitchersRows] = await fetchMultipleCsvs([
-    '/Positions.csv',
-    '/positions_pitchers.csv',
-    '/fangraphs_pitchers.csv'
-  ]);
-  const allPositionsRows = [...positionsRows, ...positionsPitchersRows];
-  const positionsByPlayer = new Map<string, Set<string>>();
-  const positionCountsByPlayer = new Map<string, Map<string, number>>(); // playerId -> position -> count
-  const teamsByPlayer = new Map<string, string>(); // Most recent team for each player
-  const playerSeasons = new Map<string, number>(); // Track highest season seen for each player
-  
-  // Determine which seasons to check based on time period
-  let seasonsToCheck: number[] = [];
-  if (timePeriod === '2025') {
-    seasonsToCheck = [2025];
-  } else if (timePeriod === '3yr-avg') {
-    seasonsToCheck = [2025, 2024, 2023];
-  } else if (timePeriod === 'career') {
-    // Check all seasons (don't filter by season)
-    seasonsToCheck = [];
-  } else if (timePeriod === '3yr-contract') {
-    // For contract period, check 2023-2025 as default (will be refined per player if needed)
-    seasonsToCheck = [2025, 2024, 2023];
-  }
-  
-  // Process all CSV rows to build position and team maps
-  for (const row of allPositionsRows) {
-    const name = getString(row, ['player_name']);
-    if (!name) continue;
-    
-    const normId = normalizePlayerName(name);
-    const season = getField(row, ['season'], 0);
-    const positionCode = getField(row, ['position_code'], 0);
-    const teamAbbrev = getString(row, ['team_abbrev'], '').trim().toUpperCase();
-    
-    // Check if this season is relevant
-    if (seasonsToCheck.length > 0 && !seasonsToCheck.includes(season)) continue;
-    
-    // Skip invalid position codes
-    if (!positionCode || positionCode === 0) continue;
-    
-    // Build position map (all positions played)
-    if (!positionsByPlayer.has(normId)) {
-      positionsByPlayer.set(normId, new Set());
-    }
-    
-    // Map position code to abbreviation
-    const positionAbbr = POSITION_CODE_MAP[positionCode];
-    if (positionAbbr) {
-      positionsByPlayer.get(normId)!.add(positionAbbr);
-      
-      // Track position counts to determine primary position
-      if (!positionCountsByPlayer.has(normId)) {
-        positionCountsByPlayer.set(normId, new Map());
-      }
-      const counts = positionCountsByPlayer.get(normId)!;
-      counts.set(positionAbbr, (counts.get(positionAbbr) || 0) + 1);
-    }
-    
-    // Store team (use most recent season's team for each player)
-    if (teamAbbrev) {
-      const existingSeason = playerSeasons.get(normId) || 0;
-      if (season >= existingSeason) {
-        teamsByPlayer.set(normId, teamAbbrev);
-        playerSeasons.set(normId, season);
-      }
-    }
-  }
-  
-  // Helper function to normalize team abbreviation from CSV data (same as in playerDatabase.ts)
-  const normalizeTeamFromCsv = (teamValue: string): string => {
-    if (!teamValue || typeof teamValue !== 'string') return '';
-    const trimmed = teamValue.trim();
-    if (trimmed === '' || trimmed === '—' || trimmed === '-') return '';
-    
-    // Convert to uppercase and handle duplicates like "DET DET"
-    const upper = trimmed.toUpperCase();
-    const parts = upper.split(/\s+/);
-    const teamAbbr = parts[0];
-    
-    // Return first valid 2-3 letter abbreviation, or empty string
-    if (/^[A-Z]{2,3}$/.test(teamAbbr)) {
-      return teamAbbr;
-    }
-    
-    // Try second part if first doesn't match
-    if (parts.length > 1 && /^[A-Z]{2,3}$/.test(parts[1])) {
-      return parts[1];
-    }
-    
-    return trimmed; // Return original if can't normalize
-  };
-  
-  // Process fangraphs_pitchers.csv to get more complete team data for pitchers
-  // This is especially important for pitchers as it may have more complete team coverage
-  // Prioritize fangraphs data for pitchers - it's more reliable for team assignments
-  // First, collect all fangraphs team data by player and season
-  const fangraphsTeamData = new Map<string, Map<number, string>>(); // playerId -> season -> team
-  
-  for (const row of fangraphsPitchersRows) {
-    const name = getString(row, ['Name']);
-    if (!name) continue;
-    
-    const normId = normalizePlayerName(name);
-    const season = getField(row, ['Season', 'year'], 0);
-    const rawTeam = getString(row, ['fg_Team'], '');
-    
-    // Check if this season is relevant
-    if (seasonsToCheck.length > 0 && !seasonsToCheck.includes(season)) continue;
-    
-    const teamAbbrev = normalizeTeamFromCsv(rawTeam);
-    
-    if (teamAbbrev) {
-      if (!fangraphsTeamData.has(normId)) {
-        fangraphsTeamData.set(normId, new Map());
-      }
-      fangraphsTeamData.get(normId)!.set(season, teamAbbrev);
-    }
-  }
-  
-  // Now apply fangraphs team data, prioritizing it over positions data for pitchers
-  for (const [normId, seasonTeams] of fangraphsTeamData.entries()) {
-    // Get the most recent season's team from fangraphs
-    const seasons = Array.from(seasonTeams.keys()).sort((a, b) => b - a);
-    if (seasons.length > 0) {
-      const mostRecentSeason = seasons[0];
-      const teamAbbrev = seasonTeams.get(mostRecentSeason)!;
-      
-      // For pitchers, always prioritize fangraphs data
-      // Override any existing team data from positions CSVs
-      teamsByPlayer.set(normId, teamAbbrev);
-      playerSeasons.set(normId, mostRecentSeason);
-    }
-  }
-  
-  // Determine primary position for each player (most frequently played position)
-  const primaryPositions = new Map<string, string>();
-  for (const [playerId, positionCounts] of positionCountsByPlayer.entries()) {
-    let maxCount = 0;
-    let primaryPos = '';
-    for (const [pos, count] of positionCounts.entries()) {
-      if (count > maxCount) {
-        maxCount = count;
-        primaryPos = pos;
-      }
-    }
-    if (primaryPos) {
-      primaryPositions.set(playerId, primaryPos);
-    }
-  }
-  
-  // For pitchers in fangraphs but not in positions CSVs, set primary position to 'P'
-  // This ensures they can be matched when filtering by position
-  for (const [normId] of fangraphsTeamData.entries()) {
-    if (!primaryPositions.has(normId)) {
-      // Check if this player has team data from fangraphs (indicating they're a pitcher)
-      // and set their primary position to 'P' so they can be matched
-      primaryPositions.set(normId, 'P');
-    }
-  }
-  
-  return { positions: positionsByPlayer, primaryPositions, teams: teamsByPlayer };
+function seasonRangeForPeriod(timePeriod: StatPeriod): SeasonRange | undefined {
+  if (timePeriod === '2025') return { from: 2025, to: 2025 };
+  if (timePeriod === 'career') return undefined;
+  return { from: 2023, to: 2025 };
 }
 
 export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
@@ -424,9 +157,11 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
   const activeStatConfig = isPitcherPlayer ? PITCHER_STAT_CONFIG : STAT_CONFIG;
   const statLabels = getStatLabelsForPlayer(player);
 
-  const { selectedTeamId, setSelectedTeamId, selectedTeamData, availableTeams, loading: payrollLoading } = usePayrollData();
+  const { terms } = useContract();
+  // Payroll commitments cover six seasons, shown from the contract's first season
+  const { selectedTeamId, setSelectedTeamId, selectedTeamData, availableTeams, basePayrollBySeason, priorYearsOver, setPriorYearsOver, loading: payrollLoading } = usePayrollData(terms.startSeason, 6);
   const [timePeriod, setTimePeriod] = useState<StatPeriod>('2025');
-  const [selectedYear, setSelectedYear] = useState<number>(2026);
+  const [selectedYear, setSelectedYear] = useState<number>(terms.startSeason);
   const [selectedStat, setSelectedStat] = useState<string>(isPitcherPlayer ? 'WAR' : 'wRCplus'); // For division bar chart
   const [allPlayers, setAllPlayers] = useState<Player[]>(ALL_PLAYERS);
   
@@ -438,85 +173,33 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
       setSelectedStat('wRCplus');
     }
   }, [isPitcherPlayer]);
-  const [playerPositionsMap, setPlayerPositionsMap] = useState<Map<string, Set<string>> | null>(null);
-  const [playerPrimaryPositionsMap, setPlayerPrimaryPositionsMap] = useState<Map<string, string>>(new Map()); // playerId -> primary position
-  const [playerTeamsMap, setPlayerTeamsMap] = useState<Map<string, string>>(new Map()); // playerId -> team_abbrev from Positions.csv (time period based)
-  const [playerTeams2025Map, setPlayerTeams2025Map] = useState<Map<string, string>>(new Map()); // playerId -> team_abbrev from Positions.csv (2025 only)
-  const [pitcherTeams2025Map, setPitcherTeams2025Map] = useState<Map<string, string>>(new Map()); // playerId -> team from fangraphs_pitchers.csv (2025 only)
+  const [repository, setRepository] = useState<PlayerRepository | null>(null); // Positions and clubs by season
   const [pitcherCsvRows, setPitcherCsvRows] = useState<any[]>([]); // Store pitcher CSV rows for creating Player objects on-the-fly
-  
-  // All available divisions
-  const allDivisions = ['AL East', 'AL Central', 'AL West', 'NL East', 'NL Central', 'NL West'];
+  const periodRange = useMemo(() => seasonRangeForPeriod(timePeriod), [timePeriod]);
   
   // State for selected division (initialized from selected team)
-  const [selectedDivision, setSelectedDivision] = useState<string>(() => {
-    return getDivision(selectedTeamId);
+  const [selectedDivision, setSelectedDivision] = useState<MlbDivision>(() => {
+    return getDivision(selectedTeamId) ?? 'AL East';
   });
 
-  // Load positions and teams across seasons for the selected time period
+  // Load positions and clubs across seasons
   useEffect(() => {
-    loadPlayerPositionsByTimePeriod(timePeriod)
-      .then(({ positions, primaryPositions, teams }) => {
-        setPlayerPositionsMap(positions);
-        setPlayerPrimaryPositionsMap(primaryPositions);
-        setPlayerTeamsMap(teams);
-        console.log(`Loaded positions for ${positions.size} players across time period: ${timePeriod}`);
-        console.log(`Loaded primary positions for ${primaryPositions.size} players`);
-        console.log(`Loaded teams for ${teams.size} players (from Positions.csv and fangraphs_pitchers.csv)`);
-      })
-      .catch(err => console.error('Failed to load player positions:', err));
-    
-    // Also load 2025 teams separately for current team filtering
-    loadPlayerPositionsByTimePeriod('2025')
-      .then(({ teams: teams2025 }) => {
-        setPlayerTeams2025Map(teams2025);
-        console.log(`Loaded 2025 teams for ${teams2025.size} players (from Positions.csv and fangraphs_pitchers.csv)`);
-      })
-      .catch(err => console.error('Failed to load 2025 teams:', err));
-    
-    // Load pitcher teams directly from fangraphs_pitchers.csv for 2025
-    // Also store all pitcher CSV rows for creating Player objects on-the-fly
-    fetchMultipleCsvs(['/fangraphs_pitchers.csv', '/spotrac_pitchers.csv', '/statcast_pitchers.csv'])
-      .then(([fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows]) => {
-        const pitcherTeams = new Map<string, string>();
-        const normalizeTeamFromCsv = (teamValue: string): string => {
-          if (!teamValue || typeof teamValue !== 'string') return '';
-          const trimmed = teamValue.trim();
-          if (trimmed === '' || trimmed === '—' || trimmed === '-') return '';
-          const upper = trimmed.toUpperCase();
-          const parts = upper.split(/\s+/);
-          const teamAbbr = parts[0];
-          if (/^[A-Z]{2,3}$/.test(teamAbbr)) {
-            return teamAbbr;
-          }
-          if (parts.length > 1 && /^[A-Z]{2,3}$/.test(parts[1])) {
-            return parts[1];
-          }
-          return trimmed;
-        };
-        
-        // Store all pitcher CSV rows for later use
+    loadPlayerRepository()
+      .then(setRepository)
+      .catch(err => console.error('Failed to load player repository:', err));
+  }, []);
+
+  // Store all pitcher CSV rows for creating Player objects on-the-fly
+  useEffect(() => {
+    Promise.all([getCsvRows('/fangraphs_pitchers.csv'), loadPlayerCrosswalk()])
+      .then(([rawFangraphsPitchersRows, crosswalk]) => {
+        // Key each row on the canonical player id
+        const fangraphsPitchersRows = withPlayerIds(rawFangraphsPitchersRows, crosswalk);
         setPitcherCsvRows(fangraphsPitchersRows);
-        
-        for (const row of fangraphsPitchersRows) {
-          const name = getString(row, ['Name']);
-          if (!name) continue;
-          const normId = normalizePlayerName(name);
-          const season = getField(row, ['Season', 'year'], 0);
-          if (season === 2025) {
-            const rawTeam = getString(row, ['fg_Team'], '');
-            const teamAbbrev = normalizeTeamFromCsv(rawTeam);
-            if (teamAbbrev) {
-              pitcherTeams.set(normId, teamAbbrev);
-            }
-          }
-        }
-        setPitcherTeams2025Map(pitcherTeams);
-        console.log(`Loaded 2025 pitcher teams for ${pitcherTeams.size} pitchers from fangraphs_pitchers.csv`);
         console.log(`Stored ${fangraphsPitchersRows.length} pitcher CSV rows for on-the-fly Player creation`);
       })
-      .catch(err => console.error('Failed to load pitcher teams from Fangraphs:', err));
-  }, [timePeriod]);
+      .catch(err => console.error('Failed to load pitcher rows from Fangraphs:', err));
+  }, []);
 
   // Load player data to ensure ALL_PLAYERS is populated
   useEffect(() => {
@@ -527,38 +210,16 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
       .catch(err => console.error('Failed to load players:', err));
   }, []);
 
-  // Enhanced debug logging when both players and positions map are loaded
+  // Enhanced debug logging when both players and the repository are loaded
   useEffect(() => {
-    if (player && allPlayers.length > 0 && playerPositionsMap && playerPrimaryPositionsMap.size > 0 && playerTeamsMap.size > 0) {
-      // Extract target position
-      const normalizePosition = (pos: string): string => {
-        if (!pos) return '';
-        return pos.split(/[\/,]/)[0].trim().toUpperCase();
-      };
-      // Use primary position from Positions.csv if available
-      const targetPosition = playerPrimaryPositionsMap.get(player.id) || normalizePosition(player.position);
+    if (player && allPlayers.length > 0 && repository) {
+      // Use primary position for the period if available
+      const targetPosition = repository.getPrimaryPosition(player.id, periodRange) || firstListedPosition(player.position);
       
-      // Use the same matchesPosition function but check primary positions
-      const matchesPos = (p: Player): boolean => {
-        // Check primary position from Positions.csv
-        if (playerPrimaryPositionsMap.size > 0) {
-          const primaryPos = playerPrimaryPositionsMap.get(p.id);
-          if (primaryPos === targetPosition) {
-            return true;
-          }
-        }
-        
-        // Fallback: Check player's stored primary position
-        const playerPos = p.position?.toUpperCase().trim() || '';
-        if (playerPos) {
-          const primaryFromStored = playerPos.split(/[\/,]/)[0].trim();
-          if (primaryFromStored === targetPosition) {
-            return true;
-          }
-        }
-        
-        return false;
-      };
+      // Primary position for the period, or the player's stored primary position
+      const matchesPos = (p: Player): boolean =>
+        repository.getPrimaryPosition(p.id, periodRange) === targetPosition ||
+        firstListedPosition(p.position) === targetPosition;
       
       // Step 1: Find all players with PRIMARY position matching target
       const allPositionPlayers = allPlayers.filter(matchesPos);
@@ -575,10 +236,10 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
       const unmappedTeams: Array<{ name: string; team: string; csvTeam: string; normalizedTeam: string | null }> = [];
       
       playersWithStats.forEach(p => {
-        // Use team from Positions.csv if available, otherwise fall back to player.team
-        const csvTeam = playerTeamsMap.get(p.id);
+        // Use the club from the repository if available, otherwise fall back to player.team
+        const csvTeam = repository.getLatestTeam(p.id, periodRange);
         const teamToUse = csvTeam || p.team;
-        const normalizedTeam = normalizeTeamAbbreviation(teamToUse);
+        const normalizedTeam = normalizeTeam(teamToUse);
         const div = getDivision(teamToUse);
         
         const playerInfo = {
@@ -588,13 +249,12 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
           normalizedTeam: normalizedTeam
         };
         
-        if (!byDivision[div]) byDivision[div] = [];
-        byDivision[div].push(playerInfo);
-        
-        // Track players with unmapped teams (defaulting to AL East)
-        if (div === 'AL East' && normalizedTeam && !TEAM_DIVISIONS[normalizedTeam]) {
+        if (!div) {
           unmappedTeams.push(playerInfo);
+          return;
         }
+        if (!byDivision[div]) byDivision[div] = [];
+        byDivision[div].push(playerInfo);
       });
       
       // Log division breakdown
@@ -609,28 +269,27 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
       // Log team normalization examples (first 10)
       const uniqueTeams = new Set(allPositionPlayers.map(p => p.team).filter(t => t && t !== '—'));
       console.log(`Unique team values (first 10):`, Array.from(uniqueTeams).slice(0, 10).map(t => {
-        const norm = normalizeTeamAbbreviation(t);
+        const norm = normalizeTeam(t);
         return `${t} → ${norm || 'UNMAPPED'}`;
       }));
       
       // Log unmapped teams
       if (unmappedTeams.length > 0) {
-        console.warn(`⚠️ ${unmappedTeams.length} players with unmapped teams (defaulting to AL East):`, unmappedTeams.map(p => {
+        console.warn(`⚠️ ${unmappedTeams.length} players with unmapped teams (left out of every division):`, unmappedTeams.map(p => {
           const teamSource = p.csvTeam !== 'N/A' ? `CSV:${p.csvTeam}` : `Player:${p.team}`;
           return `${p.name}: "${teamSource}" → "${p.normalizedTeam}"`;
         }));
       }
     }
-  }, [player, allPlayers, playerPositionsMap, playerTeamsMap, timePeriod]);
+  }, [player, allPlayers, repository, periodRange, timePeriod]);
 
   // Update division when team changes
   useEffect(() => {
-    const teamDivision = getDivision(selectedTeamId);
-    setSelectedDivision(teamDivision);
+    setSelectedDivision(getDivision(selectedTeamId) ?? 'AL East');
   }, [selectedTeamId]);
 
   // When division changes, update team to first team in that division
-  const handleDivisionChange = (division: string) => {
+  const handleDivisionChange = (division: MlbDivision) => {
     setSelectedDivision(division);
     // Find first team in the selected division
     const teamInDivision = availableTeams.find(team => getDivision(team.id) === division);
@@ -639,19 +298,12 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
     }
   };
 
-  // Get the selected player's primary position from Positions.csv
+  // Get the selected player's primary position for the period
   const playerPrimaryPosition = useMemo(() => {
-    if (!player || playerPrimaryPositionsMap.size === 0) {
-      // Fallback to stored position if CSV not loaded yet
-      const normalizePosition = (pos: string): string => {
-        if (!pos) return '';
-        return pos.split(/[\/,]/)[0].trim().toUpperCase();
-      };
-      return normalizePosition(player?.position || '');
-    }
-    // Use primary position from Positions.csv
-    return playerPrimaryPositionsMap.get(player.id) || player.position?.split(/[\/,]/)[0].trim().toUpperCase() || '';
-  }, [player, playerPrimaryPositionsMap]);
+    if (!player) return '';
+    // Fallback to stored position until the repository loads
+    return repository?.getPrimaryPosition(player.id, periodRange) || firstListedPosition(player.position);
+  }, [player, repository, periodRange]);
 
   // Get estimated AAV and years from localStorage (set by EstimatedValue screen)
   // Fallback to comps average if not available
@@ -695,42 +347,14 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
       return [];
     }
 
-    // Create a map of payroll by year from CSV data
-    const payrollByYearMap = new Map<number, number>();
-    selectedTeamData.payrollByYear.forEach(({ year, payroll }) => {
-      payrollByYearMap.set(year, payroll);
-    });
-
-    // Generate data for all years from CSV (2026-2031)
-    const yearsWithData = Array.from(payrollByYearMap.keys()).sort((a, b) => a - b);
-    const lastAvailableYear = yearsWithData[yearsWithData.length - 1];
-    const lastAvailablePayroll = lastAvailableYear ? payrollByYearMap.get(lastAvailableYear) || 0 : 0;
-    
-    // Show all years from 2026 to 2031 (or the last year with data)
-    const startYear = 2026;
-    const endYear = Math.max(2031, lastAvailableYear || 2031);
-    const data = [];
-    
-    for (let year = startYear; year <= endYear; year++) {
-      let basePayroll = payrollByYearMap.get(year);
-      if (basePayroll === undefined) {
-        // Use last available payroll for missing years
-        basePayroll = lastAvailablePayroll;
-      }
-      
-      // Only add player contract for years within the contract period
-      const contractYears = Math.ceil(estimatedYears);
-      const playerContract = (year - startYear) < contractYears ? estimatedAAV : 0;
-      
-      data.push({
-        year: year.toString(),
-        basePayroll,
-        playerContract,
-      });
-    }
-    
-    return data;
-  }, [selectedTeamData, estimatedYears, estimatedAAV, payrollLoading]);
+    // Only add player contract for years within the contract period
+    const contractYears = Math.ceil(estimatedYears);
+    return basePayrollBySeason.map(({ year, payroll }) => ({
+      year: year.toString(),
+      basePayroll: payroll,
+      playerContract: (year - terms.startSeason) < contractYears ? estimatedAAV : 0,
+    }));
+  }, [selectedTeamData, basePayrollBySeason, terms.startSeason, estimatedYears, estimatedAAV, payrollLoading]);
 
   // Get values for selected year
   const { basePayroll, playerContract, totalPayroll } = useMemo(() => {
@@ -746,6 +370,15 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
     };
   }, [teamPayrollData, selectedYear]);
 
+  // Repeat-payor count going into each season, following the payroll with the player
+  const consecutiveYearsOver = useMemo(
+    () => getConsecutiveYearsOver(
+      teamPayrollData.map(d => ({ season: parseInt(d.year), payroll: d.basePayroll + d.playerContract })),
+      priorYearsOver
+    ),
+    [teamPayrollData, priorYearsOver]
+  );
+
 
   /**
    * Check if player's PRIMARY position matches target position
@@ -767,45 +400,23 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
         return false;
       }
       
-      // STRICT: Only use primary position from Positions.csv
-      // If we have primary positions loaded, ONLY check those (most accurate)
-      if (playerPrimaryPositionsMap.size > 0) {
-        const primaryPos = playerPrimaryPositionsMap.get(p.id);
-        
-        // For pitchers, allow flexible matching (P, SP, RP all match each other)
-        if (targetIsPitcher && pIsPitcher && primaryPos) {
-          const pitcherPositions = ['P', 'SP', 'RP'];
-          const targetIsPitcherPos = pitcherPositions.includes(targetPosition);
-          const primaryIsPitcherPos = pitcherPositions.includes(primaryPos);
-          if (targetIsPitcherPos && primaryIsPitcherPos) {
-            return true;
-          }
-        }
-        
-        // Only match if primary position exactly equals target position
-        if (primaryPos && primaryPos === targetPosition) {
-          return true;
-        }
-        // If player has a primary position in CSV but it doesn't match, exclude them
+      // STRICT: Only use primary position for the period from the repository
+      // If the player has one, ONLY check that (most accurate)
+      if (repository) {
+        const primaryPos = repository.getPrimaryPosition(p.id, periodRange);
+        // For pitchers, P, SP and RP all match each other
+        // If the primary position doesn't match, exclude them
         // This prevents players with "3B" from appearing in "OF" analysis
         if (primaryPos) {
-          return false;
+          return positionsMatch(primaryPos, targetPosition);
         }
       }
       
       // Fallback: Only if player has NO primary position in CSV, check stored position
       // Extract primary position (first position before slash/comma) from stored value
-      const playerPos = p.position?.toUpperCase().trim() || '';
-      if (playerPos) {
-        const primaryFromStored = playerPos.split(/[\/,]/)[0].trim();
-        if (primaryFromStored === targetPosition) {
-          return true;
-        }
-      }
-      
-      return false;
+      return firstListedPosition(p.position) === targetPosition;
     };
-  }, [player, playerPrimaryPositionsMap, isPitcherPlayer]);
+  }, [player, playerPrimaryPosition, repository, periodRange, isPitcherPlayer]);
 
   // Helper function to check if player has meaningful stats (not all zeros)
   const hasValidStats = (p: Player): boolean => {
@@ -864,10 +475,8 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
   // Helper function to create a Player object from CSV rows for pitchers not in allPlayers
   const createPlayerFromCsvRows = (pitcherId: string, csvRows: any[]): Player | null => {
     const playerRows = csvRows.filter(r => {
-      const name = getString(r, ['Name']);
-      if (!name) return false;
-      const normId = normalizePlayerName(name);
-      return normId === pitcherId;
+      if (!getString(r, ['Name'])) return false;
+      return getRowPlayerId(r) === pitcherId;
     });
     
     if (playerRows.length === 0) return null;
@@ -879,14 +488,13 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
     // Aggregate stats from CSV rows
     const toSeasonObj = (r: any) => {
       const season = getField(r, ['Season', 'year'], 0);
-      const rawTeam = getString(r, ['fg_Team'], '');
-      const normalizedTeam = normalizeTeamAbbreviation(rawTeam);
+      const team = repository?.getTeamForSeason(pitcherId, season) ?? normalizeTeam(r.fg_Team);
       return {
         season: Number(season),
         WAR: getField(r, ['fg_WAR', 'fg_L-WAR'], 0),
         age: getField(r, ['fg_Age', 'player_age'], 0),
         position: 'P',
-        team: normalizedTeam || rawTeam || '',
+        team: team || '',
         ERA: getField(r, ['fg_ERA'], 0),
         FIP: getField(r, ['fg_FIP'], 0),
         xFIP: getField(r, ['fg_xFIP'], 0),
@@ -907,48 +515,7 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
     const seasons = playerRows.map(toSeasonObj).filter(s => s.season > 0).sort((a, b) => a.season - b.season);
     if (seasons.length === 0) return null;
     
-    // Aggregate stats
-    const mean = (k: string, d = 6) => {
-      const validValues = seasons.map(r => Number((r as any)[k] || 0)).filter(v => !isNaN(v));
-      if (validValues.length === 0) return 0;
-      return Number((validValues.reduce((s, v) => s + v, 0) / validValues.length).toFixed(d));
-    };
-    
-    const aggregate = (seasonList: typeof seasons): PlayerStats => {
-      if (seasonList.length === 0) {
-        return {
-          WAR: 0, age: 0,
-          wRCplus: 0, xwOBA: 0, xSLG: 0, HRperPA: 0, RBI: 0, OPS: 0, BarrelPerPA: 0, HardHitPct: 0,
-          EV50: 0, maxEV: 0, BBpct: 0, Kpct: 0, ContactPct: 0, PA: 0, fg_Def: 0, fg_BsR: 0,
-          ERA: 0, FIP: 0, xFIP: 0, Kper9: 0, BBper9: 0, KperBB: 0, WHIP: 0, IP: 0, GS: 0, SV: 0,
-          Hper9: 0, HRper9: 0, BABIP: 0, LOBpct: 0,
-        };
-      }
-      return {
-        WAR: mean('WAR', 3),
-        age: mean('age', 2),
-        wRCplus: 0, xwOBA: 0, xSLG: 0, HRperPA: 0, RBI: 0, OPS: 0, BarrelPerPA: 0, HardHitPct: 0,
-        EV50: 0, maxEV: 0, BBpct: 0, Kpct: 0, ContactPct: 0, PA: 0, fg_Def: 0, fg_BsR: 0,
-        ERA: mean('ERA', 2),
-        FIP: mean('FIP', 2),
-        xFIP: mean('xFIP', 2),
-        Kper9: mean('Kper9', 2),
-        BBper9: mean('BBper9', 2),
-        KperBB: mean('KperBB', 2),
-        WHIP: mean('WHIP', 3),
-        IP: Number(mean('IP', 1).toFixed(1)),
-        GS: Number(mean('GS', 0).toFixed(0)),
-        SV: Number(mean('SV', 0).toFixed(0)),
-        Hper9: mean('Hper9', 2),
-        HRper9: mean('HRper9', 2),
-        BABIP: mean('BABIP', 3),
-        LOBpct: mean('LOBpct', 2),
-      };
-    };
-    
     const s2025 = seasons.filter(s => s.season === 2025);
-    const s3yr = seasons.filter(s => [2025, 2024, 2023].includes(s.season));
-    const career = seasons;
     const team = (s2025[0]?.team || seasons[seasons.length - 1].team) || '—';
     
     return {
@@ -958,9 +525,7 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
       position: 'P',
       team,
       hasContract: false,
-      stats2025: aggregate(s2025),
-      threeYearStats: aggregate(s3yr.length ? s3yr : seasons.slice(-3)),
-      careerStats: aggregate(career),
+      ...buildStatPeriods(seasons),
       has2025Season: s2025.length > 0,
     };
   };
@@ -969,13 +534,13 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
   const teamPositionPlayers = useMemo(() => {
     if (!player || !selectedTeamId) return [];
     
-    // For pitchers, use a more direct approach - match by team from Fangraphs
+    // For pitchers, use a more direct approach - match by 2025 club from the repository
     if (isPitcherPlayer) {
-      // Wait for pitcher teams map to load
-      if (pitcherTeams2025Map.size === 0) return [];
+      // Wait for the repository to load
+      if (!repository) return [];
       
       // Normalize selected team
-      const normalizedSelectedTeam = normalizeTeamAbbreviation(selectedTeamId);
+      const normalizedSelectedTeam = normalizeTeam(selectedTeamId);
       
       // Build a map of pitcher IDs to Player objects for quick lookup
       const pitcherMap = new Map<string, Player>();
@@ -985,14 +550,10 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
         }
       });
       
-      // Find all pitchers from Fangraphs that match the selected team
-      const matchingPitcherIds: string[] = [];
-      for (const [pitcherId, team] of pitcherTeams2025Map.entries()) {
-        const normalizedTeam = normalizeTeamAbbreviation(team);
-        if (normalizedTeam === normalizedSelectedTeam) {
-          matchingPitcherIds.push(pitcherId);
-        }
-      }
+      // Find all 2025 pitchers on the selected team
+      const matchingPitcherIds = repository
+        .getPlayersAtPosition('P', getDivision(selectedTeamId), 2025)
+        .filter(id => repository.getTeamForSeason(id, 2025) === normalizedSelectedTeam);
       
       // Get Player objects for matching pitchers
       // First, try to get from allPlayers
@@ -1033,7 +594,7 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
     }
     
     // For hitters, use the original position-based filtering
-    if (!playerPositionsMap || playerPrimaryPositionsMap.size === 0) return [];
+    if (!repository) return [];
     
     // Step 1: Filter ALL players by PRIMARY position first
     const allPositionPlayers = allPlayers.filter(p => matchesPosition(p));
@@ -1047,16 +608,11 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
       // Check if player played in 2024 or 2025
       if (!playedIn2024Or2025(p)) return false;
       
-      // For hitters, use positions CSV data
-      const teamToUse = playerTeams2025Map.get(p.id) || p.team;
-      
-      if (!teamToUse || teamToUse === '—' || teamToUse === '') return false;
+      // 2025 club from the repository, else the player's stored team
+      const normalizedTeam = repository.getTeamForSeason(p.id, 2025) ?? normalizeTeam(p.team);
+      if (!normalizedTeam) return false;
       
-      // Normalize both teams for comparison
-      const normalizedTeam = normalizeTeamAbbreviation(teamToUse);
-      const normalizedSelectedTeam = normalizeTeamAbbreviation(selectedTeamId);
-      
-      return normalizedTeam === normalizedSelectedTeam;
+      return normalizedTeam === normalizeTeam(selectedTeamId);
     });
     
     // Always include the selected player if they're not already in the list
@@ -1065,17 +621,14 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
       return [player, ...filtered];
     }
     return filtered;
-  }, [player, selectedTeamId, allPlayers, matchesPosition, playerPositionsMap, playerPrimaryPositionsMap, playerTeams2025Map, pitcherTeams2025Map, pitcherCsvRows, isPitcherPlayer, timePeriod, hasValidStats]);
+  }, [player, selectedTeamId, allPlayers, matchesPosition, repository, pitcherCsvRows, isPitcherPlayer, timePeriod, hasValidStats]);
 
   // Filter players by position and division (two-step process)
   const divisionPositionPlayers = useMemo(() => {
-    if (!player || !playerPositionsMap || playerPrimaryPositionsMap.size === 0) return []; // Wait for positions map to load
+    if (!player || !repository) return []; // Wait for the repository to load
     
-    // For pitchers, use a more direct approach - match by team from Fangraphs
+    // For pitchers, use a more direct approach - match by 2025 club from the repository
     if (isPitcherPlayer) {
-      // Wait for pitcher teams map to load
-      if (pitcherTeams2025Map.size === 0) return [];
-      
       // Build a map of pitcher IDs to Player objects for quick lookup
       const pitcherMap = new Map<string, Player>();
       allPlayers.forEach(p => {
@@ -1084,14 +637,8 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
         }
       });
       
-      // Find all pitchers from Fangraphs that match the selected division
-      const matchingPitcherIds: string[] = [];
-      for (const [pitcherId, team] of pitcherTeams2025Map.entries()) {
-        const playerDivision = getDivision(team);
-        if (playerDivision === selectedDivision) {
-          matchingPitcherIds.push(pitcherId);
-        }
-      }
+      // Find all 2025 pitchers in the selected division
+      const matchingPitcherIds = repository.getPlayersAtPosition('P', selectedDivision, 2025);
       
       // Get Player objects for matching pitchers
       // First, try to get from allPlayers
@@ -1139,12 +686,9 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
       // Check if player played in 2024 or 2025
       if (!playedIn2024Or2025(p)) return false;
       
-      // Use 2025 team from Positions.csv if available (most accurate for current team)
+      // Use the 2025 club from the repository if available (most accurate for current team)
       // Fall back to player.team which should also reflect 2025 team
-      const csvTeam2025 = playerTeams2025Map.get(p.id);
-      const teamToUse = csvTeam2025 || p.team;
-      if (!teamToUse || teamToUse === '—' || teamToUse === '') return false;
-      
+      const teamToUse = repository.getTeamForSeason(p.id, 2025) || p.team;
       const playerDivision = getDivision(teamToUse);
       return playerDivision === selectedDivision;
     });
@@ -1155,7 +699,7 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
       return [player, ...filtered];
     }
     return filtered;
-  }, [player, selectedDivision, allPlayers, matchesPosition, playerPositionsMap, playerPrimaryPositionsMap, playerTeams2025Map, pitcherTeams2025Map, pitcherCsvRows, isPitcherPlayer, timePeriod, hasValidStats, playedIn2024Or2025, createPlayerFromCsvRows]);
+  }, [player, selectedDivision, allPlayers, matchesPosition, repository, pitcherCsvRows, isPitcherPlayer, timePeriod, hasValidStats, playedIn2024Or2025, createPlayerFromCsvRows]);
 
   // Helper function to get stat value from player stats
   const getStatValue = (configKey: string, stats: PlayerStats | (PlayerStats & { HR?: number })): number => {
@@ -1576,16 +1120,10 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
                         )}
                       </td>
                       <td className={`py-2 px-0.5 text-center text-[#ECEDEF] ${isTargetPlayer ? 'bg-[#004B73]/10' : ''}`} style={{ width: '40px' }}>
-                        {playerPrimaryPositionsMap.get(p.id) || p.position}
+                        {repository?.getPrimaryPosition(p.id, periodRange) || p.position}
                       </td>
                       <td className={`py-2 px-0.5 text-center text-[#ECEDEF] ${isTargetPlayer ? 'bg-[#004B73]/10' : ''}`} style={{ width: '50px' }}>
-                        {(() => {
-                          // For pitchers, prioritize Fangraphs data
-                          if (isPitcher(p)) {
-                            return pitcherTeams2025Map.get(p.id) || playerTeamsMap.get(p.id) || p.team;
-                          }
-                          return playerTeamsMap.get(p.id) || p.team;
-                        })()}
+                        {repository?.getLatestTeam(p.id, periodRange) || p.team}
                       </td>
                       <td className={`py-2 px-0.5 text-right text-[#ECEDEF] ${isTargetPlayer ? 'bg-[#004B73]/10' : ''}`} style={{ width: '40px' }}>{p.stats2025?.age || p.threeYearStats?.age || stats.age}</td>
                       {statKeys.map((stat) => {
@@ -1850,10 +1388,20 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
                     <div className="text-emerald-400">${totalPayroll.toFixed(1)}M</div>
                   </div>
                 </div>
+                <CbtTaxSummary
+                  season={selectedYear}
+                  basePayroll={basePayroll}
+                  playerCharge={playerContract}
+                  consecutiveYearsOver={consecutiveYearsOver[selectedYear] ?? priorYearsOver}
+                  firstSeason={terms.startSeason}
+                  priorYearsOver={priorYearsOver}
+                  onPriorYearsOverChange={setPriorYearsOver}
+                />
               </div>
               <p className="text-[#A3A8B0] text-xs mt-3 italic">
                 * Payroll data may be incomplete for some teams. Missing years use the last available year's value.<br />
-                * Player contract values are based on estimated values.
+                * Player contract values are based on estimated values.<br />
+                * CBT tax treats the estimated AAV as the player's tax AAV; base rates rise for each consecutive season the club is over.
               </p>
             </>
           ) : (
@@ -1863,6 +1411,26 @@ export function TeamFit({ player, comps, onContinue, onBack }: TeamFitProps) {
           )}
         </motion.div>
 
+        {/* After-Tax Value */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.45 }}
+          className="mb-6 bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-[#ECEDEF]">After-Tax Value by Team</h3>
+            <span className="text-[#A3A8B0] text-sm">Same contract, every club</span>
+          </div>
+          {payrollLoading ? (
+            <div className="h-[120px] flex items-center justify-center text-[#A3A8B0] text-sm">
+              Loading teams...
+            </div>
+          ) : (
+            <AfterTaxComparison teams={availableTeams} selectedTeamId={selectedTeamId} />
+          )}
+        </motion.div>
+
         {/* Build Contract Button */}
         <SBButton 
           size="lg" 
@@ -1,10 +1,143 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { ChartPlaceholder } from '../boras/ChartPlaceholder';
 import { Slider } from '../ui/slider';
 import { Label } from '../ui/label';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useContract } from '../narrative/ContractContext';
+import { adjustComps, loadSignedComps, COMP_ADJUSTMENT_LABELS } from '../../services/valuationCompsService';
+import { DEFAULT_INFLATION_PERCENT } from '../../services/estimatedValueService';
+import type { AdjustedComp, CompAdjustmentMethod, SignedComp } from '../../types';
+
+type SortKey =
+  | 'name'
+  | 'position'
+  | 'signedYear'
+  | 'signingAge'
+  | 'years'
+  | 'aav'
+  | 'totalValue'
+  | 'adjustedAAV'
+  | 'adjustedTotalValue'
+  | 'preSigningWar';
+
+const COLUMNS: { key: SortKey; label: string; numeric: boolean }[] = [
+  { key: 'name', label: 'Player', numeric: false },
+  { key: 'position', label: 'Pos', numeric: false },
+  { key: 'signedYear', label: 'Signed', numeric: true },
+  { key: 'signingAge', label: 'Age', numeric: true },
+  { key: 'years', label: 'Years', numeric: true },
+  { key: 'aav', label: 'AAV', numeric: true },
+  { key: 'totalValue', label: 'Total', numeric: true },
+  { key: 'adjustedAAV', label: 'AAV ({year} $)', numeric: true },
+  { key: 'adjustedTotalValue', label: 'Total ({year} $)', numeric: true },
+  { key: 'preSigningWar', label: 'Pre-Signing WAR', numeric: true },
+];
+
+type RangeKey = 'signedFrom' | 'signedTo' | 'ageFrom' | 'ageTo';
+
+const RANGE_FILTERS: { key: RangeKey; label: string }[] = [
+  { key: 'signedFrom', label: 'Signed From' },
+  { key: 'signedTo', label: 'Signed To' },
+  { key: 'ageFrom', label: 'Min Age at Signing' },
+  { key: 'ageTo', label: 'Max Age at Signing' },
+];
+
+const ALL_POSITIONS = 'all';
+
+const formatMillions = (value: number) => `$${value.toFixed(1)}M`;
+
+// Blank or invalid inputs leave that side of the range open
+function inRange(value: number | null, from: string, to: string): boolean {
+  const min = parseFloat(from);
+  const max = parseFloat(to);
+  if (isNaN(min) && isNaN(max)) return true;
+  if (value === null) return false;
+  return (isNaN(min) || value >= min) && (isNaN(max) || value <= max);
+}
 
 export function ValuationComps() {
+  const { terms } = useContract();
+  // Deals are signed the offseason before the contract's first season
+  const presentYear = terms.startSeason - 1;
+
+  const [comps, setComps] = useState<SignedComp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [method, setMethod] = useState<CompAdjustmentMethod>('inflation');
+  const [inflationPercent, setInflationPercent] = useState(DEFAULT_INFLATION_PERCENT);
+  const [positionFilter, setPositionFilter] = useState(ALL_POSITIONS);
+  const [ranges, setRanges] = useState<Record<RangeKey, string>>({ signedFrom: '', signedTo: '', ageFrom: '', ageTo: '' });
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'adjustedAAV', direction: 'desc' });
+
+  useEffect(() => {
+    let active = true;
+    loadSignedComps()
+      .then(list => {
+        if (active) setComps(list);
+      })
+      .catch(err => {
+        console.error('Failed to load signed comps:', err);
+        if (active) setError(err instanceof Error ? err.message : 'Failed to load signed comps');
+      })
+      .finally(() => active && setLoading(false));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const positions = useMemo(
+    () => [...new Set(comps.map(c => c.position).filter(Boolean))].sort(),
+    [comps]
+  );
+
+  const adjustedComps = useMemo(
+    () => adjustComps(comps, method, presentYear, inflationPercent),
+    [comps, method, presentYear, inflationPercent]
+  );
+
+  const filteredComps = useMemo(() => {
+    const filtered = adjustedComps.filter(comp =>
+      (positionFilter === ALL_POSITIONS || comp.position === positionFilter) &&
+      inRange(comp.signedYear, ranges.signedFrom, ranges.signedTo) &&
+      inRange(comp.signingAge, ranges.ageFrom, ranges.ageTo)
+    );
+
+    // Missing values sort last in either direction
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    return filtered.sort((a: AdjustedComp, b: AdjustedComp) => {
+      const av = a[sort.key];
+      const bv = b[sort.key];
+      if (av === null || av === '') return 1;
+      if (bv === null || bv === '') return -1;
+      if (typeof av === 'string' || typeof bv === 'string') return sign * String(av).localeCompare(String(bv));
+      return sign * (av - bv);
+    });
+  }, [adjustedComps, positionFilter, ranges, sort]);
+
+  const summary = useMemo(() => {
+    const count = filteredComps.length || 1;
+    const adjusted = filteredComps.map(c => c.adjustedAAV).sort((a, b) => a - b);
+    const mid = Math.floor(adjusted.length / 2);
+    return {
+      aav: filteredComps.reduce((sum, c) => sum + c.aav, 0) / count,
+      adjustedAAV: adjusted.reduce((sum, v) => sum + v, 0) / count,
+      medianAdjustedAAV:
+        adjusted.length === 0 ? 0 : adjusted.length % 2 ? adjusted[mid] : (adjusted[mid - 1] + adjusted[mid]) / 2,
+      years: filteredComps.reduce((sum, c) => sum + c.years, 0) / count,
+    };
+  }, [filteredComps]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev =>
+      prev.key === key
+        ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: key === 'name' || key === 'position' ? 'asc' : 'desc' }
+    );
+  };
+
   return (
     <div className="h-screen bg-[#0B0B0C] flex flex-col overflow-hidden">
       {/* Header */}
@@ -17,7 +150,7 @@ export function ValuationComps() {
       {/* Content */}
       <div className="flex-1 overflow-auto">
         <div className="p-6 max-w-[1200px] mx-auto">
-          <Tabs defaultValue="model" className="w-full">
+          <Tabs defaultValue="comps" className="w-full">
             <TabsList className="bg-[#17181B] border border-[rgba(255,255,255,0.14)]">
               <TabsTrigger value="model" className="data-[state=active]:bg-[#004B73] data-[state=active]:text-[#ECEDEF]">
                 Model Output
@@ -67,39 +200,156 @@ export function ValuationComps() {
             
             <TabsContent value="comps" className="space-y-6 mt-6">
               <div className="bg-[#17181B] border border-[rgba(255,255,255,0.14)] rounded-[14px] p-6 grain-overlay">
-                <h3 className="text-[#ECEDEF] mb-4">Comparable Players</h3>
-                <div className="overflow-x-auto">
-                  <table className="w-full">
-                    <thead>
-                      <tr className="border-b border-[rgba(255,255,255,0.08)] text-[#A3A8B0] text-sm">
-                        <th className="text-left py-2">Player</th>
-                        <th className="text-right py-2">Year</th>
-                        <th className="text-right py-2">Years</th>
-                        <th className="text-right py-2">AAV</th>
-                        <th className="text-right py-2">Total</th>
-                        <th className="text-right py-2">WAR Window</th>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-[#ECEDEF]">Comparable Players</h3>
+                  <span className="text-[#A3A8B0] text-xs">
+                    {loading ? 'Loading signed comps...' : `${filteredComps.length} of ${comps.length} signed contracts`}
+                  </span>
+                </div>
+
+                {/* Dollar adjustment */}
+                <div className="grid grid-cols-4 gap-4 mb-4">
+                  <div className="col-span-2">
+                    <Label className="text-[#A3A8B0] text-xs">Restate in {presentYear} Dollars By</Label>
+                    <Select value={method} onValueChange={(val: string) => setMethod(val as CompAdjustmentMethod)}>
+                      <SelectTrigger className="mt-2 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                        {(Object.keys(COMP_ADJUSTMENT_LABELS) as CompAdjustmentMethod[]).map(key => (
+                          <SelectItem key={key} value={key} className="text-[#ECEDEF]">
+                            {COMP_ADJUSTMENT_LABELS[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {method === 'inflation' && (
+                    <div>
+                      <Label className="text-[#A3A8B0] text-xs">Inflation (%/yr)</Label>
+                      <Input
+                        type="number"
+                        value={inflationPercent}
+                        onChange={(e) => {
+                          const val = parseFloat(e.target.value);
+                          if (!isNaN(val) && val >= 0 && val <= 15) setInflationPercent(val);
+                        }}
+                        min={0}
+                        max={15}
+                        step="0.5"
+                        className="mt-2 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] h-8"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Filters */}
+                <div className="grid grid-cols-5 gap-4 mb-6">
+                  <div>
+                    <Label className="text-[#A3A8B0] text-xs">Position</Label>
+                    <Select value={positionFilter} onValueChange={setPositionFilter}>
+                      <SelectTrigger className="mt-2 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-[#121315] border-[rgba(255,255,255,0.14)]">
+                        <SelectItem value={ALL_POSITIONS} className="text-[#ECEDEF]">All Positions</SelectItem>
+                        {positions.map(position => (
+                          <SelectItem key={position} value={position} className="text-[#ECEDEF]">
+                            {position}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {RANGE_FILTERS.map(field => (
+                    <div key={field.key}>
+                      <Label className="text-[#A3A8B0] text-xs">{field.label}</Label>
+                      <Input
+                        type="number"
+                        value={ranges[field.key]}
+                        placeholder="Any"
+                        onChange={(e) => setRanges(prev => ({ ...prev, [field.key]: e.target.value }))}
+                        className="mt-2 bg-[#121315] border-[rgba(255,255,255,0.14)] text-[#ECEDEF] h-8"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {/* Cohort summary */}
+                <div className="grid grid-cols-4 gap-3 text-xs mb-6">
+                  <div className="bg-[#121315] rounded p-3">
+                    <div className="text-[#A3A8B0] mb-1">Avg AAV (as signed)</div>
+                    <div className="text-[#ECEDEF]">{formatMillions(summary.aav)}</div>
+                  </div>
+                  <div className="bg-[#121315] rounded p-3">
+                    <div className="text-[#A3A8B0] mb-1">Avg AAV ({presentYear} $)</div>
+                    <div className="text-[#A8B4BD]">{formatMillions(summary.adjustedAAV)}</div>
+                  </div>
+                  <div className="bg-[#121315] rounded p-3">
+                    <div className="text-[#A3A8B0] mb-1">Median AAV ({presentYear} $)</div>
+                    <div className="text-[#A8B4BD]">{formatMillions(summary.medianAdjustedAAV)}</div>
+                  </div>
+                  <div className="bg-[#121315] rounded p-3">
+                    <div className="text-[#A3A8B0] mb-1">Avg Years</div>
+                    <div className="text-[#ECEDEF]">{summary.years.toFixed(1)}</div>
+                  </div>
+                </div>
+
+                {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+                <div className="overflow-x-auto max-h-[520px] overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-[#17181B]">
+                      <tr className="border-b border-[rgba(255,255,255,0.08)] text-[#A3A8B0]">
+                        {COLUMNS.map(column => (
+                          <th
+                            key={column.key}
+                            className={`py-2 ${column.numeric ? 'text-right' : 'text-left'}`}
+                            aria-sort={sort.key === column.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                          >
+                            <button
+                              type="button"
+                              onClick={() => toggleSort(column.key)}
+                              className={`inline-flex items-center gap-1 hover:text-[#ECEDEF] ${sort.key === column.key ? 'text-[#ECEDEF]' : ''}`}
+                            >
+                              {column.label.replace('{year}', String(presentYear))}
+                              {sort.key === column.key && (sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                            </button>
+                          </th>
+                        ))}
                       </tr>
                     </thead>
                     <tbody className="text-[#ECEDEF]">
-                      {[
-                        { player: 'Freddie Freeman', year: 2022, years: 6, aav: '$27.0M', total: '$162M', war: '4.8' },
-                        { player: 'Matt Olson', year: 2022, years: 8, aav: '$21.0M', total: '$168M', war: '5.1' },
-                        { player: 'Paul Goldschmidt', year: 2019, years: 5, aav: '$26.0M', total: '$130M', war: '5.5' },
-                        { player: 'Anthony Rizzo', year: 2022, years: 2, aav: '$20.0M', total: '$40M', war: '3.2' },
-                        { player: 'Jose Abreu', year: 2020, years: 3, aav: '$16.7M', total: '$50M', war: '3.8' },
-                      ].map((row, i) => (
-                        <tr key={i} className="border-b border-[rgba(255,255,255,0.08)] hover:bg-[rgba(255,255,255,0.02)] cursor-pointer">
-                          <td className="py-3">{row.player}</td>
-                          <td className="text-right">{row.year}</td>
-                          <td className="text-right">{row.years}</td>
-                          <td className="text-right text-[#A8B4BD]">{row.aav}</td>
-                          <td className="text-right">{row.total}</td>
-                          <td className="text-right">{row.war}</td>
+                      {filteredComps.map(comp => (
+                        <tr key={comp.id} className="border-b border-[rgba(255,255,255,0.08)] hover:bg-[rgba(255,255,255,0.02)]">
+                          <td className="py-3">{comp.name}</td>
+                          <td className="text-[#A3A8B0]">{comp.position || '—'}</td>
+                          <td className="text-right">{comp.signedYear}</td>
+                          <td className="text-right">{comp.signingAge ?? '—'}</td>
+                          <td className="text-right">{comp.years}</td>
+                          <td className="text-right">{formatMillions(comp.aav)}</td>
+                          <td className="text-right">{formatMillions(comp.totalValue)}</td>
+                          <td className="text-right text-[#A8B4BD]">{formatMillions(comp.adjustedAAV)}</td>
+                          <td className="text-right text-[#A8B4BD]">{formatMillions(comp.adjustedTotalValue)}</td>
+                          <td className="text-right text-[#A3A8B0]">
+                            {comp.preSigningWar === null ? '—' : comp.preSigningWar.toFixed(1)}
+                          </td>
                         </tr>
                       ))}
+                      {!loading && filteredComps.length === 0 && (
+                        <tr>
+                          <td colSpan={COLUMNS.length} className="py-6 text-center text-[#A3A8B0] text-sm">
+                            No signed comps match these filters.
+                          </td>
+                        </tr>
+                      )}
                     </tbody>
                   </table>
                 </div>
+                <p className="text-[#A3A8B0] text-xs mt-3 italic">
+                  Signed year is the contract's first season. Revenue figures are approximate league totals; the 2020
+                  season carries 2019 forward. Pre-signing WAR is the 3-year average before signing, when stats are loaded.
+                </p>
               </div>
             </TabsContent>
             
@@ -0,0 +1,119 @@
+import { parseCsvText, type CsvTable } from './csvLoader';
+
+/**
+ * Parsed CSV tables cached in IndexedDB, keyed by a hash of the file text.
+ * An unchanged file is fetched but not re-parsed; a changed file hashes to a
+ * new key and replaces the stale entry for its URL. Works in the CSV worker
+ * and on the main thread; without IndexedDB every load parses.
+ */
+
+const DB_NAME = 'borasApp_csvCache';
+const STORE_NAME = 'tables';
+// Bump when parseCsvText changes shape so old entries are not served
+const CACHE_VERSION = 1;
+
+interface CachedTable extends CsvTable {
+  key: string; // `${CACHE_VERSION}:${hash}`
+  cachedAt: string; // ISO timestamp
+}
+
+let dbLoad: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbLoad) return dbLoad;
+  dbLoad = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      store.createIndex('url', 'url');
+    };
+    request.onsuccess = () => resolve(request.result);
+    // Private browsing or a blocked upgrade: parse without caching
+    request.onerror = () => {
+      console.warn('CSV cache unavailable:', request.error);
+      resolve(null);
+    };
+  });
+  return dbLoad;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readTable(db: IDBDatabase, key: string): Promise<CachedTable | undefined> {
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return requestResult(store.get(key) as IDBRequest<CachedTable | undefined>);
+}
+
+// Stores the table and drops older versions of the same file
+function writeTable(db: IDBDatabase, table: CachedTable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const existing = store.index('url').getAllKeys(table.url);
+    existing.onsuccess = () => {
+      existing.result.filter(key => key !== table.key).forEach(key => store.delete(key));
+    };
+    store.put(table);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * SHA-256 of the text as hex; FNV-1a where SubtleCrypto is unavailable
+ * (plain-http hosts other than localhost)
+ */
+async function hashCsvText(text: string): Promise<string> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv-${(hash >>> 0).toString(16)}-${text.length}`;
+}
+
+/**
+ * Fetch a CSV and return its parsed table, from the cache when the file is
+ * unchanged since it was last parsed
+ */
+export async function fetchCsvTable(url: string): Promise<CsvTable> {
+  // Revalidate rather than bypass the HTTP cache; the hash decides reuse
+  const response = await fetch(url, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new Error(`Failed to load CSV: ${response.status} ${response.statusText}`);
+  }
+  const text = await response.text();
+  const hash = await hashCsvText(text);
+  const key = `${CACHE_VERSION}:${hash}`;
+
+  const db = await openDatabase();
+  if (db) {
+    try {
+      const cached = await readTable(db, key);
+      if (cached) return { url, hash, columns: cached.columns, rows: cached.rows, errors: cached.errors };
+    } catch (error) {
+      console.warn(`CSV cache read failed for ${url}:`, error);
+    }
+  }
+
+  const table: CsvTable = { url, hash, ...parseCsvText(text) };
+  if (db) {
+    writeTable(db, { ...table, key, cachedAt: new Date().toISOString() }).catch(error =>
+      console.warn(`CSV cache write failed for ${url}:`, error)
+    );
+  }
+  return table;
+}
@@ -4,34 +4,58 @@ export interface RawCsvRow {
   [key: string]: string | number | null | undefined;
 }
 
-export async function fetchCsv(url: string): Promise<RawCsvRow[]> {
-  const response = await fetch(url, { cache: 'no-store' });
-  if (!response.ok) {
-    throw new Error(`Failed to load CSV: ${response.status} ${response.statusText}`);
-  }
-  const text = await response.text();
+export interface CsvParseError {
+  row: number | null; // 0-based data row, when Papa reports one
+  message: string;
+}
+
+// A parsed CSV file as held by the shared store (see csvStore.ts)
+export interface CsvTable {
+  url: string;
+  hash: string; // SHA-256 of the file text; the IndexedDB cache key
+  columns: string[];
+  rows: RawCsvRow[];
+  errors: CsvParseError[];
+}
+
+/**
+ * Parse CSV text, keeping every parse error. Runs in the CSV worker, or on
+ * the main thread when workers are unavailable
+ */
+export function parseCsvText(text: string): Pick<CsvTable, 'columns' | 'rows' | 'errors'> {
   const parsed = Papa.parse<RawCsvRow>(text, {
     header: true,
     dynamicTyping: true,
     skipEmptyLines: true,
   });
-  if (parsed.errors && parsed.errors.length > 0) {
-    // Keep going but surface first error for debugging
-    // This should be logged by callers if needed
-    // eslint-disable-next-line no-console
-    console.warn('CSV parse errors:', parsed.errors.slice(0, 3));
+  const errors: CsvParseError[] = (parsed.errors || []).map((error: { row?: number; message: string }) => ({
+    row: typeof error.row === 'number' ? error.row : null,
+    message: error.message,
+  }));
+  return {
+    columns: parsed.meta?.fields || [],
+    rows: (parsed.data || []) as RawCsvRow[],
+    errors,
+  };
+}
+
+/**
+ * Number in a cell, or null when the cell is empty or does not parse
+ * ("$1,200,000" and "12.5%" parse; "2 Tms" does not)
+ */
+export function coerceNumber(v: RawCsvRow[string]): number | null {
+  if (typeof v === 'number') return v;
+  if (typeof v === 'string' && v.trim() !== '') {
+    const n = Number(v.replace(/[$,%]/g, ''));
+    if (!Number.isNaN(n)) return n;
   }
-  return (parsed.data || []) as RawCsvRow[];
+  return null;
 }
 
 export function getField(row: RawCsvRow, keys: string[], fallback: number = 0): number {
   for (const key of keys) {
-    const v = row[key];
-    if (typeof v === 'number') return v;
-    if (typeof v === 'string' && v.trim() !== '') {
-      const n = Number(v.replace(/[$,%]/g, ''));
-      if (!Number.isNaN(n)) return n;
-    }
+    const n = coerceNumber(row[key]);
+    if (n !== null) return n;
   }
   return fallback;
 }
@@ -66,87 +90,3 @@ export function normalizePlayerName(name: string): string {
   // Convert to lowercase for case-insensitive matching
   return normalized.toLowerCase();
 }
-
-/**
- * Fetch multiple CSVs in parallel
- */
-export async function fetchMultipleCsvs(urls: string[]): Promise<RawCsvRow[][]> {
-  const results = await Promise.all(urls.map(url => fetchCsv(url)));
-  return results;
-}
-
-/**
- * Merge multiple CSV data sets by player name
- * Fangraphs data is the base, with Spotrac and Statcast data merged in
- */
-export function mergeCsvRowsByName(
-  fangraphsRows: RawCsvRow[],
-  spotracRows: RawCsvRow[],
-  statscastRows: RawCsvRow[]
-): RawCsvRow[] {
-  // Create lookup maps by normalized name and year
-  const spotracMap = new Map<string, RawCsvRow>();
-  const statscastMap = new Map<string, RawCsvRow>();
-  
-  // Index Spotrac data by player name (no year in Spotrac, so use name only)
-  for (const row of spotracRows) {
-    const playerName = getString(row, ['Player']);
-    if (playerName) {
-      const normalized = normalizePlayerName(playerName);
-      spotracMap.set(normalized, row);
-    }
-  }
-  
-  // Index Statscast data by player name and year
-  for (const row of statscastRows) {
-    const playerName = getString(row, ['last_name, first_name']);
-    const year = getField(row, ['year']);
-    if (playerName && year) {
-      const normalized = normalizePlayerName(playerName);
-      const key = `${normalized}|${year}`;
-      statscastMap.set(key, row);
-    }
-  }
-  
-  // Merge: start with Fangraphs rows, add matching data from other sources
-  const merged: RawCsvRow[] = [];
-  
-  for (const fgRow of fangraphsRows) {
-    const playerName = getString(fgRow, ['Name']);
-    const season = getField(fgRow, ['Season']);
-    
-    if (!playerName) continue;
-    
-    const normalizedName = normalizePlayerName(playerName);
-    const mergedRow: RawCsvRow = { ...fgRow };
-    
-    // Add Spotrac data (if available)
-    const spotracRow = spotracMap.get(normalizedName);
-    if (spotracRow) {
-      // Copy all Spotrac fields with sp_ prefix
-      Object.keys(spotracRow).forEach(key => {
-        if (!mergedRow[key]) {
-          mergedRow[key] = spotracRow[key];
-        }
-      });
-    }
-    
-    // Add Statscast data (if available for this year)
-    const statscastKey = `${normalizedName}|${season}`;
-    const statscastRow = statscastMap.get(statscastKey);
-    if (statscastRow) {
-      // Copy all Statscast fields with sc_ prefix
-      Object.keys(statscastRow).forEach(key => {
-        if (!mergedRow[key]) {
-          mergedRow[key] = statscastRow[key];
-        }
-      });
-    }
-    
-    merged.push(mergedRow);
-  }
-  
-  return merged;
-}
-
-
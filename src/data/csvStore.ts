@@ -0,0 +1,120 @@
+import { fetchCsvTable } from './csvCache';
+import type { CsvTable, RawCsvRow } from './csvLoader';
+import type { CsvWorkerRequest, CsvWorkerResponse } from './csvWorker';
+
+/**
+ * Shared CSV store
+ *
+ * Every CSV the app reads is loaded through here, once per session: fetched
+ * and parsed in the CSV worker (or served from its IndexedDB cache), then
+ * shared by every caller. Rows are shared, so treat them as read-only.
+ * Without worker support the same pipeline runs on the main thread.
+ */
+
+const tables = new Map<string, Promise<CsvTable>>();
+
+interface PendingRequest {
+  url: string;
+  resolve: (table: CsvTable) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+function getWorker(): Worker | null {
+  if (worker || workerUnavailable) return worker;
+  if (typeof Worker === 'undefined') {
+    workerUnavailable = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL('./csvWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('CSV worker unavailable; parsing on the main thread:', error);
+    workerUnavailable = true;
+    return null;
+  }
+
+  worker.addEventListener('message', (event: MessageEvent<CsvWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if ('error' in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.table);
+    }
+  });
+
+  // The worker script itself failed: finish outstanding loads here instead
+  worker.addEventListener('error', event => {
+    console.warn('CSV worker failed; parsing on the main thread:', event.message);
+    worker?.terminate();
+    worker = null;
+    workerUnavailable = true;
+    const requests = [...pending.values()];
+    pending.clear();
+    requests.forEach(({ url, resolve, reject }) => fetchCsvTable(url).then(resolve, reject));
+  });
+
+  return worker;
+}
+
+function loadTable(url: string): Promise<CsvTable> {
+  const csvWorker = getWorker();
+  if (!csvWorker) return fetchCsvTable(url);
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { url, resolve, reject });
+    const request: CsvWorkerRequest = { id, url };
+    csvWorker.postMessage(request);
+  });
+}
+
+/**
+ * Parsed table for a CSV, with every parse error
+ */
+export function getCsvTable(url: string): Promise<CsvTable> {
+  const existing = tables.get(url);
+  if (existing) return existing;
+
+  const load = loadTable(url).then(table => {
+    if (table.errors.length > 0) {
+      // Keep going but surface first errors for debugging; the Data Health
+      // screen lists them all
+      console.warn(`CSV parse errors in ${url}:`, table.errors.slice(0, 3));
+    }
+    return table;
+  });
+  tables.set(url, load);
+  // A failed load (missing file, network) is retried on the next request
+  load.catch(() => {
+    if (tables.get(url) === load) tables.delete(url);
+  });
+  return load;
+}
+
+export async function getCsvRows(url: string): Promise<RawCsvRow[]> {
+  return (await getCsvTable(url)).rows;
+}
+
+/**
+ * Rows for several CSVs, in the order given
+ */
+export function getMultipleCsvRows(urls: string[]): Promise<RawCsvRow[][]> {
+  return Promise.all(urls.map(getCsvRows));
+}
+
+/**
+ * Forget loaded tables so the next request re-reads the files; unchanged
+ * files still come from the IndexedDB cache
+ */
+export function refreshCsvStore(): void {
+  tables.clear();
+}
@@ -0,0 +1,25 @@
+import { fetchCsvTable } from './csvCache';
+import type { CsvTable } from './csvLoader';
+
+/**
+ * CSV worker: fetches, hashes, parses and caches files off the main thread.
+ * Started by csvStore.ts; answers each request with its table or an error.
+ */
+
+export interface CsvWorkerRequest {
+  id: number;
+  url: string;
+}
+
+export type CsvWorkerResponse =
+  | { id: number; table: CsvTable }
+  | { id: number; error: string };
+
+const respond = (response: CsvWorkerResponse) => self.postMessage(response);
+
+self.addEventListener('message', (event: MessageEvent<CsvWorkerRequest>) => {
+  const { id, url } = event.data;
+  fetchCsvTable(url)
+    .then(table => respond({ id, table }))
+    .catch(error => respond({ id, error: error instanceof Error ? error.message : String(error) }));
+});
@@ -46,17 +46,19 @@ export interface PlayerStats {
 export type StatPeriod = '2025' | '3yr-avg' | '3yr-contract' | 'career';
 
 export interface Player {
-  id: string;
+  id: string; // MLBAM player id; normalized name when no source carries one
   name: string;
   jerseyNumber: number;
   position: string;
   team: string;
   
   // Stats for different time periods
+  // Counting stats are period totals; see getPerSeasonStatsForPeriod
   stats2025: PlayerStats;
-  threeYearStats: PlayerStats; // 3-year rolling average
-  threeYearContractStats?: PlayerStats; // 3-year avg at time of contract signing (for comps)
+  threeYearStats: PlayerStats; // Last three seasons
+  threeYearContractStats?: PlayerStats; // Three seasons before signing (for comps)
   careerStats: PlayerStats;
+  periodSeasons?: Partial<Record<StatPeriod, number>>; // Seasons behind each period
   
   // Contract info (for comps who have already signed)
   hasContract?: boolean;
@@ -82,6 +84,14 @@ export function getStatsForPeriod(player: Player, period: StatPeriod): PlayerSta
   }
 }
 
+// Per-season line for a period: counting stats and innings divided by the
+// period's seasons. Used where players with different numbers of seasons are
+// compared (valuation ratios, comp similarity, projections)
+export function getPerSeasonStatsForPeriod(player: Player, period: StatPeriod): PlayerStats {
+  const source = period === '3yr-contract' && !player.threeYearContractStats ? '3yr-avg' : period;
+  return perSeasonStats(getStatsForPeriod(player, source), player.periodSeasons?.[source] ?? 1);
+}
+
 // Stat labels for UI (hitter stats)
 export const STAT_LABELS: Record<keyof Omit<PlayerStats, 'age'>, string> = {
   wRCplus: 'wRC+',
@@ -138,8 +148,7 @@ export const PITCHER_STAT_LABELS: Record<string, string> = {
 
 // Helper function to check if a player is a pitcher
 export function isPitcher(player: Player): boolean {
-  const pos = player.position?.toUpperCase().trim() || '';
-  return pos === 'P' || pos === 'SP' || pos === 'RP' || pos.startsWith('P');
+  return isPitcherPosition(player.position);
 }
 
 // Get stat labels based on player type
@@ -157,65 +166,213 @@ export function getStatLabelsForPlayer(player: Player): Record<string, string> {
   return hitterLabels;
 }
 
-// Helper to generate stat variations for different periods
-// This creates realistic variations from a base stat set
-function generateStatPeriods(
-  baseStats: PlayerStats,
-  age: number,
+// How a stat combines across the seasons in a period: counting stats and
+// innings are summed, rate stats are weighted by each season's PA (hitters)
+// or IP (pitchers)
+type StatAggregation = 'count' | 'innings' | 'pa-weighted' | 'ip-weighted' | 'ratio' | 'max' | 'latest';
+
+interface StatAggregationRule {
+  group: 'common' | 'hitter' | 'pitcher';
+  aggregation: StatAggregation;
+  decimals: number;
+  source?: string; // Season field, when it differs from the stat key
+  ratio?: [keyof PlayerStats, keyof PlayerStats]; // Numerator and denominator, both already aggregated
+}
+
+export const STAT_AGGREGATION_RULES: Record<keyof PlayerStats, StatAggregationRule> = {
+  WAR: { group: 'common', aggregation: 'count', decimals: 3 },
+  age: { group: 'common', aggregation: 'latest', decimals: 0 }, // Age in the period's last season
+
+  wRCplus: { group: 'hitter', aggregation: 'pa-weighted', decimals: 2 },
+  xwOBA: { group: 'hitter', aggregation: 'pa-weighted', decimals: 6 },
+  xSLG: { group: 'hitter', aggregation: 'pa-weighted', decimals: 6 },
+  HRperPA: { group: 'hitter', aggregation: 'count', decimals: 1, source: 'HR' }, // HR total
+  RBI: { group: 'hitter', aggregation: 'count', decimals: 1 },
+  OPS: { group: 'hitter', aggregation: 'pa-weighted', decimals: 3 },
+  BarrelPerPA: { group: 'hitter', aggregation: 'pa-weighted', decimals: 4 },
+  HardHitPct: { group: 'hitter', aggregation: 'pa-weighted', decimals: 4 },
+  EV50: { group: 'hitter', aggregation: 'pa-weighted', decimals: 4 },
+  maxEV: { group: 'hitter', aggregation: 'max', decimals: 1 },
+  BBpct: { group: 'hitter', aggregation: 'pa-weighted', decimals: 4 },
+  Kpct: { group: 'hitter', aggregation: 'pa-weighted', decimals: 4 },
+  ContactPct: { group: 'hitter', aggregation: 'pa-weighted', decimals: 4 },
+  PA: { group: 'hitter', aggregation: 'count', decimals: 0 },
+  fg_Def: { group: 'hitter', aggregation: 'count', decimals: 2 },
+  fg_BsR: { group: 'hitter', aggregation: 'count', decimals: 2 },
+
+  ERA: { group: 'pitcher', aggregation: 'ip-weighted', decimals: 2 },
+  FIP: { group: 'pitcher', aggregation: 'ip-weighted', decimals: 2 },
+  xFIP: { group: 'pitcher', aggregation: 'ip-weighted', decimals: 2 },
+  Kper9: { group: 'pitcher', aggregation: 'ip-weighted', decimals: 2 },
+  BBper9: { group: 'pitcher', aggregation: 'ip-weighted', decimals: 2 },
+  KperBB: { group: 'pitcher', aggregation: 'ratio', decimals: 2, ratio: ['Kper9', 'BBper9'] },
+  WHIP: { group: 'pitcher', aggregation: 'ip-weighted', decimals: 3 },
+  IP: { group: 'pitcher', aggregation: 'innings', decimals: 1 },
+  GS: { group: 'pitcher', aggregation: 'count', decimals: 0 },
+  SV: { group: 'pitcher', aggregation: 'count', decimals: 0 },
+  Hper9: { group: 'pitcher', aggregation: 'ip-weighted', decimals: 2 },
+  HRper9: { group: 'pitcher', aggregation: 'ip-weighted', decimals: 2 },
+  BABIP: { group: 'pitcher', aggregation: 'ip-weighted', decimals: 3 },
+  LOBpct: { group: 'pitcher', aggregation: 'ip-weighted', decimals: 2 },
+};
+
+// Season with the latest stats; the "2025" period
+const CURRENT_SEASON = 2025;
+
+function isPitcherPosition(position: string | undefined): boolean {
+  const pos = position?.toUpperCase().trim() || '';
+  return pos === 'P' || pos === 'SP' || pos === 'RP' || pos.startsWith('P');
+}
+
+// IP is written in thirds: 180.2 is 180 2/3 innings
+const inningsToDecimal = (ip: number) => Math.trunc(ip) + Math.round((ip % 1) * 10) / 3;
+const decimalToInnings = (innings: number) => {
+  const outs = Math.round(innings * 3);
+  return Math.floor(outs / 3) + (outs % 3) / 10;
+};
+
+/**
+ * One stat line for a period from a player's season rows, following
+ * STAT_AGGREGATION_RULES. Seasons need `season`, `position` and the stat fields
+ */
+export function aggregateSeasons(seasons: Record<string, any>[]): PlayerStats {
+  if (seasons.length === 0) {
+    return {
+      WAR: 0,
+      age: 0,
+      wRCplus: 0, xwOBA: 0, xSLG: 0, HRperPA: 0, RBI: 0, OPS: 0, BarrelPerPA: 0, HardHitPct: 0,
+      EV50: 0, maxEV: 0, BBpct: 0, Kpct: 0, ContactPct: 0, PA: 0, fg_Def: 0, fg_BsR: 0
+    };
+  }
+
+  const ordered = [...seasons].sort((a, b) => a.season - b.season);
+  const pitcher = isPitcherPosition(ordered[0].position);
+  const valueOf = (season: Record<string, any>, field: string) => {
+    const v = Number(season[field] ?? 0);
+    return isFinite(v) ? v : 0;
+  };
+  const round = (v: number, decimals: number) => Number(v.toFixed(decimals));
+
+  const stats: Record<string, number | null | undefined> = {};
+  const rules = Object.entries(STAT_AGGREGATION_RULES) as [keyof PlayerStats, StatAggregationRule][];
+
+  for (const [key, rule] of rules) {
+    // Hitter stats are 0 for pitchers; pitcher stats undefined for hitters
+    if (rule.group === 'hitter' && pitcher) {
+      stats[key] = 0;
+      continue;
+    }
+    if (rule.group === 'pitcher' && !pitcher) {
+      stats[key] = undefined;
+      continue;
+    }
+
+    const values = ordered.map(season => valueOf(season, rule.source ?? key));
+    const total = values.reduce((sum, v) => sum + v, 0);
+    switch (rule.aggregation) {
+      case 'count':
+        stats[key] = round(total, rule.decimals);
+        break;
+      case 'innings': {
+        const innings = values.reduce((sum, v) => sum + inningsToDecimal(v), 0);
+        stats[key] = decimalToInnings(innings);
+        break;
+      }
+      case 'pa-weighted':
+      case 'ip-weighted': {
+        const weights = ordered.map(season =>
+          rule.aggregation === 'pa-weighted' ? valueOf(season, 'PA') : inningsToDecimal(valueOf(season, 'IP'))
+        );
+        const weightTotal = weights.reduce((sum, w) => sum + w, 0);
+        // Without playing time on record, every season counts the same
+        const weighted = weightTotal > 0
+          ? values.reduce((sum, v, i) => sum + v * weights[i], 0) / weightTotal
+          : total / ordered.length;
+        stats[key] = round(weighted, rule.decimals);
+        break;
+      }
+      case 'max':
+        stats[key] = round(Math.max(...values), rule.decimals);
+        break;
+      case 'latest':
+        stats[key] = round(values[values.length - 1], rule.decimals);
+        break;
+      case 'ratio':
+        stats[key] = null; // Filled in once its inputs are aggregated
+        break;
+    }
+  }
+
+  for (const [key, rule] of rules) {
+    if (!rule.ratio || stats[key] !== null) continue;
+    const [numerator, denominator] = rule.ratio;
+    const bottom = stats[denominator] ?? 0;
+    stats[key] = bottom > 0 ? round((stats[numerator] ?? 0) / bottom, rule.decimals) : 0;
+  }
+
+  return stats as unknown as PlayerStats;
+}
+
+/**
+ * A period's line per season: counting stats and innings divided by the
+ * number of seasons, every other stat unchanged
+ */
+export function perSeasonStats(stats: PlayerStats, seasons: number): PlayerStats {
+  if (seasons <= 1) return stats;
+  const perSeason: Record<string, number | undefined> = { ...stats };
+  for (const [key, rule] of Object.entries(STAT_AGGREGATION_RULES) as [keyof PlayerStats, StatAggregationRule][]) {
+    const value = stats[key];
+    if (value === undefined) continue;
+    if (rule.aggregation === 'count') {
+      perSeason[key] = Number((value / seasons).toFixed(rule.decimals + 1));
+    } else if (rule.aggregation === 'innings') {
+      perSeason[key] = decimalToInnings(inningsToDecimal(value) / seasons);
+    }
+  }
+  return perSeason as unknown as PlayerStats;
+}
+
+/**
+ * Every StatPeriod from a player's season rows: the current season, the last
+ * three seasons, the three seasons before signedYear, and the whole career
+ */
+export function buildStatPeriods(
+  seasons: Record<string, any>[],
   signedYear?: number
 ): {
   stats2025: PlayerStats;
   threeYearStats: PlayerStats;
   threeYearContractStats?: PlayerStats;
   careerStats: PlayerStats;
+  periodSeasons: Partial<Record<StatPeriod, number>>;
 } {
-  // 2025 stats (slight random variation from 3yr avg)
-  const stats2025: PlayerStats = {
-    ...baseStats,
-    wRCplus: Math.round(baseStats.wRCplus * (0.95 + Math.random() * 0.1)),
-    xwOBA: baseStats.xwOBA * (0.97 + Math.random() * 0.06),
-    xSLG: baseStats.xSLG * (0.97 + Math.random() * 0.06),
-    HRperPA: baseStats.HRperPA * (0.9 + Math.random() * 0.2),
-    RBI: baseStats.RBI,
-    WAR: baseStats.WAR * (0.85 + Math.random() * 0.3),
-    age,
-  };
-
-  // Career stats (generally slightly better for prime years)
-  const careerStats: PlayerStats = {
-    ...baseStats,
-    wRCplus: Math.round(baseStats.wRCplus * 1.05),
-    xwOBA: baseStats.xwOBA * 1.02,
-    xSLG: baseStats.xSLG * 1.02,
-    RBI: baseStats.RBI,
-    WAR: baseStats.WAR * 1.1,
-    age,
-  };
-
-  // 3-year contract stats (at time of signing, often peak performance)
-  let threeYearContractStats: PlayerStats | undefined;
-  if (signedYear) {
-    threeYearContractStats = {
-      ...baseStats,
-      wRCplus: Math.round(baseStats.wRCplus * 1.08),
-      xwOBA: baseStats.xwOBA * 1.03,
-      xSLG: baseStats.xSLG * 1.03,
-      RBI: baseStats.RBI,
-      WAR: baseStats.WAR * 1.15,
-      age: age - (2025 - signedYear), // Age at signing
-    };
-  }
+  const ordered = [...seasons].sort((a, b) => a.season - b.season);
+  const current = ordered.filter(s => s.season === CURRENT_SEASON);
+  const recentThree = ordered.filter(s => s.season <= CURRENT_SEASON && s.season > CURRENT_SEASON - 3);
+  const lastThree = recentThree.length ? recentThree : ordered.slice(-3);
+  const preSigning = signedYear ? ordered.filter(s => s.season < signedYear && s.season >= signedYear - 3) : [];
+  // Seasons, not rows: a traded player's split rows count once
+  const seasonCount = (rows: Record<string, any>[]) => new Set(rows.map(s => s.season)).size;
 
   return {
-    stats2025,
-    threeYearStats: baseStats,
-    threeYearContractStats,
-    careerStats,
+    stats2025: aggregateSeasons(current),
+    threeYearStats: aggregateSeasons(lastThree),
+    threeYearContractStats: preSigning.length ? aggregateSeasons(preSigning) : undefined,
+    careerStats: aggregateSeasons(ordered),
+    periodSeasons: {
+      '2025': seasonCount(current),
+      '3yr-avg': seasonCount(lastThree),
+      '3yr-contract': seasonCount(preSigning),
+      career: seasonCount(ordered),
+    },
   };
 }
 
 // All available players (can be valued or used as comps if they have contracts)
-import { fetchMultipleCsvs, mergeCsvRowsByName, getField, getString, normalizePlayerName, fetchCsv } from './csvLoader';
+import { getField, getString } from './csvLoader';
+import { getMultipleCsvRows } from './csvStore';
+import { loadPlayerCrosswalk, mergeCsvRowsByPlayerId, getRowPlayerId } from './playerIdentity';
+import { loadPlayerRepository, normalizeTeam } from './playerRepository';
 
 const FANGRAPHS_URL = '/fangraphs.csv';
 const SPOTRAC_URL = '/spotrac.csv';
@@ -231,7 +388,7 @@ export async function loadPlayersFromCsv(): Promise<Player[]> {
   
   // Fetch all six CSVs in parallel (3 hitter + 3 pitcher)
   const [fangraphsRows, spotracRows, statscastRows, 
-         fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows] = await fetchMultipleCsvs([
+         fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows] = await getMultipleCsvRows([
     FANGRAPHS_URL,
     SPOTRAC_URL,
     STATSCAST_URL,
@@ -240,136 +397,52 @@ export async function loadPlayersFromCsv(): Promise<Player[]> {
     STATCAST_PITCHERS_URL,
   ]);
   
-  // Load positions_pitchers.csv as authoritative source for pitcher positions
-  const positionsPitchersRows = await fetchCsv('/positions_pitchers.csv');
-  
-  // Build a map of pitcher positions from positions_pitchers.csv
-  // Map: playerId -> Map<season -> position>
-  const pitcherPositionsBySeason = new Map<string, Map<number, string>>();
-  const POSITION_CODE_MAP: Record<number, string> = {
-    1: 'P',
-    2: 'C',
-    3: '1B',
-    4: '2B',
-    5: '3B',
-    6: 'SS',
-    7: 'OF',
-    8: 'OF',
-    9: 'OF',
-    10: 'DH',
-  };
-  
-  for (const row of positionsPitchersRows) {
-    const name = getString(row, ['player_name']);
-    const season = getField(row, ['season'], 0);
-    const positionCode = getField(row, ['position_code'], 0);
-    
-    if (!name || !season || !positionCode || positionCode === 0) continue;
-    
-    const normId = normalizePlayerName(name);
-    const positionAbbr = POSITION_CODE_MAP[positionCode];
-    
-    if (positionAbbr) {
-      if (!pitcherPositionsBySeason.has(normId)) {
-        pitcherPositionsBySeason.set(normId, new Map());
-      }
-      pitcherPositionsBySeason.get(normId)!.set(season, positionAbbr);
-    }
-  }
-  
-  // Helper function to get pitcher position from positions_pitchers.csv
-  const getPitcherPosition = (playerId: string, season: number): string | null => {
-    const seasonMap = pitcherPositionsBySeason.get(playerId);
-    if (!seasonMap) return null;
-    // Try exact season first
-    if (seasonMap.has(season)) {
-      return seasonMap.get(season)!;
-    }
-    // Find most recent season <= this season
-    let bestSeason = -1;
-    let bestPosition: string | null = null;
-    for (const [s, pos] of seasonMap.entries()) {
-      if (s <= season && s > bestSeason) {
-        bestSeason = s;
-        bestPosition = pos;
-      }
-    }
-    return bestPosition;
-  };
+  const [repository, crosswalk] = await Promise.all([
+    loadPlayerRepository(),
+    loadPlayerCrosswalk(),
+  ]);
   
   // Merge hitter data
-  const hitterRows = mergeCsvRowsByName(fangraphsRows, spotracRows, statscastRows);
+  const hitterRows = mergeCsvRowsByPlayerId(fangraphsRows, spotracRows, statscastRows, crosswalk);
   
   // Merge pitcher data
-  const pitcherRows = mergeCsvRowsByName(fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows);
+  const pitcherRows = mergeCsvRowsByPlayerId(fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows, crosswalk);
   
   // Combine all rows
   const rows = [...hitterRows, ...pitcherRows];
 
-  // Group all seasons per player by normalized name
+  // Group all seasons per player by canonical id (MLBAM id, or name when missing)
   const byId: Map<string, any[]> = new Map();
   const names: Map<string, string> = new Map();
 
   for (const row of rows) {
     const name = getString(row, ['Name']);
-    if (!name) continue;
-    const normId = normalizePlayerName(name);
-    if (!byId.has(normId)) byId.set(normId, []);
-    byId.get(normId)!.push(row);
-    names.set(normId, name);
+    const playerId = getRowPlayerId(row);
+    if (!name || !playerId) continue;
+    if (!byId.has(playerId)) byId.set(playerId, []);
+    byId.get(playerId)!.push(row);
+    names.set(playerId, name);
   }
 
-  // Helper function to normalize team abbreviation from CSV data
-  const normalizeTeamFromCsv = (teamValue: string): string => {
-    if (!teamValue || typeof teamValue !== 'string') return '';
-    const trimmed = teamValue.trim();
-    if (trimmed === '' || trimmed === '—' || trimmed === '-') return '';
-    
-    // Convert to uppercase and handle duplicates like "DET DET"
-    const upper = trimmed.toUpperCase();
-    const parts = upper.split(/\s+/);
-    const teamAbbr = parts[0];
-    
-    // Return first valid 2-3 letter abbreviation, or empty string
-    if (/^[A-Z]{2,3}$/.test(teamAbbr)) {
-      return teamAbbr;
-    }
-    
-    // Try second part if first doesn't match
-    if (parts.length > 1 && /^[A-Z]{2,3}$/.test(parts[1])) {
-      return parts[1];
-    }
-    
-    return trimmed; // Return original if can't normalize
-  };
-
   const toSeasonObj = (r: any) => {
     const season = getField(r, ['Season', 'year'], 0);
-    const rawTeam = getString(r, ['fg_Team'], '');
-    const playerName = getString(r, ['Name']);
-    const normId = normalizePlayerName(playerName);
-    
-    // For pitchers, use positions_pitchers.csv as authoritative source
-    // For hitters, use the position from the CSV row
-    const pitcherPosition = getPitcherPosition(normId, season);
-    let position: string;
+    const playerId = getRowPlayerId(r);
     
-    if (pitcherPosition) {
-      // This is a pitcher - use position from positions_pitchers.csv
-      position = pitcherPosition;
-    } else {
-      // This is a hitter - use position from CSV row
-      position = getString(r, ['fg_Pos', 'Pos', 'PosGroup'], 'OF');
-    }
+    // Listed position that season (or the latest before it) from the player
+    // repository; FanGraphs' own position when the player has no listing
+    const position =
+      repository.getPrimaryPosition(playerId, { from: season, to: season }) ??
+      repository.getPrimaryPosition(playerId, { to: season }) ??
+      getString(r, ['fg_Pos', 'Pos', 'PosGroup'], 'OF');
     
-    const isPitcherRow = position === 'P' || position === 'SP' || position === 'RP' || position.toUpperCase().startsWith('P');
+    const isPitcherRow = isPitcherPosition(position);
     
     const baseObj = {
       season: Number(season),
       WAR: getField(r, ['fg_WAR', 'fg_L-WAR'], 0),
       age: getField(r, ['fg_Age', 'player_age'], 0),
       position,
-      team: normalizeTeamFromCsv(rawTeam),
+      team: repository.getTeamForSeason(playerId, season) ?? normalizeTeam(r.fg_Team) ?? '',
       signedYear: getField(r, ['Start'], 0),
       aavRaw: getField(r, ['AAV'], 0),
       yrs: getField(r, ['Yrs'], 0),
@@ -455,122 +528,17 @@ export async function loadPlayersFromCsv(): Promise<Player[]> {
     }
   };
 
-  const aggregate = (seasons: any[]): PlayerStats => {
-    if (seasons.length === 0) {
-      return { 
-        WAR: 0,
-        age: 0,
-        wRCplus: 0, xwOBA: 0, xSLG: 0, HRperPA: 0, RBI: 0, OPS: 0, BarrelPerPA: 0, HardHitPct: 0, 
-        EV50: 0, maxEV: 0, BBpct: 0, Kpct: 0, ContactPct: 0, PA: 0, fg_Def: 0, fg_BsR: 0 
-      };
-    }
-    
-    const firstSeason = seasons[0];
-    const isPitcherSeason = firstSeason.position === 'P' || firstSeason.position === 'SP' || 
-                           firstSeason.position === 'RP' || firstSeason.position?.toUpperCase().startsWith('P');
-    
-    const mean = (k: string, d = 6) => {
-      const validValues = seasons.map(r => Number(r[k] || 0)).filter(v => !isNaN(v));
-      if (validValues.length === 0) return 0;
-      return Number((validValues.reduce((s, v) => s + v, 0) / validValues.length).toFixed(d));
-    };
-    const sum = (k: string) => seasons.reduce((s, r) => s + Number(r[k] || 0), 0);
-    
-    if (isPitcherSeason) {
-      // Aggregate pitcher stats
-      return {
-        WAR: mean('WAR', 3),
-        age: mean('age', 2),
-        // Hitter stats set to 0
-        wRCplus: 0,
-        xwOBA: 0,
-        xSLG: 0,
-        HRperPA: 0,
-        RBI: 0,
-        OPS: 0,
-        BarrelPerPA: 0,
-        HardHitPct: 0,
-        EV50: 0,
-        maxEV: 0,
-        BBpct: 0,
-        Kpct: 0,
-        ContactPct: 0,
-        PA: 0,
-        fg_Def: 0,
-        fg_BsR: 0,
-        // Pitcher stats
-        ERA: mean('ERA', 2),
-        FIP: mean('FIP', 2),
-        xFIP: mean('xFIP', 2),
-        Kper9: mean('Kper9', 2),
-        BBper9: mean('BBper9', 2),
-        KperBB: mean('KperBB', 2),
-        WHIP: mean('WHIP', 3),
-        IP: Number(mean('IP', 1).toFixed(1)),
-        GS: Number(mean('GS', 0).toFixed(0)),
-        SV: Number(mean('SV', 0).toFixed(0)),
-        Hper9: mean('Hper9', 2),
-        HRper9: mean('HRper9', 2),
-        BABIP: mean('BABIP', 3),
-        LOBpct: mean('LOBpct', 2),
-      };
-    } else {
-      // Aggregate hitter stats
-      const totalPA = sum('PA');
-      const avgHR = mean('HR', 1);
-      return {
-        wRCplus: mean('wRCplus', 2),
-        xwOBA: mean('xwOBA', 6),
-        xSLG: mean('xSLG', 6),
-        HRperPA: avgHR,
-        RBI: mean('RBI', 1),
-        OPS: mean('OPS', 3),
-        BarrelPerPA: mean('BarrelPerPA', 4),
-        HardHitPct: mean('HardHitPct', 4),
-        EV50: mean('EV50', 4),
-        maxEV: mean('maxEV', 1),
-        BBpct: mean('BBpct', 4),
-        Kpct: mean('Kpct', 4),
-        ContactPct: mean('ContactPct', 4),
-        WAR: mean('WAR', 3),
-        PA: Number(mean('PA', 0).toFixed(0)),
-        age: mean('age', 2),
-        fg_Def: mean('fg_Def', 2),
-        fg_BsR: mean('fg_BsR', 2),
-        // Pitcher stats undefined for hitters
-        ERA: undefined,
-        FIP: undefined,
-        xFIP: undefined,
-        Kper9: undefined,
-        BBper9: undefined,
-        KperBB: undefined,
-        WHIP: undefined,
-        IP: undefined,
-        GS: undefined,
-        SV: undefined,
-        Hper9: undefined,
-        HRper9: undefined,
-        BABIP: undefined,
-        LOBpct: undefined,
-      };
-    }
-  };
-
   const players: Player[] = [];
   for (const [id, arr] of byId.entries()) {
     const seasons = arr.map(toSeasonObj).filter(s => s.season > 0).sort((a, b) => a.season - b.season);
     if (seasons.length === 0) continue;
     const name = names.get(id) || id;
 
-    const s2025 = seasons.filter(s => s.season === 2025);
-    const s3yr = seasons.filter(s => [2025, 2024, 2023].includes(s.season));
-    const career = seasons;
+    const s2025 = seasons.filter(s => s.season === CURRENT_SEASON);
 
-    // 3yr pre-contract based on signedYear (if present in any row)
+    // Pre-contract seasons are the three before signedYear (if present in any row)
     const anySigned = seasons.find(s => s.signedYear);
     const signedYear = anySigned?.signedYear ? Number(anySigned.signedYear) : undefined;
-    const preYears = signedYear ? [signedYear - 1, signedYear - 2, signedYear - 3] : [];
-    const s3pre = signedYear ? seasons.filter(s => preYears.includes(s.season)) : [];
 
     const team = (s2025[0]?.team || seasons[seasons.length - 1].team) || '—';
     const position = (s2025[0]?.position || seasons[seasons.length - 1].position) || 'OF';
@@ -590,10 +558,7 @@ export async function loadPlayersFromCsv(): Promise<Player[]> {
       AAV: aavMillions || undefined,
       years: years || undefined,
       signedYear: signedYear || undefined,
-      stats2025: aggregate(s2025),
-      threeYearStats: aggregate(s3yr.length ? s3yr : seasons.slice(-3)),
-      threeYearContractStats: s3pre.length ? aggregate(s3pre) : undefined,
-      careerStats: aggregate(career),
+      ...buildStatPeriods(seasons, signedYear),
       has2025Season: s2025.length > 0,
     });
   }
@@ -605,7 +570,8 @@ export async function loadPlayersFromCsv(): Promise<Player[]> {
 // Provide an empty list immediately for synchronous imports; real data is async via loadPlayersFromCsv
 export const ALL_PLAYERS: Player[] = [];
 
-// Helper function to get player by ID or name
+// Helper function to get player by ID; saved name keys are resolved by
+// playerIdMigrationService when players load
 export function getPlayerById(playerId: string): Player | undefined {
   if (!cachedPlayers) return undefined;
   return cachedPlayers.find(p => p.id === playerId);
@@ -627,27 +593,5 @@ export function searchPlayers(query: string): Player[] {
 
 // Get players with contracts (for use as comparisons)
 export function getPlayersWithContracts(): Player[] {
-  return ALL_PLAYERS.filter(p => p.hasContract === true);
-}
-
-// Helper function to get suggested comps for a player (same position preferred)
-export function getSuggestedComps(player: Player, limit: number = 4): Player[] {
-  const withContracts = getPlayersWithContracts();
-  
-  // First, get same position players
-  const samePosition = withContracts.filter(comp => 
-    comp.position === player.position && comp.id !== player.id
-  );
-  
-  // If we have enough same position players, return them
-  if (samePosition.length >= limit) {
-    return samePosition.slice(0, limit);
-  }
-  
-  // Otherwise, fill with other players
-  const others = withContracts.filter(comp => 
-    comp.position !== player.position && comp.id !== player.id
-  );
-  
-  return [...samePosition, ...others].slice(0, limit);
+  return (cachedPlayers ?? ALL_PLAYERS).filter(p => p.hasContract === true);
 }
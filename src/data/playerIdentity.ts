@@ -0,0 +1,242 @@
+import { getField, getString, normalizePlayerName, type RawCsvRow } from './csvLoader';
+import { getCsvRows } from './csvStore';
+
+/**
+ * Player identity crosswalk
+ *
+ * Every source row resolves to one canonical key: the MLBAM player id when the
+ * row carries one (Statcast, Positions) or the crosswalk can find one for its
+ * name, otherwise a normalized name. Names are matched without accents,
+ * punctuation or Jr./Sr./II suffixes; when a name belongs to several MLBAM ids
+ * (two Will Smiths) the season, team and pitcher/hitter role pick between them.
+ */
+
+// Sources that carry MLBAM ids alongside names, seasons and teams
+const CROSSWALK_URLS = ['/Positions.csv', '/positions_pitchers.csv', '/statscast.csv', '/statcast_pitchers.csv'];
+
+// Columns that hold an MLBAM id, by source
+const ID_COLUMNS = ['player_id', 'MLBAMID', 'mlbamid', 'key_mlbam', 'sc_key_mlbam', 'xMLBAMID'];
+const NAME_COLUMNS = ['Name', 'player_name', 'Player', 'last_name, first_name', 'player_display'];
+const SEASON_COLUMNS = ['Season', 'season', 'year'];
+const TEAM_COLUMNS = ['team_abbrev', 'fg_Team', 'Team', 'TeamCurrently With'];
+
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v']);
+const PITCHER_POSITIONS = new Set(['P', 'SP', 'RP', 'RHP', 'LHP']);
+
+// Pitcher or hitter; the last tiebreak between players sharing a name
+type PlayerRole = 'P' | 'H';
+
+// Field set on merged rows with the resolved key
+export const PLAYER_ID_FIELD = 'player_key';
+
+export interface PlayerCrosswalk {
+  idsByName: Map<string, Set<string>>;
+  idsByNameSeason: Map<string, Set<string>>; // name|season
+  idsByNameTeam: Map<string, Set<string>>; // name|TEAM
+  idsByNameSeasonTeam: Map<string, Set<string>>; // name|season|TEAM
+  rolesById: Map<string, Set<PlayerRole>>;
+  namesById: Map<string, string>;
+}
+
+/**
+ * Name form used for matching: "Beltré, Adrián Jr." -> "adrian beltre"
+ */
+export function nameMatchKey(name: string): string {
+  return normalizePlayerName(name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[.'’]/g, '')
+    .replace(/-/g, ' ')
+    .split(' ')
+    .filter(part => part && !NAME_SUFFIXES.has(part))
+    .join(' ');
+}
+
+/**
+ * MLBAM id carried by a row, if any (ids can parse as floats like 592450.0)
+ */
+export function getRowMlbamId(row: RawCsvRow): string | null {
+  const id = getField(row, ID_COLUMNS, 0);
+  return id > 0 ? String(Math.trunc(id)) : null;
+}
+
+export function isMlbamId(id: string): boolean {
+  return /^\d+$/.test(id);
+}
+
+export function getRowName(row: RawCsvRow): string {
+  return getString(row, NAME_COLUMNS);
+}
+
+// First two-or-three letter token: "DET DET" -> "DET"
+function getRowTeam(row: RawCsvRow): string {
+  const team = getString(row, TEAM_COLUMNS).toUpperCase();
+  return team.split(/\s+/).find(part => /^[A-Z]{2,3}$/.test(part)) ?? '';
+}
+
+// Each source says it differently: Positions position_type, Spotrac Pos,
+// Statcast pitcher columns, Fangraphs IP without PA
+function getRowRole(row: RawCsvRow): PlayerRole | null {
+  const positionType = getString(row, ['position_type']);
+  if (positionType) return positionType === 'Pitcher' ? 'P' : 'H';
+  const position = getString(row, ['Pos', 'PosGroup']).toUpperCase();
+  if (position) return PITCHER_POSITIONS.has(position) ? 'P' : 'H';
+  if (row.p_game !== undefined) return 'P';
+  if (row.b_rbi !== undefined) return 'H';
+  const ip = getField(row, ['fg_IP', 'IP'], 0);
+  const pa = getField(row, ['fg_PA', 'PA'], 0);
+  if (ip > 0 && pa === 0) return 'P';
+  return pa > 0 ? 'H' : null;
+}
+
+function addId(map: Map<string, Set<string>>, key: string, id: string) {
+  const ids = map.get(key) ?? new Set<string>();
+  ids.add(id);
+  map.set(key, ids);
+}
+
+/**
+ * Indexes the MLBAM ids found in id-bearing rows by name, season and team
+ */
+export function buildPlayerCrosswalk(rows: RawCsvRow[]): PlayerCrosswalk {
+  const crosswalk: PlayerCrosswalk = {
+    idsByName: new Map(),
+    idsByNameSeason: new Map(),
+    idsByNameTeam: new Map(),
+    idsByNameSeasonTeam: new Map(),
+    rolesById: new Map(),
+    namesById: new Map(),
+  };
+
+  for (const row of rows) {
+    const id = getRowMlbamId(row);
+    const name = getRowName(row);
+    const key = nameMatchKey(name);
+    if (!id || !key) continue;
+
+    const season = getField(row, SEASON_COLUMNS, 0);
+    const team = getRowTeam(row);
+    addId(crosswalk.idsByName, key, id);
+    if (season) addId(crosswalk.idsByNameSeason, `${key}|${season}`, id);
+    if (team) addId(crosswalk.idsByNameTeam, `${key}|${team}`, id);
+    if (season && team) addId(crosswalk.idsByNameSeasonTeam, `${key}|${season}|${team}`, id);
+    const role = getRowRole(row);
+    if (role) crosswalk.rolesById.set(id, (crosswalk.rolesById.get(id) ?? new Set<PlayerRole>()).add(role));
+    if (!crosswalk.namesById.has(id)) crosswalk.namesById.set(id, normalizePlayerName(name));
+  }
+
+  return crosswalk;
+}
+
+let cachedCrosswalk: Promise<PlayerCrosswalk> | null = null;
+
+/**
+ * Crosswalk built from every id-bearing source; a missing source is skipped
+ */
+export function loadPlayerCrosswalk(): Promise<PlayerCrosswalk> {
+  if (cachedCrosswalk) return cachedCrosswalk;
+
+  cachedCrosswalk = Promise.all(
+    CROSSWALK_URLS.map(url =>
+      getCsvRows(url).catch(error => {
+        console.warn(`Crosswalk source ${url} not loaded:`, error);
+        return [] as RawCsvRow[];
+      })
+    )
+  ).then(files => buildPlayerCrosswalk(files.flat()));
+
+  cachedCrosswalk.catch(() => {
+    cachedCrosswalk = null;
+  });
+  return cachedCrosswalk;
+}
+
+const single = (ids: Set<string> | undefined) => (ids && ids.size === 1 ? [...ids][0] : null);
+
+/**
+ * Canonical key for a row from any source: its own MLBAM id, the crosswalk's
+ * id for its name (season and team break ties), or the name match key
+ */
+export function resolvePlayerId(crosswalk: PlayerCrosswalk | null, row: RawCsvRow): string {
+  const ownId = getRowMlbamId(row);
+  if (ownId) return ownId;
+
+  const key = nameMatchKey(getRowName(row));
+  if (!key || !crosswalk) return key;
+
+  const ids = crosswalk.idsByName.get(key);
+  if (!ids) return key;
+  if (ids.size === 1) return [...ids][0];
+
+  const season = getField(row, SEASON_COLUMNS, 0);
+  const team = getRowTeam(row);
+  const byTeam = team ? crosswalk.idsByNameTeam.get(`${key}|${team}`) : undefined;
+  const byContext =
+    (season && team ? single(crosswalk.idsByNameSeasonTeam.get(`${key}|${season}|${team}`)) : null) ??
+    (season ? single(crosswalk.idsByNameSeason.get(`${key}|${season}`)) : null) ??
+    single(byTeam);
+  if (byContext) return byContext;
+
+  // Same name on the same club (or no club given): pitcher vs hitter
+  const role = getRowRole(row);
+  const byRole = role ? [...(byTeam ?? ids)].filter(id => crosswalk.rolesById.get(id)?.has(role)) : [];
+  return byRole.length === 1 ? byRole[0] : key;
+}
+
+/**
+ * Copies rows with their resolved key in PLAYER_ID_FIELD
+ */
+export function withPlayerIds(rows: RawCsvRow[], crosswalk: PlayerCrosswalk | null): RawCsvRow[] {
+  return rows.map(row => ({ ...row, [PLAYER_ID_FIELD]: resolvePlayerId(crosswalk, row) }));
+}
+
+export function getRowPlayerId(row: RawCsvRow): string {
+  return String(row[PLAYER_ID_FIELD] ?? '');
+}
+
+/**
+ * Merge multiple CSV data sets by player
+ * Fangraphs data is the base, with Spotrac (by player) and Statcast (by player
+ * and season) data merged in. Each merged row carries its key in PLAYER_ID_FIELD
+ */
+export function mergeCsvRowsByPlayerId(
+  fangraphsRows: RawCsvRow[],
+  spotracRows: RawCsvRow[],
+  statscastRows: RawCsvRow[],
+  crosswalk: PlayerCrosswalk | null
+): RawCsvRow[] {
+  // Spotrac has no season, so one row per player
+  const spotracMap = new Map<string, RawCsvRow>();
+  for (const row of spotracRows) {
+    const id = resolvePlayerId(crosswalk, row);
+    if (id) spotracMap.set(id, row);
+  }
+
+  const statscastMap = new Map<string, RawCsvRow>();
+  for (const row of statscastRows) {
+    const id = resolvePlayerId(crosswalk, row);
+    const year = getField(row, ['year']);
+    if (id && year) statscastMap.set(`${id}|${year}`, row);
+  }
+
+  // Merge: start with Fangraphs rows, add matching data from other sources
+  const merged: RawCsvRow[] = [];
+  for (const fgRow of fangraphsRows) {
+    if (!getString(fgRow, ['Name'])) continue;
+
+    const id = resolvePlayerId(crosswalk, fgRow);
+    const season = getField(fgRow, ['Season']);
+    const mergedRow: RawCsvRow = { ...fgRow, [PLAYER_ID_FIELD]: id };
+
+    for (const sourceRow of [spotracMap.get(id), statscastMap.get(`${id}|${season}`)]) {
+      if (!sourceRow) continue;
+      Object.keys(sourceRow).forEach(key => {
+        if (!mergedRow[key]) mergedRow[key] = sourceRow[key];
+      });
+    }
+
+    merged.push(mergedRow);
+  }
+
+  return merged;
+}
@@ -0,0 +1,233 @@
+import { getField, getString, type RawCsvRow } from './csvLoader';
+import { getCsvRows } from './csvStore';
+import { loadPlayerCrosswalk, resolvePlayerId, type PlayerCrosswalk } from './playerIdentity';
+
+/**
+ * Player repository: positions, clubs and divisions
+ *
+ * The one place screens ask where a player plays and for whom:
+ * - Primary position is the position listed most often in Positions.csv and
+ *   positions_pitchers.csv over a range of seasons (ties go to the later season)
+ * - A player's club for a season is the FanGraphs club, or the Positions club
+ *   when FanGraphs lists several ("2 Tms")
+ * - Team abbreviations are normalized to the payroll file's ids (AZ -> ARI, OAK -> ATH)
+ */
+
+export const MLB_DIVISIONS = ['AL East', 'AL Central', 'AL West', 'NL East', 'NL Central', 'NL West'] as const;
+export type MlbDivision = (typeof MLB_DIVISIONS)[number];
+
+// Variants seen across sources -> payroll ids
+const TEAM_ALIASES: Record<string, string> = {
+  ANA: 'LAA', ARZ: 'ARI', AZ: 'ARI', CWS: 'CHW', KCR: 'KC', OAK: 'ATH',
+  SDP: 'SD', SFG: 'SF', TBR: 'TB', WSN: 'WSH',
+};
+
+const TEAM_DIVISIONS: Record<string, MlbDivision> = {
+  NYY: 'AL East', BOS: 'AL East', TOR: 'AL East', TB: 'AL East', BAL: 'AL East',
+  CLE: 'AL Central', MIN: 'AL Central', DET: 'AL Central', CHW: 'AL Central', KC: 'AL Central',
+  HOU: 'AL West', TEX: 'AL West', SEA: 'AL West', LAA: 'AL West', ATH: 'AL West',
+  ATL: 'NL East', MIA: 'NL East', NYM: 'NL East', PHI: 'NL East', WSH: 'NL East',
+  CHC: 'NL Central', MIL: 'NL Central', STL: 'NL Central', PIT: 'NL Central', CIN: 'NL Central',
+  LAD: 'NL West', SD: 'NL West', SF: 'NL West', ARI: 'NL West', COL: 'NL West',
+};
+
+// MLB position codes: 1=P, 2=C, 3=1B, 4=2B, 5=3B, 6=SS, 7/8/9=OF, 10=DH
+const POSITION_CODES: Record<number, string> = {
+  1: 'P',
+  2: 'C',
+  3: '1B',
+  4: '2B',
+  5: '3B',
+  6: 'SS',
+  7: 'OF',
+  8: 'OF',
+  9: 'OF',
+  10: 'DH',
+};
+
+const PITCHER_POSITIONS = new Set(['P', 'SP', 'RP']);
+
+// Inclusive; an open end covers every season on that side
+export interface SeasonRange {
+  from?: number;
+  to?: number;
+}
+
+export interface PlayerRepository {
+  getPrimaryPosition(playerId: string, seasonRange?: SeasonRange): string | null;
+  getTeamForSeason(playerId: string, season: number): string | null;
+  // Club in the most recent season within the range
+  getLatestTeam(playerId: string, seasonRange?: SeasonRange): string | null;
+  // Player ids whose primary position that season matches (P, SP and RP match
+  // each other), optionally limited to clubs in one division
+  getPlayersAtPosition(position: string, division: MlbDivision | null, season: number): string[];
+}
+
+/**
+ * Canonical club id: "DET DET" -> "DET", "AZ" -> "ARI"; null for blanks and
+ * multi-club markers ("- - -", "2 Tms")
+ */
+export function normalizeTeam(value: RawCsvRow[string]): string | null {
+  const team = String(value ?? '').trim().toUpperCase().split(/\s+/)[0];
+  if (!/^[A-Z]{2,3}$/.test(team)) return null;
+  return TEAM_ALIASES[team] ?? team;
+}
+
+export function getDivision(team: string): MlbDivision | null {
+  const normalized = normalizeTeam(team);
+  return normalized ? TEAM_DIVISIONS[normalized] ?? null : null;
+}
+
+/**
+ * First listed position of a stored value: "SS/2B" -> "SS"
+ */
+export function firstListedPosition(position: string | undefined): string {
+  return (position ?? '').split(/[\/,]/)[0].trim().toUpperCase();
+}
+
+export function positionsMatch(a: string, b: string): boolean {
+  return a === b || (PITCHER_POSITIONS.has(a) && PITCHER_POSITIONS.has(b));
+}
+
+const inRange = (season: number, range?: SeasonRange) =>
+  (range?.from === undefined || season >= range.from) && (range?.to === undefined || season <= range.to);
+
+function setSeasonTeam(map: Map<string, Map<number, string>>, playerId: string, season: number, team: string) {
+  const seasons = map.get(playerId) ?? new Map<number, string>();
+  seasons.set(season, team);
+  map.set(playerId, seasons);
+}
+
+/**
+ * Indexes position listings and FanGraphs clubs by player and season
+ */
+export function buildPlayerRepository(
+  positionRows: RawCsvRow[],
+  fangraphsRows: RawCsvRow[],
+  fangraphsPitcherRows: RawCsvRow[],
+  crosswalk: PlayerCrosswalk | null
+): PlayerRepository {
+  // playerId -> season -> position -> listings
+  const positionCounts = new Map<string, Map<number, Map<string, number>>>();
+  const positionsTeams = new Map<string, Map<number, string>>();
+  const fangraphsTeams = new Map<string, Map<number, string>>();
+
+  const countPosition = (playerId: string, season: number, position: string) => {
+    const seasons = positionCounts.get(playerId) ?? new Map<number, Map<string, number>>();
+    const counts = seasons.get(season) ?? new Map<string, number>();
+    counts.set(position, (counts.get(position) ?? 0) + 1);
+    seasons.set(season, counts);
+    positionCounts.set(playerId, seasons);
+  };
+
+  // Pitchers appear in both Positions files; count each listing once
+  const seen = new Set<string>();
+  for (const row of positionRows) {
+    const season = getField(row, ['season'], 0);
+    const position = POSITION_CODES[getField(row, ['position_code'], 0)];
+    if (!season || !getString(row, ['player_name'])) continue;
+
+    const playerId = resolvePlayerId(crosswalk, row);
+    const team = normalizeTeam(row.team_abbrev);
+    const listing = `${playerId}|${season}|${team}|${position}`;
+    if (seen.has(listing)) continue;
+    seen.add(listing);
+
+    if (position) countPosition(playerId, season, position);
+    if (team) setSeasonTeam(positionsTeams, playerId, season, team);
+  }
+
+  const pitcherSeasons: [string, number][] = [];
+  const indexFangraphs = (rows: RawCsvRow[], pitchers: boolean) => {
+    for (const row of rows) {
+      const season = getField(row, ['Season', 'year'], 0);
+      if (!season || !getString(row, ['Name'])) continue;
+      const playerId = resolvePlayerId(crosswalk, row);
+      const team = normalizeTeam(row.fg_Team);
+      if (team) setSeasonTeam(fangraphsTeams, playerId, season, team);
+      if (pitchers && !positionCounts.get(playerId)?.has(season)) pitcherSeasons.push([playerId, season]);
+    }
+  };
+  indexFangraphs(fangraphsRows, false);
+  indexFangraphs(fangraphsPitcherRows, true);
+  // FanGraphs pitcher seasons missing from both Positions files still count as pitching
+  pitcherSeasons.forEach(([playerId, season]) => countPosition(playerId, season, 'P'));
+
+  const getPrimaryPosition = (playerId: string, seasonRange?: SeasonRange): string | null => {
+    const seasons = positionCounts.get(playerId);
+    if (!seasons) return null;
+    const totals = new Map<string, number>();
+    [...seasons.entries()]
+      .filter(([season]) => inRange(season, seasonRange))
+      .sort((a, b) => b[0] - a[0])
+      .forEach(([, counts]) => counts.forEach((count, position) => totals.set(position, (totals.get(position) ?? 0) + count)));
+
+    let primary: string | null = null;
+    let maxCount = 0;
+    for (const [position, count] of totals) {
+      if (count > maxCount) {
+        maxCount = count;
+        primary = position;
+      }
+    }
+    return primary;
+  };
+
+  const getTeamForSeason = (playerId: string, season: number): string | null =>
+    fangraphsTeams.get(playerId)?.get(season) ?? positionsTeams.get(playerId)?.get(season) ?? null;
+
+  const getLatestTeam = (playerId: string, seasonRange?: SeasonRange): string | null => {
+    const seasons = [...(fangraphsTeams.get(playerId)?.keys() ?? []), ...(positionsTeams.get(playerId)?.keys() ?? [])]
+      .filter(season => inRange(season, seasonRange));
+    return seasons.length ? getTeamForSeason(playerId, Math.max(...seasons)) : null;
+  };
+
+  const getPlayersAtPosition = (position: string, division: MlbDivision | null, season: number): string[] => {
+    const target = firstListedPosition(position);
+    const ids: string[] = [];
+    for (const playerId of positionCounts.keys()) {
+      const primary = getPrimaryPosition(playerId, { from: season, to: season });
+      if (!primary || !positionsMatch(primary, target)) continue;
+      if (division) {
+        const team = getTeamForSeason(playerId, season);
+        if (!team || TEAM_DIVISIONS[team] !== division) continue;
+      }
+      ids.push(playerId);
+    }
+    return ids;
+  };
+
+  return { getPrimaryPosition, getTeamForSeason, getLatestTeam, getPlayersAtPosition };
+}
+
+let cachedRepository: Promise<PlayerRepository> | null = null;
+
+function loadOptionalRows(url: string): Promise<RawCsvRow[]> {
+  return getCsvRows(url).catch(error => {
+    console.warn(`Player repository source ${url} not loaded:`, error);
+    return [] as RawCsvRow[];
+  });
+}
+
+/**
+ * Repository built from Positions, positions_pitchers and the FanGraphs files;
+ * a missing source is skipped
+ */
+export function loadPlayerRepository(): Promise<PlayerRepository> {
+  if (cachedRepository) return cachedRepository;
+
+  cachedRepository = Promise.all([
+    loadOptionalRows('/Positions.csv'),
+    loadOptionalRows('/positions_pitchers.csv'),
+    loadOptionalRows('/fangraphs.csv'),
+    loadOptionalRows('/fangraphs_pitchers.csv'),
+    loadPlayerCrosswalk(),
+  ]).then(([positions, positionsPitchers, fangraphs, fangraphsPitchers, crosswalk]) =>
+    buildPlayerRepository([...positions, ...positionsPitchers], fangraphs, fangraphsPitchers, crosswalk)
+  );
+
+  cachedRepository.catch(() => {
+    cachedRepository = null;
+  });
+  return cachedRepository;
+}
@@ -0,0 +1,58 @@
+import { useMemo } from 'react';
+import { valueOptOut, type OptOutMarketModel } from '../services/optOutValuationService';
+import { buildPlayerProjection } from '../services/contractSimulationService';
+import { calculateEstimatedValue, getDefaultEstimatedValueInputs, DEFAULT_INFLATION_PERCENT } from '../services/estimatedValueService';
+import type { ContractTerms, OptOutValuation } from '../types';
+import type { Player } from '../data/playerDatabase';
+
+// Per-player settings written by the EstimatedValue screen
+const SETTINGS_KEY_PREFIX = 'borasApp_estimatedValueSettings_';
+// Stable default so the memo is not recomputed every render
+const NO_COMPS: Player[] = [];
+
+function readStoredSettings(player: Player | null): string | null {
+  if (!player || typeof window === 'undefined') return null;
+  try {
+    return localStorage.getItem(`${SETTINGS_KEY_PREFIX}${player.id}`);
+  } catch (error) {
+    console.warn('Failed to load market model for opt-out valuation:', error);
+    return null;
+  }
+}
+
+// The player's fair AAV from the comp model, with their saved EstimatedValue
+// settings (or the defaults); falls back to the deal's own AAV without comps
+function getMarketModel(
+  player: Player | null,
+  comps: Player[],
+  storedSettings: string | null,
+  terms: ContractTerms
+): OptOutMarketModel {
+  if (!player) return { marketAAV: terms.baseAAV, inflationPercent: DEFAULT_INFLATION_PERCENT };
+
+  let saved = {};
+  try {
+    saved = storedSettings ? JSON.parse(storedSettings) ?? {} : {};
+  } catch (error) {
+    console.warn('Failed to parse saved valuation settings for opt-out valuation:', error);
+  }
+  const inputs = { ...getDefaultEstimatedValueInputs(player, comps), ...saved };
+  inputs.selectedCompIds = inputs.selectedCompIds.filter(id => comps.some(c => c.id === id));
+
+  const { fairAAV } = calculateEstimatedValue(player, comps, inputs, terms.startSeason);
+  return { marketAAV: fairAAV > 0 ? fairAAV : terms.baseAAV, inflationPercent: inputs.inflationPercent };
+}
+
+export function useOptOutValuation(
+  terms: ContractTerms,
+  player: Player | null = null,
+  comps: Player[] = NO_COMPS
+): OptOutValuation | null {
+  // Read every render so edits saved on the EstimatedValue screen re-price the option
+  const storedSettings = readStoredSettings(player);
+  return useMemo(() => {
+    const market = getMarketModel(player, comps, storedSettings, terms);
+    const projection = player ? buildPlayerProjection(player) : null;
+    return valueOptOut(terms, market, projection);
+  }, [terms, player, comps, storedSettings]);
+}
@@ -1,7 +1,16 @@
-import { useState, useEffect } from 'react';
-import { loadPayrollData, getTeamPayrollData, getAvailableTeams, type TeamPayrollData } from '../services/payrollDataService';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  loadPayrollData,
+  getTeamPayrollData,
+  getAvailableTeams,
+  getBasePayrollBySeason,
+  type TeamPayrollData,
+} from '../services/payrollDataService';
+import { CONTRACT_START_SEASON } from '../services/contractCalculationService';
 
 const STORAGE_KEY = 'selectedTeamId';
+// Per club: consecutive seasons paying the CBT before the first contract season
+const YEARS_OVER_STORAGE_KEY = 'borasApp_cbtYearsOver';
 
 // Get initial team ID from localStorage or default to Red Sox
 function getInitialTeamId(): string {
@@ -12,17 +21,53 @@ function getInitialTeamId(): string {
   return 'BOS'; // Default to Boston Red Sox
 }
 
-export function usePayrollData() {
+/**
+ * Saves the selected club; hooks mounted afterwards start on it
+ */
+export function saveSelectedTeamId(teamId: string): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, teamId);
+  }
+}
+
+function loadPriorYearsOver(): Record<string, number> {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(YEARS_OVER_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.warn('Failed to load CBT payor history from localStorage:', error);
+    return {};
+  }
+}
+
+/**
+ * @param startSeason - First contract season for the payroll overlay
+ * @param seasonCount - Number of seasons in the overlay
+ */
+export function usePayrollData(startSeason: number = CONTRACT_START_SEASON, seasonCount: number = 0) {
   const [payrollData, setPayrollData] = useState<TeamPayrollData[]>([]);
   const [selectedTeamId, setSelectedTeamIdState] = useState<string>(getInitialTeamId());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [priorYearsOverByTeam, setPriorYearsOverByTeam] = useState<Record<string, number>>(loadPriorYearsOver);
 
   // Wrapper function that also saves to localStorage
   const setSelectedTeamId = (teamId: string) => {
     setSelectedTeamIdState(teamId);
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(STORAGE_KEY, teamId);
+    saveSelectedTeamId(teamId);
+  };
+
+  // Repeat-payor history for the selected club; clubs default to first-time payors
+  const priorYearsOver = priorYearsOverByTeam[selectedTeamId] ?? 0;
+  const setPriorYearsOver = (years: number) => {
+    const next = { ...priorYearsOverByTeam, [selectedTeamId]: years };
+    setPriorYearsOverByTeam(next);
+    try {
+      localStorage.setItem(YEARS_OVER_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Failed to save CBT payor history to localStorage:', error);
     }
   };
 
@@ -63,12 +108,21 @@ export function usePayrollData() {
 
   const availableTeams = getAvailableTeams(payrollData);
 
+  // Base payroll under each contract season (placeholder until data loads)
+  const basePayrollBySeason = useMemo(
+    () => getBasePayrollBySeason(loading ? undefined : selectedTeamData, startSeason, seasonCount),
+    [selectedTeamData, loading, startSeason, seasonCount]
+  );
+
   return {
     payrollData,
     selectedTeamId,
     setSelectedTeamId,
     selectedTeamData,
     availableTeams,
+    basePayrollBySeason,
+    priorYearsOver,
+    setPriorYearsOver,
     loading,
     error,
   };
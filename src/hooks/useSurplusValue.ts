@@ -0,0 +1,58 @@
+import { useState, useMemo } from 'react';
+import { useContract } from '../components/narrative/ContractContext';
+import { useWarProjection } from './useWarProjection';
+import { calculateSurplusValue, getDefaultSurplusSettings } from '../services/surplusValueService';
+import type { SurplusValueResult, SurplusValueSettings } from '../types';
+import type { Player } from '../data/playerDatabase';
+
+// Market overrides shared by ContractSummary and Projections
+const SETTINGS_KEY = 'borasApp_surplusSettings';
+
+function loadSettingOverrides(): Partial<SurplusValueSettings> {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (!parsed || typeof parsed !== 'object') return {};
+    const overrides: Partial<SurplusValueSettings> = {};
+    (['dollarsPerWar', 'inflationPercent', 'discountRate'] as const).forEach(key => {
+      if (typeof parsed[key] === 'number') overrides[key] = parsed[key];
+    });
+    return overrides;
+  } catch (error) {
+    console.warn('Failed to load surplus value settings:', error);
+    return {};
+  }
+}
+
+/**
+ * Surplus value of the active contract for a player, from the aging-curve WAR
+ * projection and the market settings (defaults until the user overrides one)
+ */
+export function useSurplusValue(player: Player | null) {
+  const { terms, yearlyBreakdown } = useContract();
+  const { projection, loading, error } = useWarProjection(player, terms.startSeason, terms.years);
+  const [overrides, setOverrides] = useState<Partial<SurplusValueSettings>>(loadSettingOverrides);
+
+  const settings = useMemo(
+    () => ({ ...getDefaultSurplusSettings(terms.startSeason), ...overrides }),
+    [terms.startSeason, overrides]
+  );
+
+  const updateSetting = <K extends keyof SurplusValueSettings>(key: K, value: SurplusValueSettings[K]) => {
+    const next = { ...overrides, [key]: value };
+    setOverrides(next);
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Failed to save surplus value settings:', error);
+    }
+  };
+
+  const surplus: SurplusValueResult | null = useMemo(
+    () => (projection ? calculateSurplusValue(terms, yearlyBreakdown, projection.seasons, settings) : null),
+    [projection, terms, yearlyBreakdown, settings]
+  );
+
+  return { projection, surplus, settings, updateSetting, loading, error };
+}
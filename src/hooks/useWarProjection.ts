@@ -0,0 +1,42 @@
+import { useState, useEffect, useMemo } from 'react';
+import { loadAgingDataset, projectWar, type AgingDataset } from '../services/agingCurveService';
+import type { WarProjection } from '../types';
+import type { Player } from '../data/playerDatabase';
+
+/**
+ * WAR projection for each contract season
+ * Until the aging data loads (or if it fails) the projection uses the prior
+ * curve and the player's loaded stat periods
+ */
+export function useWarProjection(player: Player | null, startSeason: number, years: number) {
+  const [dataset, setDataset] = useState<AgingDataset | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadAgingDataset()
+      .then(data => {
+        if (!cancelled) setDataset(data);
+      })
+      .catch(err => {
+        console.error('Error loading aging curve data:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load aging curve data');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const projection: WarProjection | null = useMemo(
+    () => (player ? projectWar(player, dataset, startSeason, years) : null),
+    [player, dataset, startSeason, years]
+  );
+
+  return { projection, loading, error };
+}
@@ -2,6 +2,7 @@
   import { createRoot } from "react-dom/client";
   import App from "./App.tsx";
   import "./index.css";
+  import "./styles/print.css";
 
   createRoot(document.getElementById("root")!).render(<App />);
   
\ No newline at end of file
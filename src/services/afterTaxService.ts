@@ -0,0 +1,443 @@
+// ============================================================================
+// AFTER-TAX VALUE SERVICE
+// ============================================================================
+// Estimates the player's net take-home from a contract with each club.
+//
+// Model (per season, all values in $M):
+// - US federal income tax on cash received that season (deferred money is
+//   taxed when paid), plus FICA on compensation earned that season
+// - Jock tax: duty days are split 50% at the club's home park and 50% spread
+//   evenly across the other 29 parks. Each US state taxes its share of income
+//   (state tax on total income × duty-day share); the residence state taxes
+//   everything and credits other states up to its own rate (greater-of rule)
+// - Work-location local taxes (PHI, PIT, CLE, CIN, DET, KC, STL, BAL)
+// - Canada: the TOR share is taxed by Canada (federal + Ontario) in the season
+//   it is earned, including deferred money (salary deferral rules), and is
+//   credited against US federal tax
+// - Deferred payouts spread over 10+ years are taxable only by the state of
+//   residence when paid (4 U.S.C. § 114), so a post-career move matters
+//
+// The player is assumed to be a US person filing single. Bracket tables are
+// bundled below and versioned like the CBT rules.
+//
+// BACKEND INTEGRATION:
+// The tables can be replaced with:
+// GET /api/tax/tables/:version - Returns jurisdiction bracket tables
+// ============================================================================
+
+import type { ContractTerms, ContractCalculations, AfterTaxResult, AfterTaxSeason } from '../types';
+import { normalizeTeam } from '../data/playerRepository';
+
+export const TAX_TABLES_VERSION = '2025.1';
+
+// ============================================================================
+// BRACKET TABLES
+// ============================================================================
+
+interface TaxBracket {
+  upTo: number; // Top of the bracket in $M
+  rate: number;
+}
+
+export interface TaxJurisdiction {
+  code: string;
+  name: string;
+  country: 'US' | 'CA';
+  brackets: TaxBracket[];
+}
+
+const flat = (rate: number): TaxBracket[] => [{ upTo: Infinity, rate }];
+
+// 2025 single filer
+const US_FEDERAL_BRACKETS: TaxBracket[] = [
+  { upTo: 0.011925, rate: 0.10 },
+  { upTo: 0.048475, rate: 0.12 },
+  { upTo: 0.10335, rate: 0.22 },
+  { upTo: 0.1973, rate: 0.24 },
+  { upTo: 0.250525, rate: 0.32 },
+  { upTo: 0.62635, rate: 0.35 },
+  { upTo: Infinity, rate: 0.37 },
+];
+
+const SOCIAL_SECURITY_RATE = 0.062;
+const SOCIAL_SECURITY_WAGE_BASE = 0.1761;
+const MEDICARE_RATE = 0.0145;
+const ADDITIONAL_MEDICARE_RATE = 0.009;
+const ADDITIONAL_MEDICARE_THRESHOLD = 0.2;
+
+// 2025 Canadian federal brackets converted at ~0.72 USD/CAD
+const CANADA_FEDERAL_BRACKETS: TaxBracket[] = [
+  { upTo: 0.0413, rate: 0.15 },
+  { upTo: 0.0826, rate: 0.205 },
+  { upTo: 0.1281, rate: 0.26 },
+  { upTo: 0.1825, rate: 0.29 },
+  { upTo: Infinity, rate: 0.33 },
+];
+
+const JURISDICTIONS: Record<string, TaxJurisdiction> = {
+  AZ: { code: 'AZ', name: 'Arizona', country: 'US', brackets: flat(0.025) },
+  CA: {
+    code: 'CA', name: 'California', country: 'US',
+    brackets: [
+      { upTo: 0.010756, rate: 0.01 },
+      { upTo: 0.025499, rate: 0.02 },
+      { upTo: 0.040245, rate: 0.04 },
+      { upTo: 0.055866, rate: 0.06 },
+      { upTo: 0.070606, rate: 0.08 },
+      { upTo: 0.360659, rate: 0.093 },
+      { upTo: 0.432787, rate: 0.103 },
+      { upTo: 0.721314, rate: 0.113 },
+      { upTo: 1.0, rate: 0.123 },
+      { upTo: Infinity, rate: 0.133 }, // Includes the 1% mental health surcharge
+    ],
+  },
+  CO: { code: 'CO', name: 'Colorado', country: 'US', brackets: flat(0.044) },
+  DC: {
+    code: 'DC', name: 'District of Columbia', country: 'US',
+    brackets: [
+      { upTo: 0.01, rate: 0.04 },
+      { upTo: 0.04, rate: 0.06 },
+      { upTo: 0.06, rate: 0.065 },
+      { upTo: 0.25, rate: 0.085 },
+      { upTo: 0.5, rate: 0.0925 },
+      { upTo: 1.0, rate: 0.0975 },
+      { upTo: Infinity, rate: 0.1075 },
+    ],
+  },
+  FL: { code: 'FL', name: 'Florida', country: 'US', brackets: flat(0) },
+  GA: { code: 'GA', name: 'Georgia', country: 'US', brackets: flat(0.0519) },
+  IL: { code: 'IL', name: 'Illinois', country: 'US', brackets: flat(0.0495) },
+  MA: {
+    code: 'MA', name: 'Massachusetts', country: 'US',
+    brackets: [
+      { upTo: 1.08315, rate: 0.05 },
+      { upTo: Infinity, rate: 0.09 }, // 4% millionaires surtax
+    ],
+  },
+  MD: {
+    code: 'MD', name: 'Maryland', country: 'US',
+    brackets: [
+      { upTo: 0.1, rate: 0.0475 },
+      { upTo: 0.125, rate: 0.05 },
+      { upTo: 0.15, rate: 0.0525 },
+      { upTo: 0.25, rate: 0.055 },
+      { upTo: 0.5, rate: 0.0575 },
+      { upTo: 1.0, rate: 0.0625 },
+      { upTo: Infinity, rate: 0.065 },
+    ],
+  },
+  MI: { code: 'MI', name: 'Michigan', country: 'US', brackets: flat(0.0425) },
+  MN: {
+    code: 'MN', name: 'Minnesota', country: 'US',
+    brackets: [
+      { upTo: 0.03245, rate: 0.0535 },
+      { upTo: 0.10658, rate: 0.068 },
+      { upTo: 0.19802, rate: 0.0785 },
+      { upTo: Infinity, rate: 0.0985 },
+    ],
+  },
+  MO: {
+    code: 'MO', name: 'Missouri', country: 'US',
+    brackets: [
+      { upTo: 0.0013, rate: 0 },
+      { upTo: 0.009, rate: 0.03 },
+      { upTo: Infinity, rate: 0.047 },
+    ],
+  },
+  NV: { code: 'NV', name: 'Nevada', country: 'US', brackets: flat(0) },
+  NY: {
+    code: 'NY', name: 'New York', country: 'US',
+    brackets: [
+      { upTo: 0.0085, rate: 0.04 },
+      { upTo: 0.01175, rate: 0.045 },
+      { upTo: 0.0139, rate: 0.0525 },
+      { upTo: 0.0807, rate: 0.055 },
+      { upTo: 0.2154, rate: 0.06 },
+      { upTo: 1.0772, rate: 0.0685 },
+      { upTo: 5.0, rate: 0.0965 },
+      { upTo: 25.0, rate: 0.103 },
+      { upTo: Infinity, rate: 0.109 },
+    ],
+  },
+  OH: {
+    code: 'OH', name: 'Ohio', country: 'US',
+    brackets: [
+      { upTo: 0.02605, rate: 0 },
+      { upTo: Infinity, rate: 0.0275 },
+    ],
+  },
+  ON: {
+    code: 'ON', name: 'Ontario', country: 'CA',
+    // ~0.72 USD/CAD; upper rates include the Ontario surtax
+    brackets: [
+      { upTo: 0.0381, rate: 0.0505 },
+      { upTo: 0.0762, rate: 0.0915 },
+      { upTo: 0.108, rate: 0.1741 },
+      { upTo: 0.1584, rate: 0.1897 },
+      { upTo: Infinity, rate: 0.2053 },
+    ],
+  },
+  PA: { code: 'PA', name: 'Pennsylvania', country: 'US', brackets: flat(0.0307) },
+  TN: { code: 'TN', name: 'Tennessee', country: 'US', brackets: flat(0) },
+  TX: { code: 'TX', name: 'Texas', country: 'US', brackets: flat(0) },
+  WA: { code: 'WA', name: 'Washington', country: 'US', brackets: flat(0) },
+  WI: {
+    code: 'WI', name: 'Wisconsin', country: 'US',
+    brackets: [
+      { upTo: 0.01468, rate: 0.035 },
+      { upTo: 0.02937, rate: 0.044 },
+      { upTo: 0.32329, rate: 0.053 },
+      { upTo: Infinity, rate: 0.0765 },
+    ],
+  },
+};
+
+interface TeamTaxHome {
+  jurisdiction: string;
+  workLocalRate: number; // City/facility tax on duty days at this park
+}
+
+const TEAM_TAX_HOMES: Record<string, TeamTaxHome> = {
+  ARI: { jurisdiction: 'AZ', workLocalRate: 0 },
+  ATH: { jurisdiction: 'CA', workLocalRate: 0 }, // Sacramento through 2027
+  ATL: { jurisdiction: 'GA', workLocalRate: 0 },
+  BAL: { jurisdiction: 'MD', workLocalRate: 0.0225 }, // Nonresident rate in lieu of county tax
+  BOS: { jurisdiction: 'MA', workLocalRate: 0 },
+  CHC: { jurisdiction: 'IL', workLocalRate: 0 },
+  CHW: { jurisdiction: 'IL', workLocalRate: 0 },
+  CIN: { jurisdiction: 'OH', workLocalRate: 0.018 },
+  CLE: { jurisdiction: 'OH', workLocalRate: 0.025 },
+  COL: { jurisdiction: 'CO', workLocalRate: 0 },
+  DET: { jurisdiction: 'MI', workLocalRate: 0.012 },
+  HOU: { jurisdiction: 'TX', workLocalRate: 0 },
+  KC: { jurisdiction: 'MO', workLocalRate: 0.01 },
+  LAA: { jurisdiction: 'CA', workLocalRate: 0 },
+  LAD: { jurisdiction: 'CA', workLocalRate: 0 },
+  MIA: { jurisdiction: 'FL', workLocalRate: 0 },
+  MIL: { jurisdiction: 'WI', workLocalRate: 0 },
+  MIN: { jurisdiction: 'MN', workLocalRate: 0 },
+  NYM: { jurisdiction: 'NY', workLocalRate: 0 },
+  NYY: { jurisdiction: 'NY', workLocalRate: 0 },
+  PHI: { jurisdiction: 'PA', workLocalRate: 0.0374 },
+  PIT: { jurisdiction: 'PA', workLocalRate: 0.04 }, // 1% earned income + 3% facility fee
+  SD: { jurisdiction: 'CA', workLocalRate: 0 },
+  SEA: { jurisdiction: 'WA', workLocalRate: 0 },
+  SF: { jurisdiction: 'CA', workLocalRate: 0 },
+  STL: { jurisdiction: 'MO', workLocalRate: 0.01 },
+  TB: { jurisdiction: 'FL', workLocalRate: 0 },
+  TEX: { jurisdiction: 'TX', workLocalRate: 0 },
+  TOR: { jurisdiction: 'ON', workLocalRate: 0 },
+  WSH: { jurisdiction: 'DC', workLocalRate: 0 },
+};
+
+// Share of duty days at the home park; the rest is spread across the other parks
+const HOME_DUTY_SHARE = 0.5;
+
+// US players on Canadian clubs keep a US residence; Florida is the Blue Jays' spring home
+const DEFAULT_RESIDENCE_FOR_CANADIAN_CLUBS = 'FL';
+
+// Deferred payouts over at least this many years are taxed only by the state of residence
+const RETIREMENT_INCOME_MIN_YEARS = 10;
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+function canonicalTeamId(teamId: string): string {
+  return normalizeTeam(teamId) ?? teamId.trim().toUpperCase();
+}
+
+/**
+ * Gets the tax home (state/province and local rate) for a club
+ */
+export function getTeamTaxHome(teamId: string): (TeamTaxHome & { name: string }) | null {
+  const home = TEAM_TAX_HOMES[canonicalTeamId(teamId)];
+  if (!home) return null;
+  return { ...home, name: JURISDICTIONS[home.jurisdiction].name };
+}
+
+/**
+ * US jurisdictions a player can be resident in, sorted by name
+ */
+export function getResidenceJurisdictions(): TaxJurisdiction[] {
+  return Object.values(JURISDICTIONS)
+    .filter(j => j.country === 'US')
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function bracketTax(income: number, brackets: TaxBracket[]): number {
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of brackets) {
+    if (income <= lower) break;
+    tax += (Math.min(income, bracket.upTo) - lower) * bracket.rate;
+    lower = bracket.upTo;
+  }
+  return tax;
+}
+
+function stateTax(income: number, jurisdiction: string): number {
+  return bracketTax(income, JURISDICTIONS[jurisdiction]?.brackets ?? []);
+}
+
+function ficaTax(wages: number): number {
+  return (
+    Math.min(wages, SOCIAL_SECURITY_WAGE_BASE) * SOCIAL_SECURITY_RATE +
+    wages * MEDICARE_RATE +
+    Math.max(0, wages - ADDITIONAL_MEDICARE_THRESHOLD) * ADDITIONAL_MEDICARE_RATE
+  );
+}
+
+/**
+ * Duty-day share at each park for a player on `teamId`
+ */
+function getDutyShares(teamId: string): { teamId: string; share: number }[] {
+  const home = canonicalTeamId(teamId);
+  const others = Object.keys(TEAM_TAX_HOMES).filter(id => id !== home);
+  return [
+    { teamId: home, share: HOME_DUTY_SHARE },
+    ...others.map(id => ({ teamId: id, share: (1 - HOME_DUTY_SHARE) / others.length })),
+  ];
+}
+
+/**
+ * US state + local tax on income sourced by duty days
+ * Each state taxes its share; the residence state taxes all of it and credits
+ * other US states up to its own tax, so each share costs the greater of the two.
+ * Canadian duty days are not credited at the state level.
+ */
+function sourcedStateTax(income: number, residence: string, shares: { teamId: string; share: number }[]): number {
+  const residentTax = stateTax(income, residence);
+  let tax = 0;
+
+  for (const { teamId, share } of shares) {
+    const home = TEAM_TAX_HOMES[teamId];
+    const jurisdiction = JURISDICTIONS[home.jurisdiction];
+    const sourceTax = jurisdiction.country === 'US' && home.jurisdiction !== residence
+      ? stateTax(income, home.jurisdiction)
+      : 0;
+    tax += share * Math.max(sourceTax, residentTax);
+    tax += share * income * home.workLocalRate;
+  }
+
+  return tax;
+}
+
+// ============================================================================
+// AFTER-TAX VALUE
+// ============================================================================
+
+export interface AfterTaxOptions {
+  residence?: string | null; // Null = the club's home state
+  retirementResidence?: string | null; // Residence once deferred payouts start; null = residence
+}
+
+/**
+ * Estimates the player's after-tax value from a contract with one club
+ *
+ * @param terms - Contract terms (deferral length decides payout sourcing)
+ * @param calculations - Breakdown and deferral schedule for the terms
+ * @param teamId - Club the player signs with
+ * @param options - Residence during and after the contract
+ */
+export function calculateAfterTaxValue(
+  terms: Pick<ContractTerms, 'deferralYears'>,
+  calculations: Pick<ContractCalculations, 'yearlyBreakdown' | 'deferralSchedule'>,
+  teamId: string,
+  options: AfterTaxOptions = {}
+): AfterTaxResult | null {
+  const home = getTeamTaxHome(teamId);
+  if (!home) return null;
+
+  const residence = options.residence
+    ?? (JURISDICTIONS[home.jurisdiction].country === 'US' ? home.jurisdiction : DEFAULT_RESIDENCE_FOR_CANADIAN_CLUBS);
+  const retirementResidence = options.retirementResidence ?? residence;
+  const shares = getDutyShares(teamId);
+  const canadaShare = shares
+    .filter(s => JURISDICTIONS[TEAM_TAX_HOMES[s.teamId].jurisdiction].country === 'CA')
+    .reduce((sum, s) => sum + s.share, 0);
+  const payoutsAreRetirementIncome = terms.deferralYears >= RETIREMENT_INCOME_MIN_YEARS;
+
+  const { timeline, discountRate } = calculations.deferralSchedule;
+  const seasons: AfterTaxSeason[] = timeline.map(row => {
+    const deferredEarned = calculations.yearlyBreakdown.find(y => y.year === row.season)?.deferred ?? 0;
+    const earned = row.currentCash + deferredEarned;
+    const received = row.currentCash + row.deferredPaid;
+
+    // Canada taxes its share when earned, deferred money included
+    const canadaIncome = earned * canadaShare;
+    const foreignTax =
+      bracketTax(canadaIncome, CANADA_FEDERAL_BRACKETS) + bracketTax(canadaIncome, JURISDICTIONS.ON.brackets);
+
+    const grossFederal = bracketTax(received, US_FEDERAL_BRACKETS);
+    const foreignTaxCredit = received > 0
+      ? Math.min(foreignTax, grossFederal * Math.min(1, canadaIncome / received))
+      : 0;
+    const federalTax = grossFederal - foreignTaxCredit + ficaTax(earned);
+
+    const deferredStateTax = payoutsAreRetirementIncome
+      ? stateTax(row.deferredPaid, retirementResidence)
+      : sourcedStateTax(row.deferredPaid, retirementResidence, shares);
+    const totalStateTax = sourcedStateTax(row.currentCash, residence, shares) + deferredStateTax;
+
+    return {
+      season: row.season,
+      gross: received,
+      federalTax,
+      stateTax: totalStateTax,
+      foreignTax,
+      net: received - federalTax - totalStateTax - foreignTax,
+    };
+  });
+
+  const sum = (key: keyof AfterTaxSeason) => seasons.reduce((total, s) => total + s[key], 0);
+  const startSeason = timeline[0]?.season ?? 0;
+  const gross = sum('gross');
+  const federalTax = sum('federalTax');
+  const totalStateTax = sum('stateTax');
+  const foreignTax = sum('foreignTax');
+  const totalTax = federalTax + totalStateTax + foreignTax;
+
+  return {
+    teamId: canonicalTeamId(teamId),
+    jurisdiction: home.jurisdiction,
+    jurisdictionName: home.name,
+    residence,
+    gross,
+    federalTax,
+    stateTax: totalStateTax,
+    foreignTax,
+    totalTax,
+    net: gross - totalTax,
+    netPresentValue: seasons.reduce(
+      (total, s) => total + s.net / Math.pow(1 + discountRate / 100, s.season - startSeason),
+      0
+    ),
+    effectiveRate: gross > 0 ? totalTax / gross : 0,
+    seasons,
+  };
+}
+
+/**
+ * After-tax value of the same contract at each club, best net first
+ */
+export function compareAfterTaxByTeam(
+  terms: Pick<ContractTerms, 'deferralYears'>,
+  calculations: Pick<ContractCalculations, 'yearlyBreakdown' | 'deferralSchedule'>,
+  teamIds: string[],
+  options: AfterTaxOptions = {}
+): AfterTaxResult[] {
+  return teamIds
+    .map(teamId => calculateAfterTaxValue(terms, calculations, teamId, options))
+    .filter((result): result is AfterTaxResult => result !== null)
+    .sort((a, b) => b.net - a.net);
+}
+
+/**
+ * Gross contract value `result`'s club would need to pay to match `target`'s net
+ * Assumes the effective rate holds, which is close at top-bracket salaries
+ */
+export function grossToMatchNet(result: AfterTaxResult, target: AfterTaxResult): number {
+  const keepRate = 1 - result.effectiveRate;
+  return keepRate > 0 ? target.net / keepRate : Infinity;
+}
@@ -0,0 +1,518 @@
+// ============================================================================
+// AGING CURVE SERVICE
+// ============================================================================
+// Projects a player's WAR for each contract season from aging curves built
+// on the multi-season rows in Full_Data.csv (and the Fangraphs CSVs when they
+// are deployed).
+//
+// - Curves use the delta method: every pair of consecutive seasons with
+//   enough playing time adds one change in full-season WAR at the first
+//   season's age, weighted by the harmonic mean of the two playing times
+// - Groups are position group x handedness -> position group -> league; each
+//   level is shrunk toward its parent, and the league toward `agingDelta`, so
+//   thin groups borrow from the wider curve instead of chasing noise
+// - Handedness comes from throwing hand (statcast_pitchers.csv) and batting
+//   side when a source carries it; players without it use the position curve
+// - The baseline is a Marcel-style 5/4/3 weighted full-season WAR rate,
+//   regressed toward a league-average regular
+// - Bands split the year-over-year variance into season noise and talent
+//   drift, which accumulates across the contract
+// - Players without multi-season rows fall back to `buildPlayerProjection`
+//
+// BACKEND INTEGRATION:
+// GET /api/projections/aging-curves - Precomputed curves by group and hand
+// GET /api/projections/war/:playerId?start=&years= - Returns WarProjection
+// ============================================================================
+
+import type {
+  AgingCurve,
+  AgingCurvePoint,
+  AgingPositionGroup,
+  Handedness,
+  WarHistorySeason,
+  WarProjection,
+  WarProjectionSeason,
+} from '../types';
+import type { Player } from '../data/playerDatabase';
+import { isPitcher } from '../data/playerDatabase';
+import { getField, getString, type RawCsvRow } from '../data/csvLoader';
+import { getCsvRows } from '../data/csvStore';
+import { loadPlayerCrosswalk, resolvePlayerId, type PlayerCrosswalk } from '../data/playerIdentity';
+import {
+  agingDelta,
+  buildPlayerProjection,
+  FULL_SEASON_PA,
+  FULL_SEASON_IP,
+} from './contractSimulationService';
+import { LATEST_STATS_SEASON, normalizeValuationPosition } from './estimatedValueService';
+
+// ============================================================================
+// ASSUMPTIONS
+// ============================================================================
+
+const FULL_DATA_URL = '/Full_Data.csv';
+// Not always deployed; used when present
+const OPTIONAL_STATS_URLS = ['/fangraphs.csv', '/fangraphs_pitchers.csv'];
+const POSITIONS_URL = '/Positions.csv';
+const STATCAST_PITCHERS_URL = '/statcast_pitchers.csv';
+
+// Share of a full season (~160 PA / ~45 IP) for a season to count
+const MIN_PLAYING_TIME = 0.25;
+
+const MIN_AGE = 20;
+const MAX_AGE = 42;
+
+// Weighted pairs a group needs before its own curve outweighs its parent's
+const SHRINK_PAIRS = 15;
+// Spread of year-over-year full-season WAR changes assumed before any data
+const PRIOR_DELTA_SD = 1.5;
+
+// Marcel weights for the last three seasons, newest first
+const MARCEL_WEIGHTS = [5, 4, 3];
+// Regression toward a league-average regular, in Marcel weight x playing time
+const LEAGUE_WAR_RATE = 2.0;
+const REGRESSION_WEIGHT = 2.0;
+// Uncertainty of a one-season full-time baseline
+const BASELINE_SD = 1.4;
+// Share of the year-over-year variance that is lasting talent change
+const TALENT_DRIFT_SHARE = 0.2;
+
+// 10th / 90th percentile of a normal distribution
+const BAND_Z = 1.2816;
+
+const GROUP_LABELS: Record<AgingPositionGroup, string> = {
+  C: 'Catchers',
+  CI: 'Corner infield / DH',
+  MI: 'Middle infield',
+  OF: 'Outfield',
+  SP: 'Starting pitchers',
+  RP: 'Relief pitchers',
+};
+
+const HAND_LABELS: Record<Handedness, string> = {
+  L: 'left-handed',
+  R: 'right-handed',
+  S: 'switch hitters',
+};
+
+// MLB position codes and abbreviations
+const POSITION_GROUPS: Record<string, AgingPositionGroup> = {
+  '2': 'C',
+  C: 'C',
+  '3': 'CI',
+  '5': 'CI',
+  '10': 'CI',
+  '1B': 'CI',
+  '3B': 'CI',
+  DH: 'CI',
+  '4': 'MI',
+  '6': 'MI',
+  '2B': 'MI',
+  SS: 'MI',
+  '7': 'OF',
+  '8': 'OF',
+  '9': 'OF',
+  O: 'OF',
+  OF: 'OF',
+  LF: 'OF',
+  CF: 'OF',
+  RF: 'OF',
+  SP: 'SP',
+  RP: 'RP',
+};
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+interface AgingSeasonRow {
+  season: number;
+  age: number;
+  war: number;
+  playingTime: number;
+  pitcher: boolean;
+  starts: number;
+  games: number;
+}
+
+interface DeltaTally {
+  weight: number;
+  sum: number;
+  sumSquares: number;
+}
+
+export interface AgingDataset {
+  seasonsByPlayer: Map<string, AgingSeasonRow[]>;
+  positionGroups: Map<string, AgingPositionGroup>;
+  hands: Map<string, Handedness>;
+  // Keyed by 'ALL', group, or `${group}|${hand}`; age -> tally
+  tallies: Map<string, Map<number, DeltaTally>>;
+  curveCache: Map<string, AgingCurve>;
+}
+
+let cachedDataset: Promise<AgingDataset> | null = null;
+
+async function fetchOptionalCsv(url: string): Promise<RawCsvRow[]> {
+  try {
+    return await getCsvRows(url);
+  } catch (error) {
+    console.warn(`Optional aging curve source ${url} not loaded:`, error);
+    return [];
+  }
+}
+
+function toSeasonRow(row: RawCsvRow, crosswalk: PlayerCrosswalk): { id: string; season: AgingSeasonRow } | null {
+  const id = resolvePlayerId(crosswalk, row);
+  const season = getField(row, ['Season', 'season', 'year'], 0);
+  const age = getField(row, ['fg_Age', 'player_age'], 0);
+  if (!id || !season || !age) return null;
+
+  const pa = getField(row, ['fg_PA'], 0);
+  const ip = getField(row, ['fg_IP'], 0);
+  const pitcher = ip > 0 && pa === 0;
+
+  return {
+    id,
+    season: {
+      season,
+      age,
+      war: getField(row, ['fg_WAR', 'fg_L-WAR'], 0),
+      playingTime: pitcher ? ip / FULL_SEASON_IP : pa / FULL_SEASON_PA,
+      pitcher,
+      starts: getField(row, ['fg_GS'], 0),
+      games: getField(row, ['fg_G'], 0),
+    },
+  };
+}
+
+function toHand(value: string): Handedness | null {
+  const hand = value.trim().toUpperCase().charAt(0);
+  return hand === 'L' || hand === 'R' || hand === 'S' ? hand : null;
+}
+
+// Most frequent hitter position group across a player's seasons
+function buildPositionGroups(rows: RawCsvRow[], crosswalk: PlayerCrosswalk): Map<string, AgingPositionGroup> {
+  const counts = new Map<string, Map<AgingPositionGroup, number>>();
+  for (const row of rows) {
+    const id = resolvePlayerId(crosswalk, row);
+    // Codes parse as numbers; the letter codes (O = outfield) stay strings
+    const group = POSITION_GROUPS[String(row.position_code ?? '').trim().toUpperCase()];
+    if (!id || !group) continue;
+    const byGroup = counts.get(id) ?? new Map<AgingPositionGroup, number>();
+    byGroup.set(group, (byGroup.get(group) ?? 0) + 1);
+    counts.set(id, byGroup);
+  }
+
+  const groups = new Map<string, AgingPositionGroup>();
+  for (const [id, byGroup] of counts) {
+    const [top] = [...byGroup.entries()].sort((a, b) => b[1] - a[1]);
+    groups.set(id, top[0]);
+  }
+  return groups;
+}
+
+function resolveGroup(dataset: AgingDataset, id: string, seasons: AgingSeasonRow[]): AgingPositionGroup | null {
+  const pitchingSeasons = seasons.filter(s => s.pitcher);
+  if (pitchingSeasons.length > seasons.length / 2) {
+    const starts = pitchingSeasons.reduce((sum, s) => sum + s.starts, 0);
+    const games = pitchingSeasons.reduce((sum, s) => sum + s.games, 0);
+    return games > 0 && starts / games < 0.5 ? 'RP' : 'SP';
+  }
+  return dataset.positionGroups.get(id) ?? null;
+}
+
+function addDelta(tallies: Map<string, Map<number, DeltaTally>>, key: string, age: number, delta: number, weight: number) {
+  const byAge = tallies.get(key) ?? new Map<number, DeltaTally>();
+  const tally = byAge.get(age) ?? { weight: 0, sum: 0, sumSquares: 0 };
+  tally.weight += weight;
+  tally.sum += weight * delta;
+  tally.sumSquares += weight * delta * delta;
+  byAge.set(age, tally);
+  tallies.set(key, byAge);
+}
+
+function buildTallies(dataset: AgingDataset) {
+  for (const [id, seasons] of dataset.seasonsByPlayer) {
+    const group = resolveGroup(dataset, id, seasons);
+    const hand = dataset.hands.get(id);
+
+    for (let i = 1; i < seasons.length; i++) {
+      const prev = seasons[i - 1];
+      const next = seasons[i];
+      if (next.season !== prev.season + 1 || prev.pitcher !== next.pitcher) continue;
+      if (prev.playingTime < MIN_PLAYING_TIME || next.playingTime < MIN_PLAYING_TIME) continue;
+
+      const prevRate = prev.war / prev.playingTime;
+      const nextRate = next.war / next.playingTime;
+      const delta = nextRate - prevRate;
+      const weight = (2 * prev.playingTime * next.playingTime) / (prev.playingTime + next.playingTime);
+
+      addDelta(dataset.tallies, 'ALL', prev.age, delta, weight);
+      if (group) {
+        addDelta(dataset.tallies, group, prev.age, delta, weight);
+        if (hand) addDelta(dataset.tallies, `${group}|${hand}`, prev.age, delta, weight);
+      }
+    }
+  }
+}
+
+/**
+ * Loads and indexes the multi-season rows once per session
+ */
+export function loadAgingDataset(): Promise<AgingDataset> {
+  if (cachedDataset) return cachedDataset;
+
+  cachedDataset = (async () => {
+    const crosswalkLoad = loadPlayerCrosswalk();
+    const [fullDataRows, positionRows, statcastPitcherRows, ...optionalRows] = await Promise.all([
+      getCsvRows(FULL_DATA_URL),
+      fetchOptionalCsv(POSITIONS_URL),
+      fetchOptionalCsv(STATCAST_PITCHERS_URL),
+      ...OPTIONAL_STATS_URLS.map(fetchOptionalCsv),
+    ]);
+    // Rows are keyed on MLBAM ids, falling back to names
+    const crosswalk = await crosswalkLoad;
+
+    const dataset: AgingDataset = {
+      seasonsByPlayer: new Map(),
+      positionGroups: buildPositionGroups(positionRows, crosswalk),
+      hands: new Map(),
+      tallies: new Map(),
+      curveCache: new Map(),
+    };
+
+    // One row per player-season; Full_Data wins over the Fangraphs exports
+    const seen = new Set<string>();
+    for (const row of [fullDataRows, ...optionalRows].flat()) {
+      const parsed = toSeasonRow(row, crosswalk);
+      if (!parsed) continue;
+      const key = `${parsed.id}|${parsed.season.season}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const seasons = dataset.seasonsByPlayer.get(parsed.id) ?? [];
+      seasons.push(parsed.season);
+      dataset.seasonsByPlayer.set(parsed.id, seasons);
+
+      const bats = toHand(getString(row, ['fg_Bats', 'bats', 'bat_side', 'stand']));
+      if (bats && !parsed.season.pitcher) dataset.hands.set(parsed.id, bats);
+    }
+    dataset.seasonsByPlayer.forEach(seasons => seasons.sort((a, b) => a.season - b.season));
+
+    for (const row of statcastPitcherRows) {
+      const id = resolvePlayerId(crosswalk, row);
+      const hand = toHand(getString(row, ['pitch_hand']));
+      if (id && hand && !dataset.hands.has(id)) dataset.hands.set(id, hand);
+    }
+
+    buildTallies(dataset);
+    return dataset;
+  })();
+
+  cachedDataset.catch(() => {
+    cachedDataset = null;
+  });
+  return cachedDataset;
+}
+
+// ============================================================================
+// CURVES
+// ============================================================================
+
+interface ShrunkDelta {
+  mean: number;
+  variance: number;
+  pairs: number;
+}
+
+function shrinkToward(tally: DeltaTally | undefined, parent: ShrunkDelta): ShrunkDelta {
+  if (!tally || tally.weight <= 0) return { ...parent, pairs: 0 };
+  const mean = tally.sum / tally.weight;
+  const variance = Math.max(0, tally.sumSquares / tally.weight - mean * mean);
+  const total = tally.weight + SHRINK_PAIRS;
+  return {
+    mean: (tally.sum + SHRINK_PAIRS * parent.mean) / total,
+    variance: (tally.weight * variance + SHRINK_PAIRS * parent.variance) / total,
+    pairs: tally.weight,
+  };
+}
+
+/**
+ * Aging curve for a position group, hand-specific when the hand is known
+ * Works without a dataset, returning the prior league curve
+ */
+export function getAgingCurve(
+  dataset: AgingDataset | null,
+  positionGroup: AgingPositionGroup,
+  hand: Handedness | null
+): AgingCurve {
+  const cacheKey = `${positionGroup}|${hand ?? '-'}`;
+  const cached = dataset?.curveCache.get(cacheKey);
+  if (cached) return cached;
+
+  const tallies = dataset?.tallies;
+  const raw: ShrunkDelta[] = [];
+  for (let age = MIN_AGE; age <= MAX_AGE; age++) {
+    const prior = { mean: agingDelta(age), variance: PRIOR_DELTA_SD * PRIOR_DELTA_SD, pairs: 0 };
+    const league = shrinkToward(tallies?.get('ALL')?.get(age), prior);
+    const group = shrinkToward(tallies?.get(positionGroup)?.get(age), league);
+    raw.push(hand ? shrinkToward(tallies?.get(`${positionGroup}|${hand}`)?.get(age), group) : group);
+  }
+
+  // 1-2-1 smoothing across neighbouring ages
+  const points: AgingCurvePoint[] = raw.map((point, i) => {
+    const neighbours = [raw[i - 1], point, point, raw[i + 1]].filter(Boolean) as ShrunkDelta[];
+    return {
+      age: MIN_AGE + i,
+      delta: neighbours.reduce((sum, p) => sum + p.mean, 0) / neighbours.length,
+      deltaStdDev: Math.sqrt(neighbours.reduce((sum, p) => sum + p.variance, 0) / neighbours.length),
+      pairs: point.pairs,
+    };
+  });
+
+  const curve: AgingCurve = {
+    positionGroup,
+    hand,
+    label: hand ? `${GROUP_LABELS[positionGroup]}, ${HAND_LABELS[hand]}` : GROUP_LABELS[positionGroup],
+    pairs: points.reduce((sum, p) => sum + p.pairs, 0),
+    points,
+  };
+  dataset?.curveCache.set(cacheKey, curve);
+  return curve;
+}
+
+function pointAt(curve: AgingCurve, age: number): AgingCurvePoint {
+  const index = Math.min(Math.max(Math.round(age) - MIN_AGE, 0), curve.points.length - 1);
+  return curve.points[index];
+}
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+interface ProjectionBaseline {
+  source: WarProjection['source'];
+  season: number;
+  age: number;
+  rate: number;
+  variance: number;
+  playingTime: number;
+  history: WarHistorySeason[];
+}
+
+// Marcel-style baseline from the last three qualifying seasons
+function baselineFromHistory(seasons: AgingSeasonRow[]): ProjectionBaseline | null {
+  const qualifying = seasons.filter(s => s.playingTime >= MIN_PLAYING_TIME);
+  if (qualifying.length === 0) return null;
+
+  const latest = qualifying[qualifying.length - 1];
+  const recent = qualifying.filter(s => s.season > latest.season - MARCEL_WEIGHTS.length).reverse();
+
+  let weightedRate = LEAGUE_WAR_RATE * REGRESSION_WEIGHT;
+  let rateWeight = REGRESSION_WEIGHT;
+  let weightedTime = 0;
+  let timeWeight = 0;
+  let fullSeasons = 0;
+  for (const season of recent) {
+    const weight = MARCEL_WEIGHTS[latest.season - season.season];
+    const playingTime = Math.min(1, season.playingTime);
+    weightedRate += weight * season.war;
+    rateWeight += weight * playingTime;
+    weightedTime += weight * playingTime;
+    timeWeight += weight;
+    fullSeasons += playingTime;
+  }
+
+  return {
+    source: 'history',
+    season: latest.season,
+    age: latest.age,
+    rate: weightedRate / rateWeight,
+    variance: (BASELINE_SD * BASELINE_SD) / Math.max(1, fullSeasons),
+    playingTime: weightedTime / timeWeight,
+    history: seasons.map(s => ({
+      season: s.season,
+      age: s.age,
+      war: s.war,
+      playingTime: Math.min(1, s.playingTime),
+    })),
+  };
+}
+
+function baselineFromProfile(player: Player): ProjectionBaseline {
+  const projection = buildPlayerProjection(player);
+  return {
+    source: 'profile',
+    season: LATEST_STATS_SEASON,
+    age: projection.age,
+    rate: projection.war,
+    variance: projection.warStdDev * projection.warStdDev,
+    playingTime: projection.playingTime,
+    history: [],
+  };
+}
+
+function playerGroup(dataset: AgingDataset | null, player: Player): AgingPositionGroup {
+  const seasons = dataset?.seasonsByPlayer.get(player.id);
+  const fromData = dataset && seasons ? resolveGroup(dataset, player.id, seasons) : null;
+  if (fromData) return fromData;
+
+  const position = normalizeValuationPosition(player.position, isPitcher(player));
+  return POSITION_GROUPS[position] ?? (isPitcher(player) ? 'SP' : 'CI');
+}
+
+/**
+ * Projects WAR for each contract season with 80% bands
+ *
+ * @param player - Target player
+ * @param dataset - Loaded aging data (null while loading: prior curve and stat periods only)
+ * @param startSeason - First contract season
+ * @param years - Contract length
+ * @returns WarProjection - History, curve used and per-season projection
+ */
+export function projectWar(
+  player: Player,
+  dataset: AgingDataset | null,
+  startSeason: number,
+  years: number
+): WarProjection {
+  const seasons = dataset?.seasonsByPlayer.get(player.id) ?? [];
+  const baseline = baselineFromHistory(seasons) ?? baselineFromProfile(player);
+  const curve = getAgingCurve(dataset, playerGroup(dataset, player), dataset?.hands.get(player.id) ?? null);
+
+  const ageIn = (season: number) => baseline.age + (season - baseline.season);
+
+  let rate = baseline.rate;
+  let talentVariance = baseline.variance;
+  let agedThrough = baseline.season;
+  const projected: WarProjectionSeason[] = [];
+  for (let i = 0; i < years; i++) {
+    const season = startSeason + i;
+
+    // Age the rate through every season since the last one applied
+    for (; agedThrough < season; agedThrough++) {
+      const point = pointAt(curve, ageIn(agedThrough));
+      rate += point.delta;
+      talentVariance += TALENT_DRIFT_SHARE * point.deltaStdDev ** 2;
+    }
+
+    // Season-to-season noise is about half the variance of a year-over-year change
+    const age = ageIn(season);
+    const noiseVariance = pointAt(curve, age).deltaStdDev ** 2 / 2;
+    const sd = Math.sqrt(talentVariance + noiseVariance) * baseline.playingTime;
+    const war = rate * baseline.playingTime;
+
+    projected.push({ season, age, war, low: war - BAND_Z * sd, high: war + BAND_Z * sd });
+  }
+
+  return {
+    playerId: player.id,
+    source: baseline.source,
+    baseSeason: baseline.season,
+    baselineWar: baseline.rate,
+    playingTime: baseline.playingTime,
+    curve,
+    history: baseline.history,
+    seasons: projected,
+  };
+}
@@ -0,0 +1,201 @@
+// ============================================================================
+// AUDIT TRAIL SERVICE
+// ============================================================================
+// Records how an offer evolved: every term edit, scenario change, comp
+// selection change and valuation-weight change is a timestamped event.
+//
+// - Rapid edits to the same field (slider drags) are coalesced into one event
+// - Events are grouped into versions: a version closes after an idle gap or
+//   at a labelled checkpoint (e.g. "Sent to club"). Each event is stamped with
+//   its version number when recorded, so numbers survive trimming
+// - Each event keeps a snapshot of the state it produced, so any version can
+//   be restored
+//
+// BACKEND INTEGRATION:
+// Events can be shipped to an append-only log with:
+// POST /api/players/:playerId/audit-events - Stores AuditEvent
+// GET /api/players/:playerId/audit-events - Returns AuditEvent[]
+// ============================================================================
+
+import type {
+  AuditEvent,
+  AuditVersion,
+  AuditVersionChange,
+  AuditFieldChange,
+  AuditRestorePoint,
+  ContractTerms,
+} from '../types';
+
+// Edits to the same field closer together than this merge into one event
+export const AUDIT_COALESCE_MS = 3000;
+// A pause longer than this starts a new version
+export const AUDIT_VERSION_IDLE_MS = 10 * 60 * 1000;
+// Oldest events are dropped past this many to keep localStorage bounded
+export const AUDIT_MAX_EVENTS = 1000;
+
+// Change field marking a scenario deletion
+export const SCENARIO_DELETED_FIELD = 'deleted';
+
+let idCounter = 0;
+
+function createEventId(): string {
+  idCounter += 1;
+  return `evt_${Date.now().toString(36)}_${idCounter}`;
+}
+
+export type NewAuditEvent = Omit<AuditEvent, 'id' | 'timestamp' | 'version'>;
+
+// A new version starts after a checkpoint or an idle gap
+function startsNewVersion(previous: AuditEvent | undefined, timestamp: string): boolean {
+  if (!previous) return false;
+  return (
+    previous.category === 'checkpoint' ||
+    new Date(timestamp).getTime() - new Date(previous.timestamp).getTime() > AUDIT_VERSION_IDLE_MS
+  );
+}
+
+/**
+ * Version number of every event, in order. Events recorded before versions
+ * were stamped are numbered from their neighbours
+ */
+function getEventVersions(events: AuditEvent[]): number[] {
+  const numbers: number[] = [];
+  events.forEach((event, i) => {
+    const previous = numbers[i - 1];
+    numbers.push(
+      event.version ??
+        (previous === undefined ? 1 : previous + (startsNewVersion(events[i - 1], event.timestamp) ? 1 : 0))
+    );
+  });
+  return numbers;
+}
+
+/**
+ * Appends an event, merging it into the previous one when it continues an
+ * edit to the same single field
+ */
+export function appendAuditEvent(events: AuditEvent[], input: NewAuditEvent, now: Date = new Date()): AuditEvent[] {
+  const last = events[events.length - 1];
+  const timestamp = now.toISOString();
+  const lastVersion = last ? getEventVersions(events)[events.length - 1] : 0;
+  const version = !last || startsNewVersion(last, timestamp) ? lastVersion + 1 : lastVersion;
+  const event: AuditEvent = { ...input, id: createEventId(), timestamp, version };
+
+  const continuesLast =
+    last &&
+    last.category === event.category &&
+    last.category !== 'checkpoint' &&
+    last.scenarioId === event.scenarioId &&
+    last.changes.length === 1 &&
+    event.changes.length === 1 &&
+    last.changes[0].field === event.changes[0].field &&
+    now.getTime() - new Date(last.timestamp).getTime() <= AUDIT_COALESCE_MS;
+
+  if (continuesLast) {
+    const change = { ...event.changes[0], from: last.changes[0].from };
+    const merged = events.slice(0, -1);
+    // Dragged back to where it started - nothing changed
+    if (change.from === change.to) return merged;
+    return [...merged, { ...event, id: last.id, changes: [change] }];
+  }
+
+  if (event.category !== 'checkpoint' && event.changes.length === 0) return events;
+  return [...events, event].slice(-AUDIT_MAX_EVENTS);
+}
+
+/**
+ * Diffs two flat records into field changes
+ *
+ * @param labels - Display label per key; keys without a label use the key
+ */
+export function diffRecords(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  labels: Record<string, string> = {}
+): AuditFieldChange[] {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  const format = (value: unknown) =>
+    value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  return keys
+    .map(key => ({ field: key, label: labels[key] ?? key, from: format(before[key]), to: format(after[key]) }))
+    .filter(change => change.from !== change.to);
+}
+
+function netChanges(events: AuditEvent[]): AuditVersionChange[] {
+  const byKey = new Map<string, AuditVersionChange>();
+
+  for (const event of events) {
+    for (const change of event.changes) {
+      const key = `${event.category}|${event.scenarioId ?? ''}|${change.field}`;
+      const existing = byKey.get(key);
+      byKey.set(key, {
+        ...change,
+        from: existing ? existing.from : change.from,
+        category: event.category,
+        scenarioName: event.scenarioName,
+      });
+    }
+  }
+
+  return Array.from(byKey.values()).filter(change => change.from !== change.to);
+}
+
+/**
+ * Groups events into versions by their version number, oldest first
+ */
+export function groupAuditVersions(events: AuditEvent[]): AuditVersion[] {
+  const numbers = getEventVersions(events);
+  const groups: { number: number; events: AuditEvent[] }[] = [];
+
+  events.forEach((event, i) => {
+    const current = groups[groups.length - 1];
+    if (current && current.number === numbers[i]) {
+      current.events.push(event);
+    } else {
+      groups.push({ number: numbers[i], events: [event] });
+    }
+  });
+
+  return groups.map(({ number, events: group }) => ({
+    id: group[group.length - 1].id,
+    number,
+    label: group.find(e => e.category === 'checkpoint')?.label,
+    startedAt: group[0].timestamp,
+    endedAt: group[group.length - 1].timestamp,
+    events: group,
+    changes: netChanges(group),
+  }));
+}
+
+/**
+ * Rebuilds the offer state as of the end of a version from event snapshots;
+ * null when the version's events are no longer in the trail
+ */
+export function getRestorePoint(events: AuditEvent[], version: AuditVersion): AuditRestorePoint | null {
+  const lastIndex = events.findIndex(e => e.id === version.id);
+  if (lastIndex < 0) return null;
+  const upTo = events.slice(0, lastIndex + 1);
+
+  const scenarios = new Map<string, { id: string; name: string; terms: ContractTerms }>();
+  let compIds: string[] | undefined;
+  let valuationSettings: Record<string, unknown> | undefined;
+
+  for (const event of upTo) {
+    if (event.category === 'scenario' && event.scenarioId && event.changes.some(c => c.field === SCENARIO_DELETED_FIELD)) {
+      scenarios.delete(event.scenarioId);
+      continue;
+    }
+    if (event.terms && event.scenarioId) {
+      scenarios.set(event.scenarioId, {
+        id: event.scenarioId,
+        name: event.scenarioName ?? scenarios.get(event.scenarioId)?.name ?? 'Restored Scenario',
+        terms: event.terms,
+      });
+    }
+    if (event.compIds) compIds = event.compIds;
+    if (event.valuationSettings) valuationSettings = event.valuationSettings;
+  }
+
+  return { scenarios: Array.from(scenarios.values()), compIds, valuationSettings };
+}
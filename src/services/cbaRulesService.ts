@@ -0,0 +1,375 @@
+// ============================================================================
+// CBA RULES SERVICE
+// ============================================================================
+// Validates contract terms against a versioned, data-driven rule set.
+//
+// Each rule carries a severity, a citation and the ContractTerms field it
+// applies to, so the UI can highlight the exact input:
+// - error: the terms could not be approved as written
+// - warning: allowed, but likely to draw league review or a grievance
+// - info: a consequence of the terms the negotiator should know about
+//
+// Numeric limits live in the tables below; bump CBA_RULES_VERSION whenever
+// they or the rule list change.
+//
+// BACKEND INTEGRATION:
+// The rules tables can be replaced with:
+// GET /api/league/contract-rules/:version - Returns season minimums and limits
+// ============================================================================
+
+import type { ContractTerms, ContractRuleViolation, RuleSeverity } from '../types';
+import { distributeBaseSalaries } from './salaryScheduleService';
+
+// ============================================================================
+// RULES TABLES
+// ============================================================================
+
+export const CBA_RULES_VERSION = '2022-cba.2';
+
+export interface CbaSeasonRules {
+  season: number;
+  minimumSalary: number; // League minimum in $M
+  projected: boolean; // True when extrapolated past the current CBA
+}
+
+const CBA_SEASON_RULES: CbaSeasonRules[] = [
+  { season: 2022, minimumSalary: 0.70, projected: false },
+  { season: 2023, minimumSalary: 0.72, projected: false },
+  { season: 2024, minimumSalary: 0.74, projected: false },
+  { season: 2025, minimumSalary: 0.76, projected: false },
+  { season: 2026, minimumSalary: 0.78, projected: false },
+];
+
+// Minimums after the current CBA are assumed to keep rising $20K a season
+const PROJECTED_MINIMUM_STEP = 0.02;
+
+export const CBA_LIMITS = {
+  maxOneYearReduction: 0.20, // Salary may not drop more than 20% from the prior season
+  maxTwoYearReduction: 0.30, // ...or 30% from two seasons prior
+  maxAwardBonusPerSeason: 2.5, // $M; award bonus schedules above this draw league review
+  teamCount: 30,
+  tenAndFiveMinSeasons: 5, // Seasons with one club before 10-and-5 rights can attach
+};
+
+// Escalator triggers that are not awards, playing time or roster status
+const STATISTICAL_TRIGGERS: ContractTerms['escalatorTrigger'][] = ['40 HR'];
+const TEAM_PERFORMANCE_TRIGGERS: ContractTerms['escalatorTrigger'][] = ['Playoffs'];
+
+const CITATIONS = {
+  minimumSalary: 'Basic Agreement Art. VI(B) (minimum salary)',
+  salaryReduction: 'Basic Agreement Art. VI(C) (maximum salary reduction)',
+  deferredCompensation: 'Basic Agreement Art. XXIII(E)(4) (deferred compensation)',
+  bonuses: 'Uniform Player Contract, bonus restrictions (no statistical or team-performance bonuses)',
+  awardBonuses: 'Uniform Player Contract, award bonus schedule',
+  options: 'Uniform Player Contract, special covenants (options and buyouts)',
+  tradeConsent: 'Basic Agreement Art. XIX(A) (assignment of player contracts)',
+  contractTerms: 'Uniform Player Contract (term and compensation)',
+};
+
+/**
+ * Gets the rules for a season
+ * Seasons past the end of the table are projected from the last CBA season;
+ * seasons before it use the first CBA season
+ */
+export function getCbaSeasonRules(season: number): CbaSeasonRules {
+  const exact = CBA_SEASON_RULES.find(r => r.season === season);
+  if (exact) return exact;
+
+  const first = CBA_SEASON_RULES[0];
+  if (season < first.season) return first;
+
+  const last = CBA_SEASON_RULES[CBA_SEASON_RULES.length - 1];
+  return {
+    season,
+    minimumSalary: last.minimumSalary + PROJECTED_MINIMUM_STEP * (season - last.season),
+    projected: true,
+  };
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+interface RuleContext {
+  salaries: number[]; // Base salary per season ($M)
+  salaryField?: keyof ContractTerms; // Schedule input overriding the rule's field (custom salaries)
+}
+
+interface RuleFinding {
+  message: string;
+  season?: number;
+  field?: keyof ContractTerms; // Overrides the rule's field
+}
+
+interface CbaRule {
+  id: string;
+  severity: RuleSeverity;
+  citation: string;
+  field: keyof ContractTerms;
+  check: (terms: ContractTerms, context: RuleContext) => RuleFinding[];
+}
+
+const when = (condition: boolean, message: string): RuleFinding[] => (condition ? [{ message }] : []);
+
+const CBA_RULES: CbaRule[] = [
+  // Term and compensation
+  {
+    id: 'term-length',
+    severity: 'error',
+    citation: CITATIONS.contractTerms,
+    field: 'years',
+    check: terms => when(terms.years < 1, 'Contract must cover at least one season'),
+  },
+  {
+    id: 'non-negative-compensation',
+    severity: 'error',
+    citation: CITATIONS.contractTerms,
+    field: 'baseAAV',
+    check: terms => [
+      ...when(terms.baseAAV < 0, 'Base AAV cannot be negative'),
+      ...(terms.signingBonus < 0 ? [{ message: 'Signing bonus cannot be negative', field: 'signingBonus' as const }] : []),
+    ],
+  },
+  {
+    id: 'minimum-salary',
+    severity: 'error',
+    citation: CITATIONS.minimumSalary,
+    field: 'baseAAV',
+    check: (terms, { salaries, salaryField }) =>
+      salaries.flatMap((salary, i) => {
+        const rules = getCbaSeasonRules(terms.startSeason + i);
+        if (salary >= rules.minimumSalary) return [];
+        return [{
+          season: rules.season,
+          field: salaryField,
+          message: `${rules.season} salary $${salary.toFixed(2)}M is below the ${rules.projected ? 'projected ' : ''}league minimum of $${rules.minimumSalary.toFixed(2)}M`,
+        }];
+      }),
+  },
+  {
+    id: 'salary-reduction',
+    severity: 'warning',
+    citation: CITATIONS.salaryReduction,
+    field: 'frontLoadPercent',
+    check: (terms, { salaries, salaryField }) =>
+      salaries.flatMap((salary, i) => {
+        const season = terms.startSeason + i;
+        const oneYear = i >= 1 && salary < salaries[i - 1] * (1 - CBA_LIMITS.maxOneYearReduction);
+        const twoYear = i >= 2 && salary < salaries[i - 2] * (1 - CBA_LIMITS.maxTwoYearReduction);
+        if (!oneYear && !twoYear) return [];
+        const limit = oneYear
+          ? `${CBA_LIMITS.maxOneYearReduction * 100}% below ${season - 1}`
+          : `${CBA_LIMITS.maxTwoYearReduction * 100}% below ${season - 2}`;
+        return [{ season, field: salaryField, message: `${season} salary drops more than ${limit}` }];
+      }),
+  },
+
+  // Deferrals
+  {
+    id: 'deferral-payout-schedule',
+    severity: 'error',
+    citation: CITATIONS.deferredCompensation,
+    field: 'deferralYears',
+    check: terms => when(
+      terms.deferralPercent > 0 && terms.deferralYears < 1,
+      'Deferred money needs at least one payout year'
+    ),
+  },
+  {
+    id: 'deferral-percent-range',
+    severity: 'error',
+    citation: CITATIONS.deferredCompensation,
+    field: 'deferralPercent',
+    check: terms => when(
+      terms.deferralPercent < 0 || terms.deferralPercent > 100,
+      'Deferred share must be between 0% and 100% of salary'
+    ),
+  },
+  {
+    id: 'deferral-interest',
+    severity: 'error',
+    citation: CITATIONS.deferredCompensation,
+    field: 'deferralInterest',
+    check: terms => when(
+      terms.deferralPercent > 0 && terms.deferralInterest < 0,
+      'Deferral interest cannot be negative'
+    ),
+  },
+  {
+    id: 'deferral-present-value',
+    severity: 'info',
+    citation: CITATIONS.deferredCompensation,
+    field: 'deferralPercent',
+    check: terms => when(
+      terms.deferralPercent > 0,
+      'Deferred money is charged to the CBT at present value, and the club must fund it within two seasons of it being earned'
+    ),
+  },
+
+  // Bonuses and escalators
+  {
+    id: 'escalator-amount',
+    severity: 'error',
+    citation: CITATIONS.contractTerms,
+    field: 'escalatorPercent',
+    check: terms => when(terms.hasEscalator && terms.escalatorPercent <= 0, 'Escalator must raise salary by a positive amount'),
+  },
+  {
+    id: 'statistical-escalator',
+    severity: 'error',
+    citation: CITATIONS.bonuses,
+    field: 'escalatorTrigger',
+    check: terms => when(
+      terms.hasEscalator && STATISTICAL_TRIGGERS.includes(terms.escalatorTrigger),
+      `"${terms.escalatorTrigger}" is a statistical trigger; escalators must key off awards, playing time or roster status`
+    ),
+  },
+  {
+    id: 'team-performance-escalator',
+    severity: 'warning',
+    citation: CITATIONS.bonuses,
+    field: 'escalatorTrigger',
+    check: terms => when(
+      terms.hasEscalator && TEAM_PERFORMANCE_TRIGGERS.includes(terms.escalatorTrigger),
+      `"${terms.escalatorTrigger}" depends on club results; tie it to the player's own awards or playing time`
+    ),
+  },
+  {
+    id: 'award-bonus-cap',
+    severity: 'warning',
+    citation: CITATIONS.awardBonuses,
+    field: 'awardBonus',
+    check: terms => when(
+      terms.awardBonus > CBA_LIMITS.maxAwardBonusPerSeason,
+      `Award bonuses of $${terms.awardBonus}M/yr exceed the $${CBA_LIMITS.maxAwardBonusPerSeason}M/yr schedule the league approves without review`
+    ),
+  },
+
+  // Options
+  {
+    id: 'opt-out-timing',
+    severity: 'error',
+    citation: CITATIONS.options,
+    field: 'optOutYear',
+    check: terms => when(
+      terms.optOutYear !== null && (terms.optOutYear < 1 || terms.optOutYear >= terms.years),
+      'Opt-out must come after a completed season and before the final season'
+    ),
+  },
+  {
+    id: 'team-option-value',
+    severity: 'error',
+    citation: CITATIONS.options,
+    field: 'teamOptionValue',
+    check: terms => when(terms.teamOptionYear !== null && terms.teamOptionValue <= 0, 'Club option needs a salary'),
+  },
+  {
+    id: 'buyout-exceeds-option',
+    severity: 'error',
+    citation: CITATIONS.options,
+    field: 'buyoutValue',
+    check: terms => when(
+      terms.teamOptionYear !== null && terms.buyoutValue > terms.teamOptionValue,
+      `Buyout ($${terms.buyoutValue}M) cannot exceed the option salary ($${terms.teamOptionValue}M)`
+    ),
+  },
+  {
+    id: 'buyout-guaranteed',
+    severity: 'info',
+    citation: CITATIONS.options,
+    field: 'buyoutValue',
+    check: terms => when(
+      terms.teamOptionYear !== null && terms.buyoutValue > 0,
+      `The $${terms.buyoutValue}M buyout is guaranteed money and counts toward the CBT AAV`
+    ),
+  },
+  {
+    id: 'option-overlap',
+    severity: 'warning',
+    citation: CITATIONS.options,
+    field: 'teamOptionYear',
+    check: terms => when(
+      terms.optOutYear !== null && terms.teamOptionYear !== null && terms.optOutYear >= terms.teamOptionYear,
+      'Opt-out falls on or after the club option season'
+    ),
+  },
+
+  // Trade protection
+  {
+    id: 'limited-no-trade-list',
+    severity: 'error',
+    citation: CITATIONS.tradeConsent,
+    field: 'limitedNoTradeTeams',
+    check: terms => when(
+      terms.noTradeClause === 'limited' &&
+        (terms.limitedNoTradeTeams < 1 || terms.limitedNoTradeTeams > CBA_LIMITS.teamCount - 1),
+      `Limited no-trade list must name between 1 and ${CBA_LIMITS.teamCount - 1} clubs`
+    ),
+  },
+  {
+    id: 'ten-and-five',
+    severity: 'info',
+    citation: CITATIONS.tradeConsent,
+    field: 'noTradeClause',
+    check: terms => when(
+      terms.noTradeClause !== 'full' && terms.years > CBA_LIMITS.tenAndFiveMinSeasons,
+      `With ${CBA_LIMITS.tenAndFiveMinSeasons} seasons on the club and 10 years of service, 10-and-5 rights give full no-trade protection from year ${CBA_LIMITS.tenAndFiveMinSeasons + 1}`
+    ),
+  },
+  {
+    id: 'free-agent-trade-consent',
+    severity: 'info',
+    citation: CITATIONS.tradeConsent,
+    field: 'noTradeClause',
+    check: terms => when(
+      terms.noTradeClause === 'none' && terms.years > 1,
+      `A free agent with 5+ years of service cannot be traded without consent before June 15, ${terms.startSeason}`
+    ),
+  },
+];
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const SEVERITY_ORDER: Record<RuleSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Validates contract terms against the CBA rule set
+ * Returns violations sorted errors first, then warnings, then info
+ */
+export function validateContract(terms: ContractTerms): ContractRuleViolation[] {
+  const context: RuleContext = {
+    salaries: terms.years >= 1 ? distributeBaseSalaries(terms) : [],
+    salaryField: terms.salaryStructure === 'custom' ? 'customSalaries' : undefined,
+  };
+
+  const violations = CBA_RULES.flatMap(rule =>
+    rule.check(terms, context).map(finding => ({
+      ruleId: rule.id,
+      severity: rule.severity,
+      citation: rule.citation,
+      message: finding.message,
+      field: finding.field ?? rule.field,
+      ...(finding.season !== undefined && { season: finding.season }),
+    }))
+  );
+
+  return violations.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Most severe violation for a field, or null when the field is clean
+ */
+export function getFieldSeverity(violations: ContractRuleViolation[], field: keyof ContractTerms): RuleSeverity | null {
+  const forField = violations.filter(v => v.field === field);
+  if (forField.length === 0) return null;
+  return forField.reduce((worst, v) => (SEVERITY_ORDER[v.severity] < SEVERITY_ORDER[worst] ? v.severity : worst), forField[0].severity);
+}
+
+/**
+ * True when the terms have no error-level violations
+ */
+export function isContractValid(violations: ContractRuleViolation[]): boolean {
+  return !violations.some(v => v.severity === 'error');
+}
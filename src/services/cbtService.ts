@@ -0,0 +1,311 @@
+// ============================================================================
+// COMPETITIVE BALANCE TAX (CBT) SERVICE
+// ============================================================================
+// Computes the official CBT charge for a contract and the tax a club owes on
+// its payroll, driven by a versioned per-season rules table.
+//
+// Under the CBA a player's CBT charge is the contract's average annual value,
+// not the cash paid in a given season:
+// - Signing bonuses and guaranteed buyouts are prorated across the guaranteed years
+// - Deferred money is reduced to present value at the federal mid-term rate,
+//   discounted from the payout date back to the season it was earned
+// - Incentives and escalators are left out of the tax AAV; the yearly
+//   breakdown (contractCalculationService) adds their projected amounts
+//   (60% of incentives, 40% of the escalator raise) to each season's CBT hit
+//
+// BACKEND INTEGRATION:
+// The rules table can be replaced with:
+// GET /api/league/cbt-rules/:season - Returns CbtSeasonRules
+// ============================================================================
+
+import type { ContractTerms, CbtTier } from '../types';
+import { distributeBaseSalaries } from './salaryScheduleService';
+import { deferredPresentValueFactor } from './deferralScheduleService';
+
+// ============================================================================
+// RULES TABLE
+// ============================================================================
+
+/**
+ * Version of the rules table below
+ * Bump whenever thresholds, rates or mid-term rates change so saved
+ * scenarios can be traced back to the rules they were priced under
+ */
+export const CBT_RULES_VERSION = '2022-cba.1';
+
+export interface CbtSeasonRules {
+  season: number;
+  // First (base) threshold in millions
+  threshold: number;
+  // Second, third and fourth thresholds, expressed as $M above the first
+  surchargeOffsets: [number, number, number];
+  // Surcharge added to the base rate above each of those thresholds
+  surchargeRates: [number, number, number];
+  // Base rate for first-time, second consecutive, and third+ consecutive payors
+  baseRates: [number, number, number];
+  // Federal mid-term rate (%) used to discount deferred compensation
+  federalMidTermRate: number;
+  // True when the season is extrapolated rather than set by the CBA
+  projected: boolean;
+}
+
+const CBA_2022_SURCHARGE_OFFSETS: [number, number, number] = [20, 40, 60];
+const CBA_2022_SURCHARGE_RATES: [number, number, number] = [0.12, 0.425, 0.60];
+const CBA_2022_BASE_RATES: [number, number, number] = [0.20, 0.30, 0.50];
+
+const CBT_RULES: CbtSeasonRules[] = [
+  { season: 2022, threshold: 230, federalMidTermRate: 1.90 },
+  { season: 2023, threshold: 233, federalMidTermRate: 3.98 },
+  { season: 2024, threshold: 237, federalMidTermRate: 4.43 },
+  { season: 2025, threshold: 241, federalMidTermRate: 4.10 },
+  { season: 2026, threshold: 244, federalMidTermRate: 4.00 },
+].map(rule => ({
+  ...rule,
+  surchargeOffsets: CBA_2022_SURCHARGE_OFFSETS,
+  surchargeRates: CBA_2022_SURCHARGE_RATES,
+  baseRates: CBA_2022_BASE_RATES,
+  projected: false,
+}));
+
+// Thresholds beyond the current CBA are assumed to grow ~3% annually
+const PROJECTED_THRESHOLD_GROWTH = 0.03;
+
+/**
+ * Gets the CBT rules for a season
+ * Seasons past the end of the table are projected from the last CBA season;
+ * seasons before it use the first CBA season
+ */
+export function getCbtRules(season: number): CbtSeasonRules {
+  const exact = CBT_RULES.find(r => r.season === season);
+  if (exact) return exact;
+
+  const first = CBT_RULES[0];
+  if (season < first.season) return first;
+
+  const last = CBT_RULES[CBT_RULES.length - 1];
+  const yearDiff = season - last.season;
+  return {
+    ...last,
+    season,
+    threshold: Math.round(last.threshold * Math.pow(1 + PROJECTED_THRESHOLD_GROWTH, yearDiff) * 10) / 10,
+    projected: true,
+  };
+}
+
+/**
+ * Gets the first (base) CBT threshold for a season in millions
+ */
+export function getCbtThreshold(season: number): number {
+  return getCbtRules(season).threshold;
+}
+
+// Base thresholds set by earlier CBAs; only used to restate older contracts
+const HISTORICAL_CBT_THRESHOLDS: Record<number, number> = {
+  2003: 117, 2004: 120.5, 2005: 128, 2006: 136.5, 2007: 148, 2008: 155, 2009: 162,
+  2010: 170, 2011: 178, 2012: 178, 2013: 178, 2014: 189, 2015: 189, 2016: 189,
+  2017: 195, 2018: 197, 2019: 206, 2020: 208, 2021: 210,
+};
+
+/**
+ * Base CBT threshold for any season, including those before the current CBA
+ * Seasons before 2003 use the 2003 threshold
+ */
+export function getHistoricalCbtThreshold(season: number): number {
+  if (season >= CBT_RULES[0].season) return getCbtThreshold(season);
+  return HISTORICAL_CBT_THRESHOLDS[Math.max(2003, season)];
+}
+
+// ============================================================================
+// CLUB TAX
+// ============================================================================
+
+export interface CbtTierCharge {
+  tier: Exclude<CbtTier, 'under'>;
+  amount: number; // $M of payroll falling in this band
+  rate: number;
+  tax: number;
+}
+
+export interface CbtTaxResult {
+  season: number;
+  payroll: number;
+  threshold: number;
+  overage: number;
+  tier: CbtTier;
+  tax: number;
+  charges: CbtTierCharge[];
+}
+
+const TIERS: Exclude<CbtTier, 'under'>[] = ['tier1', 'tier2', 'tier3', 'tier4'];
+
+/**
+ * Determines which CBT tier a payroll falls into
+ */
+export function getCbtTier(payroll: number, season: number): CbtTier {
+  const rules = getCbtRules(season);
+  const overage = payroll - rules.threshold;
+  if (overage <= 0) return 'under';
+
+  const tierIndex = rules.surchargeOffsets.filter(offset => overage > offset).length;
+  return TIERS[tierIndex];
+}
+
+/**
+ * Calculates the CBT a club owes on its payroll
+ *
+ * @param payroll - CBT payroll in millions
+ * @param season - Season the payroll applies to
+ * @param consecutiveYearsOver - Prior consecutive seasons the club paid the tax
+ *   (0 = first-time payor, 1 = second consecutive, 2+ = third or more)
+ */
+export function calculateCbtTax(
+  payroll: number,
+  season: number,
+  consecutiveYearsOver: number = 0
+): CbtTaxResult {
+  const rules = getCbtRules(season);
+  const overage = Math.max(0, payroll - rules.threshold);
+  const baseRate = rules.baseRates[Math.min(Math.max(0, consecutiveYearsOver), 2)];
+
+  // Band edges above the first threshold: [0, 20, 40, 60, ∞)
+  const edges = [0, ...rules.surchargeOffsets, Infinity];
+  const charges: CbtTierCharge[] = [];
+
+  for (let i = 0; i < TIERS.length; i++) {
+    const amount = Math.min(overage, edges[i + 1]) - edges[i];
+    if (amount <= 0) break;
+
+    const rate = baseRate + (i > 0 ? rules.surchargeRates[i - 1] : 0);
+    charges.push({ tier: TIERS[i], amount, rate, tax: amount * rate });
+  }
+
+  return {
+    season,
+    payroll,
+    threshold: rules.threshold,
+    overage,
+    tier: getCbtTier(payroll, season),
+    tax: charges.reduce((sum, c) => sum + c.tax, 0),
+    charges,
+  };
+}
+
+/**
+ * Consecutive seasons over the threshold going into each season, for the
+ * repeat-payor base rate. The count carries forward while the payroll stays
+ * over the threshold and resets after a season under it
+ *
+ * @param payrollBySeason - CBT payroll per season, in season order
+ * @param priorYearsOver - Consecutive seasons the club paid the tax before the first season
+ * @returns Consecutive seasons over keyed by season
+ */
+export function getConsecutiveYearsOver(
+  payrollBySeason: { season: number; payroll: number }[],
+  priorYearsOver: number
+): Record<number, number> {
+  const result: Record<number, number> = {};
+  let yearsOver = Math.max(0, priorYearsOver);
+  payrollBySeason.forEach(({ season, payroll }) => {
+    result[season] = yearsOver;
+    yearsOver = payroll > getCbtThreshold(season) ? yearsOver + 1 : 0;
+  });
+  return result;
+}
+
+// ============================================================================
+// CONTRACT AAV
+// ============================================================================
+
+type CbtContractTerms = Pick<
+  ContractTerms,
+  | 'startSeason'
+  | 'years'
+  | 'baseAAV'
+  | 'salaryStructure'
+  | 'frontLoadPercent'
+  | 'customSalaries'
+  | 'signingBonus'
+  | 'deferralPercent'
+  | 'deferralYears'
+  | 'deferralPayoutDelay'
+  | 'deferralInterest'
+  | 'teamOptionYear'
+  | 'buyoutValue'
+>;
+
+export interface CbtContractYear {
+  season: number;
+  salary: number;
+  proratedSigningBonus: number;
+  proratedBuyout: number;
+  deferred: number;
+  deferredPresentValue: number;
+  charge: number; // Equals taxAAV every guaranteed year
+}
+
+export interface CbtContractResult {
+  taxAAV: number;
+  nominalAAV: number;
+  guaranteedNominal: number;
+  guaranteedPresentValue: number;
+  discountRate: number; // %
+  rulesVersion: string;
+  years: CbtContractYear[];
+}
+
+/**
+ * Calculates the official CBT AAV for a contract
+ *
+ * @param terms - Contract terms (only guaranteed money is charged)
+ * @param options.startSeason - Override for the contract's first season
+ * @param options.discountRate - Override for the federal mid-term rate (%)
+ */
+export function calculateTaxAAV(
+  terms: CbtContractTerms,
+  options: { startSeason?: number; discountRate?: number } = {}
+): CbtContractResult {
+  const startSeason = options.startSeason ?? terms.startSeason;
+  const discountRate = options.discountRate ?? getCbtRules(startSeason).federalMidTermRate;
+  const years = Math.max(1, terms.years);
+
+  // A declined club option's buyout is guaranteed money
+  const buyout = terms.teamOptionYear !== null ? terms.buyoutValue : 0;
+  const deferralShare = terms.deferralPercent / 100;
+
+  const proratedSigningBonus = terms.signingBonus / years;
+  const proratedBuyout = buyout / years;
+  const baseSalaries = distributeBaseSalaries({ ...terms, years });
+  const scheduleTerms = { ...terms, startSeason, years };
+
+  const yearRows = Array.from({ length: years }, (_, i) => {
+    const salary = baseSalaries[i];
+    const deferred = (salary + proratedSigningBonus) * deferralShare;
+    // Each installment accrues interest until its payout season, then is
+    // discounted back to the season it was earned at the mid-term rate
+    const deferredPresentValue =
+      deferred * deferredPresentValueFactor(scheduleTerms, startSeason + i, discountRate);
+    return {
+      season: startSeason + i,
+      salary,
+      proratedSigningBonus,
+      proratedBuyout,
+      deferred,
+      deferredPresentValue,
+      presentValue: salary + proratedSigningBonus + proratedBuyout - deferred + deferredPresentValue,
+    };
+  });
+
+  const guaranteedNominal = baseSalaries.reduce((sum, s) => sum + s, 0) + terms.signingBonus + buyout;
+  const guaranteedPresentValue = yearRows.reduce((sum, y) => sum + y.presentValue, 0);
+  const taxAAV = guaranteedPresentValue / years;
+
+  return {
+    taxAAV,
+    nominalAAV: guaranteedNominal / years,
+    guaranteedNominal,
+    guaranteedPresentValue,
+    discountRate,
+    rulesVersion: CBT_RULES_VERSION,
+    years: yearRows.map(({ presentValue, ...row }) => ({ ...row, charge: taxAAV })),
+  };
+}
@@ -0,0 +1,213 @@
+// ============================================================================
+// COMP SIMILARITY SERVICE
+// ============================================================================
+// Ranks signed players by how closely their platform years match a target.
+//
+// Each signed player's three seasons before signing (`threeYearContractStats`)
+// are compared with the target's current three-year line, per season and stat
+// by stat:
+// - Differences are standardized by the spread of that stat across the pool
+// - Stats are weighted with the EstimatedValue position presets
+// - Age at signing and signing era (years before the present) add two more
+//   terms, so a 34-year-old's deal or a decade-old deal ranks lower
+// - The weighted squared distance maps to a 0-100 score
+// Comps whose platform seasons are not loaded fall back to their three-year
+// line and are marked as such. AAVs are restated in present-year dollars.
+//
+// BACKEND INTEGRATION:
+// Pure functions - can stay client-side
+// GET /api/players/:playerId/similar-comps - Could precompute CompSimilarity[]
+// ============================================================================
+
+import type { CompSimilarity, SimilarityFactor } from '../types';
+import { getPlayersWithContracts, getPerSeasonStatsForPeriod, isPitcher, type Player, type PlayerStats } from '../data/playerDatabase';
+import {
+  STAT_KEY_MAP,
+  getStatConfig,
+  getWeightsForPosition,
+  normalizeValuationPosition,
+  LATEST_STATS_SEASON,
+  DEFAULT_INFLATION_PERCENT,
+} from './estimatedValueService';
+import { getCompAdjustmentFactor } from './valuationCompsService';
+
+// Shares of the total weight taken by age at signing and signing era;
+// the position-weighted stats share the rest
+const AGE_WEIGHT_SHARE = 0.2;
+const ERA_WEIGHT_SHARE = 0.1;
+// Gap that counts as one standard deviation for the age and era terms
+const AGE_SCALE_YEARS = 2.5;
+const ERA_SCALE_YEARS = 6;
+// One wild stat should not sink an otherwise close comp
+const MAX_Z = 4;
+// Score multiplier for comps without pre-signing seasons
+const NO_PLATFORM_PENALTY = 0.9;
+
+export interface CompSimilarityOptions {
+  presentYear?: number; // Offseason the target signs in (default: latest stats season)
+  inflationPercent?: number; // For the present-dollar AAV
+  limit?: number;
+}
+
+function getStatValue(stats: PlayerStats, configKey: string): number | null {
+  const statKey = STAT_KEY_MAP[configKey];
+  if (!statKey) return null;
+  // HR is stored as a count in HRperPA
+  const raw = statKey === 'HR' ? Math.round(stats.HRperPA || 0) : stats[statKey];
+  return typeof raw === 'number' && isFinite(raw) ? raw : null;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+const closeness = (z: number) => 100 * Math.exp(-(z * z) / 2);
+
+interface WeightedTerm {
+  key: string;
+  label: string;
+  targetValue: number;
+  compValue: number;
+  weight: number;
+  z: number;
+}
+
+/**
+ * Signed players ranked by similarity to the target
+ *
+ * @param target - Player being valued (compared on its per-season three-year line)
+ * @param candidates - Pool to rank; only signed players of the same type are scored
+ * @param options - Present year, inflation rate and result limit
+ * @returns CompSimilarity[] - Highest score first
+ */
+export function findSimilarComps(
+  target: Player,
+  candidates: Player[],
+  options: CompSimilarityOptions = {}
+): CompSimilarity[] {
+  const presentYear = options.presentYear ?? LATEST_STATS_SEASON;
+  const inflationPercent = options.inflationPercent ?? DEFAULT_INFLATION_PERCENT;
+  const targetIsPitcher = isPitcher(target);
+  const targetStats = getPerSeasonStatsForPeriod(target, '3yr-avg');
+
+  const pool = candidates
+    .filter(c => c.hasContract && c.id !== target.id && isPitcher(c) === targetIsPitcher)
+    .map(player => ({
+      player,
+      stats: getPerSeasonStatsForPeriod(player, '3yr-contract'),
+      usesPlatformStats: !!player.threeYearContractStats,
+    }));
+  if (!pool.length) return [];
+
+  // Weights for the target's position, limited to stats of its type
+  const config = getStatConfig(target) as Record<string, { label: string }>;
+  const positionWeights = getWeightsForPosition(normalizeValuationPosition(target.position, targetIsPitcher));
+  const statKeys = Object.keys(config).filter(key => (positionWeights[key] ?? 0) > 0);
+
+  const spreads: Record<string, number> = {};
+  statKeys.forEach(key => {
+    const values = [targetStats, ...pool.map(c => c.stats)]
+      .map(stats => getStatValue(stats, key))
+      .filter((v): v is number => v !== null);
+    spreads[key] = standardDeviation(values);
+  });
+  const scoredKeys = statKeys.filter(key => spreads[key] > 0);
+  const statWeightTotal = scoredKeys.reduce((sum, key) => sum + positionWeights[key], 0);
+  const statShare = 1 - AGE_WEIGHT_SHARE - ERA_WEIGHT_SHARE;
+
+  const targetSigningAge = targetStats.age + (presentYear - LATEST_STATS_SEASON);
+
+  const results = pool.map(({ player, stats, usesPlatformStats }) => {
+    const signedYear = player.signedYear ?? presentYear;
+    const terms: WeightedTerm[] = [];
+
+    scoredKeys.forEach(key => {
+      const targetValue = getStatValue(targetStats, key);
+      const compValue = getStatValue(stats, key);
+      if (targetValue === null || compValue === null) return;
+      terms.push({
+        key,
+        label: config[key].label,
+        targetValue,
+        compValue,
+        weight: (statShare * positionWeights[key]) / statWeightTotal,
+        z: Math.min(MAX_Z, Math.abs(targetValue - compValue) / spreads[key]),
+      });
+    });
+
+    // Without platform seasons, age at signing is backed out of the current line
+    const signingAge = usesPlatformStats
+      ? stats.age
+      : player.signedYear
+        ? stats.age - (LATEST_STATS_SEASON - player.signedYear)
+        : null;
+    if (signingAge) {
+      terms.push({
+        key: 'age',
+        label: 'Age at signing',
+        targetValue: targetSigningAge,
+        compValue: signingAge,
+        weight: AGE_WEIGHT_SHARE,
+        z: Math.min(MAX_Z, Math.abs(targetSigningAge - signingAge) / AGE_SCALE_YEARS),
+      });
+    }
+    terms.push({
+      key: 'era',
+      label: 'Signing year',
+      targetValue: presentYear,
+      compValue: signedYear,
+      weight: ERA_WEIGHT_SHARE,
+      z: Math.min(MAX_Z, Math.max(0, presentYear - signedYear) / ERA_SCALE_YEARS),
+    });
+
+    // Renormalize in case a stat or the age term was missing
+    const weightTotal = terms.reduce((sum, t) => sum + t.weight, 0);
+    const distances = terms.map(t => (t.weight / weightTotal) * t.z * t.z);
+    const distance = distances.reduce((sum, d) => sum + d, 0);
+    const score = 100 * Math.exp(-distance / 2) * (usesPlatformStats ? 1 : NO_PLATFORM_PENALTY);
+
+    const factors: SimilarityFactor[] = terms.map((t, i) => ({
+      key: t.key,
+      label: t.label,
+      targetValue: t.targetValue,
+      compValue: t.compValue,
+      weight: t.weight / weightTotal,
+      similarity: closeness(t.z),
+      distanceShare: distance > 0 ? distances[i] / distance : 0,
+    }));
+    // Stats by weight; age and era stay last
+    factors.sort((a, b) => {
+      const aStat = a.key !== 'age' && a.key !== 'era';
+      const bStat = b.key !== 'age' && b.key !== 'era';
+      if (aStat !== bStat) return aStat ? -1 : 1;
+      return aStat ? b.weight - a.weight : 0;
+    });
+
+    return {
+      compId: player.id,
+      score,
+      signedYear,
+      signingAge: signingAge || null,
+      adjustedAAV:
+        (player.AAV ?? 0) * getCompAdjustmentFactor('inflation', signedYear, presentYear, inflationPercent),
+      usesPlatformStats,
+      factors,
+    };
+  });
+
+  results.sort((a, b) => b.score - a.score || b.adjustedAAV - a.adjustedAAV);
+  return options.limit ? results.slice(0, options.limit) : results;
+}
+
+/**
+ * The most similar signed players from the loaded pool
+ */
+export function getSuggestedComps(player: Player, limit: number = 4): Player[] {
+  const withContracts = getPlayersWithContracts();
+  const byId = new Map(withContracts.map(p => [p.id, p]));
+  return findSimilarComps(player, withContracts, { limit })
+    .map(s => byId.get(s.compId))
+    .filter((p): p is Player => !!p);
+}
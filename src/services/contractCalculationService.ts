@@ -13,7 +13,104 @@
 // - POST /api/contracts/calculate - Send contract terms, receive calculations
 // ============================================================================
 
-import type { ContractTerms, YearlyBreakdown, ContractCalculations } from '../types';
+import type {
+  ContractTerms,
+  YearlyBreakdown,
+  ContractCalculations,
+  SalaryStructure,
+  NoTradeClause,
+  EscalatorTrigger,
+} from '../types';
+import { calculateTaxAAV } from './cbtService';
+import { distributeBaseSalaries } from './salaryScheduleService';
+import { buildDeferralSchedule } from './deferralScheduleService';
+
+// Default first season for a new contract (team payroll data starts here)
+export const CONTRACT_START_SEASON = 2026;
+
+/**
+ * Default terms for a new contract
+ */
+export const DEFAULT_CONTRACT_TERMS: ContractTerms = {
+  startSeason: CONTRACT_START_SEASON,
+  years: 7,
+  baseAAV: 30,
+  signingBonus: 15,
+  salaryStructure: 'front-loaded',
+  frontLoadPercent: 15,
+  customSalaries: [],
+  deferralPercent: 0,
+  deferralYears: 10,
+  deferralInterest: 2.5,
+  deferralPayoutDelay: 0,
+  performanceBonus: 2,
+  awardBonus: 1,
+  playingTimeBonus: 1,
+  optOutYear: 4,
+  teamOptionYear: null,
+  teamOptionValue: 25,
+  buyoutValue: 5,
+  noTradeClause: 'full',
+  limitedNoTradeTeams: 10,
+  hasEscalator: false,
+  escalatorPercent: 5,
+  escalatorTrigger: 'MVP finish',
+};
+
+const SALARY_STRUCTURES: SalaryStructure[] = ['even', 'front-loaded', 'back-loaded', 'custom'];
+const NO_TRADE_CLAUSES: NoTradeClause[] = ['full', 'limited', 'none'];
+const ESCALATOR_TRIGGERS: EscalatorTrigger[] = ['MVP finish', 'All-Star', '40 HR', 'Playoffs'];
+
+/**
+ * Coerces an untrusted object (saved state, imports) into valid ContractTerms
+ * Unknown keys are dropped; missing or mistyped fields fall back to the defaults
+ */
+export function normalizeContractTerms(raw: unknown): ContractTerms {
+  const source = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const defaults = DEFAULT_CONTRACT_TERMS;
+
+  const num = (key: keyof ContractTerms): number => {
+    const value = source[key];
+    return typeof value === 'number' && isFinite(value) ? value : (defaults[key] as number);
+  };
+  const optionalNum = (key: 'optOutYear' | 'teamOptionYear'): number | null => {
+    const value = source[key];
+    if (value === null) return null;
+    return typeof value === 'number' && isFinite(value) ? value : defaults[key];
+  };
+  const oneOf = <T extends string>(key: keyof ContractTerms, allowed: T[]): T => {
+    const value = source[key];
+    return allowed.includes(value as T) ? (value as T) : (defaults[key] as T);
+  };
+
+  return {
+    startSeason: Math.round(num('startSeason')),
+    years: num('years'),
+    baseAAV: num('baseAAV'),
+    signingBonus: num('signingBonus'),
+    salaryStructure: oneOf('salaryStructure', SALARY_STRUCTURES),
+    frontLoadPercent: num('frontLoadPercent'),
+    customSalaries: Array.isArray(source.customSalaries)
+      ? source.customSalaries.filter((v): v is number => typeof v === 'number' && isFinite(v))
+      : defaults.customSalaries,
+    deferralPercent: num('deferralPercent'),
+    deferralYears: num('deferralYears'),
+    deferralInterest: num('deferralInterest'),
+    deferralPayoutDelay: num('deferralPayoutDelay'),
+    performanceBonus: num('performanceBonus'),
+    awardBonus: num('awardBonus'),
+    playingTimeBonus: num('playingTimeBonus'),
+    optOutYear: optionalNum('optOutYear'),
+    teamOptionYear: optionalNum('teamOptionYear'),
+    teamOptionValue: num('teamOptionValue'),
+    buyoutValue: num('buyoutValue'),
+    noTradeClause: oneOf('noTradeClause', NO_TRADE_CLAUSES),
+    limitedNoTradeTeams: num('limitedNoTradeTeams'),
+    hasEscalator: typeof source.hasEscalator === 'boolean' ? source.hasEscalator : defaults.hasEscalator,
+    escalatorPercent: num('escalatorPercent'),
+    escalatorTrigger: oneOf('escalatorTrigger', ESCALATOR_TRIGGERS),
+  };
+}
 
 /**
  * Calculates comprehensive contract breakdown from terms
@@ -26,31 +123,21 @@ import type { ContractTerms, YearlyBreakdown, ContractCalculations } from '../ty
  * - Signing bonus allocation
  * - Deferral calculations with interest
  * - Performance bonus projections
- * - CBT (luxury tax) impact
+ * - CBT (luxury tax) impact via the CBT service
  * - Options and escalators
  */
 export function calculateContractBreakdown(terms: ContractTerms): ContractCalculations {
   const yearlyBreakdown: YearlyBreakdown[] = [];
   
-  // Calculate base salary per year before any adjustments
-  let baseSalaryPerYear = terms.baseAAV;
+  // Official CBT AAV - charged every guaranteed year regardless of cash flow
+  const cbt = calculateTaxAAV(terms);
   
-  // Total base contract value (before bonuses)
-  const baseValue = terms.baseAAV * terms.years;
+  // Base salaries per year, already shaped by the salary structure
+  const baseSalaries = distributeBaseSalaries(terms);
   
-  // Calculate yearly salaries based on structure
   for (let i = 0; i < terms.years; i++) {
-    const year = 2025 + i;
-    let yearSalary = baseSalaryPerYear;
-    
-    // Apply front/back loading
-    if (terms.salaryStructure === 'front-loaded') {
-      const loadFactor = 1 + (terms.frontLoadPercent / 100) * (1 - i / (terms.years - 1));
-      yearSalary = baseSalaryPerYear * loadFactor;
-    } else if (terms.salaryStructure === 'back-loaded') {
-      const loadFactor = 1 + (terms.frontLoadPercent / 100) * (i / (terms.years - 1));
-      yearSalary = baseSalaryPerYear * loadFactor;
-    }
+    const year = terms.startSeason + i;
+    let yearSalary = baseSalaries[i];
     
     // Add signing bonus to first year
     let bonus = 0;
@@ -65,9 +152,11 @@ export function calculateContractBreakdown(terms: ContractTerms): ContractCalcul
     bonus += performanceBonusProjected;
     
     // Apply escalator if conditions met (assume 40% chance per year)
+    let escalatorRaise = 0;
     if (terms.hasEscalator && i > 0) {
       const escalatorChance = 0.4;
-      yearSalary += (yearSalary * (terms.escalatorPercent / 100) * escalatorChance);
+      escalatorRaise = yearSalary * (terms.escalatorPercent / 100) * escalatorChance;
+      yearSalary += escalatorRaise;
     }
     
     // Calculate deferred amount
@@ -75,20 +164,8 @@ export function calculateContractBreakdown(terms: ContractTerms): ContractCalcul
     const deferredAmount = totalCashBeforeDeferral * (terms.deferralPercent / 100);
     const cashPaid = totalCashBeforeDeferral - deferredAmount;
     
-    // CBT hit calculation (includes deferred present value)
-    let cbtHit = yearSalary;
-    if (i === 0) {
-      cbtHit += terms.signingBonus; // Signing bonus counted in CBT
-    }
-    // Deferrals reduce CBT hit via present value calculation
-    if (terms.deferralPercent > 0) {
-      const presentValue = calculatePresentValue(
-        deferredAmount,
-        terms.deferralYears,
-        terms.deferralInterest
-      );
-      cbtHit -= (deferredAmount - presentValue);
-    }
+    // CBT hit: contract AAV plus incentives and escalators earned that season
+    const cbtHit = cbt.taxAAV + performanceBonusProjected + escalatorRaise;
     
     yearlyBreakdown.push({
       year,
@@ -100,21 +177,12 @@ export function calculateContractBreakdown(terms: ContractTerms): ContractCalcul
     });
   }
   
-  // Normalize salaries if front/back loaded (ensure total matches base value)
-  if (terms.salaryStructure !== 'even') {
-    const currentTotal = yearlyBreakdown.reduce((sum, y) => sum + y.baseSalary, 0);
-    const adjustmentFactor = baseValue / currentTotal;
-    yearlyBreakdown.forEach(y => {
-      y.baseSalary *= adjustmentFactor;
-    });
-  }
-  
   // Calculate totals
   const totalValue = yearlyBreakdown.reduce((sum, y) => sum + y.baseSalary + y.bonus, 0);
   
   // Guaranteed value (base + signing bonus, exclude performance bonuses)
   const guaranteedValue = 
-    terms.baseAAV * terms.years + 
+    baseSalaries.reduce((sum, salary) => sum + salary, 0) + 
     terms.signingBonus;
   
   // Potential value (if all bonuses/escalators hit)
@@ -126,8 +194,11 @@ export function calculateContractBreakdown(terms: ContractTerms): ContractCalcul
   // Add team option value if applicable
   const teamOptionValue = terms.teamOptionYear !== null ? terms.teamOptionValue : 0;
   
-  // Average CBT impact
-  const cbtImpact = yearlyBreakdown.reduce((sum, y) => sum + y.cbtHit, 0) / terms.years;
+  // CBT impact is the contract's official tax AAV
+  const cbtImpact = cbt.taxAAV;
+  
+  // When deferred money is actually paid, discounted at the same rate as the CBT
+  const deferralSchedule = buildDeferralSchedule(terms, yearlyBreakdown, cbt.discountRate);
   
   return {
     totalValue,
@@ -135,76 +206,10 @@ export function calculateContractBreakdown(terms: ContractTerms): ContractCalcul
     potentialValue: potentialValue + teamOptionValue,
     cbtImpact,
     yearlyBreakdown,
+    deferralSchedule,
   };
 }
 
-/**
- * Calculates present value of deferred money
- * Uses discount rate based on deferral interest rate
- */
-function calculatePresentValue(
-  futureValue: number,
-  years: number,
-  interestRate: number
-): number {
-  // Simple present value formula: PV = FV / (1 + r)^n
-  // Where r is the discount rate (typically league minimum ~3% or the interest rate if higher)
-  const discountRate = Math.max(0.03, interestRate / 100);
-  return futureValue / Math.pow(1 + discountRate, years);
-}
-
-/**
- * Validates contract terms against MLB rules
- * Returns array of validation errors, empty if valid
- * 
- * BACKEND INTEGRATION:
- * In production, backend should validate against current CBA rules
- */
-export function validateContractTerms(terms: ContractTerms): string[] {
-  const errors: string[] = [];
-  
-  // Basic validations
-  if (terms.years < 1 || terms.years > 15) {
-    errors.push('Contract length must be between 1 and 15 years');
-  }
-  
-  if (terms.baseAAV < 0) {
-    errors.push('Base AAV cannot be negative');
-  }
-  
-  if (terms.signingBonus < 0) {
-    errors.push('Signing bonus cannot be negative');
-  }
-  
-  // Deferral validations
-  if (terms.deferralPercent > 0) {
-    if (terms.deferralYears < 1) {
-      errors.push('Deferral period must be at least 1 year');
-    }
-    if (terms.deferralPercent > 60) {
-      errors.push('Deferral percentage cannot exceed 60%');
-    }
-  }
-  
-  // Option validations
-  if (terms.optOutYear !== null) {
-    if (terms.optOutYear >= terms.years) {
-      errors.push('Opt-out year must be before contract end');
-    }
-    if (terms.optOutYear < 3) {
-      errors.push('Opt-out typically not allowed before year 3');
-    }
-  }
-  
-  if (terms.teamOptionYear !== null) {
-    if (terms.teamOptionValue <= 0) {
-      errors.push('Team option must have a value');
-    }
-  }
-  
-  return errors;
-}
-
 /**
  * Formats contract summary for display
  * Returns human-readable contract description
@@ -0,0 +1,357 @@
+// ============================================================================
+// CONTRACT SIMULATION SERVICE
+// ============================================================================
+// Monte Carlo simulation of incentive, escalator and option outcomes.
+//
+// `calculateContractBreakdown` projects one deterministic number (60% bonus
+// achievement, 40% escalator chance). This service instead draws thousands of
+// careers from the player's projected WAR / playing-time distribution and
+// resolves every clause per draw:
+// - Performance, award and playing-time bonuses per season
+// - Escalator triggers (`EscalatorTrigger`), raising the following season
+// - Player opt-out (`optOutYear`) when the market beats the remaining money
+// - Club option (`teamOptionYear`) exercised vs bought out (`buyoutValue`)
+//
+// BACKEND INTEGRATION:
+// POST /api/contracts/simulate - Send terms + projection, receive ContractSimulationResult
+// ============================================================================
+
+import type {
+  ContractTerms,
+  PlayerProjection,
+  ContractClause,
+  ClauseOutcome,
+  ContractSimulationResult,
+  SimulationHistogramBin,
+} from '../types';
+import type { Player } from '../data/playerDatabase';
+import { isPitcher, getPerSeasonStatsForPeriod } from '../data/playerDatabase';
+import { distributeBaseSalaries } from './salaryScheduleService';
+
+// ============================================================================
+// ASSUMPTIONS
+// ============================================================================
+
+// Season-level thresholds that decide whether a clause pays
+const PERFORMANCE_BONUS_WAR = 3.0;
+const AWARD_BONUS_WAR = 5.0;
+const PLAYING_TIME_SHARE = 0.85; // ~550 PA / ~155 IP
+
+const ESCALATOR_WAR: Record<string, number> = {
+  'MVP finish': 7.0,
+  'All-Star': 4.5,
+};
+const ESCALATOR_HOME_RUNS = 40;
+
+// Market price of a win in the first contract season, grown annually
+export const MARKET_DOLLARS_PER_WAR = 8.5;
+export const MARKET_GROWTH = 0.04;
+
+// Full-time baselines used to turn PA / IP into a playing-time share
+export const FULL_SEASON_PA = 650;
+export const FULL_SEASON_IP = 180;
+
+const DEFAULT_TRIALS = 5000;
+const DEFAULT_SEED = 20251;
+const HISTOGRAM_BINS = 20;
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/**
+ * Builds a simulation projection from a player's loaded stat periods
+ * Weighs the latest season against the 3-year average and uses the spread
+ * between periods (floored) as the WAR uncertainty
+ */
+export function buildPlayerProjection(player: Player): PlayerProjection {
+  const recent = player.stats2025;
+  const threeYear = getPerSeasonStatsForPeriod(player, '3yr-avg');
+  const pitcher = isPitcher(player);
+
+  const war = recent.WAR * 0.4 + threeYear.WAR * 0.6;
+  const spread = Math.abs(recent.WAR - threeYear.WAR);
+  const warStdDev = Math.max(1.0, spread, Math.abs(war) * 0.35);
+
+  const playingTime = pitcher
+    ? (threeYear.IP || recent.IP || 0) / FULL_SEASON_IP
+    : (threeYear.PA || recent.PA || 0) / FULL_SEASON_PA;
+
+  // HRperPA holds the HR count; per season once normalized
+  const homeRuns = pitcher ? 0 : threeYear.HRperPA || recent.HRperPA || 0;
+
+  return {
+    age: recent.age || threeYear.age || 28,
+    war,
+    warStdDev,
+    playingTime: Math.min(1, Math.max(0.1, playingTime || 0.8)),
+    homeRuns,
+    isPitcher: pitcher,
+  };
+}
+
+/**
+ * Expected change in full-season WAR from one age to the next
+ */
+export function agingDelta(age: number): number {
+  if (age < 27) return 0.25;
+  if (age < 30) return 0;
+  if (age < 33) return -0.35;
+  return -0.5;
+}
+
+/**
+ * Market price of a win ($M) in a contract season (0 = first season)
+ */
+export function marketDollarsPerWar(seasonIndex: number): number {
+  return MARKET_DOLLARS_PER_WAR * Math.pow(1 + MARKET_GROWTH, seasonIndex);
+}
+
+// ============================================================================
+// RANDOM NUMBERS
+// ============================================================================
+
+// Seeded so the same terms always render the same distribution
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normal(rng: () => number): number {
+  const u = Math.max(rng(), Number.EPSILON);
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+interface ClauseTally {
+  paid: number;
+  eligible: number;
+  careers: number;
+  payout: number;
+  forgone: number; // Guaranteed salary walked away from (opt-out)
+}
+
+const CLAUSE_LABELS: Record<ContractClause, string> = {
+  performanceBonus: 'Performance Bonus',
+  awardBonus: 'Award Bonus',
+  playingTimeBonus: 'Playing Time Bonus',
+  escalator: 'Escalator',
+  optOut: 'Player Opt-Out',
+  teamOption: 'Club Option Exercised',
+};
+
+/**
+ * Simulates contract outcomes across many careers
+ *
+ * @param terms - Contract terms
+ * @param projection - Player projection (see buildPlayerProjection)
+ * @param options.trials - Number of simulated careers
+ * @param options.seed - RNG seed
+ * @returns ContractSimulationResult - Percentile totals, clause odds, histogram
+ */
+export function simulateContractOutcomes(
+  terms: ContractTerms,
+  projection: PlayerProjection,
+  options: { trials?: number; seed?: number } = {}
+): ContractSimulationResult {
+  const trials = Math.max(1, options.trials ?? DEFAULT_TRIALS);
+  const rng = createRng(options.seed ?? DEFAULT_SEED);
+  const baseSalaries = distributeBaseSalaries(terms);
+  const escalatorShare = terms.hasEscalator ? terms.escalatorPercent / 100 : 0;
+  const hasOptOut = terms.optOutYear !== null && terms.optOutYear < terms.years;
+  const hasTeamOption = terms.teamOptionYear !== null;
+  const sd = projection.warStdDev;
+
+  const tallies = {} as Record<ContractClause, ClauseTally>;
+  (Object.keys(CLAUSE_LABELS) as ContractClause[]).forEach(clause => {
+    tallies[clause] = { paid: 0, eligible: 0, careers: 0, payout: 0, forgone: 0 };
+  });
+
+  // Expected full-season WAR per contract season (plus a possible option season)
+  const expectedWar: number[] = [];
+  let running = projection.war;
+  for (let i = 0; i <= terms.years; i++) {
+    expectedWar.push(running);
+    running += agingDelta(projection.age + i);
+  }
+
+  const totals: number[] = [];
+
+  for (let trial = 0; trial < trials; trial++) {
+    const paidThisCareer = new Set<ContractClause>();
+    const pay = (clause: ContractClause, amount: number, forgone: number = 0) => {
+      tallies[clause].paid++;
+      tallies[clause].payout += amount;
+      tallies[clause].forgone += forgone;
+      paidThisCareer.add(clause);
+    };
+
+    let total = terms.signingBonus;
+    let talent = normal(rng) * sd * 0.7; // Persistent true-talent shift
+    let escalatorEarned = false;
+    let optedOut = false;
+
+    for (let i = 0; i < terms.years; i++) {
+      let salary = baseSalaries[i];
+
+      // Escalator earned last season raises this season's salary
+      if (escalatorShare > 0 && i > 0) {
+        tallies.escalator.eligible++;
+        if (escalatorEarned) {
+          const raise = baseSalaries[i] * escalatorShare;
+          salary += raise;
+          pay('escalator', raise);
+        }
+      }
+      total += salary;
+
+      talent = talent * 0.8 + normal(rng) * sd * 0.35;
+      const injured = rng() < 0.12 + Math.max(0, projection.age + i - 28) * 0.01;
+      const health = injured ? 0.2 + rng() * 0.6 : 1 - Math.abs(normal(rng)) * 0.05;
+      const war = (expectedWar[i] + talent + normal(rng) * sd * 0.5) * health;
+      const playingTime = Math.min(1, projection.playingTime * health);
+      const homeRuns = projection.homeRuns * health * (1 + (talent / Math.max(sd, 0.1)) * 0.12);
+
+      const bonuses: [ContractClause, number, boolean][] = [
+        ['performanceBonus', terms.performanceBonus, war >= PERFORMANCE_BONUS_WAR],
+        ['awardBonus', terms.awardBonus, war >= AWARD_BONUS_WAR],
+        ['playingTimeBonus', terms.playingTimeBonus, playingTime >= PLAYING_TIME_SHARE],
+      ];
+      for (const [clause, amount, earned] of bonuses) {
+        if (amount <= 0) continue;
+        tallies[clause].eligible++;
+        if (earned) {
+          total += amount;
+          pay(clause, amount);
+        }
+      }
+
+      escalatorEarned = isEscalatorTriggered(terms.escalatorTrigger, war, homeRuns, projection, rng);
+
+      // Player opt-out after this season
+      if (hasOptOut && i + 1 === terms.optOutYear) {
+        tallies.optOut.eligible++;
+        let remainingSalary = 0;
+        let marketValue = 0;
+        for (let s = i + 1; s < terms.years; s++) {
+          remainingSalary += baseSalaries[s];
+          const projectedWar = expectedWar[s] + talent * Math.pow(0.8, s - i);
+          marketValue += Math.max(0, projectedWar) * marketDollarsPerWar(s);
+        }
+        if (marketValue > remainingSalary) {
+          optedOut = true;
+          // Exercising pays nothing; the player gives up the remaining salary
+          pay('optOut', 0, remainingSalary);
+          break;
+        }
+      }
+    }
+
+    // Club option for the season after the guaranteed term
+    if (hasTeamOption && !optedOut) {
+      tallies.teamOption.eligible++;
+      const projectedWar = expectedWar[terms.years] + talent * 0.8;
+      const valueToClub = Math.max(0, projectedWar) * marketDollarsPerWar(terms.years);
+      if (valueToClub >= terms.teamOptionValue - terms.buyoutValue) {
+        total += terms.teamOptionValue;
+        pay('teamOption', terms.teamOptionValue);
+      } else {
+        total += terms.buyoutValue;
+        tallies.teamOption.payout += terms.buyoutValue;
+      }
+    }
+
+    totals.push(total);
+    paidThisCareer.forEach(clause => tallies[clause].careers++);
+  }
+
+  return summarize(totals, tallies, trials);
+}
+
+/**
+ * Resolves whether an escalator trigger is met in a simulated season
+ */
+function isEscalatorTriggered(
+  trigger: string,
+  war: number,
+  homeRuns: number,
+  projection: PlayerProjection,
+  rng: () => number
+): boolean {
+  if (trigger === '40 HR') {
+    return !projection.isPitcher && homeRuns >= ESCALATOR_HOME_RUNS;
+  }
+  if (trigger === 'Playoffs') {
+    // A better season nudges the club's playoff odds
+    const odds = Math.min(0.8, Math.max(0.1, 0.35 + 0.04 * war));
+    return rng() < odds;
+  }
+  const threshold = ESCALATOR_WAR[trigger];
+  return threshold !== undefined && war >= threshold;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function summarize(
+  totals: number[],
+  tallies: Record<ContractClause, ClauseTally>,
+  trials: number
+): ContractSimulationResult {
+  const sorted = [...totals].sort((a, b) => a - b);
+  const min = sorted[0] ?? 0;
+  const max = sorted[sorted.length - 1] ?? 0;
+  const width = max > min ? (max - min) / HISTOGRAM_BINS : 1;
+
+  const histogram: SimulationHistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    binStart: min + i * width,
+    binEnd: min + (i + 1) * width,
+    count: 0,
+    share: 0,
+  }));
+  for (const total of sorted) {
+    const index = Math.min(HISTOGRAM_BINS - 1, Math.floor((total - min) / width));
+    histogram[index].count++;
+  }
+  histogram.forEach(bin => {
+    bin.share = bin.count / trials;
+  });
+
+  const clauses: ClauseOutcome[] = (Object.keys(tallies) as ContractClause[])
+    .filter(clause => tallies[clause].eligible > 0)
+    .map(clause => {
+      const tally = tallies[clause];
+      return {
+        clause,
+        label: CLAUSE_LABELS[clause],
+        probability: tally.paid / tally.eligible,
+        probabilityAny: tally.careers / trials,
+        expectedPayout: tally.payout / trials,
+        expectedForgone: tally.forgone / trials,
+        expectedValueEffect: (tally.payout - tally.forgone) / trials,
+      };
+    });
+
+  return {
+    trials,
+    mean: totals.reduce((sum, t) => sum + t, 0) / trials,
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    clauses,
+    histogram,
+  };
+}
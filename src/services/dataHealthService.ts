@@ -0,0 +1,399 @@
+// ============================================================================
+// DATA HEALTH SERVICE
+// ============================================================================
+// Ingestion report for every CSV the app reads, so bad rows are fixed before
+// a pitch rather than found mid-meeting.
+//
+// Each source is checked against a declarative spec:
+// - Parse errors: everything Papa reports (the CSV store logs only the first three)
+// - Missing required columns: absent from the header, or blank in a row
+// - Failed coercions: numeric columns whose text getField cannot parse
+// - Duplicate keys: two rows for the same player, player-season or club
+// - Unmatched players: Spotrac and Statcast rows the merge drops because no
+//   FanGraphs row has the same player (and season)
+// - Team conflicts: sources that disagree on a player-season's club
+//
+// BACKEND INTEGRATION:
+// GET /api/data/health - Could run the same checks at ingestion time
+// ============================================================================
+
+import Papa from 'papaparse';
+import type { DataHealthReport, DataIssue, DataIssueKind, DataSourceReport } from '../types';
+import { coerceNumber, getField, type CsvParseError, type RawCsvRow } from '../data/csvLoader';
+import { getCsvTable } from '../data/csvStore';
+import { getRowName, isMlbamId, loadPlayerCrosswalk, resolvePlayerId, type PlayerCrosswalk } from '../data/playerIdentity';
+import { normalizeTeam } from '../data/playerRepository';
+
+type SourceKey = 'player' | 'player-season' | 'team';
+
+interface SourceSpec {
+  source: string;
+  label: string;
+  required: string[];
+  numeric: string[]; // Columns read with getField
+  key: SourceKey | null; // What must be unique per row
+  joinsTo?: string; // Base source the merge attaches these rows to
+  teamColumn?: string; // Club for the player-season, for conflict checks
+  teamGroup?: string; // Sources pooled before comparing clubs
+}
+
+const PAYROLL_SEASONS = ['2026', '2027', '2028', '2029', '2030', '2031'];
+
+const SOURCES: SourceSpec[] = [
+  {
+    source: '/fangraphs.csv',
+    label: 'FanGraphs Hitters',
+    required: ['Name', 'Season'],
+    numeric: ['Season', 'fg_Age', 'fg_PA', 'fg_WAR', 'fg_wRC+', 'fg_HR', 'fg_RBI', 'fg_OPS'],
+    key: 'player-season',
+    teamColumn: 'fg_Team',
+  },
+  {
+    source: '/spotrac.csv',
+    label: 'Spotrac Hitters',
+    required: ['Player', 'Start', 'Yrs', 'AAV'],
+    numeric: ['Start', 'End', 'Yrs', 'Value', 'AAV', 'AgeAt Signing'],
+    key: 'player',
+    joinsTo: '/fangraphs.csv',
+  },
+  {
+    source: '/statscast.csv',
+    label: 'Statcast Hitters',
+    required: ['last_name, first_name', 'player_id', 'year'],
+    numeric: ['player_id', 'year', 'player_age', 'pa'],
+    key: 'player-season',
+    joinsTo: '/fangraphs.csv',
+  },
+  {
+    source: '/fangraphs_pitchers.csv',
+    label: 'FanGraphs Pitchers',
+    required: ['Name', 'Season'],
+    numeric: ['Season', 'fg_Age', 'fg_IP', 'fg_WAR', 'fg_ERA', 'fg_FIP', 'fg_GS'],
+    key: 'player-season',
+    teamColumn: 'fg_Team',
+  },
+  {
+    source: '/spotrac_pitchers.csv',
+    label: 'Spotrac Pitchers',
+    required: ['Player', 'Start', 'Yrs', 'AAV'],
+    numeric: ['Start', 'End', 'Yrs', 'Value', 'AAV', 'AgeAt Signing'],
+    key: 'player',
+    joinsTo: '/fangraphs_pitchers.csv',
+  },
+  {
+    source: '/statcast_pitchers.csv',
+    label: 'Statcast Pitchers',
+    required: ['last_name, first_name', 'player_id', 'year'],
+    numeric: ['player_id', 'year', 'player_age', 'p_formatted_ip'],
+    key: 'player-season',
+    joinsTo: '/fangraphs_pitchers.csv',
+  },
+  {
+    // One row per appearance, so repeats are expected
+    source: '/Positions.csv',
+    label: 'Positions (Hitters)',
+    required: ['season', 'player_id', 'player_name', 'position_code', 'team_abbrev'],
+    numeric: ['season', 'player_id', 'team_id'],
+    key: null,
+    teamColumn: 'team_abbrev',
+    teamGroup: 'Positions',
+  },
+  {
+    source: '/positions_pitchers.csv',
+    label: 'Positions (Pitchers)',
+    required: ['season', 'player_id', 'player_name', 'position_code', 'team_abbrev'],
+    numeric: ['season', 'player_id', 'team_id'],
+    key: null,
+    teamColumn: 'team_abbrev',
+    teamGroup: 'Positions',
+  },
+  {
+    source: '/Full_Data.csv',
+    label: 'Multi-Season Data',
+    required: ['player_display', 'season'],
+    numeric: ['season', 'fg_Age', 'fg_WAR', 'fg_PA', 'fg_IP', 'sp_aav', 'sp_Yrs'],
+    key: 'player-season',
+    teamColumn: 'fg_Team',
+  },
+  {
+    source: '/mlb_payroll_commitments_2026_2031.csv',
+    label: 'Payroll Commitments',
+    required: ['Team'],
+    numeric: PAYROLL_SEASONS,
+    key: 'team',
+  },
+];
+
+export const DATA_ISSUE_LABELS: Record<DataIssueKind, string> = {
+  'parse-error': 'Parse Errors',
+  unmatched: 'Unmatched Players',
+  'duplicate-key': 'Duplicate Keys',
+  'missing-column': 'Missing Required',
+  coercion: 'Failed Coercions',
+  'team-conflict': 'Team Conflicts',
+};
+
+// Counts stay exact; only this many of each kind per source are listed
+const MAX_LISTED_ISSUES = 500;
+
+const SEASON_COLUMNS = ['Season', 'season', 'year'];
+
+interface LoadedSource {
+  spec: SourceSpec;
+  rows: RawCsvRow[];
+  errors: CsvParseError[];
+  loadError: string | null;
+}
+
+const emptyCounts = (): Record<DataIssueKind, number> => ({
+  'parse-error': 0,
+  unmatched: 0,
+  'duplicate-key': 0,
+  'missing-column': 0,
+  coercion: 0,
+  'team-conflict': 0,
+});
+
+async function loadSource(spec: SourceSpec): Promise<LoadedSource> {
+  try {
+    const { rows, errors } = await getCsvTable(spec.source);
+    return { spec, rows, errors, loadError: null };
+  } catch (error) {
+    return { spec, rows: [], errors: [], loadError: error instanceof Error ? error.message : 'Failed to load' };
+  }
+}
+
+function findSpec(source: string): SourceSpec | undefined {
+  return SOURCES.find(s => s.source === source);
+}
+
+function rowKey(spec: SourceSpec, row: RawCsvRow, playerId: string): string | null {
+  switch (spec.key) {
+    case 'player':
+      return playerId || null;
+    case 'player-season': {
+      const season = getField(row, SEASON_COLUMNS, 0);
+      return playerId && season ? `${playerId}|${season}` : null;
+    }
+    case 'team':
+      return normalizeTeam(row.Team);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Runs every check over the loaded sources
+ */
+function analyzeSources(loaded: LoadedSource[], crosswalk: PlayerCrosswalk | null): DataHealthReport {
+  const issues: DataIssue[] = [];
+  const reports = new Map<string, DataSourceReport>();
+  loaded.forEach(({ spec, rows, loadError }) => {
+    reports.set(spec.source, {
+      source: spec.source,
+      label: spec.label,
+      loaded: loadError === null,
+      loadError,
+      rowCount: rows.length,
+      issueCounts: emptyCounts(),
+    });
+  });
+
+  const addIssue = (issue: DataIssue) => {
+    const counts = reports.get(issue.source)!.issueCounts;
+    counts[issue.kind] += 1;
+    if (counts[issue.kind] <= MAX_LISTED_ISSUES) issues.push(issue);
+  };
+
+  // Resolved id per row, and the ids (and seasons) each base source covers
+  const idsBySource = new Map<string, string[]>();
+  const coveredBySource = new Map<string, Set<string>>();
+  loaded.forEach(({ spec, rows }) => {
+    const ids = rows.map(row => resolvePlayerId(crosswalk, row));
+    idsBySource.set(spec.source, ids);
+    const covered = new Set<string>();
+    rows.forEach((row, i) => {
+      covered.add(ids[i]);
+      covered.add(`${ids[i]}|${getField(row, SEASON_COLUMNS, 0)}`);
+    });
+    coveredBySource.set(spec.source, covered);
+  });
+
+  // player|season -> source group -> clubs (and the first row that named them)
+  const teamsByPlayerSeason = new Map<
+    string,
+    Map<string, { teams: Set<string>; source: string; row: number; player: string }>
+  >();
+
+  for (const { spec, rows, errors } of loaded) {
+    const source = spec.source;
+    const ids = idsBySource.get(source)!;
+
+    errors.forEach(error =>
+      addIssue({
+        kind: 'parse-error',
+        source,
+        row: error.row === null ? null : error.row + 1,
+        player: null,
+        field: null,
+        value: null,
+        message: error.message,
+      })
+    );
+
+    const header = new Set(rows.flatMap(row => Object.keys(row)));
+    const missingFromHeader = spec.required.filter(column => rows.length > 0 && !header.has(column));
+    missingFromHeader.forEach(column =>
+      addIssue({
+        kind: 'missing-column',
+        source,
+        row: null,
+        player: null,
+        field: column,
+        value: null,
+        message: `Column "${column}" is not in the header`,
+      })
+    );
+
+    const base = spec.joinsTo ? loaded.find(l => l.spec.source === spec.joinsTo) : undefined;
+    const baseCovered = base && !base.loadError ? coveredBySource.get(base.spec.source)! : null;
+    const firstRowByKey = new Map<string, number>();
+
+    rows.forEach((row, i) => {
+      const rowNumber = i + 1;
+      const player = getRowName(row) || null;
+      const playerId = ids[i];
+
+      spec.required.forEach(column => {
+        if (missingFromHeader.includes(column)) return;
+        const value = row[column];
+        if (value === null || value === undefined || String(value).trim() === '') {
+          addIssue({ kind: 'missing-column', source, row: rowNumber, player, field: column, value: null, message: `Blank ${column}` });
+        }
+      });
+
+      spec.numeric.forEach(column => {
+        const value = row[column];
+        if (value === null || value === undefined || String(value).trim() === '') return;
+        if (coerceNumber(value) === null) {
+          addIssue({
+            kind: 'coercion',
+            source,
+            row: rowNumber,
+            player,
+            field: column,
+            value: String(value),
+            message: `"${value}" is not a number; read as 0`,
+          });
+        }
+      });
+
+      const key = rowKey(spec, row, playerId);
+      if (key) {
+        const first = firstRowByKey.get(key);
+        if (first === undefined) {
+          firstRowByKey.set(key, rowNumber);
+        } else {
+          addIssue({
+            kind: 'duplicate-key',
+            source,
+            row: rowNumber,
+            player,
+            field: null,
+            value: key,
+            message: `Same ${spec.key} as row ${first}; only one is used`,
+          });
+        }
+      }
+
+      if (baseCovered && playerId) {
+        const season = getField(row, SEASON_COLUMNS, 0);
+        // Spotrac joins on the player; Statcast on the player-season
+        const joinKey = spec.key === 'player-season' ? `${playerId}|${season}` : playerId;
+        if (!baseCovered.has(joinKey)) {
+          const scope = spec.key === 'player-season' ? ` in ${season}` : '';
+          const idNote = isMlbamId(playerId) ? '' : ' (no MLBAM id found; matched by name)';
+          addIssue({
+            kind: 'unmatched',
+            source,
+            row: rowNumber,
+            player,
+            field: null,
+            value: playerId,
+            message: `No ${base!.spec.label} row for this player${scope}${idNote}`,
+          });
+        }
+      }
+
+      if (spec.teamColumn && playerId) {
+        const season = getField(row, SEASON_COLUMNS, 0);
+        const team = normalizeTeam(row[spec.teamColumn]);
+        if (season && team) {
+          const key = `${playerId}|${season}`;
+          const group = spec.teamGroup ?? source;
+          const byGroup = teamsByPlayerSeason.get(key) ?? new Map();
+          const entry = byGroup.get(group) ?? { teams: new Set<string>(), source, row: rowNumber, player: player ?? '' };
+          entry.teams.add(team);
+          byGroup.set(group, entry);
+          teamsByPlayerSeason.set(key, byGroup);
+        }
+      }
+    });
+  }
+
+  // A traded player lists several clubs; a conflict is two sources with none in common
+  for (const [key, byGroup] of teamsByPlayerSeason) {
+    const entries = [...byGroup.values()];
+    for (let a = 0; a < entries.length; a++) {
+      for (let b = a + 1; b < entries.length; b++) {
+        const [first, second] = [entries[a], entries[b]];
+        if ([...first.teams].some(team => second.teams.has(team))) continue;
+        const season = key.split('|')[1];
+        addIssue({
+          kind: 'team-conflict',
+          source: first.source,
+          row: first.row,
+          player: first.player || second.player || null,
+          field: findSpec(first.source)?.teamColumn ?? null,
+          value: [...first.teams].join('/'),
+          message: `${season}: ${[...first.teams].join('/')} here, ${[...second.teams].join('/')} in ${findSpec(second.source)?.label ?? second.source} (row ${second.row})`,
+        });
+      }
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    sources: loaded.map(l => reports.get(l.spec.source)!),
+    issues,
+  };
+}
+
+/**
+ * Loads every source and builds the ingestion report; unreadable sources are
+ * reported rather than thrown
+ */
+export async function buildDataHealthReport(): Promise<DataHealthReport> {
+  const [crosswalk, loaded] = await Promise.all([
+    loadPlayerCrosswalk(),
+    Promise.all(SOURCES.map(loadSource)),
+  ]);
+  return analyzeSources(loaded, crosswalk);
+}
+
+/**
+ * Issues as CSV, for handing to whoever maintains the source files
+ */
+export function dataIssuesToCsv(issues: DataIssue[]): string {
+  return Papa.unparse(
+    issues.map(issue => ({
+      Source: issue.source,
+      Issue: DATA_ISSUE_LABELS[issue.kind],
+      Row: issue.row ?? '',
+      Player: issue.player ?? '',
+      Field: issue.field ?? '',
+      Value: issue.value ?? '',
+      Detail: issue.message,
+    }))
+  );
+}
@@ -0,0 +1,155 @@
+// ============================================================================
+// DEFERRAL SCHEDULE SERVICE
+// ============================================================================
+// Lays out when deferred compensation is actually paid.
+//
+// Money deferred in a season is split evenly across the payout seasons, which
+// start `deferralPayoutDelay` seasons after the contract ends and run for
+// `deferralYears` annual installments. Each installment accrues
+// `deferralInterest` from the season it was earned until it is paid.
+//
+// The schedule feeds a season-by-season cash-flow timeline (nominal and
+// present value) running through the final payout, and the CBT service uses
+// the same payout dates to discount deferred money.
+//
+// BACKEND INTEGRATION:
+// Pure functions - can stay client-side
+// ============================================================================
+
+import type {
+  ContractTerms,
+  YearlyBreakdown,
+  DeferralPayment,
+  DeferralSchedule,
+  CashFlowTimelineRow,
+} from '../types';
+
+type DeferralTerms = Pick<
+  ContractTerms,
+  'startSeason' | 'years' | 'deferralPercent' | 'deferralYears' | 'deferralInterest' | 'deferralPayoutDelay'
+>;
+
+/**
+ * Seasons in which deferred money is paid out (empty without deferrals)
+ */
+export function getDeferralPayoutSeasons(terms: DeferralTerms): number[] {
+  if (terms.deferralPercent <= 0) return [];
+  const firstPayout = terms.startSeason + Math.max(1, terms.years) + Math.max(0, terms.deferralPayoutDelay);
+  const installments = Math.max(1, Math.round(terms.deferralYears));
+  return Array.from({ length: installments }, (_, i) => firstPayout + i);
+}
+
+/**
+ * Present value, in the season it was earned, of $1 deferred that season
+ * Installments accrue the deferral interest and are discounted at `discountRate`
+ *
+ * @param discountRate - Annual discount rate (%)
+ */
+export function deferredPresentValueFactor(
+  terms: DeferralTerms,
+  earnedSeason: number,
+  discountRate: number
+): number {
+  const payoutSeasons = getDeferralPayoutSeasons(terms);
+  if (payoutSeasons.length === 0) return 1;
+
+  const growth = (1 + terms.deferralInterest / 100) / (1 + discountRate / 100);
+  const total = payoutSeasons.reduce(
+    (sum, season) => sum + Math.pow(growth, Math.max(0, season - earnedSeason)),
+    0
+  );
+  return total / payoutSeasons.length;
+}
+
+/**
+ * Builds the deferral payout schedule and full cash-flow timeline
+ *
+ * @param terms - Contract terms
+ * @param yearlyBreakdown - Season rows with the amount deferred each season
+ * @param discountRate - Annual discount rate (%) for present values
+ */
+export function buildDeferralSchedule(
+  terms: DeferralTerms,
+  yearlyBreakdown: YearlyBreakdown[],
+  discountRate: number
+): DeferralSchedule {
+  const payoutSeasons = getDeferralPayoutSeasons(terms);
+  const interestRate = terms.deferralInterest / 100;
+  const payments: DeferralPayment[] = [];
+
+  for (const row of yearlyBreakdown) {
+    if (row.deferred <= 0 || payoutSeasons.length === 0) continue;
+    const principal = row.deferred / payoutSeasons.length;
+    for (const payoutSeason of payoutSeasons) {
+      const amount = principal * Math.pow(1 + interestRate, Math.max(0, payoutSeason - row.year));
+      payments.push({
+        earnedSeason: row.year,
+        payoutSeason,
+        principal,
+        interest: amount - principal,
+        amount,
+      });
+    }
+  }
+
+  const lastContractSeason = yearlyBreakdown.length > 0
+    ? yearlyBreakdown[yearlyBreakdown.length - 1].year
+    : terms.startSeason;
+  const lastSeason = Math.max(lastContractSeason, ...payoutSeasons);
+
+  const timeline: CashFlowTimelineRow[] = [];
+  let cumulativeNominal = 0;
+  let cumulativePresentValue = 0;
+
+  for (let season = terms.startSeason; season <= lastSeason; season++) {
+    const currentCash = yearlyBreakdown.find(y => y.year === season)?.totalCash ?? 0;
+    const deferredPaid = payments
+      .filter(p => p.payoutSeason === season)
+      .reduce((sum, p) => sum + p.amount, 0);
+    const nominal = currentCash + deferredPaid;
+    const presentValue = nominal / Math.pow(1 + discountRate / 100, season - terms.startSeason);
+
+    cumulativeNominal += nominal;
+    cumulativePresentValue += presentValue;
+    timeline.push({
+      season,
+      currentCash,
+      deferredPaid,
+      nominal,
+      presentValue,
+      cumulativeNominal,
+      cumulativePresentValue,
+    });
+  }
+
+  const totalDeferred = payments.reduce((sum, p) => sum + p.principal, 0);
+  const totalInterest = payments.reduce((sum, p) => sum + p.interest, 0);
+
+  return {
+    discountRate,
+    payoutSeasons,
+    payments,
+    timeline,
+    totalDeferred,
+    totalInterest,
+    totalNominal: cumulativeNominal,
+    totalPresentValue: cumulativePresentValue,
+  };
+}
+
+/**
+ * Serializes the cash-flow timeline as CSV ($M, one row per season)
+ */
+export function cashFlowTimelineToCsv(schedule: DeferralSchedule): string {
+  const header = ['Season', 'Current Cash', 'Deferred Paid', 'Nominal', 'Present Value', 'Cumulative Nominal', 'Cumulative PV'];
+  const rows = schedule.timeline.map(row => [
+    row.season,
+    row.currentCash.toFixed(2),
+    row.deferredPaid.toFixed(2),
+    row.nominal.toFixed(2),
+    row.presentValue.toFixed(2),
+    row.cumulativeNominal.toFixed(2),
+    row.cumulativePresentValue.toFixed(2),
+  ]);
+  return [header, ...rows].map(cells => cells.join(',')).join('\n');
+}
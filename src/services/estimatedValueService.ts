@@ -0,0 +1,537 @@
+// ============================================================================
+// ESTIMATED VALUE SERVICE
+// ============================================================================
+// The comp-based market value model behind the EstimatedValue screen:
+// per-stat weights by position, each stat's ratio to the comp cohort, and
+// the resulting fair AAV and contract length.
+//
+// - Comp AAVs are grown by annual market inflation from their signing year
+//   to the offseason before the contract starts
+// - The weighted stat ratio scales the baseline AAV (clamped to 0.5x-2.0x)
+// - Length starts from the cohort's average and adjusts for age and performance
+//
+// BACKEND INTEGRATION:
+// The model runs client-side. Saved settings could be synced with:
+// PUT /api/players/:playerId/valuation-settings - Saves EstimatedValueInputs
+// ============================================================================
+
+import type { Player, PlayerStats } from '../data/playerDatabase';
+import { isPitcher, getPerSeasonStatsForPeriod } from '../data/playerDatabase';
+
+// Mapping from config key to PlayerStats field name (or special marker)
+export const STAT_KEY_MAP: Record<string, keyof PlayerStats | 'HR'> = {
+  'fg_RBI': 'RBI',
+  'fg_HR': 'HR', // Special: extracted from HRperPA
+  'fg_OPS': 'OPS',
+  'fg_wRC+': 'wRCplus',
+  'fg_BB%': 'BBpct',
+  'fg_K%': 'Kpct',
+  'fg_PA': 'PA',
+  'fg_WAR': 'WAR',
+  'fg_xwOBA': 'xwOBA',
+  'fg_xSLG': 'xSLG',
+  'sc_EV_brl_pa': 'BarrelPerPA',
+  'sc_EV_ev50': 'EV50',
+  'fg_Def': 'fg_Def',
+  'fg_BsR': 'fg_BsR',
+  // Pitcher stats
+  'fg_ERA': 'ERA',
+  'fg_FIP': 'FIP',
+  'fg_xFIP': 'xFIP',
+  'fg_K/9': 'Kper9',
+  'fg_BB/9': 'BBper9',
+  'fg_WHIP': 'WHIP',
+  'fg_IP': 'IP',
+};
+
+export const STAT_CONFIG = {
+  // Outcome stats
+  'fg_RBI': { label: 'RBI', higherBetter: true, weight: 0.1, decimals: 0, scale: 'raw' as const },
+  'fg_HR': { label: 'HR', higherBetter: true, weight: 0.1, decimals: 0, scale: 'raw' as const },
+  'fg_OPS': { label: 'OPS', higherBetter: true, weight: 0.1, decimals: 3, scale: 'decimal' as const },
+  'fg_wRC+': { label: 'wRC+', higherBetter: true, weight: 0.1, decimals: 0, scale: 'raw' as const },
+  'fg_BB%': { label: 'BB%', higherBetter: true, weight: 0.1, decimals: 1, scale: 'pct' as const },
+  'fg_K%': { label: 'K%', higherBetter: false, weight: 0.1, decimals: 1, scale: 'pct' as const },
+  'fg_PA': { label: 'PA', higherBetter: true, weight: 0.1, decimals: 0, scale: 'raw' as const },
+  'fg_WAR': { label: 'WAR', higherBetter: true, weight: 0.1, decimals: 1, scale: 'raw' as const },
+  // Expected stats
+  'fg_xwOBA': { label: 'xwOBA', higherBetter: true, weight: 0.1, decimals: 3, scale: 'decimal' as const },
+  'fg_xSLG': { label: 'xSLG', higherBetter: true, weight: 0.1, decimals: 3, scale: 'decimal' as const },
+  // Batted stats
+  'sc_EV_brl_pa': { label: 'Barrels/PA', higherBetter: true, weight: 0.1, decimals: 1, scale: 'pct' as const },
+  'sc_EV_ev50': { label: 'avgEV', higherBetter: true, weight: 0.1, decimals: 1, scale: 'mph' as const },
+  // Defensive/Base running
+  'fg_Def': { label: 'Def', higherBetter: true, weight: 0.1, decimals: 1, scale: 'runs' as const },
+  'fg_BsR': { label: 'BsR', higherBetter: true, weight: 0.1, decimals: 1, scale: 'runs' as const },
+};
+
+// Pitcher stat config
+export const PITCHER_STAT_CONFIG = {
+  'fg_ERA': { label: 'ERA', higherBetter: false, weight: 0.15, decimals: 2, scale: 'decimal' as const },
+  'fg_FIP': { label: 'FIP', higherBetter: false, weight: 0.15, decimals: 2, scale: 'decimal' as const },
+  'fg_xFIP': { label: 'xFIP', higherBetter: false, weight: 0.15, decimals: 2, scale: 'decimal' as const },
+  'fg_K/9': { label: 'K/9', higherBetter: true, weight: 0.15, decimals: 1, scale: 'raw' as const },
+  'fg_BB/9': { label: 'BB/9', higherBetter: false, weight: 0.15, decimals: 2, scale: 'raw' as const },
+  'fg_WHIP': { label: 'WHIP', higherBetter: false, weight: 0.15, decimals: 2, scale: 'decimal' as const },
+  'fg_IP': { label: 'IP', higherBetter: true, weight: 0.10, decimals: 1, scale: 'raw' as const },
+  'fg_WAR': { label: 'WAR', higherBetter: true, weight: 0.20, decimals: 1, scale: 'raw' as const },
+};
+
+// Position-specific weight presets (total: 5.0 per position)
+export const POSITION_WEIGHTS: Record<string, Record<string, number>> = {
+  '1B': {
+    'fg_RBI': 0.50, 'fg_HR': 0.65, 'fg_OPS': 0.30, 'fg_wRC+': 0.70, 'fg_BB%': 0.20, 'fg_K%': 0.20, 'fg_PA': 0.30, 'fg_WAR': 0.60,
+    'fg_xwOBA': 0.50, 'fg_xSLG': 0.30,
+    'sc_EV_brl_pa': 0.30, 'sc_EV_ev50': 0.20,
+    'fg_Def': 0.10, 'fg_BsR': 0.15,
+  },
+  'DH': {
+    'fg_RBI': 0.50, 'fg_HR': 0.60, 'fg_OPS': 0.35, 'fg_wRC+': 0.60, 'fg_BB%': 0.25, 'fg_K%': 0.25, 'fg_PA': 0.35, 'fg_WAR': 0.60,
+    'fg_xwOBA': 0.50, 'fg_xSLG': 0.35,
+    'sc_EV_brl_pa': 0.35, 'sc_EV_ev50': 0.25,
+    'fg_Def': 0.00, 'fg_BsR': 0.05,
+  },
+  'SS': {
+    'fg_RBI': 0.20, 'fg_HR': 0.20, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.50, 'fg_WAR': 0.60,
+    'fg_xwOBA': 0.45, 'fg_xSLG': 0.20,
+    'sc_EV_brl_pa': 0.20, 'sc_EV_ev50': 0.15,
+    'fg_Def': 1.00, 'fg_BsR': 0.10,
+  },
+  '2B': {
+    'fg_RBI': 0.20, 'fg_HR': 0.20, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.50, 'fg_WAR': 0.60,
+    'fg_xwOBA': 0.35, 'fg_xSLG': 0.20,
+    'sc_EV_brl_pa': 0.20, 'sc_EV_ev50': 0.15,
+    'fg_Def': 0.70, 'fg_BsR': 0.50,
+  },
+  '3B': {
+    'fg_RBI': 0.40, 'fg_HR': 0.55, 'fg_OPS': 0.30, 'fg_wRC+': 0.45, 'fg_BB%': 0.20, 'fg_K%': 0.20, 'fg_PA': 0.30, 'fg_WAR': 0.60,
+    'fg_xwOBA': 0.40, 'fg_xSLG': 0.45,
+    'sc_EV_brl_pa': 0.30, 'sc_EV_ev50': 0.20,
+    'fg_Def': 0.55, 'fg_BsR': 0.10,
+  },
+  'CF': {
+    'fg_RBI': 0.20, 'fg_HR': 0.20, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.40, 'fg_WAR': 0.60,
+    'fg_xwOBA': 0.40, 'fg_xSLG': 0.20,
+    'sc_EV_brl_pa': 0.20, 'sc_EV_ev50': 0.15,
+    'fg_Def': 0.70, 'fg_BsR': 0.55,
+  },
+  'OF': {
+    'fg_RBI': 0.20, 'fg_HR': 0.20, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.40, 'fg_WAR': 0.60,
+    'fg_xwOBA': 0.40, 'fg_xSLG': 0.20,
+    'sc_EV_brl_pa': 0.20, 'sc_EV_ev50': 0.15,
+    'fg_Def': 0.70, 'fg_BsR': 0.55,
+  },
+  'LF': {
+    'fg_RBI': 0.40, 'fg_HR': 0.45, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.40, 'fg_WAR': 0.45,
+    'fg_xwOBA': 0.40, 'fg_xSLG': 0.30,
+    'sc_EV_brl_pa': 0.25, 'sc_EV_ev50': 0.20,
+    'fg_Def': 0.50, 'fg_BsR': 0.25,
+  },
+  'RF': {
+    'fg_RBI': 0.40, 'fg_HR': 0.45, 'fg_OPS': 0.30, 'fg_wRC+': 0.50, 'fg_BB%': 0.30, 'fg_K%': 0.30, 'fg_PA': 0.40, 'fg_WAR': 0.45,
+    'fg_xwOBA': 0.40, 'fg_xSLG': 0.30,
+    'sc_EV_brl_pa': 0.25, 'sc_EV_ev50': 0.20,
+    'fg_Def': 0.50, 'fg_BsR': 0.25,
+  },
+  'C': {
+    'fg_RBI': 0.25, 'fg_HR': 0.25, 'fg_OPS': 0.35, 'fg_wRC+': 0.50, 'fg_BB%': 0.35, 'fg_K%': 0.35, 'fg_PA': 0.60, 'fg_WAR': 0.60,
+    'fg_xwOBA': 0.35, 'fg_xSLG': 0.30,
+    'sc_EV_brl_pa': 0.25, 'sc_EV_ev50': 0.20,
+    'fg_Def': 0.60, 'fg_BsR': 0.05,
+  },
+  // Pitcher positions
+  'P': {
+    'fg_ERA': 1.0, 'fg_FIP': 0.8, 'fg_xFIP': 0.7, 'fg_K/9': 1.2, 'fg_BB/9': 0.8, 'fg_WHIP': 0.9, 'fg_IP': 0.6, 'fg_WAR': 1.5,
+  },
+  // Starting Pitcher weights - emphasize IP and WAR (volume stats)
+  'SP': {
+    'fg_ERA': 1.2, 'fg_FIP': 1.0, 'fg_xFIP': 0.9, 'fg_K/9': 1.1, 'fg_BB/9': 0.9, 'fg_WHIP': 1.0, 'fg_IP': 1.2, 'fg_WAR': 1.8,
+  },
+  // Relief Pitcher weights - match P weights
+  'RP': {
+    'fg_ERA': 1.0, 'fg_FIP': 0.8, 'fg_xFIP': 0.7, 'fg_K/9': 1.2, 'fg_BB/9': 0.8, 'fg_WHIP': 0.9, 'fg_IP': 0.6, 'fg_WAR': 1.5,
+  },
+};
+
+// Helper function to get weights for a specific position
+export function getWeightsForPosition(position: string): Record<string, number> {
+  const normalizedPos = position?.trim().toUpperCase() || '';
+  const positionWeights = POSITION_WEIGHTS[normalizedPos];
+  
+  if (positionWeights) {
+    return positionWeights;
+  }
+  
+  // Fallback to default weights from STAT_CONFIG or PITCHER_STAT_CONFIG
+  const isPitcherPos = normalizedPos === 'P' || normalizedPos === 'SP' || normalizedPos === 'RP';
+  const defaultConfig = isPitcherPos ? PITCHER_STAT_CONFIG : STAT_CONFIG;
+  return Object.fromEntries(
+    Object.entries(defaultConfig).map(([key, config]) => [key, config.weight])
+  );
+}
+
+// Last season in the loaded stats - player ages are as of this season
+export const LATEST_STATS_SEASON = 2025;
+
+export const DEFAULT_INFLATION_PERCENT = 4;
+
+// Scales the weighted ratio's distance from 1; raise it to make performance matter more
+export const AAV_SENSITIVITY = 1.4;
+// AAV multiplier bounds (-50% to +100%)
+export const AAV_MULTIPLIER_MIN = 0.5;
+export const AAV_MULTIPLIER_MAX = 2.0;
+
+// The settings that move the valuation
+export interface EstimatedValueInputs {
+  selectedCompIds: string[];
+  customWeights: Record<string, number>;
+  adjustAAV: boolean;
+  adjustYears: boolean;
+  inflationPercent: number;
+}
+
+/**
+ * Primary position used to pick the weight preset
+ * Pitchers listed as P are valued as starters
+ */
+export function normalizeValuationPosition(position: string, pitcher: boolean): string {
+  if (!position) return pitcher ? 'SP' : '1B';
+  // Primary position is the first before a slash or comma
+  const primary = position.trim().toUpperCase().split(/[\/,]/)[0].trim();
+
+  if (pitcher) {
+    if (!primary) return 'SP';
+    return primary === 'P' ? 'SP' : primary;
+  }
+  return primary || '1B';
+}
+
+/**
+ * Inputs for a player with no saved settings: every comp, the position preset,
+ * both adjustments on and default inflation
+ */
+export function getDefaultEstimatedValueInputs(player: Player, comps: Player[]): EstimatedValueInputs {
+  const position = normalizeValuationPosition(player.position, isPitcher(player));
+  return {
+    selectedCompIds: comps.map(c => c.id),
+    customWeights: getWeightsForPosition(position),
+    adjustAAV: true,
+    adjustYears: true,
+    inflationPercent: DEFAULT_INFLATION_PERCENT,
+  };
+}
+
+/**
+ * Stat definitions for the player's type (hitter or pitcher)
+ */
+export function getStatConfig(player: Player) {
+  return isPitcher(player) ? PITCHER_STAT_CONFIG : STAT_CONFIG;
+}
+
+/**
+ * Runs the comp model for a player
+ *
+ * @param startSeason - First season of the contract; comps are inflated to the offseason before it
+ */
+export function calculateEstimatedValue(player: Player, comps: Player[], inputs: EstimatedValueInputs, startSeason: number) {
+  // Per-season lines so comps with fewer seasons in a period compare evenly
+  const playerStats = getPerSeasonStatsForPeriod(player, '3yr-avg');
+  const isPitcherPlayer = isPitcher(player);
+  const activeStatConfig = getStatConfig(player);
+
+  const activeComps = comps.filter((c) => inputs.selectedCompIds.includes(c.id));
+  const compStatsById = Object.fromEntries(
+    activeComps.map((c) => [c.id, getPerSeasonStatsForPeriod(c, '3yr-contract')])
+  );
+  
+  if (activeComps.length === 0) {
+    return {
+      baselineAAV: 0,
+      baselineYears: 0,
+      fairAAV: 0,
+      fairYears: 0,
+      aavMultiplier: 1,
+      yearsAdjustment: 0,
+      cohortStats: {} as PlayerStats,
+      statComparisons: [] as any[],
+      statImpacts: [] as any[],
+    };
+  }
+
+  // Calculate baseline from comps adjusted for inflation (average of inflation-adjusted AAVs)
+  // Deals are signed the offseason before the contract's first season
+  const presentYear = startSeason - 1;
+  const inflationRate = Math.max(0, inputs.inflationPercent) / 100;
+  const adjustedAAVs = activeComps.map((c) => {
+    const signedYear = c.signedYear;
+    const yearsSinceSigning = signedYear ? Math.max(0, presentYear - signedYear) : 0;
+    const factor = Math.pow(1 + inflationRate, yearsSinceSigning);
+    return (c.AAV ?? 0) * factor;
+  });
+  const baselineAAV = adjustedAAVs.reduce((sum, v) => sum + v, 0) / activeComps.length;
+  const inflationAdjustedById = Object.fromEntries(
+    activeComps.map((c, idx) => [c.id, adjustedAAVs[idx]])
+  );
+  const rawBaselineAAV = activeComps.reduce((sum, c) => sum + (c.AAV ?? 0), 0) / activeComps.length;
+  const cohortAvgSignedYear = activeComps.reduce((sum, c) => sum + (c.signedYear || 0), 0) / activeComps.length;
+  const baselineYears = activeComps.reduce((sum, c) => sum + (c.years ?? 0), 0) / activeComps.length;
+
+  // Player's age at signing, aged forward from the latest stats season
+  const signingAge = playerStats.age + (presentYear - LATEST_STATS_SEASON);
+
+  // Cohort average age at signing (prefer age at signing if present)
+  const cohortSigningAge = (activeComps.reduce((sum, c) => {
+    const ageAtSigning = compStatsById[c.id].age as number;
+    return sum + ageAtSigning;
+  }, 0) / activeComps.length) || signingAge;
+
+  // Calculate cohort average stats (using pre-contract stats for comps)
+  const cohortStats = Object.keys(activeStatConfig).reduce((acc, configKey) => {
+    const statKey = STAT_KEY_MAP[configKey];
+    if (statKey === 'HR') {
+      // HR is extracted from HRperPA (which stores HR count)
+      const avgHr = activeComps.reduce((sum, c) => {
+        const s = compStatsById[c.id];
+        const hr = Math.round((s.HRperPA as number) || 0);
+        return sum + hr;
+      }, 0) / activeComps.length;
+      (acc as any)[statKey] = isNaN(avgHr) ? 0 : avgHr;
+    } else {
+      (acc as any)[statKey] = activeComps.reduce((sum, c) => {
+        const s = compStatsById[c.id];
+        return sum + ((s as any)[statKey] as number || 0);
+      }, 0) / activeComps.length;
+    }
+    return acc;
+  }, {} as any) as PlayerStats & { HR?: number; OPS?: number };
+
+  // Calculate Pete's performance relative to cohort for each stat
+  const statComparisons = Object.entries(activeStatConfig).map(([configKey, config]) => {
+    const statKey = STAT_KEY_MAP[configKey];
+    let peteValue: number;
+    let cohortValue: number;
+    
+    if (statKey === 'HR') {
+      peteValue = Math.round(playerStats.HRperPA as number);
+      cohortValue = (cohortStats as any)[statKey] as number;
+    } else {
+      peteValue = ((playerStats as any)[statKey] as number) || 0;
+      cohortValue = ((cohortStats as any)[statKey] as number) || 0;
+    }
+    
+    const delta = peteValue - cohortValue;
+    
+    // Calculate percentage difference with protection against division by zero or very small denominators
+    let pctDiff: number;
+    if (Math.abs(cohortValue) < 0.001) {
+      // If cohort value is essentially zero, use absolute difference scaled appropriately
+      // For very small denominators, cap the percentage to avoid extreme values
+      pctDiff = Math.sign(delta) * Math.min(500, Math.abs(delta * 100));
+    } else {
+      pctDiff = (delta / Math.abs(cohortValue)) * 100;
+      // Clamp percentage to reasonable bounds (-500% to +500%)
+      pctDiff = Math.max(-500, Math.min(500, pctDiff));
+    }
+    
+    // Calculate ratio for AAV impact
+    // For stats that can be negative (like Def, BsR), we need special handling
+    let ratio = 1;
+    if (configKey === 'fg_Def' || configKey === 'fg_BsR') {
+      // For Def/BsR: higher is better, but values can be negative
+      // Use delta-based approach: convert delta to ratio equivalent
+      // A delta of +5 Def should give similar impact to +10% on a positive stat
+      // Scale: each unit of Def/BsR delta = 2% ratio change (scaled by typical range)
+      const typicalRange = 10; // Typical range for Def/BsR is about -10 to +10
+      const deltaRatio = 1 + (delta / typicalRange) * 0.2; // 0.2 = 2% per unit
+      ratio = Math.max(0.5, Math.min(2.0, deltaRatio));
+    } else if (config.higherBetter) {
+      // For regular stats where higher is better
+      if (Math.abs(cohortValue) < 0.001) {
+        ratio = peteValue > 0 ? 1.1 : (peteValue < 0 ? 0.9 : 1);
+      } else {
+        ratio = peteValue / cohortValue;
+      }
+      // Clamp ratio to reasonable bounds to prevent extreme values
+      ratio = Math.max(0.1, Math.min(10, ratio));
+    } else {
+      // For stats where lower is better (like K%, age)
+      if (Math.abs(peteValue) < 0.001) {
+        ratio = cohortValue > 0 ? 1.1 : (cohortValue < 0 ? 0.9 : 1);
+      } else {
+        ratio = cohortValue / peteValue;
+      }
+      // Clamp ratio to reasonable bounds to prevent extreme values
+      ratio = Math.max(0.1, Math.min(10, ratio));
+    }
+    
+    return {
+      stat: config.label,
+      key: configKey,
+      peteValue,
+      cohortValue,
+      ratio,
+      delta,
+      pctDiff,
+      weight: inputs.customWeights[configKey],
+    };
+  });
+
+  // Calculate weighted multiplier for AAV and individual stat impacts
+  let weightedSum = 0;
+  let totalWeight = 0;
+  
+  // First pass: accumulate weights and calculate contributions
+  const statContributions = statComparisons.map((comp) => {
+    const contribution = (comp.ratio - 1) * comp.weight;
+    weightedSum += comp.ratio * comp.weight;
+    totalWeight += comp.weight;
+    
+    return {
+      ...comp,
+      contribution,
+    };
+  });
+  
+  // Second pass: calculate AAV impacts using the FINAL totalWeight (all metrics use same denominator)
+  const statImpacts = statContributions.map((comp) => {
+    // Calculate impact on AAV (this stat's contribution to the multiplier)
+    // Using final totalWeight ensures all stats are calculated consistently
+    // 
+    // Sign logic:
+    // - If ratio > 1 (player better than cohort): contribution > 0 → aavImpact > 0 (increases AAV)
+    // - If ratio < 1 (player worse than cohort): contribution < 0 → aavImpact < 0 (decreases AAV)
+    // - If ratio = 1 (player matches cohort): contribution = 0 → aavImpact = 0 (no change)
+    const statMultiplier = 1 + (comp.contribution / totalWeight);
+    const aavImpact = baselineAAV * comp.contribution / totalWeight;
+    
+    return {
+      ...comp,
+      aavImpact,
+    };
+  });
+  
+  const rawMultiplier = weightedSum / totalWeight;
+  
+  // Apply a scaling factor to amplify performance differences
+  // This makes the multiplier more sensitive to performance differences
+  const scaledMultiplier = 1 + (rawMultiplier - 1) * AAV_SENSITIVITY;
+  
+  const aavMultiplier = inputs.adjustAAV
+    ? Math.max(AAV_MULTIPLIER_MIN, Math.min(AAV_MULTIPLIER_MAX, scaledMultiplier))
+    : 1.0;
+  const fairAAV = baselineAAV * aavMultiplier;
+
+  // Scale individual stat impacts to account for multiplier clamping
+  // This ensures the sum of impacts matches the actual clamped difference
+  const rawImpactSum = statImpacts.reduce((sum, impact) => sum + impact.aavImpact, 0);
+  const actualDifference = fairAAV - baselineAAV;
+  const impactScale = rawImpactSum !== 0 ? actualDifference / rawImpactSum : 1;
+  
+  // Scale each impact proportionally to preserve relative contributions
+  const scaledStatImpacts = statImpacts.map(impact => ({
+    ...impact,
+    aavImpact: impact.aavImpact * impactScale,
+  }));
+
+  // Years adjustment - cleaner formula based on age and performance
+  // Formula: Baseline × age_multiplier + performance_adjustment
+  
+  const ageDelta = signingAge - cohortSigningAge;
+  
+  // Curved age multiplier using a quadratic response
+  // Older than cohort signing age => increasingly harsh penalty
+  // Younger than cohort signing age => tempered benefit (reduced)
+  const olderDelta = Math.max(0, ageDelta);
+  const youngerDelta = Math.max(0, -ageDelta);
+  
+  // Different age penalties for pitchers vs hitters
+  // Pitchers age more gracefully, so they get reduced penalties
+  let penaltyComponent, benefitComponent;
+  if (isPitcherPlayer) {
+    // Reduced penalties for pitchers: 0.05 → 0.03, quadratic 0.010 → 0.005
+    penaltyComponent = (0.03 * olderDelta) + (0.005 * olderDelta * olderDelta);
+    // Increased benefits for younger pitchers - they should get more credit for being younger
+    // Increase linear coefficient from 0.03 to 0.05, reduce quadratic penalty from 0.005 to 0.002
+    benefitComponent = (0.05 * youngerDelta) - (0.002 * youngerDelta * youngerDelta);
+  } else {
+    // Original penalties for hitters
+    penaltyComponent = (0.05 * olderDelta) + (0.010 * olderDelta * olderDelta);
+    benefitComponent = (0.03 * youngerDelta) - (0.005 * youngerDelta * youngerDelta);
+  }
+  
+  const rawAgeMultiplier = 1 - penaltyComponent + benefitComponent;
+  
+  // Enhanced age multiplier for very young high-performing players (both hitters and pitchers)
+  // Threshold: age <= 25 and AAV multiplier >= 1.15 (top 15% performance)
+  const isVeryYoungHighPerformer = signingAge <= 25 && aavMultiplier >= 1.15;
+  
+  let ageMultiplier;
+  if (isVeryYoungHighPerformer) {
+    // Apply additional boost: increase max multiplier from 1.5 to 1.8
+    // This rewards elite young talent with longer contracts
+    const boostedMultiplier = rawAgeMultiplier * 1.15; // 15% additional boost
+    ageMultiplier = Math.max(0.6, Math.min(1.8, boostedMultiplier));
+  } else {
+    // Standard bounds for all other players
+    ageMultiplier = Math.max(0.6, Math.min(1.5, rawAgeMultiplier));
+  }
+  
+  // Absolute age penalty: reduce years for players 31+ (stronger)
+  // Pitchers get reduced penalty: start at 33 instead of 31, lower rate (0.15 vs 0.25)
+  let absoluteAgePenalty;
+  if (isPitcherPlayer) {
+    // Pitchers: start penalty at 33, rate 0.15 per year, cap at 1.5 years
+    absoluteAgePenalty = signingAge >= 33 
+      ? Math.min(1.5, (signingAge - 32) * 0.15)
+      : 0;
+  } else {
+    // Hitters: original penalty starting at 31, rate 0.25 per year, cap at 2.0 years
+    absoluteAgePenalty = signingAge >= 31 
+      ? Math.min(2.0, (signingAge - 30) * 0.25)
+      : 0;
+  }
+  
+  // Performance adjustment: elite players get slightly longer deals (damped)
+  // Increase multiplier from 1.2 to 1.8, expand cap from ±1 to ±1.5
+  // For younger pitchers, apply a higher multiplier to reward their youth + performance
+  const performanceMultiplier = (isPitcherPlayer && youngerDelta > 0) ? 2.75 : 1.8;
+  const performanceAdjustmentRaw = (aavMultiplier - 1) * performanceMultiplier;
+  const performanceAdjustment = Math.max(-1.5, Math.min(1.5, performanceAdjustmentRaw));
+  
+  const totalYearsAdjustment = inputs.adjustYears 
+    ? ((baselineYears * ageMultiplier) - baselineYears) - absoluteAgePenalty + performanceAdjustment
+    : 0;
+  
+  // Soft cap: do not exceed baseline by more than +2.0 years (was +1.0)
+  // For very young high performers, allow up to +5.0 years to match the enhanced age multiplier
+  const softCapLimit = isVeryYoungHighPerformer ? 5.0 : 2.0;
+  const proposedYears = baselineYears + totalYearsAdjustment;
+  const cappedYears = Math.min(baselineYears + softCapLimit, proposedYears);
+  const fairYears = Math.max(1, Math.round(cappedYears * 2) / 2); // Min 1 year, round to 0.5
+
+  return {
+    baselineAAV,
+    baselineYears,
+    fairAAV,
+    fairYears,
+    aavMultiplier,
+    yearsAdjustment: totalYearsAdjustment,
+    cohortStats,
+    ageDelta,
+    ageMultiplier,
+    absoluteAgePenalty,
+    performanceAdjustment,
+    proposedYears,
+    cappedYears,
+    cohortSigningAge,
+    signingAge,
+    statComparisons,
+    statImpacts: scaledStatImpacts,
+    rawBaselineAAV,
+    inflationAdjustedById,
+    presentYear,
+    cohortAvgSignedYear,
+  };
+}
+
+export type EstimatedValueResult = ReturnType<typeof calculateEstimatedValue>;
@@ -0,0 +1,121 @@
+// ============================================================================
+// OFFER SHEET SERVICE
+// ============================================================================
+// Turns live contract terms into the content of the printed offer sheet:
+// the guaranteed year-by-year schedule, clause wording and incentive caps.
+//
+// The sheet shows contractual money only. Projected bonus and escalator
+// earnings used elsewhere in the app are left out of the schedule; incentives
+// are listed at their per-season maximum.
+//
+// BACKEND INTEGRATION:
+// Final offer documents can be archived with:
+// POST /api/players/:playerId/offers - Stores OfferSheetData with the PDF
+// ============================================================================
+
+import type { ContractTerms, ContractCalculations, OfferSheetData, OfferSheetRow } from '../types';
+import { distributeBaseSalaries } from './salaryScheduleService';
+
+export interface OfferSheetPlayer {
+  name: string;
+  position: string;
+  team: string;
+}
+
+// Used until a player is selected
+export const UNNAMED_OFFER_PLAYER: OfferSheetPlayer = { name: 'Player', position: '', team: '' };
+
+/**
+ * Year-by-year guaranteed schedule; the signing bonus is paid in the first season
+ */
+export function getOfferSheetRows(terms: ContractTerms): OfferSheetRow[] {
+  const baseSalaries = distributeBaseSalaries(terms);
+  return baseSalaries.map((baseSalary, i) => {
+    const signingBonus = i === 0 ? terms.signingBonus : 0;
+    const total = baseSalary + signingBonus;
+    const deferred = total * (terms.deferralPercent / 100);
+    return {
+      season: terms.startSeason + i,
+      baseSalary,
+      signingBonus,
+      deferred,
+      paidInSeason: total - deferred,
+      total,
+    };
+  });
+}
+
+/**
+ * Clause wording for the terms that are in effect
+ */
+export function getOfferSheetClauses(terms: ContractTerms, calculations: Pick<ContractCalculations, 'deferralSchedule'>): string[] {
+  const clauses: string[] = [];
+
+  if (terms.noTradeClause === 'full') {
+    clauses.push('Full no-trade clause for the length of the contract');
+  } else if (terms.noTradeClause === 'limited') {
+    clauses.push(`Limited no-trade clause (${terms.limitedNoTradeTeams}-team list)`);
+  }
+  if (terms.optOutYear !== null) {
+    clauses.push(`Player opt-out after Year ${terms.optOutYear} (${terms.startSeason + terms.optOutYear - 1} season)`);
+  }
+  if (terms.teamOptionYear !== null) {
+    clauses.push(
+      `Club option for Year ${terms.teamOptionYear} at $${terms.teamOptionValue}M ($${terms.buyoutValue}M buyout)`
+    );
+  }
+  if (terms.deferralPercent > 0) {
+    const firstPayout = calculations.deferralSchedule.payoutSeasons[0];
+    clauses.push(
+      `${terms.deferralPercent}% of annual compensation deferred, paid in ${terms.deferralYears} annual installments` +
+        `${firstPayout ? ` from ${firstPayout}` : ''} with ${terms.deferralInterest}% interest`
+    );
+  }
+  if (terms.hasEscalator) {
+    clauses.push(`${terms.escalatorPercent}% salary escalator after each qualifying season (trigger: ${terms.escalatorTrigger})`);
+  }
+  return clauses;
+}
+
+/**
+ * Everything printed on the offer sheet
+ */
+export function buildOfferSheet(
+  terms: ContractTerms,
+  calculations: ContractCalculations,
+  player: OfferSheetPlayer,
+  preparedOn: Date = new Date()
+): OfferSheetData {
+  const incentives = [
+    { label: 'Performance Bonuses', amount: terms.performanceBonus },
+    { label: 'Award Bonuses', amount: terms.awardBonus },
+    { label: 'Playing Time Bonuses', amount: terms.playingTimeBonus },
+  ].filter(i => i.amount > 0);
+
+  return {
+    playerName: player.name,
+    position: player.position,
+    team: player.team,
+    preparedOn: preparedOn.toISOString(),
+    startSeason: terms.startSeason,
+    endSeason: terms.startSeason + terms.years - 1,
+    years: terms.years,
+    guaranteedValue: calculations.guaranteedValue,
+    aav: terms.years > 0 ? calculations.guaranteedValue / terms.years : 0,
+    potentialValue: calculations.potentialValue,
+    cbtAAV: calculations.cbtImpact,
+    deferralPercent: terms.deferralPercent,
+    presentValue: calculations.deferralSchedule.totalPresentValue,
+    rows: getOfferSheetRows(terms),
+    clauses: getOfferSheetClauses(terms, calculations),
+    incentives,
+    maxAnnualIncentives: incentives.reduce((sum, i) => sum + i.amount, 0),
+  };
+}
+
+/**
+ * Formats $M as whole dollars, e.g. 30 -> "$30,000,000"
+ */
+export function formatOfferDollars(millions: number): string {
+  return `$${Math.round(millions * 1_000_000).toLocaleString('en-US')}`;
+}
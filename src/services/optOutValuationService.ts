@@ -0,0 +1,114 @@
+// ============================================================================
+// OPT-OUT VALUATION SERVICE
+// ============================================================================
+// Prices the player's opt-out as a real option.
+//
+// At the opt-out the player compares the money left on the deal (the strike)
+// with what the open market would pay for the same seasons (the underlying).
+// The market value is projected from the EstimatedValue market model (fair AAV
+// grown at its inflation rate) and the player's aging curve, and priced with
+// Black's formula on that forward value:
+//
+//   option = DF × (F × N(d1) - K × N(d2))
+//
+// BACKEND INTEGRATION:
+// POST /api/contracts/opt-out-value - Send terms + market model, receive OptOutValuation
+// ============================================================================
+
+import type { ContractTerms, PlayerProjection, OptOutValuation } from '../types';
+import { distributeBaseSalaries } from './salaryScheduleService';
+import { agingDelta } from './contractSimulationService';
+import { getCbtRules } from './cbtService';
+
+export interface OptOutMarketModel {
+  marketAAV: number; // Player's fair AAV today from the EstimatedValue model, $M
+  inflationPercent: number; // Annual market growth from EstimatedValue
+}
+
+// Volatility used when there is no player projection to derive it from
+const DEFAULT_VOLATILITY = 0.3;
+
+/**
+ * Standard normal cumulative distribution (Abramowitz-Stegun 7.1.26)
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Values a player opt-out in dollars and as an effective AAV uplift
+ *
+ * @param terms - Contract terms (returns null without a valid opt-out)
+ * @param market - Market model from EstimatedValue
+ * @param projection - Player projection for aging and volatility (optional)
+ * @param options.startSeason - Override for the contract's first season
+ * @param options.discountRate - Discount rate (%), defaults to the federal mid-term rate
+ */
+export function valueOptOut(
+  terms: ContractTerms,
+  market: OptOutMarketModel,
+  projection: PlayerProjection | null = null,
+  options: { startSeason?: number; discountRate?: number } = {}
+): OptOutValuation | null {
+  const optOutYear = terms.optOutYear;
+  if (optOutYear === null || optOutYear < 1 || optOutYear >= terms.years) return null;
+
+  const startSeason = options.startSeason ?? terms.startSeason;
+  const discountRate = (options.discountRate ?? getCbtRules(startSeason).federalMidTermRate) / 100;
+  const growth = Math.max(0, market.inflationPercent) / 100;
+  const salaries = distributeBaseSalaries(terms);
+
+  // WAR path relative to today, so the market AAV ages with the player
+  const currentWar = projection ? Math.max(projection.war, 0.5) : 1;
+  let projectedWar = projection ? projection.war : 1;
+  const agingFactors: number[] = [];
+  for (let i = 0; i < terms.years; i++) {
+    agingFactors.push(Math.min(1.5, Math.max(0, projectedWar / currentWar)));
+    if (projection) projectedWar += agingDelta(projection.age + i);
+  }
+
+  let remainingGuaranteed = 0;
+  let projectedMarketValue = 0;
+  for (let i = optOutYear; i < terms.years; i++) {
+    remainingGuaranteed += salaries[i];
+    projectedMarketValue += market.marketAAV * Math.pow(1 + growth, i) * agingFactors[i];
+  }
+
+  const volatility = projection
+    ? Math.min(0.6, Math.max(0.15, (projection.warStdDev / Math.max(Math.abs(projection.war), 1)) * 0.6))
+    : DEFAULT_VOLATILITY;
+
+  const maturity = optOutYear;
+  const discountFactor = 1 / Math.pow(1 + discountRate, maturity);
+  let optionValue = 0;
+  let exerciseProbability = 0;
+
+  if (projectedMarketValue > 0 && remainingGuaranteed > 0) {
+    const stdDev = volatility * Math.sqrt(maturity);
+    const d1 = (Math.log(projectedMarketValue / remainingGuaranteed) + (stdDev * stdDev) / 2) / stdDev;
+    const d2 = d1 - stdDev;
+    exerciseProbability = normalCdf(d2);
+    optionValue = discountFactor * (projectedMarketValue * normalCdf(d1) - remainingGuaranteed * exerciseProbability);
+  } else if (projectedMarketValue > 0) {
+    exerciseProbability = 1;
+    optionValue = discountFactor * projectedMarketValue;
+  }
+
+  const guaranteedAAV = (terms.baseAAV * terms.years + terms.signingBonus) / terms.years;
+  const effectiveAAVUplift = optionValue / terms.years;
+
+  return {
+    optOutYear,
+    remainingYears: terms.years - optOutYear,
+    remainingGuaranteed,
+    projectedMarketValue,
+    volatility,
+    exerciseProbability,
+    optionValue,
+    effectiveAAVUplift,
+    effectiveAAV: guaranteedAAV + effectiveAAVUplift,
+  };
+}
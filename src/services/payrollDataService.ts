@@ -4,7 +4,8 @@
 // Service to load and manage MLB team payroll commitments data from CSV
 // ============================================================================
 
-import { fetchCsv, getField, getString, type RawCsvRow } from '../data/csvLoader';
+import { getField, getString, type RawCsvRow } from '../data/csvLoader';
+import { getCsvRows } from '../data/csvStore';
 
 export interface TeamPayrollYearlyData {
   team: string;
@@ -35,7 +36,7 @@ export async function loadPayrollData(): Promise<TeamPayrollData[]> {
   const csvUrl = '/mlb_payroll_commitments_2026_2031.csv';
   
   try {
-    const rows = await fetchCsv(csvUrl);
+    const rows = await getCsvRows(csvUrl);
     
     if (!rows || rows.length === 0) {
       console.warn('No payroll data found in CSV file');
@@ -130,6 +131,34 @@ export function getTeamPayrollData(
   return allData.find(t => t.teamId === teamId);
 }
 
+// Placeholder base payroll ($M) while payroll data is loading or missing
+const FALLBACK_BASE_PAYROLL = 180;
+
+/**
+ * Get base payroll for consecutive seasons starting at startSeason
+ * Seasons outside the CSV window use the nearest season with data
+ */
+export function getBasePayrollBySeason(
+  teamData: TeamPayrollData | undefined,
+  startSeason: number,
+  seasonCount: number
+): { year: number; payroll: number }[] {
+  const seasons = Array.from({ length: Math.max(0, seasonCount) }, (_, i) => startSeason + i);
+  if (!teamData || teamData.payrollByYear.length === 0) {
+    return seasons.map(year => ({ year, payroll: FALLBACK_BASE_PAYROLL }));
+  }
+
+  const sorted = [...teamData.payrollByYear].sort((a, b) => a.year - b.year);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  return seasons.map(year => {
+    const exact = sorted.find(p => p.year === year);
+    if (exact) return exact;
+    return { year, payroll: year < first.year ? first.payroll : last.payroll };
+  });
+}
+
 /**
  * Get all available teams
  */
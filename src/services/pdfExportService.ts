@@ -0,0 +1,291 @@
+// ============================================================================
+// PDF EXPORT SERVICE
+// ============================================================================
+// Builds offline PDFs in the browser with jsPDF - nothing is sent to a server,
+// so exports work with no connection.
+//
+// - Offer sheet: vector layout drawn from OfferSheetData (offerSheetService)
+// - Presentation deck: a cover page plus one section per captured narrative
+//   screen; tall captures continue onto following pages
+//
+// BACKEND INTEGRATION:
+// None required. A server-rendered version could replace this with:
+// POST /api/exports/pdf - Returns application/pdf
+// ============================================================================
+
+import { jsPDF, GState } from 'jspdf';
+import type { OfferSheetData } from '../types';
+import { formatOfferDollars } from './offerSheetService';
+
+// Print palette: the app's navy accent on white paper
+const NAVY: [number, number, number] = [0, 75, 115];
+const INK: [number, number, number] = [24, 24, 27];
+const MUTED: [number, number, number] = [100, 106, 115];
+const RULE: [number, number, number] = [210, 212, 216];
+
+const MARGIN = 54;
+
+export interface OfferSheetPdfOptions {
+  watermark: boolean;
+}
+
+export interface DeckPage {
+  title: string;
+  canvas: HTMLCanvasElement;
+}
+
+export interface DeckPdfOptions {
+  title: string;
+  subtitle: string;
+}
+
+function formatPreparedDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+function drawWatermark(doc: jsPDF): void {
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  doc.saveGraphicsState();
+  doc.setGState(new GState({ opacity: 0.06 }));
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(96);
+  doc.setTextColor(...NAVY);
+  doc.text('BORAS CORP', width / 2 - 230, height / 2 + 160, { angle: 45 });
+  doc.restoreGraphicsState();
+}
+
+/**
+ * Lays out the offer sheet on US Letter pages
+ */
+export function createOfferSheetPdf(data: OfferSheetData, options: OfferSheetPdfOptions): jsPDF {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'letter' });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const right = width - MARGIN;
+  let y = MARGIN;
+
+  const newPageIfNeeded = (space: number) => {
+    if (y + space <= height - MARGIN) return;
+    doc.addPage();
+    if (options.watermark) drawWatermark(doc);
+    y = MARGIN;
+  };
+
+  const heading = (text: string) => {
+    newPageIfNeeded(40);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(...NAVY);
+    doc.text(text, MARGIN, y);
+    y += 18;
+  };
+
+  const labelValue = (label: string, value: string, x: number, rowY: number, colRight: number) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(...MUTED);
+    doc.text(label, x, rowY);
+    doc.setTextColor(...INK);
+    doc.text(value, colRight, rowY, { align: 'right' });
+  };
+
+  if (options.watermark) drawWatermark(doc);
+
+  // Header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(...NAVY);
+  doc.text('BORAS CORP', width / 2, y, { align: 'center' });
+  y += 26;
+  doc.setFontSize(22);
+  doc.setTextColor(...INK);
+  doc.text('CONTRACT OFFER', width / 2, y, { align: 'center' });
+  y += 20;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(...MUTED);
+  doc.text([data.playerName, data.position, data.team].filter(Boolean).join(' • '), width / 2, y, { align: 'center' });
+  y += 15;
+  doc.setFontSize(9);
+  doc.text(`Prepared: ${formatPreparedDate(data.preparedOn)}`, width / 2, y, { align: 'center' });
+  y += 16;
+  doc.setDrawColor(...RULE);
+  doc.line(MARGIN, y, right, y);
+  y += 28;
+
+  // Summary
+  heading('Contract Summary');
+  const mid = width / 2;
+  const summary: [string, string][] = [
+    ['Contract Length:', `${data.years} Years (${data.startSeason}–${data.endSeason})`],
+    ['Guaranteed:', formatOfferDollars(data.guaranteedValue)],
+    ['Average Annual Value:', formatOfferDollars(data.aav)],
+    ['Maximum Value:', formatOfferDollars(data.potentialValue)],
+    ['CBT AAV:', formatOfferDollars(data.cbtAAV)],
+    ['Present Value:', formatOfferDollars(data.presentValue)],
+  ];
+  summary.forEach(([label, value], i) => {
+    const col = i % 2;
+    const rowY = y + Math.floor(i / 2) * 16;
+    labelValue(label, value, col === 0 ? MARGIN : mid + 12, rowY, col === 0 ? mid - 12 : right);
+  });
+  y += Math.ceil(summary.length / 2) * 16 + 18;
+
+  // Year-by-year table
+  heading('Year-by-Year Breakdown');
+  const columns = [
+    { label: 'Season', x: MARGIN, align: 'left' as const },
+    { label: 'Base Salary', x: MARGIN + 160, align: 'right' as const },
+    { label: 'Signing Bonus', x: MARGIN + 250, align: 'right' as const },
+    { label: 'Deferred', x: MARGIN + 335, align: 'right' as const },
+    { label: 'Paid In Season', x: MARGIN + 425, align: 'right' as const },
+    { label: 'Total', x: right, align: 'right' as const },
+  ];
+  const money = (value: number) => (value > 0 ? `$${value.toFixed(2)}M` : '-');
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED);
+  columns.forEach(c => doc.text(c.label, c.x, y, { align: c.align }));
+  y += 6;
+  doc.line(MARGIN, y, right, y);
+  y += 14;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...INK);
+  data.rows.forEach(row => {
+    newPageIfNeeded(16);
+    const cells = [
+      `${row.season}`,
+      money(row.baseSalary),
+      money(row.signingBonus),
+      money(row.deferred),
+      money(row.paidInSeason),
+      money(row.total),
+    ];
+    cells.forEach((cell, i) => doc.text(cell, columns[i].x, y, { align: columns[i].align }));
+    y += 16;
+  });
+  newPageIfNeeded(24);
+  doc.setDrawColor(...NAVY);
+  doc.line(MARGIN, y - 10, right, y - 10);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(...NAVY);
+  doc.text('TOTAL', MARGIN, y + 4);
+  doc.text(money(data.rows.reduce((sum, r) => sum + r.total, 0)), right, y + 4, { align: 'right' });
+  y += 36;
+
+  // Clauses
+  heading('Clauses & Options');
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(...INK);
+  const clauses = data.clauses.length > 0 ? data.clauses : ['No additional clauses'];
+  clauses.forEach(clause => {
+    const lines = doc.splitTextToSize(clause, right - MARGIN - 14) as string[];
+    newPageIfNeeded(lines.length * 13 + 4);
+    doc.text('•', MARGIN, y);
+    doc.text(lines, MARGIN + 14, y);
+    y += lines.length * 13 + 4;
+  });
+  y += 14;
+
+  // Incentives
+  heading('Performance Incentives');
+  if (data.incentives.length === 0) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(...MUTED);
+    doc.text('No performance incentives', MARGIN, y);
+    y += 16;
+  } else {
+    data.incentives.forEach(incentive => {
+      newPageIfNeeded(16);
+      labelValue(incentive.label, `${formatOfferDollars(incentive.amount)} / season`, MARGIN, y, right);
+      y += 16;
+    });
+    doc.setDrawColor(...RULE);
+    doc.line(MARGIN, y - 10, right, y - 10);
+    labelValue('Maximum Annual Incentives', formatOfferDollars(data.maxAnnualIncentives), MARGIN, y + 4, right);
+    y += 20;
+  }
+
+  // Signature block
+  newPageIfNeeded(110);
+  y = Math.max(y + 40, height - MARGIN - 80);
+  doc.setDrawColor(...INK);
+  const signatureWidth = (right - MARGIN - 48) / 2;
+  [
+    { x: MARGIN, label: 'Player Signature' },
+    { x: MARGIN + signatureWidth + 48, label: 'Club Representative' },
+  ].forEach(({ x, label }) => {
+    doc.line(x, y, x + signatureWidth, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(...MUTED);
+    doc.text(label, x, y + 14);
+    doc.setFontSize(9);
+    doc.text('Date: _______________', x, y + 30);
+  });
+
+  return doc;
+}
+
+/**
+ * Cover page followed by each captured screen scaled to the page width
+ */
+export function createDeckPdf(pages: DeckPage[], options: DeckPdfOptions): jsPDF {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'letter' });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const margin = 24;
+  const titleSpace = 28;
+
+  // Cover
+  doc.setFillColor(11, 11, 12);
+  doc.rect(0, 0, width, height, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.setTextColor(...NAVY);
+  doc.text('BORAS CORP', width / 2, height / 2 - 40, { align: 'center' });
+  doc.setFontSize(30);
+  doc.setTextColor(236, 237, 239);
+  doc.text(options.title, width / 2, height / 2, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.setTextColor(163, 168, 176);
+  doc.text(options.subtitle, width / 2, height / 2 + 28, { align: 'center' });
+
+  pages.forEach(page => {
+    const imageWidth = width - margin * 2;
+    const scale = imageWidth / page.canvas.width;
+    // Source pixels that fit on one page under the title
+    const sliceHeight = Math.floor((height - margin * 2 - titleSpace) / scale);
+
+    for (let top = 0; top < page.canvas.height; top += sliceHeight) {
+      const slice = document.createElement('canvas');
+      slice.width = page.canvas.width;
+      slice.height = Math.min(sliceHeight, page.canvas.height - top);
+      slice.getContext('2d')?.drawImage(page.canvas, 0, top, slice.width, slice.height, 0, 0, slice.width, slice.height);
+
+      doc.addPage();
+      doc.setFillColor(11, 11, 12);
+      doc.rect(0, 0, width, height, 'F');
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(13);
+      doc.setTextColor(236, 237, 239);
+      doc.text(top === 0 ? page.title : `${page.title} (cont.)`, margin, margin + 12);
+      doc.addImage(slice, 'JPEG', margin, margin + titleSpace, imageWidth, slice.height * scale);
+    }
+  });
+
+  return doc;
+}
+
+/**
+ * File-system-safe name, e.g. "Pete Alonso Offer Sheet.pdf"
+ */
+export function pdfFileName(...parts: string[]): string {
+  return `${parts.filter(Boolean).join(' ').replace(/[\\/:*?"<>|]/g, '')}.pdf`;
+}
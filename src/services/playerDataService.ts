@@ -20,7 +20,9 @@ import type {
   ComparisonsResponse,
 } from '../types';
 import { loadPlayersFromCsv, type PlayerStats, isPitcher } from '../data/playerDatabase';
-import { fetchMultipleCsvs, mergeCsvRowsByName, getField, getString, normalizePlayerName } from '../data/csvLoader';
+import { getField, getString } from '../data/csvLoader';
+import { getMultipleCsvRows } from '../data/csvStore';
+import { loadPlayerCrosswalk, mergeCsvRowsByPlayerId, getRowPlayerId } from '../data/playerIdentity';
 import type { StatPeriod, Player } from '../data/playerDatabase';
 
 // ============================================================================
@@ -30,7 +32,7 @@ import type { StatPeriod, Player } from '../data/playerDatabase';
 /**
  * Fetches comprehensive statistics for a specific player
  * 
- * @param playerId - Unique identifier for the player (e.g., "pete-alonso")
+ * @param playerId - Unique identifier for the player (MLBAM id, e.g. "624413")
  * @returns Promise<PlayerProfile> - Complete player statistical profile
  * 
  * BACKEND INTEGRATION:
@@ -41,7 +43,7 @@ import type { StatPeriod, Player } from '../data/playerDatabase';
 export async function getPlayerStats(playerId: string): Promise<PlayerProfile> {
   // Load rows from all six CSVs (hitters + pitchers) and merge them
   const [fangraphsRows, spotracRows, statscastRows, 
-         fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows] = await fetchMultipleCsvs([
+         fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows] = await getMultipleCsvRows([
     '/fangraphs.csv',
     '/spotrac.csv',
     '/statscast.csv',
@@ -50,31 +52,23 @@ export async function getPlayerStats(playerId: string): Promise<PlayerProfile> {
     '/statcast_pitchers.csv',
   ]);
   
-  const hitterRows = mergeCsvRowsByName(fangraphsRows, spotracRows, statscastRows);
-  const pitcherRows = mergeCsvRowsByName(fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows);
+  const crosswalk = await loadPlayerCrosswalk();
+  const hitterRows = mergeCsvRowsByPlayerId(fangraphsRows, spotracRows, statscastRows, crosswalk);
+  const pitcherRows = mergeCsvRowsByPlayerId(fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows, crosswalk);
   const rows = [...hitterRows, ...pitcherRows];
   
   const players = await loadPlayersFromCsv();
   const matchInList = players.find(p => p.id === playerId || p.name.toLowerCase() === playerId.toLowerCase());
   if (!matchInList) throw new Error('Player not found');
 
-  const normId = matchInList.id;
+  const canonicalId = matchInList.id;
   const displayName = matchInList.name;
   const isPitcherPlayerFromObject = isPitcher(matchInList);
 
   // Try to find player in both CSV sets - use whichever has data
   // This handles cases where player object position might be incorrect
-  const pitcherPlayerRows = pitcherRows.filter(r => {
-    const name = getString(r, ['Name']);
-    const normalized = normalizePlayerName(name);
-    return normalized === normId || normalizePlayerName(displayName) === normalized;
-  });
-  
-  const hitterPlayerRows = hitterRows.filter(r => {
-    const name = getString(r, ['Name']);
-    const normalized = normalizePlayerName(name);
-    return normalized === normId || normalizePlayerName(displayName) === normalized;
-  });
+  const pitcherPlayerRows = pitcherRows.filter(r => getRowPlayerId(r) === canonicalId);
+  const hitterPlayerRows = hitterRows.filter(r => getRowPlayerId(r) === canonicalId);
 
   // Determine which CSV set has data - prefer the one with more rows
   // If both have data, prefer the one matching the player object's position
@@ -150,7 +144,7 @@ export async function getPlayerStats(playerId: string): Promise<PlayerProfile> {
   if (isPitcherPlayer) {
     // Return pitcher profile
     return {
-      playerId: normId,
+      playerId: canonicalId,
       name: displayName,
       position,
       age: matchInList.stats2025.age || 0,
@@ -197,7 +191,7 @@ export async function getPlayerStats(playerId: string): Promise<PlayerProfile> {
   } else {
     // Return hitter profile (existing logic)
     return {
-      playerId: normId,
+      playerId: canonicalId,
       name: displayName,
       position,
       age: matchInList.stats2025.age || 0,
@@ -401,7 +395,7 @@ function aggregateToPlayerStats(rows: any[]): PlayerStats {
 async function getPlayerSeasonRowsFromCsv(player: Player): Promise<Array<any>> {
   // Load rows from all six CSVs (hitters + pitchers) and merge them
   const [fangraphsRows, spotracRows, statscastRows, 
-         fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows] = await fetchMultipleCsvs([
+         fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows] = await getMultipleCsvRows([
     '/fangraphs.csv',
     '/spotrac.csv',
     '/statscast.csv',
@@ -409,18 +403,14 @@ async function getPlayerSeasonRowsFromCsv(player: Player): Promise<Array<any>> {
     '/spotrac_pitchers.csv',
     '/statcast_pitchers.csv',
   ]);
-  const hitterRows = mergeCsvRowsByName(fangraphsRows, spotracRows, statscastRows);
-  const pitcherRows = mergeCsvRowsByName(fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows);
+  const crosswalk = await loadPlayerCrosswalk();
+  const hitterRows = mergeCsvRowsByPlayerId(fangraphsRows, spotracRows, statscastRows, crosswalk);
+  const pitcherRows = mergeCsvRowsByPlayerId(fangraphsPitchersRows, spotracPitchersRows, statcastPitchersRows, crosswalk);
   const rows = [...hitterRows, ...pitcherRows];
-  const normId = player.id;
   const isPitcherPlayer = isPitcher(player);
   
   return rows
-    .filter(r => {
-      const name = getString(r, ['Name']);
-      const normalized = normalizePlayerName(name);
-      return normalized === normId;
-    })
+    .filter(r => getRowPlayerId(r) === player.id)
     .map((r) => {
       const baseObj = {
         season: Number(getField(r, ['Season', 'year'], 0)),
@@ -0,0 +1,101 @@
+// ============================================================================
+// PLAYER ID MIGRATION SERVICE
+// ============================================================================
+// Players used to be keyed on their normalized name; they are now keyed on
+// the MLBAM id (see src/data/playerIdentity.ts). Saved selections, share links
+// and the per-player localStorage entries written before that change still
+// hold the name key. This service maps those keys to the current ids:
+//
+// - resolveStoredPlayerId: a saved or shared id -> the player's current id
+// - resolveValuationSettingsIds: the same for comp ids in valuation settings
+// - migrateLegacyPlayerStorage: moves every name-keyed scenario list, audit
+//   trail and valuation settings entry to the player's id, once per browser
+//
+// BACKEND INTEGRATION:
+// None required; server-side saves are keyed on the player id from the start.
+// ============================================================================
+
+import type { Player } from '../data/playerDatabase';
+import { normalizePlayerName } from '../data/csvLoader';
+import { isMlbamId } from '../data/playerIdentity';
+
+// Set once the stored entries have been moved
+const MIGRATION_FLAG_KEY = 'borasApp_playerIdMigration';
+const MIGRATION_VERSION = '1';
+
+// Per-player entries: ContractContext, AuditContext and EstimatedValue
+const SCENARIOS_PREFIX = 'borasApp_scenarios_';
+const AUDIT_TRAIL_PREFIX = 'borasApp_auditTrail_';
+const VALUATION_SETTINGS_PREFIX = 'borasApp_estimatedValueSettings_';
+const PLAYER_STORAGE_PREFIXES = [SCENARIOS_PREFIX, AUDIT_TRAIL_PREFIX, VALUATION_SETTINGS_PREFIX];
+
+// Owner of entries saved before a player is chosen
+const UNASSIGNED_OWNER = 'unassigned';
+
+/**
+ * Current id for a saved or shared player id: the id itself when a player
+ * has it, else the player whose normalized name it is (pre-MLBAM keys);
+ * null when no loaded player matches
+ */
+export function resolveStoredPlayerId(storedId: string, players: Player[]): string | null {
+  if (players.some(p => p.id === storedId)) return storedId;
+  return players.find(p => normalizePlayerName(p.name) === storedId)?.id ?? null;
+}
+
+/**
+ * Valuation settings with their saved comp ids resolved the same way
+ */
+export function resolveValuationSettingsIds(
+  settings: Record<string, unknown>,
+  players: Player[]
+): Record<string, unknown> {
+  if (!Array.isArray(settings.selectedCompIds)) return settings;
+  return {
+    ...settings,
+    selectedCompIds: settings.selectedCompIds.map((id: string) => resolveStoredPlayerId(id, players) ?? id),
+  };
+}
+
+/**
+ * Moves name-keyed per-player entries to the player's id. An entry already
+ * saved under the id wins; the name-keyed copy is then left in place.
+ * Runs once per browser; later calls return immediately.
+ */
+export function migrateLegacyPlayerStorage(players: Player[]): void {
+  if (typeof window === 'undefined' || players.length === 0) return;
+
+  try {
+    if (localStorage.getItem(MIGRATION_FLAG_KEY) === MIGRATION_VERSION) return;
+
+    const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+      .filter((key): key is string => key !== null);
+
+    for (const key of keys) {
+      const prefix = PLAYER_STORAGE_PREFIXES.find(p => key.startsWith(p));
+      if (!prefix) continue;
+
+      const storedId = key.slice(prefix.length);
+      if (storedId === UNASSIGNED_OWNER || isMlbamId(storedId)) continue;
+      const playerId = resolveStoredPlayerId(storedId, players);
+      if (!playerId || playerId === storedId) continue;
+
+      const targetKey = `${prefix}${playerId}`;
+      if (localStorage.getItem(targetKey) !== null) {
+        console.warn(`Kept ${key}: ${targetKey} already exists`);
+        continue;
+      }
+      const value = localStorage.getItem(key)!;
+      localStorage.setItem(
+        targetKey,
+        prefix === VALUATION_SETTINGS_PREFIX
+          ? JSON.stringify(resolveValuationSettingsIds(JSON.parse(value), players))
+          : value
+      );
+      localStorage.removeItem(key);
+    }
+
+    localStorage.setItem(MIGRATION_FLAG_KEY, MIGRATION_VERSION);
+  } catch (error) {
+    console.warn('Failed to migrate name-keyed player data in localStorage:', error);
+  }
+}
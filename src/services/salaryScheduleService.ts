@@ -0,0 +1,110 @@
+// ============================================================================
+// SALARY SCHEDULE SERVICE
+// ============================================================================
+// Year-by-year base salary schedules for a contract.
+//
+// Even, front-loaded and back-loaded structures are derived from baseAAV and
+// frontLoadPercent. The custom structure stores explicit per-year salaries
+// (`customSalaries`) whose total is held at baseAAV × years; edits to one year
+// are absorbed by the unlocked years so the guarantee never moves.
+//
+// BACKEND INTEGRATION:
+// Pure functions - can stay client-side
+// ============================================================================
+
+import type { ContractTerms } from '../types';
+
+type ScheduleTerms = Pick<
+  ContractTerms,
+  'years' | 'baseAAV' | 'salaryStructure' | 'frontLoadPercent' | 'customSalaries'
+>;
+
+/**
+ * Distributes the base contract value across years per the salary structure
+ * Front/back-loaded schedules are normalized so the total still equals
+ * baseAAV × years; custom schedules are used as entered
+ */
+export function distributeBaseSalaries(terms: ScheduleTerms): number[] {
+  if (terms.salaryStructure === 'custom') {
+    return normalizeCustomSalaries(terms.customSalaries, terms.years, terms.baseAAV * terms.years);
+  }
+
+  const salaries: number[] = [];
+
+  for (let i = 0; i < terms.years; i++) {
+    // Single-year deals have nothing to load
+    const progress = terms.years > 1 ? i / (terms.years - 1) : 0;
+    let loadFactor = 1;
+
+    if (terms.salaryStructure === 'front-loaded') {
+      loadFactor = 1 + (terms.frontLoadPercent / 100) * (1 - progress);
+    } else if (terms.salaryStructure === 'back-loaded') {
+      loadFactor = 1 + (terms.frontLoadPercent / 100) * progress;
+    }
+
+    salaries.push(terms.baseAAV * loadFactor);
+  }
+
+  // Normalize salaries if front/back loaded (ensure total matches base value)
+  if (terms.salaryStructure !== 'even') {
+    const currentTotal = salaries.reduce((sum, s) => sum + s, 0);
+    const adjustmentFactor = currentTotal > 0 ? (terms.baseAAV * terms.years) / currentTotal : 1;
+    return salaries.map(s => s * adjustmentFactor);
+  }
+
+  return salaries;
+}
+
+/**
+ * Fits a custom schedule to a contract length and total
+ * Extra years are dropped, new years take the average of the existing ones,
+ * and the result is scaled so it sums to `total`
+ */
+export function normalizeCustomSalaries(salaries: number[], years: number, total: number): number[] {
+  const count = Math.max(1, years);
+  const kept = salaries.slice(0, count).map(s => Math.max(0, s));
+  const average = kept.length > 0 ? kept.reduce((sum, s) => sum + s, 0) / kept.length : 0;
+  while (kept.length < count) kept.push(average);
+
+  const currentTotal = kept.reduce((sum, s) => sum + s, 0);
+  if (currentTotal <= 0) return kept.map(() => total / count);
+  return kept.map(s => (s * total) / currentTotal);
+}
+
+/**
+ * Sets one year's salary and spreads the difference across the unlocked years
+ * so the schedule total is unchanged
+ *
+ * @param salaries - Current schedule
+ * @param index - Year being edited (0-based)
+ * @param value - New salary for that year in $M
+ * @param lockedYears - Indexes that must not change
+ * @returns The new schedule, or the original when no other year can absorb the change
+ */
+export function redistributeSalaries(
+  salaries: number[],
+  index: number,
+  value: number,
+  lockedYears: number[] = []
+): number[] {
+  const total = salaries.reduce((sum, s) => sum + s, 0);
+  const flexible = salaries
+    .map((_, i) => i)
+    .filter(i => i !== index && !lockedYears.includes(i));
+  if (flexible.length === 0) return salaries;
+
+  const lockedTotal = salaries.reduce(
+    (sum, s, i) => (i !== index && lockedYears.includes(i) ? sum + s : sum),
+    0
+  );
+  const clamped = Math.min(Math.max(0, value), total - lockedTotal);
+  const remaining = total - lockedTotal - clamped;
+  const flexibleTotal = flexible.reduce((sum, i) => sum + salaries[i], 0);
+
+  return salaries.map((salary, i) => {
+    if (i === index) return clamped;
+    if (!flexible.includes(i)) return salary;
+    // Keep the flexible years' relative shape; split evenly if they are all zero
+    return flexibleTotal > 0 ? (salary / flexibleTotal) * remaining : remaining / flexible.length;
+  });
+}
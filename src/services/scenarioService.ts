@@ -0,0 +1,179 @@
+// ============================================================================
+// CONTRACT SCENARIO SERVICE
+// ============================================================================
+// Named contract scenarios (our ask, the club's counter, a fallback) and the
+// helpers used to compare them side by side.
+//
+// Scenarios are plain data; ContractContext owns the active list and
+// persists it per player. Comparisons run each scenario through the same
+// calculateContractBreakdown pipeline as the single-contract screens.
+//
+// BACKEND INTEGRATION:
+// Scenarios can be synced with:
+// GET /api/players/:playerId/scenarios - Returns ContractScenario[]
+// PUT /api/players/:playerId/scenarios/:id - Saves one scenario
+// ============================================================================
+
+import type {
+  ContractTerms,
+  ContractScenario,
+  ContractTermsDiff,
+  ContractCalculations,
+  ScenarioComparisonMetrics,
+} from '../types';
+import { calculateContractBreakdown } from './contractCalculationService';
+
+export const DEFAULT_SCENARIO_NAME = 'Our Offer';
+
+let idCounter = 0;
+
+function createScenarioId(): string {
+  idCounter += 1;
+  return `scn_${Date.now().toString(36)}_${idCounter}`;
+}
+
+/**
+ * Creates a new scenario from terms
+ */
+export function createScenario(name: string, terms: ContractTerms): ContractScenario {
+  const now = new Date().toISOString();
+  return {
+    id: createScenarioId(),
+    name: name.trim() || DEFAULT_SCENARIO_NAME,
+    terms,
+    savedTerms: terms,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Copies a scenario under a new id and name
+ */
+export function cloneScenario(source: ContractScenario, existingNames: string[] = []): ContractScenario {
+  return createScenario(uniqueScenarioName(`${source.name} (copy)`, existingNames), {
+    ...source.terms,
+    customSalaries: [...source.terms.customSalaries],
+  });
+}
+
+/**
+ * True when the scenario has edits since it was last saved
+ */
+export function hasUnsavedChanges(scenario: ContractScenario): boolean {
+  return diffContractTerms(scenario.savedTerms, scenario.terms).length > 0;
+}
+
+/**
+ * Appends a number to `name` until it does not collide with `existingNames`
+ */
+export function uniqueScenarioName(name: string, existingNames: string[]): string {
+  if (!existingNames.includes(name)) return name;
+  let n = 2;
+  while (existingNames.includes(`${name} ${n}`)) n++;
+  return `${name} ${n}`;
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+const money = (value: number) => `$${Number(value.toFixed(2))}M`;
+const percent = (value: number) => `${value}%`;
+
+const TERM_FORMATS: { field: keyof ContractTerms; label: string; format: (terms: ContractTerms) => string }[] = [
+  { field: 'startSeason', label: 'Start Season', format: t => `${t.startSeason}` },
+  { field: 'years', label: 'Length', format: t => `${t.years} yrs` },
+  { field: 'baseAAV', label: 'Base AAV', format: t => money(t.baseAAV) },
+  { field: 'signingBonus', label: 'Signing Bonus', format: t => money(t.signingBonus) },
+  { field: 'salaryStructure', label: 'Structure', format: t => t.salaryStructure },
+  { field: 'frontLoadPercent', label: 'Load %', format: t => percent(t.frontLoadPercent) },
+  { field: 'customSalaries', label: 'Custom Salaries', format: t => t.customSalaries.map(s => s.toFixed(1)).join(' / ') || '—' },
+  { field: 'deferralPercent', label: 'Deferred', format: t => percent(t.deferralPercent) },
+  { field: 'deferralYears', label: 'Payout Length', format: t => `${t.deferralYears} yrs` },
+  { field: 'deferralInterest', label: 'Deferral Interest', format: t => percent(t.deferralInterest) },
+  { field: 'deferralPayoutDelay', label: 'Payout Delay', format: t => `${t.deferralPayoutDelay} yrs` },
+  { field: 'performanceBonus', label: 'Performance Bonus', format: t => `${money(t.performanceBonus)}/yr` },
+  { field: 'awardBonus', label: 'Award Bonus', format: t => `${money(t.awardBonus)}/yr` },
+  { field: 'playingTimeBonus', label: 'Playing Time Bonus', format: t => `${money(t.playingTimeBonus)}/yr` },
+  { field: 'optOutYear', label: 'Opt-Out', format: t => (t.optOutYear === null ? 'None' : `After year ${t.optOutYear}`) },
+  { field: 'teamOptionYear', label: 'Team Option', format: t => (t.teamOptionYear === null ? 'None' : `Year ${t.teamOptionYear}`) },
+  { field: 'teamOptionValue', label: 'Option Value', format: t => money(t.teamOptionValue) },
+  { field: 'buyoutValue', label: 'Buyout', format: t => money(t.buyoutValue) },
+  { field: 'noTradeClause', label: 'No-Trade', format: t => t.noTradeClause },
+  { field: 'limitedNoTradeTeams', label: 'No-Trade Teams', format: t => `${t.limitedNoTradeTeams}` },
+  { field: 'hasEscalator', label: 'Escalator', format: t => (t.hasEscalator ? 'Yes' : 'No') },
+  { field: 'escalatorPercent', label: 'Escalator %', format: t => percent(t.escalatorPercent) },
+  { field: 'escalatorTrigger', label: 'Escalator Trigger', format: t => t.escalatorTrigger },
+];
+
+/**
+ * Display label for a contract term
+ */
+export function getTermLabel(field: keyof ContractTerms): string {
+  return TERM_FORMATS.find(f => f.field === field)?.label ?? field;
+}
+
+/**
+ * Formats one term of `terms` for display
+ */
+export function formatTermValue(field: keyof ContractTerms, terms: ContractTerms): string {
+  const entry = TERM_FORMATS.find(f => f.field === field);
+  return entry ? entry.format(terms) : String(terms[field]);
+}
+
+/**
+ * Lists the terms that differ between two scenarios, formatted for display
+ * Fields that do not apply (e.g. custom salaries on an even structure) are skipped
+ */
+export function diffContractTerms(base: ContractTerms, other: ContractTerms): ContractTermsDiff[] {
+  const applies = (field: keyof ContractTerms, terms: ContractTerms) => {
+    if (field === 'customSalaries') return terms.salaryStructure === 'custom';
+    if (field === 'frontLoadPercent') return terms.salaryStructure === 'front-loaded' || terms.salaryStructure === 'back-loaded';
+    if (field === 'deferralYears' || field === 'deferralInterest' || field === 'deferralPayoutDelay') return terms.deferralPercent > 0;
+    if (field === 'teamOptionValue' || field === 'buyoutValue') return terms.teamOptionYear !== null;
+    if (field === 'limitedNoTradeTeams') return terms.noTradeClause === 'limited';
+    if (field === 'escalatorPercent' || field === 'escalatorTrigger') return terms.hasEscalator;
+    return true;
+  };
+
+  return TERM_FORMATS
+    .filter(({ field }) => applies(field, base) || applies(field, other))
+    .map(({ field, label, format }) => ({
+      field,
+      label,
+      base: applies(field, base) ? format(base) : '—',
+      other: applies(field, other) ? format(other) : '—',
+    }))
+    .filter(diff => diff.base !== diff.other);
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Headline metrics for a scenario's calculations
+ */
+export function getScenarioMetrics(terms: ContractTerms, calculations: ContractCalculations): ScenarioComparisonMetrics {
+  return {
+    totalValue: calculations.totalValue,
+    guaranteedValue: calculations.guaranteedValue,
+    potentialValue: calculations.potentialValue,
+    cbtImpact: calculations.cbtImpact,
+    presentValue: calculations.deferralSchedule.totalPresentValue,
+    aav: terms.years > 0 ? calculations.guaranteedValue / terms.years : 0,
+  };
+}
+
+/**
+ * Runs every scenario through the contract pipeline
+ */
+export function calculateScenarios(
+  scenarios: ContractScenario[]
+): { scenario: ContractScenario; calculations: ContractCalculations; metrics: ScenarioComparisonMetrics }[] {
+  return scenarios.map(scenario => {
+    const calculations = calculateContractBreakdown(scenario.terms);
+    return { scenario, calculations, metrics: getScenarioMetrics(scenario.terms, calculations) };
+  });
+}
@@ -0,0 +1,141 @@
+// ============================================================================
+// SHARE LINK SERVICE
+// ============================================================================
+// Encodes the presentation state (player, comps, contract terms, valuation
+// settings and club) into a self-contained link, so a scenario can be opened
+// on another machine exactly as it was shared.
+//
+// - The payload is deflated JSON in base64url, carried in the URL hash as
+//   `#share=<codec version>.<payload>`; the hash never reaches a server
+// - Bump SHARE_LINK_VERSION when the payload shape changes and keep decoding
+//   the older versions
+// - Terms keep the schema version they were written under so ContractContext
+//   can migrate them like stored scenarios
+//
+// BACKEND INTEGRATION:
+// None required. Short links could later be issued with:
+// POST /api/share-links - Stores the payload and returns a short id
+// ============================================================================
+
+import { deflateSync, inflateSync, strToU8, strFromU8 } from 'fflate';
+import type { SharedPresentationState } from '../types';
+
+export const SHARE_LINK_VERSION = 1;
+
+const SHARE_HASH_KEY = 'share';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Valuation settings from a link, keeping only fields of the type the
+ * EstimatedValue screen reads; they are saved for the player as-is, so a
+ * malformed field would break that screen on every later visit
+ */
+function decodeValuationSettings(value: unknown): Record<string, unknown> | undefined {
+  if (!isRecord(value)) return undefined;
+
+  const settings: Record<string, unknown> = {};
+  if (Array.isArray(value.selectedCompIds)) {
+    settings.selectedCompIds = value.selectedCompIds.filter((id: unknown): id is string => typeof id === 'string');
+  }
+  if (typeof value.selectedPosition === 'string') settings.selectedPosition = value.selectedPosition;
+  if (isRecord(value.customWeights) && Object.values(value.customWeights).every(isFiniteNumber)) {
+    settings.customWeights = value.customWeights;
+  }
+  if (typeof value.adjustAAV === 'boolean') settings.adjustAAV = value.adjustAAV;
+  if (typeof value.adjustYears === 'boolean') settings.adjustYears = value.adjustYears;
+  if (isFiniteNumber(value.inflationPercent)) settings.inflationPercent = value.inflationPercent;
+
+  return Object.keys(settings).length ? settings : undefined;
+}
+
+/**
+ * Compresses the state into the `<version>.<payload>` form used in links
+ */
+export function encodeSharedState(state: SharedPresentationState): string {
+  return `${SHARE_LINK_VERSION}.${toBase64Url(deflateSync(strToU8(JSON.stringify(state)), { level: 9 }))}`;
+}
+
+/**
+ * Reads an encoded payload; returns null when it is malformed or from a newer
+ * version of the app
+ */
+export function decodeSharedState(encoded: string): SharedPresentationState | null {
+  const [version, payload] = encoded.split('.', 2);
+  if (Number(version) !== SHARE_LINK_VERSION || !payload) {
+    console.warn(`Unsupported share link version: ${version}`);
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(strFromU8(inflateSync(fromBase64Url(payload))));
+    if (
+      !parsed ||
+      typeof parsed.playerId !== 'string' ||
+      !Array.isArray(parsed.compIds) ||
+      !parsed.terms ||
+      typeof parsed.terms !== 'object'
+    ) {
+      return null;
+    }
+    return {
+      playerId: parsed.playerId,
+      compIds: parsed.compIds.filter((id: unknown): id is string => typeof id === 'string'),
+      scenarioName: typeof parsed.scenarioName === 'string' ? parsed.scenarioName : '',
+      termsSchemaVersion: typeof parsed.termsSchemaVersion === 'number' ? parsed.termsSchemaVersion : 1,
+      terms: parsed.terms,
+      valuationSettings: decodeValuationSettings(parsed.valuationSettings),
+      teamId: typeof parsed.teamId === 'string' ? parsed.teamId : undefined,
+    };
+  } catch (error) {
+    console.warn('Failed to decode share link:', error);
+    return null;
+  }
+}
+
+/**
+ * Full link to the app that opens on the shared state
+ */
+export function buildShareUrl(state: SharedPresentationState, baseUrl: string = window.location.href): string {
+  const url = new URL(baseUrl);
+  url.hash = `${SHARE_HASH_KEY}=${encodeSharedState(state)}`;
+  return url.toString();
+}
+
+/**
+ * Shared state in the current URL, if the app was opened from a share link
+ */
+export function readSharedStateFromUrl(): SharedPresentationState | null {
+  if (typeof window === 'undefined') return null;
+  const hash = new URLSearchParams(window.location.hash.slice(1));
+  const encoded = hash.get(SHARE_HASH_KEY);
+  return encoded ? decodeSharedState(encoded) : null;
+}
+
+/**
+ * Drops the payload from the address bar once it has been applied, so a
+ * reload continues from saved state instead of re-opening the link
+ */
+export function clearSharedStateFromUrl(): void {
+  if (typeof window === 'undefined' || !window.location.hash) return;
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(window.history.state, '', url.toString());
+}
@@ -0,0 +1,121 @@
+// ============================================================================
+// SURPLUS VALUE SERVICE
+// ============================================================================
+// Prices a contract's projected production against what it costs.
+//
+// Each season's projected WAR is valued at the market price of a win, grown
+// by the inflation setting. Cost is what the season earns (salary plus
+// expected bonuses) from `ContractCalculations.yearlyBreakdown`, so any
+// structure - front-loaded, deferred, bonus-heavy - is compared like for like.
+//
+// - Nominal: value - cost per season, with a running total
+// - Discounted: both sides discounted to the first contract season; deferred
+//   money is discounted from its payout dates (see deferralScheduleService)
+// - The club surplus is the total; positive means the club pays less than
+//   the market would for the same wins
+//
+// BACKEND INTEGRATION:
+// Pure functions - can stay client-side
+// ============================================================================
+
+import type {
+  ContractTerms,
+  YearlyBreakdown,
+  WarProjectionSeason,
+  SurplusValueSettings,
+  SurplusValueSeason,
+  SurplusValueResult,
+} from '../types';
+import { MARKET_DOLLARS_PER_WAR, MARKET_GROWTH } from './contractSimulationService';
+import { deferredPresentValueFactor } from './deferralScheduleService';
+import { getCbtRules } from './cbtService';
+
+// Below this a season's cost per win is not meaningful
+const MIN_PRICED_WAR = 0.1;
+
+/**
+ * Market assumptions shared with the outcome simulation; discounts at the
+ * federal mid-term rate like the CBT present value
+ */
+export function getDefaultSurplusSettings(startSeason: number): SurplusValueSettings {
+  return {
+    dollarsPerWar: MARKET_DOLLARS_PER_WAR,
+    inflationPercent: MARKET_GROWTH * 100,
+    discountRate: getCbtRules(startSeason).federalMidTermRate,
+  };
+}
+
+/**
+ * Per-season and total surplus value of a contract
+ *
+ * @param terms - Contract terms (start season and deferral schedule)
+ * @param yearlyBreakdown - Season rows from calculateContractBreakdown
+ * @param projectedWar - Projected WAR per contract season (see projectWar)
+ * @param settings - Market $/WAR, inflation and discount rate
+ * @returns SurplusValueResult - Per-season rows plus nominal and discounted totals
+ */
+export function calculateSurplusValue(
+  terms: ContractTerms,
+  yearlyBreakdown: YearlyBreakdown[],
+  projectedWar: WarProjectionSeason[],
+  settings: SurplusValueSettings
+): SurplusValueResult {
+  const growth = 1 + settings.inflationPercent / 100;
+  const discount = 1 + settings.discountRate / 100;
+
+  const seasons: SurplusValueSeason[] = [];
+  let cumulativeSurplus = 0;
+  let cumulativePresentSurplus = 0;
+
+  yearlyBreakdown.forEach((year, i) => {
+    const war = projectedWar.find(p => p.season === year.year)?.war ?? 0;
+    const marketDollarsPerWar = settings.dollarsPerWar * Math.pow(growth, i);
+    const value = Math.max(0, war) * marketDollarsPerWar;
+    const cost = year.baseSalary + year.bonus;
+    const surplus = value - cost;
+
+    const discountFactor = 1 / Math.pow(discount, i);
+    const presentValue = value * discountFactor;
+    const presentCost =
+      (year.totalCash + year.deferred * deferredPresentValueFactor(terms, year.year, settings.discountRate)) *
+      discountFactor;
+    const presentSurplus = presentValue - presentCost;
+
+    cumulativeSurplus += surplus;
+    cumulativePresentSurplus += presentSurplus;
+    seasons.push({
+      season: year.year,
+      war,
+      marketDollarsPerWar,
+      dollarsPerWar: war >= MIN_PRICED_WAR ? cost / war : null,
+      value,
+      cost,
+      surplus,
+      cumulativeSurplus,
+      presentValue,
+      presentCost,
+      presentSurplus,
+      cumulativePresentSurplus,
+    });
+  });
+
+  const sum = (key: 'war' | 'value' | 'cost' | 'presentValue' | 'presentCost') =>
+    seasons.reduce((total, s) => total + s[key], 0);
+  const totalWar = sum('war');
+  const totalCost = sum('cost');
+  const presentValue = sum('presentValue');
+  const presentCost = sum('presentCost');
+
+  return {
+    settings,
+    seasons,
+    totalWar,
+    totalValue: sum('value'),
+    totalCost,
+    surplus: cumulativeSurplus,
+    presentValue,
+    presentCost,
+    presentSurplus: presentValue - presentCost,
+    dollarsPerWar: totalWar >= MIN_PRICED_WAR ? totalCost / totalWar : null,
+  };
+}
@@ -14,6 +14,8 @@
 // ============================================================================
 
 import type { TeamPayroll, PayrollProjection } from '../types';
+import { calculateCbtTax, getCbtThreshold, getCbtTier } from './cbtService';
+import { CONTRACT_START_SEASON } from './contractCalculationService';
 
 // ============================================================================
 // TEAM PAYROLL DATA
@@ -31,7 +33,7 @@ import type { TeamPayroll, PayrollProjection } from '../types';
  * const response = await fetch(`/api/teams/${teamId}/payroll?year=${year}`);
  * return response.json();
  */
-export async function getTeamPayroll(teamId: string, year: number = 2025): Promise<TeamPayroll> {
+export async function getTeamPayroll(teamId: string, year: number = CONTRACT_START_SEASON): Promise<TeamPayroll> {
   // Simulate API delay
   await new Promise(resolve => setTimeout(resolve, 100));
   
@@ -41,7 +43,7 @@ export async function getTeamPayroll(teamId: string, year: number = 2025): Promi
     teamName: getTeamName(teamId),
     year: year,
     basePayroll: 180, // Base payroll in millions (before adding new player)
-    luxuryTaxThreshold: 241, // 2025 luxury tax threshold
+    luxuryTaxThreshold: getCbtThreshold(year),
   };
 }
 
@@ -51,27 +53,29 @@ export async function getTeamPayroll(teamId: string, year: number = 2025): Promi
  * @param teamId - Team identifier
  * @param contractYears - Number of years in contract
  * @param yearlyImpact - Annual payroll impact per year
+ * @param startSeason - First season of the contract
  * @returns Promise<PayrollProjection[]> - Year-by-year payroll projections
  * 
  * BACKEND INTEGRATION:
  * Replace mock return with:
  * const response = await fetch(`/api/teams/${teamId}/payroll/projections`, {
  *   method: 'POST',
- *   body: JSON.stringify({ contractYears, yearlyImpact })
+ *   body: JSON.stringify({ contractYears, yearlyImpact, startSeason })
  * });
  * return response.json();
  */
 export async function getPayrollProjections(
   teamId: string,
   contractYears: number,
-  yearlyImpact: number[]
+  yearlyImpact: number[],
+  startSeason: number = CONTRACT_START_SEASON
 ): Promise<PayrollProjection[]> {
   // Simulate API delay
   await new Promise(resolve => setTimeout(resolve, 100));
   
   // Get current team data
-  const teamData = await getTeamPayroll(teamId);
-  const baseYear = 2025;
+  const teamData = await getTeamPayroll(teamId, startSeason);
+  const baseYear = startSeason;
   
   // MOCK CALCULATION - Backend should handle this logic
   // This assumes a baseline payroll growth of 3% annually
@@ -83,20 +87,8 @@ export async function getPayrollProjections(
     const playerContract = yearlyImpact[i] || 0;
     const totalPayroll = basePayroll + playerContract;
     
-    // Determine luxury tax status
-    // Thresholds typically increase ~3% annually
-    const threshold = teamData.luxuryTaxThreshold * Math.pow(1.03, i);
-    let luxuryTaxStatus: 'under' | 'tier1' | 'tier2' | 'tier3';
-    
-    if (totalPayroll < threshold) {
-      luxuryTaxStatus = 'under';
-    } else if (totalPayroll < threshold + 20) {
-      luxuryTaxStatus = 'tier1';
-    } else if (totalPayroll < threshold + 40) {
-      luxuryTaxStatus = 'tier2';
-    } else {
-      luxuryTaxStatus = 'tier3';
-    }
+    // Determine luxury tax status from the CBT rules for that season
+    const luxuryTaxStatus = getCbtTier(totalPayroll, year);
     
     projections.push({
       year,
@@ -113,7 +105,7 @@ export async function getPayrollProjections(
 /**
  * Gets luxury tax thresholds for a given year
  * 
- * @param year - Season year
+ * @param year - Season year (defaults to the first contract season)
  * @returns Promise<number> - Luxury tax threshold in millions
  * 
  * BACKEND INTEGRATION:
@@ -121,17 +113,11 @@ export async function getPayrollProjections(
  * const response = await fetch(`/api/league/luxury-tax-thresholds/${year}`);
  * return response.json();
  */
-export async function getLuxuryTaxThreshold(year: number): Promise<number> {
+export async function getLuxuryTaxThreshold(year: number = CONTRACT_START_SEASON): Promise<number> {
   // Simulate API delay
   await new Promise(resolve => setTimeout(resolve, 50));
   
-  // MOCK DATA - Replace with real API call
-  // Real backend should return actual MLB luxury tax thresholds
-  const baseThreshold = 241; // 2025 threshold
-  const yearDiff = year - 2025;
-  
-  // Assume ~3% annual increase
-  return baseThreshold * Math.pow(1.03, yearDiff);
+  return getCbtThreshold(year);
 }
 
 // ============================================================================
@@ -159,30 +145,18 @@ function getTeamName(teamId: string): string {
 
 /**
  * Calculates luxury tax penalty
- * Backend should handle this calculation with current CBA rules
+ * Uses the CBT rules table: first/second/third/fourth thresholds and
+ * repeat-offender base rates
+ *
+ * @param payroll - CBT payroll in millions
+ * @param year - Season year
+ * @param consecutiveYearsOver - Prior consecutive seasons over the threshold
  */
 export function calculateLuxuryTaxPenalty(
   payroll: number,
-  threshold: number,
-  isRepeatOffender: boolean = false
+  year: number,
+  consecutiveYearsOver: number = 0
 ): number {
-  if (payroll <= threshold) return 0;
-  
-  const overage = payroll - threshold;
-  let penalty = 0;
-  
-  // Simplified penalty calculation
-  // Real backend should use actual MLB CBA rules
-  if (overage <= 20) {
-    penalty = overage * (isRepeatOffender ? 0.30 : 0.20);
-  } else if (overage <= 40) {
-    penalty = 20 * (isRepeatOffender ? 0.30 : 0.20);
-    penalty += (overage - 20) * (isRepeatOffender ? 0.42 : 0.32);
-  } else {
-    penalty = 20 * (isRepeatOffender ? 0.30 : 0.20);
-    penalty += 20 * (isRepeatOffender ? 0.42 : 0.32);
-    penalty += (overage - 40) * (isRepeatOffender ? 0.95 : 0.75);
-  }
-  
-  return Math.round(penalty * 10) / 10;
+  const { tax } = calculateCbtTax(payroll, year, consecutiveYearsOver);
+  return Math.round(tax * 10) / 10;
 }
@@ -0,0 +1,184 @@
+// ============================================================================
+// VALUATION COMPS SERVICE
+// ============================================================================
+// Signed contracts used as comps, restated in today's dollars.
+//
+// Comps come from the loaded players with contracts (which carry pre-signing
+// stats) plus any remaining Spotrac rows, so contract-only signings still
+// show up. Money is restated from the contract's first season to the present
+// year with one of three methods:
+// - Flat inflation, compounded annually (the EstimatedValue adjustment)
+// - League revenue growth (approximate MLB revenue by season)
+// - CBT base threshold growth (the CBA's own measure of payroll growth)
+// Contracts starting in or after the present year are left as signed.
+//
+// BACKEND INTEGRATION:
+// GET /api/comps/signed - Returns SignedComp[]
+// GET /api/market/indices - Revenue and threshold series by season
+// ============================================================================
+
+import type { AdjustedComp, CompAdjustmentMethod, SignedComp } from '../types';
+import { getPerSeasonStatsForPeriod, loadPlayersFromCsv, type Player } from '../data/playerDatabase';
+import { getField, getString, type RawCsvRow } from '../data/csvLoader';
+import { getCsvRows } from '../data/csvStore';
+import { loadPlayerCrosswalk, resolvePlayerId, type PlayerCrosswalk } from '../data/playerIdentity';
+import { getHistoricalCbtThreshold } from './cbtService';
+
+const SPOTRAC_URLS = ['/spotrac.csv', '/spotrac_pitchers.csv'];
+
+export const COMP_ADJUSTMENT_LABELS: Record<CompAdjustmentMethod, string> = {
+  inflation: 'Flat Inflation',
+  revenue: 'League Revenue Growth',
+  cbt: 'CBT Threshold Growth',
+};
+
+// Approximate MLB revenue ($B). 2020 carries 2019 forward: the shortened
+// season says nothing about the player market
+const LEAGUE_REVENUE_BY_SEASON: Record<number, number> = {
+  2005: 4.7, 2006: 5.2, 2007: 6.0, 2008: 6.5, 2009: 6.6, 2010: 7.0, 2011: 7.2,
+  2012: 7.5, 2013: 8.0, 2014: 9.0, 2015: 9.5, 2016: 10.0, 2017: 10.3, 2018: 10.3,
+  2019: 10.7, 2020: 10.7, 2021: 9.9, 2022: 10.8, 2023: 11.6, 2024: 12.1, 2025: 12.5,
+};
+const REVENUE_FIRST_SEASON = 2005;
+const REVENUE_LAST_SEASON = 2025;
+// Growth assumed past the last season in the table
+const PROJECTED_REVENUE_GROWTH = 0.04;
+
+/**
+ * League revenue ($B) for a season, projected past the end of the table
+ */
+export function getLeagueRevenue(season: number): number {
+  if (season > REVENUE_LAST_SEASON) {
+    return LEAGUE_REVENUE_BY_SEASON[REVENUE_LAST_SEASON] *
+      Math.pow(1 + PROJECTED_REVENUE_GROWTH, season - REVENUE_LAST_SEASON);
+  }
+  return LEAGUE_REVENUE_BY_SEASON[Math.max(REVENUE_FIRST_SEASON, season)];
+}
+
+/**
+ * Multiplier that restates money from `signedYear` in `presentYear` dollars
+ *
+ * @param inflationPercent - Annual rate for the flat inflation method
+ */
+export function getCompAdjustmentFactor(
+  method: CompAdjustmentMethod,
+  signedYear: number,
+  presentYear: number,
+  inflationPercent: number
+): number {
+  if (!signedYear || signedYear >= presentYear) return 1;
+
+  switch (method) {
+    case 'revenue':
+      return getLeagueRevenue(presentYear) / getLeagueRevenue(signedYear);
+    case 'cbt':
+      return getHistoricalCbtThreshold(presentYear) / getHistoricalCbtThreshold(signedYear);
+    default:
+      return Math.pow(1 + Math.max(0, inflationPercent) / 100, presentYear - signedYear);
+  }
+}
+
+function primaryPosition(position: string): string {
+  return position.trim().toUpperCase().split(/[\/,]/)[0].trim();
+}
+
+function compFromSpotrac(row: RawCsvRow, crosswalk: PlayerCrosswalk): SignedComp | null {
+  const name = getString(row, ['Player']);
+  const signedYear = getField(row, ['Start'], 0);
+  const years = getField(row, ['Yrs'], 0);
+  const aav = getField(row, ['AAV'], 0) / 1_000_000;
+  if (!name || !signedYear || !years || aav <= 0) return null;
+
+  const totalValue = getField(row, ['Value'], 0) / 1_000_000;
+  const signingAge = getField(row, ['AgeAt Signing', 'Age At Signing'], 0);
+  return {
+    id: resolvePlayerId(crosswalk, row),
+    name,
+    position: primaryPosition(getString(row, ['Pos', 'PosGroup'])),
+    signedYear,
+    years,
+    aav,
+    totalValue: totalValue > 0 ? totalValue : aav * years,
+    signingAge: signingAge || null,
+    preSigningWar: null,
+  };
+}
+
+function compFromPlayer(player: Player, spotrac: SignedComp | undefined): SignedComp {
+  const years = player.years ?? spotrac?.years ?? 0;
+  const aav = player.AAV ?? spotrac?.aav ?? 0;
+  return {
+    id: player.id,
+    name: player.name,
+    position: primaryPosition(player.position) || spotrac?.position || '',
+    signedYear: player.signedYear ?? spotrac?.signedYear ?? 0,
+    years,
+    aav,
+    totalValue: spotrac?.totalValue ?? aav * years,
+    signingAge: spotrac?.signingAge ?? player.threeYearContractStats?.age ?? null,
+    preSigningWar: player.threeYearContractStats
+      ? getPerSeasonStatsForPeriod(player, '3yr-contract').WAR
+      : null,
+  };
+}
+
+/**
+ * Loads every signed comp: players with contracts first, then contract-only
+ * Spotrac rows. Either source may be missing
+ */
+export async function loadSignedComps(): Promise<SignedComp[]> {
+  const crosswalkLoad = loadPlayerCrosswalk();
+  const [players, ...spotracFiles] = await Promise.all([
+    loadPlayersFromCsv().catch(error => {
+      console.warn('Player stats unavailable for comps; using Spotrac only:', error);
+      return [] as Player[];
+    }),
+    ...SPOTRAC_URLS.map(url =>
+      getCsvRows(url).catch(error => {
+        console.warn(`Failed to load ${url}:`, error);
+        return [] as RawCsvRow[];
+      })
+    ),
+  ]);
+
+  // Spotrac rows join players on the canonical id
+  const crosswalk = await crosswalkLoad;
+  const spotracById = new Map<string, SignedComp>();
+  for (const row of spotracFiles.flat()) {
+    const comp = compFromSpotrac(row, crosswalk);
+    if (comp && !spotracById.has(comp.id)) spotracById.set(comp.id, comp);
+  }
+
+  const comps: SignedComp[] = [];
+  const seen = new Set<string>();
+  for (const player of players) {
+    if (!player.hasContract) continue;
+    comps.push(compFromPlayer(player, spotracById.get(player.id)));
+    seen.add(player.id);
+  }
+  for (const comp of spotracById.values()) {
+    if (!seen.has(comp.id)) comps.push(comp);
+  }
+
+  return comps.sort((a, b) => b.aav - a.aav);
+}
+
+/**
+ * Restates each comp's AAV and total value in present-year dollars
+ */
+export function adjustComps(
+  comps: SignedComp[],
+  method: CompAdjustmentMethod,
+  presentYear: number,
+  inflationPercent: number
+): AdjustedComp[] {
+  return comps.map(comp => {
+    const factor = getCompAdjustmentFactor(method, comp.signedYear, presentYear, inflationPercent);
+    return {
+      ...comp,
+      factor,
+      adjustedAAV: comp.aav * factor,
+      adjustedTotalValue: comp.totalValue * factor,
+    };
+  });
+}
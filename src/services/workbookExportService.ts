@@ -0,0 +1,492 @@
+// ============================================================================
+// WORKBOOK EXPORT SERVICE
+// ============================================================================
+// Builds the valuation workbook analysts use to re-check our math in Excel:
+// yearly breakdown, comps with inflation-adjusted AAVs, the EstimatedValue
+// weight/ratio table, the chosen club's payroll projection and the CBT
+// schedule.
+//
+// - Derived columns are written as Excel formulas with their computed value
+//   cached, so the sheet opens with numbers and recalculates when edited
+// - Inputs (present year, inflation rate, sensitivity, the AAV adjustment
+//   switch) sit in their own cells; the comp, baseline and fair AAV formulas
+//   read them, so editing an input re-prices the whole chain
+// - Money is in $M, matching the rest of the app
+// - The same sheets can be written as a .xlsx workbook or as zipped CSVs
+//
+// BACKEND INTEGRATION:
+// None required; files are generated in the browser.
+// ============================================================================
+
+import { zipSync, strToU8 } from 'fflate';
+import type { ContractTerms, ContractCalculations } from '../types';
+import type { Player } from '../data/playerDatabase';
+import type { EstimatedValueInputs, EstimatedValueResult } from './estimatedValueService';
+import { getStatConfig, AAV_SENSITIVITY, AAV_MULTIPLIER_MIN, AAV_MULTIPLIER_MAX } from './estimatedValueService';
+import { calculateCbtTax, calculateTaxAAV, getCbtRules, getConsecutiveYearsOver, CBT_RULES_VERSION } from './cbtService';
+
+// A formula cell keeps its computed value so CSVs and viewers without a calc engine still show numbers
+export interface WorkbookFormula {
+  formula: string; // Without the leading "="
+  value: number;
+}
+
+export type WorkbookCell = string | number | null | WorkbookFormula;
+
+export interface WorkbookSheet {
+  name: string; // Max 31 characters
+  rows: WorkbookCell[][]; // First row is the header
+}
+
+export interface ValuationWorkbookInput {
+  player: Player;
+  comps: Player[];
+  terms: ContractTerms;
+  calculations: ContractCalculations;
+  scenarioName: string;
+  valuationInputs: EstimatedValueInputs;
+  valuation: EstimatedValueResult;
+  team: { id: string; name: string };
+  basePayrollBySeason: { year: number; payroll: number }[];
+  priorYearsOver: number; // Club's consecutive CBT seasons before the first season
+}
+
+/**
+ * Column letter for a zero-based index (0 -> A, 26 -> AA)
+ */
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+const f = (formula: string, value: number): WorkbookFormula => ({ formula, value });
+
+// ============================================================================
+// SHEETS
+// ============================================================================
+
+function summarySheet(input: ValuationWorkbookInput): WorkbookSheet {
+  const { player, terms, calculations, valuation } = input;
+  return {
+    name: 'Summary',
+    rows: [
+      ['Item', 'Value'],
+      ['Player', player.name],
+      ['Position', player.position],
+      ['Scenario', input.scenarioName],
+      ['Club', input.team.name],
+      ['Generated', new Date().toISOString()],
+      ['CBT rules version', CBT_RULES_VERSION],
+      ['Start season', terms.startSeason],
+      ['Years', terms.years],
+      ['Guaranteed value ($M)', calculations.guaranteedValue],
+      ['Projected total value ($M)', calculations.totalValue],
+      ['Maximum value ($M)', calculations.potentialValue],
+      ['CBT AAV ($M)', calculations.cbtImpact],
+      ['Present value ($M)', calculations.deferralSchedule.totalPresentValue],
+      ['Comp baseline AAV ($M)', valuation.baselineAAV],
+      ['Estimated fair AAV ($M)', valuation.fairAAV],
+      ['Estimated fair years', valuation.fairYears],
+    ],
+  };
+}
+
+function yearlyBreakdownSheet({ calculations }: ValuationWorkbookInput): WorkbookSheet {
+  const rows: WorkbookCell[][] = [['Season', 'Base Salary', 'Bonus', 'Deferred', 'Cash Paid', 'CBT Hit']];
+  calculations.yearlyBreakdown.forEach((y, i) => {
+    const r = i + 2;
+    rows.push([y.year, y.baseSalary, y.bonus, y.deferred, f(`B${r}+C${r}-D${r}`, y.totalCash), y.cbtHit]);
+  });
+  const last = rows.length;
+  const sum = (col: string, value: number) => f(`SUM(${col}2:${col}${last})`, value);
+  const totals = calculations.yearlyBreakdown.reduce(
+    (acc, y) => ({
+      base: acc.base + y.baseSalary,
+      bonus: acc.bonus + y.bonus,
+      deferred: acc.deferred + y.deferred,
+      cash: acc.cash + y.totalCash,
+      cbt: acc.cbt + y.cbtHit,
+    }),
+    { base: 0, bonus: 0, deferred: 0, cash: 0, cbt: 0 }
+  );
+  rows.push([
+    'Total',
+    sum('B', totals.base),
+    sum('C', totals.bonus),
+    sum('D', totals.deferred),
+    sum('E', totals.cash),
+    sum('F', totals.cbt),
+  ]);
+  return { name: 'Yearly Breakdown', rows };
+}
+
+// Comps sheet layout: one row per comp after the header, then a blank row
+// and the inputs every comp formula reads
+const compsInputRows = (compCount: number) => ({
+  presentYear: compCount + 3,
+  inflationRate: compCount + 4,
+  baselineAAV: compCount + 5,
+});
+
+function compsSheet({ comps, valuationInputs, valuation, terms }: ValuationWorkbookInput): WorkbookSheet {
+  const presentYear = terms.startSeason - 1;
+  const rate = Math.max(0, valuationInputs.inflationPercent) / 100;
+  const inputRows = compsInputRows(comps.length);
+  const presentYearCell = `$B$${inputRows.presentYear}`;
+  const rateCell = `$B$${inputRows.inflationRate}`;
+  const rows: WorkbookCell[][] = [
+    ['Player', 'Position', 'Signed', 'Years', 'AAV', 'Years to Present', 'Inflation Factor', 'Adjusted AAV', 'Included'],
+  ];
+
+  comps.forEach((comp, i) => {
+    const r = i + 2;
+    const aav = comp.AAV ?? 0;
+    const yearsSince = comp.signedYear ? Math.max(0, presentYear - comp.signedYear) : 0;
+    const factor = Math.pow(1 + rate, yearsSince);
+    rows.push([
+      comp.name,
+      comp.position,
+      comp.signedYear ?? null,
+      comp.years ?? null,
+      aav,
+      comp.signedYear ? f(`MAX(0,${presentYearCell}-C${r})`, yearsSince) : 0,
+      f(`(1+${rateCell})^F${r}`, factor),
+      f(`E${r}*G${r}`, aav * factor),
+      valuationInputs.selectedCompIds.includes(comp.id) ? 'Yes' : 'No',
+    ]);
+  });
+
+  const last = rows.length;
+  rows.push([]);
+  rows.push(['Present year', presentYear]);
+  rows.push(['Inflation rate', rate]);
+  rows.push([
+    'Baseline AAV (included comps)',
+    null, null, null, null, null, null,
+    f(`AVERAGEIFS(H2:H${last},I2:I${last},"Yes")`, valuation.baselineAAV),
+  ]);
+  return { name: 'Comps', rows };
+}
+
+function valuationSheet({ player, comps, valuationInputs, valuation }: ValuationWorkbookInput): WorkbookSheet {
+  const config = getStatConfig(player) as Record<string, { higherBetter: boolean }>;
+  const rows: WorkbookCell[][] = [
+    ['Stat', 'Higher Is Better', 'Player', 'Cohort', 'Ratio', 'Weight', 'Contribution', 'AAV Impact'],
+  ];
+
+  // Rows below the stats: blank, then the chain from weights to fair AAV
+  const last = valuation.statImpacts.length + 1;
+  const at = {
+    totalWeight: last + 2,
+    weightedRatio: last + 3,
+    sensitivity: last + 4,
+    adjustAAV: last + 5,
+    multiplier: last + 6,
+    baselineAAV: last + 7,
+    fairAAV: last + 8,
+  };
+
+  valuation.statImpacts.forEach((impact, i) => {
+    const r = i + 2;
+    rows.push([
+      impact.stat,
+      config[impact.key]?.higherBetter ? 'Yes' : 'No',
+      impact.peteValue,
+      impact.cohortValue,
+      impact.ratio,
+      impact.weight,
+      f(`(E${r}-1)*F${r}`, impact.contribution),
+      // Each stat's share of the clamped change; unscaled when contributions cancel out
+      f(
+        `IF(SUM($G$2:$G$${last})=0,$H$${at.baselineAAV}*G${r}/$F$${at.totalWeight},` +
+          `G${r}/SUM($G$2:$G$${last})*($H$${at.fairAAV}-$H$${at.baselineAAV}))`,
+        impact.aavImpact
+      ),
+    ]);
+  });
+
+  const totalWeight = valuation.statImpacts.reduce((sum, s) => sum + (s.weight ?? 0), 0);
+  const weightedRatio = totalWeight > 0
+    ? valuation.statImpacts.reduce((sum, s) => sum + s.ratio * (s.weight ?? 0), 0) / totalWeight
+    : 1;
+  rows.push([]);
+  rows.push(['Total weight', null, null, null, null, f(`SUM(F2:F${last})`, totalWeight)]);
+  rows.push(['Weighted ratio', null, null, null, f(`SUMPRODUCT(E2:E${last},F2:F${last})/F${at.totalWeight}`, weightedRatio)]);
+  rows.push(['Sensitivity', null, null, null, AAV_SENSITIVITY]);
+  rows.push(['Adjust AAV for performance', null, null, null, valuationInputs.adjustAAV ? 'Yes' : 'No']);
+  rows.push([
+    `AAV multiplier (clamped ${AAV_MULTIPLIER_MIN}-${AAV_MULTIPLIER_MAX})`,
+    null, null, null,
+    f(
+      `IF(E${at.adjustAAV}="Yes",MAX(${AAV_MULTIPLIER_MIN},MIN(${AAV_MULTIPLIER_MAX},1+(E${at.weightedRatio}-1)*E${at.sensitivity})),1)`,
+      valuation.aavMultiplier
+    ),
+  ]);
+  rows.push([
+    'Baseline AAV',
+    null, null, null, null, null, null,
+    f(`Comps!H${compsInputRows(comps.length).baselineAAV}`, valuation.baselineAAV),
+  ]);
+  rows.push(['Fair AAV', null, null, null, null, null, null, f(`H${at.baselineAAV}*E${at.multiplier}`, valuation.fairAAV)]);
+  rows.push([
+    'Sum of AAV impacts',
+    null, null, null, null, null, null,
+    f(`SUM(H2:H${last})`, valuation.statImpacts.reduce((sum, s) => sum + s.aavImpact, 0)),
+  ]);
+  return { name: 'Valuation Weights', rows };
+}
+
+function payrollSheet({ team, basePayrollBySeason, priorYearsOver, calculations }: ValuationWorkbookInput): WorkbookSheet {
+  const rows: WorkbookCell[][] = [
+    [
+      'Season',
+      'Base Payroll',
+      'Player CBT Charge',
+      'Payroll With Player',
+      'CBT Threshold',
+      'Overage',
+      'Tier',
+      'Consecutive Seasons Over',
+      'Club Tax',
+      'Tax From Player',
+    ],
+  ];
+
+  const chargeFor = (year: number) => calculations.yearlyBreakdown.find(y => y.year === year)?.cbtHit ?? 0;
+  const yearsOverBySeason = getConsecutiveYearsOver(
+    basePayrollBySeason.map(({ year, payroll }) => ({ season: year, payroll: payroll + chargeFor(year) })),
+    priorYearsOver
+  );
+
+  basePayrollBySeason.forEach(({ year, payroll }, i) => {
+    const r = i + 2;
+    const charge = chargeFor(year);
+    const yearsOver = yearsOverBySeason[year];
+    const withPlayer = calculateCbtTax(payroll + charge, year, yearsOver);
+    const withoutPlayer = calculateCbtTax(payroll, year, yearsOver);
+    rows.push([
+      year,
+      payroll,
+      charge,
+      f(`B${r}+C${r}`, payroll + charge),
+      withPlayer.threshold,
+      f(`MAX(0,D${r}-E${r})`, Math.max(0, withPlayer.overage)),
+      withPlayer.tier,
+      yearsOver,
+      withPlayer.tax,
+      withPlayer.tax - withoutPlayer.tax,
+    ]);
+  });
+
+  rows.push([]);
+  rows.push([
+    `Club: ${team.name} (${team.id}). ${priorYearsOver} consecutive CBT season(s) before ${basePayrollBySeason[0]?.year ?? ''}; ` +
+      'the count carries forward while payroll with the player stays over the threshold.',
+  ]);
+  return { name: 'Payroll Projection', rows };
+}
+
+function cbtScheduleSheet({ terms }: ValuationWorkbookInput): WorkbookSheet {
+  const cbt = calculateTaxAAV(terms);
+  const rows: WorkbookCell[][] = [
+    [
+      'Season',
+      'Salary',
+      'Prorated Signing Bonus',
+      'Prorated Buyout',
+      'Deferred',
+      'Deferred PV',
+      'Present Value',
+      'CBT Charge',
+      'Threshold',
+      'Threshold Projected',
+    ],
+  ];
+
+  cbt.years.forEach((year, i) => {
+    const r = i + 2;
+    const rules = getCbtRules(year.season);
+    rows.push([
+      year.season,
+      year.salary,
+      year.proratedSigningBonus,
+      year.proratedBuyout,
+      year.deferred,
+      year.deferredPresentValue,
+      f(
+        `B${r}+C${r}+D${r}-E${r}+F${r}`,
+        year.salary + year.proratedSigningBonus + year.proratedBuyout - year.deferred + year.deferredPresentValue
+      ),
+      year.charge,
+      rules.threshold,
+      rules.projected ? 'Yes' : 'No',
+    ]);
+  });
+
+  const last = rows.length;
+  rows.push([]);
+  rows.push(['Tax AAV (PV / years)', null, null, null, null, null, f(`SUM(G2:G${last})/${cbt.years.length}`, cbt.taxAAV)]);
+  rows.push(['Discount rate (%)', cbt.discountRate]);
+  rows.push(['Rules version', cbt.rulesVersion]);
+  return { name: 'CBT Schedule', rows };
+}
+
+/**
+ * All sheets in the valuation workbook, in tab order
+ */
+export function buildValuationWorkbook(input: ValuationWorkbookInput): WorkbookSheet[] {
+  return [
+    summarySheet(input),
+    yearlyBreakdownSheet(input),
+    compsSheet(input),
+    valuationSheet(input),
+    payrollSheet(input),
+    cbtScheduleSheet(input),
+  ];
+}
+
+// ============================================================================
+// WRITERS
+// ============================================================================
+
+function cellValue(cell: WorkbookCell): string | number | null {
+  return cell !== null && typeof cell === 'object' ? cell.value : cell;
+}
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One sheet as CSV; formula cells export their computed value
+ */
+export function sheetToCsv(sheet: WorkbookSheet): string {
+  return sheet.rows.map(row => row.map(cell => escapeCsv(cellValue(cell))).join(',')).join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Style indexes in STYLES_XML
+const STYLE_HEADER = 1;
+const STYLE_NUMBER = 2;
+
+function cellXml(cell: WorkbookCell, ref: string, header: boolean): string {
+  if (cell === null || cell === '') return '';
+  if (typeof cell === 'string') {
+    const style = header ? ` s="${STYLE_HEADER}"` : '';
+    return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+  }
+  if (typeof cell === 'number') {
+    return Number.isFinite(cell) ? `<c r="${ref}" s="${STYLE_NUMBER}"><v>${cell}</v></c>` : '';
+  }
+  const value = Number.isFinite(cell.value) ? `<v>${cell.value}</v>` : '';
+  return `<c r="${ref}" s="${STYLE_NUMBER}"><f>${escapeXml(cell.formula)}</f>${value}</c>`;
+}
+
+function sheetXml(sheet: WorkbookSheet): string {
+  const rows = sheet.rows
+    .map((row, i) => {
+      const cells = row.map((cell, j) => cellXml(cell, `${columnLetter(j)}${i + 1}`, i === 0)).join('');
+      return `<row r="${i + 1}">${cells}</row>`;
+    })
+    .join('');
+  const columns = sheet.rows[0]?.map((_, j) => `<col min="${j + 1}" max="${j + 1}" width="${j === 0 ? 30 : 16}" customWidth="1"/>`).join('') ?? '';
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    (columns ? `<cols>${columns}</cols>` : '') +
+    `<sheetData>${rows}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="#,##0.000"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+/**
+ * Writes sheets as an Office Open XML (.xlsx) workbook
+ */
+export function workbookToXlsx(sheets: WorkbookSheet[]): Uint8Array {
+  const names = sheets.map(s => s.name.replace(/[\[\]:*?/\\]/g, '').slice(0, 31));
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets
+          .map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+          .join('') +
+        '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        '<sheets>' +
+        names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets>' +
+        // Recalculate formulas on open so edits flow through
+        '<calcPr fullCalcOnLoad="1"/>' +
+        '</workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets
+          .map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+          .join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    ),
+    'xl/styles.xml': strToU8(STYLES_XML),
+  };
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(sheet));
+  });
+  return zipSync(files);
+}
+
+/**
+ * Writes each sheet as a CSV inside one .zip
+ */
+export function workbookToCsvZip(sheets: WorkbookSheet[]): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  sheets.forEach((sheet, i) => {
+    const name = sheet.name.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+    files[`${String(i + 1).padStart(2, '0')}_${name}.csv`] = strToU8(sheetToCsv(sheet));
+  });
+  return zipSync(files);
+}
@@ -110,12 +110,13 @@ export interface ComparisonPlayer {
 // Contract Terms & Structure
 // ============================================================================
 
-export type SalaryStructure = 'even' | 'front-loaded' | 'back-loaded';
+export type SalaryStructure = 'even' | 'front-loaded' | 'back-loaded' | 'custom';
 export type NoTradeClause = 'full' | 'limited' | 'none';
 export type EscalatorTrigger = 'MVP finish' | 'All-Star' | '40 HR' | 'Playoffs';
 
 export interface ContractTerms {
   // Base terms
+  startSeason: number; // First season covered by the contract
   years: number;
   baseAAV: number;
   signingBonus: number;
@@ -123,11 +124,13 @@ export interface ContractTerms {
   // Salary structure
   salaryStructure: SalaryStructure;
   frontLoadPercent: number;
+  customSalaries: number[]; // Per-year base salaries ($M) when salaryStructure is 'custom'
   
   // Deferrals
   deferralPercent: number;
-  deferralYears: number;
+  deferralYears: number; // Number of annual payouts
   deferralInterest: number;
+  deferralPayoutDelay: number; // Seasons between contract end and the first payout
   
   // Performance bonuses
   performanceBonus: number;
@@ -163,11 +166,452 @@ export interface ContractCalculations {
   potentialValue: number;
   cbtImpact: number;
   yearlyBreakdown: YearlyBreakdown[];
+  deferralSchedule: DeferralSchedule;
+}
+
+// One installment of money deferred in `earnedSeason`
+export interface DeferralPayment {
+  earnedSeason: number;
+  payoutSeason: number;
+  principal: number;
+  interest: number;
+  amount: number; // principal + interest
+}
+
+export interface CashFlowTimelineRow {
+  season: number;
+  currentCash: number; // Paid in-season (salary + bonuses - deferred)
+  deferredPaid: number; // Deferred installments paid this season
+  nominal: number;
+  presentValue: number; // Discounted to the contract's first season
+  cumulativeNominal: number;
+  cumulativePresentValue: number;
+}
+
+export interface DeferralSchedule {
+  discountRate: number; // %
+  payoutSeasons: number[];
+  payments: DeferralPayment[];
+  timeline: CashFlowTimelineRow[];
+  totalDeferred: number;
+  totalInterest: number;
+  totalNominal: number;
+  totalPresentValue: number;
+}
+
+// Contract Scenarios
+// ============================================================================
+
+// A named set of terms (our ask, the club's counter, a fallback...)
+export interface ContractScenario {
+  id: string;
+  name: string;
+  terms: ContractTerms;
+  savedTerms: ContractTerms; // Last saved version; Revert returns here
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+export interface ContractTermsDiff {
+  field: keyof ContractTerms;
+  label: string;
+  base: string; // Formatted value in the baseline scenario
+  other: string;
+}
+
+export interface ScenarioComparisonMetrics {
+  totalValue: number;
+  guaranteedValue: number;
+  potentialValue: number;
+  cbtImpact: number;
+  presentValue: number;
+  aav: number;
+}
+
+// Audit Trail
+// ============================================================================
+
+export type AuditCategory = 'terms' | 'scenario' | 'comps' | 'valuation' | 'checkpoint';
+
+export interface AuditFieldChange {
+  field: string;
+  label: string;
+  from: string; // Formatted value before the change
+  to: string;
+}
+
+// One recorded change; snapshots hold the state right after it for restores
+export interface AuditEvent {
+  id: string;
+  timestamp: string; // ISO timestamp
+  category: AuditCategory;
+  action: string;
+  scenarioId?: string;
+  scenarioName?: string;
+  changes: AuditFieldChange[];
+  terms?: ContractTerms;
+  compIds?: string[];
+  valuationSettings?: Record<string, unknown>;
+  label?: string; // Checkpoint label
+  version?: number; // Version number, fixed when recorded; absent on events saved before numbering
+}
+
+export interface AuditVersionChange extends AuditFieldChange {
+  category: AuditCategory;
+  scenarioName?: string;
+}
+
+// Consecutive events grouped into one version of the offer
+export interface AuditVersion {
+  id: string;
+  number: number;
+  label?: string;
+  startedAt: string;
+  endedAt: string;
+  events: AuditEvent[];
+  changes: AuditVersionChange[]; // Net field-level diff across the version
+}
+
+// State of the offer as of the end of a version
+export interface AuditRestorePoint {
+  scenarios: { id: string; name: string; terms: ContractTerms }[];
+  compIds?: string[];
+  valuationSettings?: Record<string, unknown>;
+}
+
+// Offer Sheet
+// ============================================================================
+
+// One contract season as written in the offer (guaranteed money only)
+export interface OfferSheetRow {
+  season: number;
+  baseSalary: number;
+  signingBonus: number;
+  deferred: number;
+  paidInSeason: number;
+  total: number; // baseSalary + signingBonus
+}
+
+export interface OfferSheetIncentive {
+  label: string;
+  amount: number; // Maximum per season
+}
+
+// Everything printed on the offer sheet, derived from live terms
+export interface OfferSheetData {
+  playerName: string;
+  position: string;
+  team: string;
+  preparedOn: string; // ISO date
+  startSeason: number;
+  endSeason: number;
+  years: number;
+  guaranteedValue: number;
+  aav: number;
+  potentialValue: number;
+  cbtAAV: number;
+  deferralPercent: number;
+  presentValue: number; // Cash flow discounted to the first season
+  rows: OfferSheetRow[];
+  clauses: string[];
+  incentives: OfferSheetIncentive[];
+  maxAnnualIncentives: number;
+}
+
+// Share Link
+// ============================================================================
+
+// Presentation state carried in a share link; enough to rebuild the
+// narrative on another machine without a backend
+export interface SharedPresentationState {
+  playerId: string;
+  compIds: string[];
+  scenarioName: string;
+  termsSchemaVersion: number; // ContractContext schema the terms were saved under
+  terms: ContractTerms;
+  valuationSettings?: Record<string, unknown>; // EstimatedValue settings
+  teamId?: string; // Club selected for team fit and payroll
+}
+
+// Contract Rule Validation
+// ============================================================================
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+export interface ContractRuleViolation {
+  ruleId: string;
+  severity: RuleSeverity;
+  message: string;
+  citation: string; // CBA article or rule the check comes from
+  field: keyof ContractTerms; // Input to highlight
+  season?: number; // Season the violation applies to, when season-specific
+}
+
+// Contract Simulation
+// ============================================================================
+
+export interface PlayerProjection {
+  age: number;
+  war: number; // Expected full-season WAR entering the contract
+  warStdDev: number;
+  playingTime: number; // Expected share of a full season (PA or IP based), 0-1
+  homeRuns: number; // Expected full-season HR (0 for pitchers)
+  isPitcher: boolean;
+}
+
+export type ContractClause =
+  | 'performanceBonus'
+  | 'awardBonus'
+  | 'playingTimeBonus'
+  | 'escalator'
+  | 'optOut'
+  | 'teamOption';
+
+export interface ClauseOutcome {
+  clause: ContractClause;
+  label: string;
+  probability: number; // Share of eligible seasons (or decisions) where the clause pays or is exercised
+  probabilityAny: number; // Share of simulated careers where it pays or is exercised at least once
+  expectedPayout: number; // Mean money the clause pays out per career, $M
+  expectedForgone: number; // Mean guaranteed salary given up by exercising it (opt-out), $M
+  expectedValueEffect: number; // Mean change in total cash vs guaranteed terms, $M
+}
+
+export interface SimulationHistogramBin {
+  binStart: number;
+  binEnd: number;
+  count: number;
+  share: number;
+}
+
+export interface ContractSimulationResult {
+  trials: number;
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  clauses: ClauseOutcome[];
+  histogram: SimulationHistogramBin[];
+}
+
+export interface OptOutValuation {
+  optOutYear: number;
+  remainingYears: number;
+  remainingGuaranteed: number; // Nominal salary the player walks away from, $M
+  projectedMarketValue: number; // Expected nominal market deal at the opt-out, $M
+  volatility: number; // Annualized volatility of the market value
+  exerciseProbability: number; // Risk-neutral probability the player opts out
+  optionValue: number; // Present value of the opt-out to the player, $M
+  effectiveAAVUplift: number; // optionValue spread across the contract years, $M
+  effectiveAAV: number; // Guaranteed AAV + uplift, $M
+}
+
+// After-Tax Value
+// ============================================================================
+
+export interface AfterTaxSeason {
+  season: number;
+  gross: number;
+  federalTax: number; // US federal income tax + FICA
+  stateTax: number; // State and local, resident and jock tax
+  foreignTax: number; // Canadian federal + provincial
+  net: number;
+}
+
+export interface AfterTaxResult {
+  teamId: string;
+  jurisdiction: string; // Code of the club's home state/province
+  jurisdictionName: string;
+  residence: string; // Player's residence code during the contract
+  gross: number;
+  federalTax: number;
+  stateTax: number;
+  foreignTax: number;
+  totalTax: number;
+  net: number;
+  netPresentValue: number;
+  effectiveRate: number; // totalTax / gross
+  seasons: AfterTaxSeason[];
+}
+
+// WAR Projection
+// ============================================================================
+
+// Aging-curve groups; hitters by defensive spectrum, pitchers by role
+export type AgingPositionGroup = 'C' | 'CI' | 'MI' | 'OF' | 'SP' | 'RP';
+
+export type Handedness = 'L' | 'R' | 'S';
+
+// Expected change in full-season WAR from `age` to `age + 1`
+export interface AgingCurvePoint {
+  age: number;
+  delta: number;
+  deltaStdDev: number; // Spread of observed year-over-year changes
+  pairs: number; // Playing-time-weighted season pairs behind the point
+}
+
+export interface AgingCurve {
+  positionGroup: AgingPositionGroup;
+  hand: Handedness | null; // null when handedness is unknown for the player
+  label: string;
+  pairs: number; // Weighted season pairs in the group across all ages
+  points: AgingCurvePoint[];
+}
+
+export interface WarHistorySeason {
+  season: number;
+  age: number;
+  war: number;
+  playingTime: number; // Share of a full season (PA or IP based)
+}
+
+export interface WarProjectionSeason {
+  season: number;
+  age: number;
+  war: number;
+  low: number; // 10th percentile
+  high: number; // 90th percentile
+}
+
+export interface WarProjection {
+  playerId: string;
+  source: 'history' | 'profile'; // Multi-season rows vs the loaded stat periods only
+  baseSeason: number; // Last observed season the projection ages from
+  baselineWar: number; // Full-season WAR rate in the base season
+  playingTime: number; // Expected share of a full season
+  curve: AgingCurve;
+  history: WarHistorySeason[];
+  seasons: WarProjectionSeason[];
+}
+
+// Surplus Value
+// ============================================================================
+
+export interface SurplusValueSettings {
+  dollarsPerWar: number; // Market price of a win in the first contract season, $M
+  inflationPercent: number; // Annual growth of the market price
+  discountRate: number; // %, for present values
+}
+
+export interface SurplusValueSeason {
+  season: number;
+  war: number;
+  marketDollarsPerWar: number;
+  dollarsPerWar: number | null; // Cost per projected win; null below ~0.1 WAR
+  value: number; // Projected WAR at the market price (no credit below replacement)
+  cost: number; // Salary and expected bonuses earned in the season, deferred or not
+  surplus: number;
+  cumulativeSurplus: number;
+  presentValue: number;
+  presentCost: number; // Deferred money discounted from its payout season
+  presentSurplus: number;
+  cumulativePresentSurplus: number;
+}
+
+export interface SurplusValueResult {
+  settings: SurplusValueSettings;
+  seasons: SurplusValueSeason[];
+  totalWar: number;
+  totalValue: number;
+  totalCost: number;
+  surplus: number; // Club surplus, nominal
+  presentValue: number;
+  presentCost: number;
+  presentSurplus: number; // Club surplus, discounted to the first contract season
+  dollarsPerWar: number | null;
+}
+
+// Valuation Comps
+// ============================================================================
+
+// How a comp's money is restated in today's dollars
+export type CompAdjustmentMethod = 'inflation' | 'revenue' | 'cbt';
+
+// A signed contract usable as a comp
+export interface SignedComp {
+  id: string;
+  name: string;
+  position: string; // Primary position
+  signedYear: number; // First season of the contract
+  years: number;
+  aav: number; // $M
+  totalValue: number; // $M
+  signingAge: number | null;
+  preSigningWar: number | null; // 3-year average WAR before signing, when stats are loaded
+}
+
+export interface AdjustedComp extends SignedComp {
+  factor: number; // Multiplier from signing-year to present-year dollars
+  adjustedAAV: number;
+  adjustedTotalValue: number;
+}
+
+// Comp Similarity
+// ============================================================================
+
+// One term of a similarity score: a weighted stat, age at signing or era
+export interface SimilarityFactor {
+  key: string; // Stat config key, or 'age' / 'era'
+  label: string;
+  targetValue: number;
+  compValue: number;
+  weight: number; // Share of the total weight (0-1)
+  similarity: number; // 0-100, how close this term alone is
+  distanceShare: number; // Share of the comp's total distance (0-1)
+}
+
+export interface CompSimilarity {
+  compId: string;
+  score: number; // 0-100
+  signedYear: number;
+  signingAge: number | null;
+  adjustedAAV: number; // $M in present-year dollars
+  usesPlatformStats: boolean; // False when the comp has no pre-signing seasons loaded
+  factors: SimilarityFactor[]; // Stats by weight, then age and era
+}
+
+// Data Health
+// ============================================================================
+
+export type DataIssueKind =
+  | 'parse-error'
+  | 'unmatched'
+  | 'duplicate-key'
+  | 'missing-column'
+  | 'coercion'
+  | 'team-conflict';
+
+// One problem found while ingesting a CSV
+export interface DataIssue {
+  kind: DataIssueKind;
+  source: string; // CSV path, e.g. '/spotrac.csv'
+  row: number | null; // 1-based data row (header excluded)
+  player: string | null; // Display name, when the row names one
+  field: string | null;
+  value: string | null;
+  message: string;
+}
+
+export interface DataSourceReport {
+  source: string;
+  label: string;
+  loaded: boolean;
+  loadError: string | null;
+  rowCount: number;
+  issueCounts: Record<DataIssueKind, number>;
+}
+
+export interface DataHealthReport {
+  generatedAt: string; // ISO timestamp
+  sources: DataSourceReport[];
+  issues: DataIssue[];
 }
 
 // Team Payroll Data
 // ============================================================================
 
+export type CbtTier = 'under' | 'tier1' | 'tier2' | 'tier3' | 'tier4';
+
 export interface TeamPayroll {
   teamId: string;
   teamName: string;
@@ -181,7 +625,7 @@ export interface PayrollProjection {
   basePayroll: number;
   playerContract: number;
   totalPayroll: number;
-  luxuryTaxStatus: 'under' | 'tier1' | 'tier2' | 'tier3';
+  luxuryTaxStatus: CbtTier;
 }
 
 // API Response Types